@@ -6,6 +6,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { useEffect, useState } from "react";
 import Index from "./pages/Index";
+import Calibration from "./pages/Calibration";
+import Evaluation from "./pages/Evaluation";
+import AlertPolicy from "./pages/AlertPolicy";
 import NotFound from "./pages/NotFound";
 import { NavigationProvider } from './context/NavigationContext';
 
@@ -61,6 +64,9 @@ const App = () => {
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/calibration" element={<Calibration />} />
+              <Route path="/evaluation" element={<Evaluation />} />
+              <Route path="/alerts" element={<AlertPolicy />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -46,7 +46,10 @@ const EmergencyAlert: React.FC<EmergencyAlertProps> = ({ className }) => {
               {emergencyStatus.response || `${emergencyStatus.level.toUpperCase()} ALERT`}
             </p>
             {emergencyStatus.type && (
-              <p className="text-sm opacity-90">{emergencyStatus.type.replace('_', ' ')}</p>
+              <p className="text-sm opacity-90">{emergencyStatus.type.replace(/_/g, ' ')}</p>
+            )}
+            {emergencyStatus.collision && emergencyStatus.triggers.length > 0 && (
+              <p className="text-xs opacity-80">{emergencyStatus.triggers[0].details}</p>
             )}
           </div>
         </div>
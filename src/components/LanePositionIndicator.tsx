@@ -2,7 +2,29 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { useNavigation } from '@/context/NavigationContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, ArrowRight, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, ArrowRight, AlertTriangle, CornerUpLeft, CornerUpRight, ArrowUp } from 'lucide-react';
+import { LaneLineType } from '@/types/navigation';
+
+// Bends tighter than this radius (m) are flagged in the header
+const SHARP_BEND_RADIUS = 500;
+
+const LINE_COLORS: Record<LaneLineType['color'], string> = {
+  white: '#f5f5f5',
+  yellow: '#facc15',
+  unknown: '#6b7280'
+};
+
+/**
+ * Whether a lane line may be crossed: dashed lines yes, solid and double lines no
+ */
+const mayCross = (line: LaneLineType) => {
+  if (line.style === 'dashed') return true;
+  if (line.style === 'solid' || line.style === 'double') return false;
+  return null;
+};
+
+const describeLine = (line: LaneLineType) =>
+  line.style === 'unknown' ? 'not detected' : `${line.style} ${line.color === 'unknown' ? '' : line.color}`.trim();
 
 const LanePositionIndicator: React.FC = () => {
   const { navigationState } = useNavigation();
@@ -139,52 +161,85 @@ const LanePositionIndicator: React.FC = () => {
         const width = canvas.width;
         const height = canvas.height;
         
-        // Calculate offset (scale offset to fit indicator)
-        const maxOffset = 50; // max offset value from laneOffset
-        const offsetPercentage = Math.min(Math.abs(laneOffset.value) / maxOffset, 1);
-        const direction = laneOffset.value < 0 ? -1 : 1; // -1 for left, 1 for right
+        // Top-down view of the lane: bottom is at the car, top is the road ahead
+        const laneWidth = width * 0.4;
+        const laneLeft = (width - laneWidth) / 2;
+        const roadTop = height * 0.05;
+        const roadBottom = height;
+        const roadMid = (roadTop + roadBottom) / 2;
         
-        // Draw road
-        ctx.fillStyle = '#333';
-        ctx.fillRect(width * 0.1, height * 0.4, width * 0.8, height * 0.2);
+        // Bend the lane toward the curve, more for tighter curves
+        const bendSign = laneOffset.curveDirection === 'Right' ? 1 : laneOffset.curveDirection === 'Left' ? -1 : 0;
+        const bendStrength = laneOffset.curveRadius ? Math.min(1, 300 / laneOffset.curveRadius) : 0;
+        const bendShift = bendSign * bendStrength * width * 0.15;
+        
+        const traceBoundary = (x: number) => {
+          ctx.beginPath();
+          ctx.moveTo(x, roadBottom);
+          ctx.quadraticCurveTo(x, roadMid, x + bendShift, roadTop);
+        };
         
-        // Draw center line (dashed)
-        ctx.strokeStyle = '#fff';
-        ctx.setLineDash([5, 5]);
+        // Draw road surface
+        ctx.fillStyle = '#333';
         ctx.beginPath();
-        ctx.moveTo(width / 2, height * 0.4);
-        ctx.lineTo(width / 2, height * 0.6);
-        ctx.stroke();
-        ctx.setLineDash([]);
+        ctx.moveTo(laneLeft, roadBottom);
+        ctx.quadraticCurveTo(laneLeft, roadMid, laneLeft + bendShift, roadTop);
+        ctx.lineTo(laneLeft + laneWidth + bendShift, roadTop);
+        ctx.quadraticCurveTo(laneLeft + laneWidth, roadMid, laneLeft + laneWidth, roadBottom);
+        ctx.closePath();
+        ctx.fill();
+        
+        // Draw lane lines in their detected style and color
+        const drawBoundary = (x: number, line: LaneLineType) => {
+          ctx.strokeStyle = LINE_COLORS[line.color];
+          ctx.lineWidth = 2;
+          ctx.setLineDash(line.style === 'dashed' ? [8, 8] : line.style === 'unknown' ? [2, 6] : []);
+          if (line.style === 'double') {
+            traceBoundary(x - 2.5);
+            ctx.stroke();
+            traceBoundary(x + 2.5);
+            ctx.stroke();
+          } else {
+            traceBoundary(x);
+            ctx.stroke();
+          }
+          ctx.setLineDash([]);
+        };
+        drawBoundary(laneLeft, laneOffset.leftLine);
+        drawBoundary(laneLeft + laneWidth, laneOffset.rightLine);
         
         // Draw car indicator
-        const carWidth = width * 0.12;
-        const carHeight = height * 0.25;
+        const carWidth = width * 0.08;
+        const carHeight = height * 0.3;
+        
+        // Position car based on offset (percent of lane width) and turn it by its heading
+        const maxShift = laneWidth / 2;
+        const offsetX = Math.max(-maxShift, Math.min(maxShift, (laneOffset.value / 100) * laneWidth));
+        const carCenterX = width / 2 + offsetX;
+        const carCenterY = height * 0.75;
+        const headingRadians = Math.max(-15, Math.min(15, laneOffset.heading * 2)) * Math.PI / 180;
         
-        // Position car based on offset
-        const centerX = width / 2;
-        const offsetX = direction * offsetPercentage * (width * 0.3); // Max car movement
-        const carX = centerX + offsetX - carWidth / 2;
-        const carY = height * 0.65;
+        ctx.save();
+        ctx.translate(carCenterX, carCenterY);
+        ctx.rotate(headingRadians);
+        const carX = -carWidth / 2;
+        const carY = -carHeight / 2;
         
         // Draw car body
         ctx.fillStyle = '#3b82f6'; // Blue color
         ctx.fillRect(carX, carY, carWidth, carHeight);
         
-        // Draw car roof
-        ctx.beginPath();
-        ctx.moveTo(carX + carWidth * 0.2, carY);
-        ctx.lineTo(carX + carWidth * 0.3, carY - carHeight * 0.3);
-        ctx.lineTo(carX + carWidth * 0.7, carY - carHeight * 0.3);
-        ctx.lineTo(carX + carWidth * 0.8, carY);
-        ctx.closePath();
+        // Draw windshield
         ctx.fillStyle = '#2563eb'; // Darker blue
-        ctx.fill();
+        ctx.fillRect(carX + carWidth * 0.15, carY + carHeight * 0.15, carWidth * 0.7, carHeight * 0.2);
         
         // Draw wheels
         ctx.fillStyle = '#000';
-        ctx.fillRect(carX - carWidth * 0.05, carY + carHeight * 0.75, carWidth * 0.2, carHeight * 0.25);
-        ctx.fillRect(carX + carWidth * 0.85, carY + carHeight * 0.75, carWidth * 0.2, carHeight * 0.25);
+        ctx.fillRect(carX - carWidth * 0.15, carY + carHeight * 0.1, carWidth * 0.15, carHeight * 0.2);
+        ctx.fillRect(carX + carWidth, carY + carHeight * 0.1, carWidth * 0.15, carHeight * 0.2);
+        ctx.fillRect(carX - carWidth * 0.15, carY + carHeight * 0.7, carWidth * 0.15, carHeight * 0.2);
+        ctx.fillRect(carX + carWidth, carY + carHeight * 0.7, carWidth * 0.15, carHeight * 0.2);
+        ctx.restore();
         
         // Draw warning icon if offset is significant
         if (Math.abs(laneOffset.value) > 25) {
@@ -226,11 +281,18 @@ const LanePositionIndicator: React.FC = () => {
             <span className="text-xl mr-2">🛣️</span>
             Lane Position
           </div>
-          {Math.abs(laneOffset.value) > 25 && (
+          {Math.abs(laneOffset.value) > 25 ? (
             <div className="flex items-center text-xs bg-red-900/50 text-red-300 px-2 py-1 rounded">
               <AlertTriangle className="w-3 h-3 mr-1" />
               Lane Departure
             </div>
+          ) : laneOffset.curveRadius !== null && laneOffset.curveRadius < SHARP_BEND_RADIUS && (
+            <div className="flex items-center text-xs bg-yellow-900/50 text-yellow-300 px-2 py-1 rounded">
+              {laneOffset.curveDirection === 'Left'
+                ? <CornerUpLeft className="w-3 h-3 mr-1" />
+                : <CornerUpRight className="w-3 h-3 mr-1" />}
+              Bend Ahead
+            </div>
           )}
         </CardTitle>
       </CardHeader>
@@ -274,10 +336,40 @@ const LanePositionIndicator: React.FC = () => {
                   ? "text-yellow-400"
                   : "text-red-400"
             }>
-              {Math.abs(laneOffset.value).toFixed(1)}px
+              {Math.abs(laneOffset.value).toFixed(0)}%
             </span>
           </div>
         </div>
+        <div className="mt-1 flex justify-between items-center text-sm">
+          <div className="flex items-center">
+            <span className="text-gray-400 mr-1">Road: </span>
+            {laneOffset.curveDirection === 'Left' && <CornerUpLeft className="h-3 w-3 mr-1" />}
+            {laneOffset.curveDirection === 'Right' && <CornerUpRight className="h-3 w-3 mr-1" />}
+            {laneOffset.curveDirection === 'Straight' && <ArrowUp className="h-3 w-3 mr-1" />}
+            {laneOffset.curveRadius !== null
+              ? `Bend ${laneOffset.curveDirection.toLowerCase()}, R ${Math.round(laneOffset.curveRadius)} m`
+              : 'Straight'}
+          </div>
+          <div>
+            <span className="text-gray-400">Heading: </span>
+            {laneOffset.heading > 0 ? '+' : ''}{laneOffset.heading.toFixed(1)}°
+          </div>
+        </div>
+        <div className="mt-1 grid grid-cols-2 gap-2 text-xs">
+          {([['Left', laneOffset.leftLine], ['Right', laneOffset.rightLine]] as const).map(([side, line]) => {
+            const crossable = mayCross(line);
+            return (
+              <div key={side} className="flex flex-col">
+                <span className="text-gray-400">{side} line: {describeLine(line)}</span>
+                {crossable !== null && (
+                  <span className={crossable ? "text-green-400" : "text-red-400"}>
+                    {crossable ? "May cross" : "Do not cross"}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
       </CardContent>
     </Card>
   );
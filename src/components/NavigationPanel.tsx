@@ -13,8 +13,13 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({ className }) => {
   const { 
     route, 
     nextInstruction, 
-    distanceToNextInstruction
+    distanceToNextInstruction,
+    currentSpeed,
+    speedLimit
   } = navigationState;
+  
+  // Allow a little slack before flagging speeding, like a real speedometer reading
+  const overLimit = speedLimit !== null && currentSpeed > speedLimit.value + 3;
 
   return (
     <div className={`navigation-panel ${className || ''}`}>
@@ -23,14 +28,30 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({ className }) => {
           <Navigation className="w-5 h-5 mr-2 text-navigation" /> 
           Navigation Guidance
         </h2>
-        {route && (
-          <div className="text-sm">
-            <span className="text-gray-400">ETA: </span>
-            <span className="font-medium">{Math.ceil(route.duration)} min</span>
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          {route && (
+            <div className="text-sm">
+              <span className="text-gray-400">ETA: </span>
+              <span className="font-medium">{Math.ceil(route.duration)} min</span>
+            </div>
+          )}
+          {speedLimit && (
+            <div 
+              className={`w-10 h-10 rounded-full border-4 border-red-600 bg-white text-black flex items-center justify-center font-bold text-sm ${overLimit ? 'animate-pulse' : ''}`}
+              title={`Speed limit ${speedLimit.value} km/h (${Math.round(speedLimit.confidence * 100)}% confidence)`}
+            >
+              {speedLimit.value}
+            </div>
+          )}
+        </div>
       </div>
       
+      {overLimit && (
+        <div className="bg-red-600/20 text-red-300 rounded-md px-3 py-1 mb-3 text-sm">
+          {Math.round(currentSpeed)} km/h - above the {speedLimit.value} km/h limit
+        </div>
+      )}
+      
       {nextInstruction ? (
         <>
           <div className="bg-navigation/20 rounded-lg p-3 mb-4">
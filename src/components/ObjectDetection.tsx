@@ -5,120 +5,66 @@ import {
   AlertCircle, Car, User, Truck, Bus, Bike, CircleAlert, 
   Octagon, Box, AlertTriangle, BarChart
 } from 'lucide-react';
-import { DetectedObject } from '@/types/navigation';
+import { DetectedObject, LanePosition, RiskLevel } from '@/types/navigation';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSignClass } from '@/services/detection/signTaxonomy';
+import { useDetectionFilters } from '@/hooks/useDetectionFilters';
+import { meetsThreshold } from '@/services/DetectionFilterService';
 
-// Define types
-const DetectionModelType = {
-  TRAFFIC_SIGN: 'TRAFFIC_SIGN',
-  YOLO: 'YOLO',
-  NONE: 'NONE'
+const LANE_LABELS: Record<LanePosition, string> = {
+  ego: 'in lane',
+  adjacent: 'next lane',
+  outside: 'off lane',
+  unknown: ''
 };
 
 interface ObjectDetectionProps {
   className?: string;
-  confidenceThreshold?: number;
+  confidenceThreshold?: number; // overrides the general threshold from the detection filters
 }
 
 const ObjectDetection: React.FC<ObjectDetectionProps> = ({ 
   className,
-  confidenceThreshold = 0.5
+  confidenceThreshold: confidenceThresholdProp
 }) => {
   const { navigationState } = useNavigation();
+  const { filters } = useDetectionFilters();
+  const confidenceThreshold = confidenceThresholdProp ?? filters.confidenceThreshold;
+  const classThresholdCount = Object.keys(filters.classThresholds).length;
   const { detectedObjects, laneOffset } = navigationState;
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const laneCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [activeModel, setActiveModel] = useState(DetectionModelType.NONE);
-  const [modelStatus, setModelStatus] = useState('Loading models...');
+  const { backends, activeId, realInference, statusMessage, switching, selectBackend } = useDetectorBackends();
+  const unavailableModels = backends.filter(backend => backend.capabilities.realInference && backend.status === 'error');
   
-  // Initialize object detectors
-  useEffect(() => {
-    let trafficModelLoaded = false;
-    let yoloModelLoaded = false;
-    
-    const loadTrafficModel = async () => {
-      try {
-        // In a real implementation, you would use TensorFlow.js to load the models
-        // For demo purposes, we'll simulate loading
-        console.log('Loading traffic sign classifier model...');
-        
-        // Simulate loading delay
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        
-        console.log('Traffic sign classifier loaded successfully');
-        trafficModelLoaded = true;
-        setActiveModel(DetectionModelType.TRAFFIC_SIGN);
-        setModelStatus('Using traffic sign classifier');
-        
-        // Start detection after model is loaded
-        startObjectDetection();
-      } catch (error) {
-        console.error('Failed to load traffic sign classifier:', error);
-        setModelStatus('Traffic sign model failed, using YOLO fallback');
-        
-        // If traffic model fails, try to load YOLO
-        if (!yoloModelLoaded) {
-          loadYoloModel();
-        }
-      }
-    };
-    
-    const loadYoloModel = async () => {
-      try {
-        console.log('Loading YOLO model...');
-        
-        // Simulate loading delay
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        console.log('YOLO model loaded successfully');
-        yoloModelLoaded = true;
-        
-        // Only set to YOLO if traffic model failed
-        if (!trafficModelLoaded) {
-          setActiveModel(DetectionModelType.YOLO);
-          setModelStatus('Using YOLO model');
-          startObjectDetection();
-        }
-      } catch (error) {
-        console.error('Failed to load YOLO model:', error);
-        setModelStatus('All models failed to load');
-      }
-    };
-    
-    // Load models
-    loadTrafficModel();
-    
-    // Cleanup function
-    return () => {
-      // Cleanup code for models if needed
-    };
-  }, []);
+  // Filter objects by the general and per-class confidence thresholds
+  const filteredObjects = detectedObjects.filter(obj => meetsThreshold({ ...filters, confidenceThreshold }, obj));
   
-  // Mock function to simulate object detection
-  const startObjectDetection = () => {
-    // In a real app, this would connect to your webcam and process frames
-    console.log('Starting object detection with model:', activeModel);
-    
-    // For demo purposes, we'll use the mock data already provided
-    // In a real implementation, this would process video frames
+  // Group objects by their risk score; objects without one (no box to place them) fall back to their class
+  const riskLevelOf = (obj: DetectedObject): RiskLevel => {
+    if (obj.risk) return obj.risk.level;
+    const lowerType = obj.type.toLowerCase();
+    if (['person', 'bicycle', 'motorcycle', 'pedestrian'].includes(lowerType)) return 'high';
+    if (['car', 'truck', 'bus', 'traffic light', 'stop sign', 'traffic sign'].includes(lowerType)) return 'medium';
+    return 'low';
   };
+  const byRisk = (level: RiskLevel) => filteredObjects
+    .filter(obj => riskLevelOf(obj) === level)
+    .sort((a, b) => (b.risk?.score ?? 0) - (a.risk?.score ?? 0));
   
-  // Filter objects by confidence threshold
-  const filteredObjects = detectedObjects.filter(obj => 
-    typeof obj.confidence === 'undefined' || obj.confidence >= confidenceThreshold
-  );
-  
-  // Group objects by potential risk (using the logic from the existing code)
-  const highRiskObjects = filteredObjects.filter(obj => 
-    ['person', 'bicycle', 'motorcycle', 'pedestrian'].includes(obj.type.toLowerCase())
-  );
+  const highRiskObjects = byRisk('high');
+  const mediumRiskObjects = byRisk('medium');
+  const lowRiskObjects = byRisk('low');
   
-  const mediumRiskObjects = filteredObjects.filter(obj => 
-    ['car', 'truck', 'bus', 'traffic light', 'stop sign'].includes(obj.type.toLowerCase())
-  );
-  
-  const lowRiskObjects = filteredObjects.filter(obj => 
-    !['person', 'pedestrian', 'bicycle', 'motorcycle', 'car', 'truck', 'bus', 'traffic light', 'stop sign'].includes(obj.type.toLowerCase())
+  // Risk score and lane position shown under an object's name
+  const renderRisk = (obj: DetectedObject) => obj.risk && (
+    <div className="text-[10px] text-gray-400">
+      Risk {Math.round(obj.risk.score * 100)}
+      {LANE_LABELS[obj.risk.lane] && ` · ${LANE_LABELS[obj.risk.lane]}`}
+      {obj.risk.approaching && <span className="text-red-300"> · entering</span>}
+    </div>
   );
 
   // Helper function to determine object icon
@@ -156,17 +102,13 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
     // Draw objects
     filteredObjects.forEach((obj, index) => {
       // Determine color based on risk level
-      let color = '#3b82f6'; // blue for default
-      const lowerType = obj.type.toLowerCase();
-      
-      if (['person', 'pedestrian', 'bicycle', 'motorcycle'].includes(lowerType)) {
-        color = '#ef4444'; // red for high risk
-      } else if (['car', 'truck', 'bus', 'traffic light', 'stop sign'].includes(lowerType)) {
-        color = '#f59e0b'; // amber for medium risk
-      }
+      const level = riskLevelOf(obj);
+      const color = level === 'high' ? '#ef4444' // red for high risk
+        : level === 'medium' ? '#f59e0b' // amber for medium risk
+        : '#3b82f6'; // blue for the rest
       
-      // Generate semi-random but stable positions based on object index and type
-      const seed = index * 100 + obj.type.length;
+      // Generate semi-random but stable positions based on track id (or index) and type
+      const seed = (obj.trackId ?? index) * 100 + obj.type.length;
       const boxWidth = 60 + (seed % 40);
       const boxHeight = 50 + (seed % 30);
       const xPos = (seed % (canvas.width - boxWidth - 20)) + 10;
@@ -186,6 +128,15 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
         label = `${obj.type} (${Math.round(obj.confidence * 100)}%)`;
       }
       
+      if (obj.risk) {
+        label = `${label} risk ${Math.round(obj.risk.score * 100)}`;
+      }
+      
+      // Prefix with the track id so the same object keeps the same label
+      if (typeof obj.trackId !== 'undefined') {
+        label = `#${obj.trackId} ${label}`;
+      }
+      
       const labelWidth = context.measureText(label).width + 10;
       context.fillRect(xPos, yPos - 20, labelWidth, 20);
       
@@ -282,16 +233,50 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
       <div className="flex justify-between items-center mb-3">
         <h2 className="text-lg font-bold">Road Detection</h2>
         <div className="flex items-center gap-2">
-          <div className="text-xs px-2 py-1 bg-blue-500/20 rounded text-blue-300">{modelStatus}</div>
+          <div className="text-xs px-2 py-1 bg-blue-500/20 rounded text-blue-300">{statusMessage}</div>
           {confidenceThreshold > 0 && (
             <div className="text-xs px-2 py-1 bg-green-500/20 rounded text-green-300 flex items-center">
               <BarChart className="w-3 h-3 mr-1" />
               {Math.round(confidenceThreshold * 100)}% threshold
+              {classThresholdCount > 0 && ` +${classThresholdCount} per class`}
             </div>
           )}
         </div>
       </div>
       
+      {/* Detector backend selection */}
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-sm font-medium">Detector</h3>
+        <Select
+          value={activeId || undefined}
+          onValueChange={selectBackend}
+          disabled={switching}
+        >
+          <SelectTrigger className="h-8 w-[200px] text-xs">
+            <SelectValue placeholder="Select detector" />
+          </SelectTrigger>
+          <SelectContent>
+            {backends.map(backend => (
+              <SelectItem key={backend.id} value={backend.id} className="text-xs">
+                {backend.name}
+                {backend.status === 'loading' && ' (loading)'}
+                {backend.status === 'error' && ' (unavailable)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {!realInference && unavailableModels.length > 0 && (
+        <div className="text-xs text-amber-300 bg-amber-500/10 rounded p-2 mb-4 space-y-1">
+          {unavailableModels.map(backend => (
+            <p key={backend.id}>{backend.name}: {backend.error}</p>
+          ))}
+          <p className="text-gray-400">
+            Showing simulated detections. Calibrated distances, dataset export and frame enhancement need a model.
+          </p>
+        </div>
+      )}
+      
       {/* Lane detection visualization */}
       <div className="space-y-3 mb-4">
         <h3 className="text-sm font-medium">Lane Detection</h3>
@@ -301,7 +286,7 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
             className="w-full h-full" 
           />
           <div className="absolute bottom-2 right-2 bg-black/60 text-xs px-2 py-1 rounded text-white">
-            Offset: {Math.abs(laneOffset.value)}px {laneOffset.direction}
+            Offset: {Math.abs(laneOffset.value).toFixed(0)}% {laneOffset.direction}
           </div>
         </div>
       </div>
@@ -312,7 +297,7 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
       {filteredObjects.length === 0 ? (
         <div className="text-center py-4 text-gray-400">
           <p>{detectedObjects.length > 0 
-            ? `No objects above ${Math.round(confidenceThreshold * 100)}% confidence threshold` 
+            ? "No objects above their confidence thresholds" 
             : "No objects detected"}
           </p>
         </div>
@@ -337,17 +322,21 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
               <div className="grid grid-cols-2 gap-2">
                 {highRiskObjects.map((obj, index) => (
                   <div 
-                    key={`high-${index}`} 
+                    key={obj.trackId !== undefined ? `high-track-${obj.trackId}` : `high-${index}`} 
                     className="flex items-center gap-2 bg-red-900/30 rounded px-2 py-1"
                   >
                     <span className="text-lg">{getObjectIcon(obj.type)}</span>
                     <div>
                       <span className="text-xs text-gray-300">{obj.type}</span>
+                      {obj.trackId !== undefined && (
+                        <span className="text-[10px] text-gray-500 ml-1">#{obj.trackId}</span>
+                      )}
                       {obj.confidence ? (
                         <span className="text-sm font-bold ml-1 text-white">{Math.round(obj.confidence * 100)}%</span>
                       ) : (
                         <span className="text-sm font-bold ml-1 text-white">{obj.count}</span>
                       )}
+                      {renderRisk(obj)}
                     </div>
                   </div>
                 ))}
@@ -361,17 +350,33 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
               <div className="grid grid-cols-2 gap-2">
                 {mediumRiskObjects.map((obj, index) => (
                   <div 
-                    key={`med-${index}`} 
+                    key={obj.trackId !== undefined ? `med-track-${obj.trackId}` : `med-${index}`} 
                     className="flex items-center gap-2 bg-yellow-900/30 rounded px-2 py-1"
                   >
                     <span className="text-lg">{getObjectIcon(obj.type)}</span>
                     <div>
                       <span className="text-xs text-gray-300">{obj.type}</span>
+                      {obj.lightState && obj.lightState !== 'unknown' && (
+                        <span className={`text-[10px] font-bold uppercase ml-1 ${
+                          obj.lightState === 'red' ? 'text-red-400' : obj.lightState === 'green' ? 'text-green-400' : 'text-amber-400'
+                        }`}>
+                          {obj.lightState}
+                        </span>
+                      )}
+                      {getSignClass(obj.signClass) && (
+                        <span className="text-[10px] font-bold ml-1 text-yellow-300">
+                          {getSignClass(obj.signClass).label}
+                        </span>
+                      )}
+                      {obj.trackId !== undefined && (
+                        <span className="text-[10px] text-gray-500 ml-1">#{obj.trackId}</span>
+                      )}
                       {obj.confidence ? (
                         <span className="text-sm font-bold ml-1 text-white">{Math.round(obj.confidence * 100)}%</span>
                       ) : (
                         <span className="text-sm font-bold ml-1 text-white">{obj.count}</span>
                       )}
+                      {renderRisk(obj)}
                     </div>
                   </div>
                 ))}
@@ -385,17 +390,21 @@ const ObjectDetection: React.FC<ObjectDetectionProps> = ({
               <div className="grid grid-cols-2 gap-2">
                 {lowRiskObjects.map((obj, index) => (
                   <div 
-                    key={`low-${index}`} 
+                    key={obj.trackId !== undefined ? `low-track-${obj.trackId}` : `low-${index}`} 
                     className="flex items-center gap-2 bg-blue-900/30 rounded px-2 py-1"
                   >
                     <span className="text-lg">{getObjectIcon(obj.type)}</span>
                     <div>
                       <span className="text-xs text-gray-300">{obj.type}</span>
+                      {obj.trackId !== undefined && (
+                        <span className="text-[10px] text-gray-500 ml-1">#{obj.trackId}</span>
+                      )}
                       {obj.confidence ? (
                         <span className="text-sm font-bold ml-1 text-white">{Math.round(obj.confidence * 100)}%</span>
                       ) : (
                         <span className="text-sm font-bold ml-1 text-white">{obj.count}</span>
                       )}
+                      {renderRisk(obj)}
                     </div>
                   </div>
                 ))}
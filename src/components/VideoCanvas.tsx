@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, useLayoutEffect, useCallback } from 'react';
 import { Clock, Camera, CameraOff, Hospital } from 'lucide-react';
+import SimulationService from '@/services/SimulationService';
 
 interface VideoCanvasProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
@@ -548,11 +549,11 @@ const PointOfInterestIndicator = ({
   distance: string; 
   direction: string 
 }) => {
-  // Use a ref to ensure the random value is stable across renders
-  const shouldShowRef = useRef(Math.random() > 0.5);
+  // Lazy state keeps the random value stable across renders and draws it only once
+  const [shouldShow] = useState(() => SimulationService.stream('poi').chance(0.5));
   const uniqueId = useRef(`poi-${type}-${distance}-${Date.now()}`).current;
   
-  if (!shouldShowRef.current) return null;
+  if (!shouldShow) return null;
   
   let bgColor = "bg-blue-500/80";
   let icon = "🏢";
@@ -2,9 +2,20 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { Camera, Video, Upload } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Video, Upload, Dices, Clapperboard, Play, Square, FileClock, Circle, SlidersHorizontal, X } from 'lucide-react';
 import { AlertCircle, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { useSimulation } from '@/hooks/useSimulation';
+import { parseSeed } from '@/services/SimulationService';
+import { useScenario } from '@/hooks/useScenario';
+import { useDetectionLog } from '@/hooks/useDetectionLog';
+import DatasetExportControls from '@/components/video/DatasetExportControls';
+import RoiControls from '@/components/video/RoiControls';
+import PreprocessingControls from '@/components/video/PreprocessingControls';
+import { useDetectionFilters } from '@/hooks/useDetectionFilters';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
 
 interface VideoControlsProps {
   onFileUpload: (file: File) => void;
@@ -36,6 +47,33 @@ const VideoControls: React.FC<VideoControlsProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [emergency, setEmergency] = useState<boolean>(false);
   const { toast } = useToast();
+  const { seed, seedSource, setSeed } = useSimulation();
+  const [seedInput, setSeedInput] = useState<string>(seed !== null ? String(seed) : '');
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+  const {
+    scenarios,
+    activeScenarioId,
+    scenarioStatus,
+    scenarioTime,
+    scenarioDuration,
+    playScenario,
+    stopScenario,
+    loadScenarioFile
+  } = useScenario();
+  const logInputRef = useRef<HTMLInputElement>(null);
+  const {
+    logRecording,
+    recordedFrames,
+    replay,
+    replayMatchesVideo,
+    startLogRecording,
+    stopLogRecording,
+    replayLogFile,
+    stopReplay
+  } = useDetectionLog();
+  const { filters, updateFilters, setClassThreshold } = useDetectionFilters();
+  const { backends, activeId } = useDetectorBackends();
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string>(() => activeScenarioId || scenarios[0]?.id || '');
 
   const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -66,6 +104,97 @@ const VideoControls: React.FC<VideoControlsProps> = ({
     });
   };
 
+  const handleApplySeed = () => {
+    const parsed = parseSeed(seedInput);
+    if (parsed === null) {
+      toast({
+        variant: "destructive",
+        title: "Invalid seed",
+        description: "Use a whole number between 0 and 4294967295"
+      });
+      return;
+    }
+    
+    setSeed(parsed);
+    toast({
+      title: `Simulation seed ${parsed}`,
+      description: "Start navigation to replay this seed from the beginning"
+    });
+  };
+  
+  const handleClearSeed = () => {
+    setSeed(null);
+    setSeedInput('');
+    toast({
+      title: "Simulation unseeded",
+      description: "Simulated data is random again"
+    });
+  };
+
+  const handleScenarioFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow loading the same file again after fixing it
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const scenario = await loadScenarioFile(file);
+      setSelectedScenarioId(scenario.id);
+      toast({
+        title: `Scenario loaded: ${scenario.name}`,
+        description: `${scenario.events.length} events over ${scenario.duration} seconds`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Invalid scenario file",
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+  
+  const handleLogRecordingClick = () => {
+    if (!logRecording) {
+      startLogRecording();
+      return;
+    }
+    const frames = stopLogRecording();
+    toast({
+      title: "Detection log saved",
+      description: `${frames} frames recorded`
+    });
+  };
+  
+  const handleLogFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const log = await replayLogFile(file);
+      toast({
+        title: "Replaying detection log",
+        description: log.header.video
+          ? `${log.entries.length} frames recorded on ${log.header.video.name}`
+          : `${log.entries.length} frames recorded from the camera`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Invalid detection log",
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+  
+  // Types the active backend can report that don't have their own threshold yet
+  const activeClasses = backends.find(backend => backend.id === activeId)?.capabilities.classes || [];
+  const classThresholds = Object.entries(filters.classThresholds).sort(([a], [b]) => a.localeCompare(b));
+  const unthresholdedClasses = activeClasses.filter(type => !(type.toLowerCase() in filters.classThresholds));
+
+  const selectedScenario = scenarios.find(scenario => scenario.id === selectedScenarioId);
+  const scenarioPlaying = scenarioStatus === 'playing';
+
   return (
     <div className="navigation-panel">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -149,6 +278,213 @@ const VideoControls: React.FC<VideoControlsProps> = ({
           </p>
         </div>
 
+        <div className="space-y-2 col-span-1 md:col-span-2">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-medium flex items-center">
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Per-Class Thresholds
+            </h3>
+            <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+              {classThresholds.length === 0 ? 'None' : `${classThresholds.length} set`}
+            </span>
+          </div>
+          {classThresholds.map(([type, threshold]) => (
+            <div key={type} className="flex items-center gap-2">
+              <span className="text-xs w-24 truncate capitalize">{type}</span>
+              <Slider
+                value={[threshold]}
+                min={0}
+                max={1}
+                step={0.05}
+                onValueChange={value => setClassThreshold(type, value[0])}
+                className="flex-1"
+              />
+              <span className="text-xs w-10 text-right text-blue-300">{Math.round(threshold * 100)}%</span>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setClassThreshold(type, null)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Select value="" onValueChange={type => setClassThreshold(type, confidenceThreshold)}>
+            <SelectTrigger className="h-8 text-xs" disabled={unthresholdedClasses.length === 0}>
+              <SelectValue placeholder="Add a class threshold" />
+            </SelectTrigger>
+            <SelectContent>
+              {unthresholdedClasses.map(type => (
+                <SelectItem key={type} value={type} className="text-xs">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={filters.nmsEnabled ? "default" : "outline"}
+              size="sm"
+              onClick={() => updateFilters({ nmsEnabled: !filters.nmsEnabled })}
+              className="h-7 text-xs"
+            >
+              {filters.nmsEnabled ? "Duplicates Removed" : "Keep Duplicates"}
+            </Button>
+            <Slider
+              value={[filters.nmsIoU]}
+              min={0.2}
+              max={0.9}
+              step={0.05}
+              onValueChange={value => updateFilters({ nmsIoU: value[0] })}
+              disabled={!filters.nmsEnabled}
+              className="flex-1"
+            />
+            <span className="text-xs w-16 text-right text-blue-300">IoU {Math.round(filters.nmsIoU * 100)}%</span>
+          </div>
+          <p className="text-xs text-gray-400">
+            Classes without their own threshold use the one above. Boxes overlapping a more confident box of the same class by more than the IoU are dropped as duplicates.
+          </p>
+        </div>
+
+        <RoiControls />
+
+        <PreprocessingControls />
+
+        <div className="space-y-2 col-span-1 md:col-span-2">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-medium flex items-center">
+              <Dices className="mr-2 h-4 w-4" />
+              Simulation Seed
+            </h3>
+            <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+              {seed === null ? 'Random' : `Seed ${seed}${seedSource === 'url' ? ' (from URL)' : ''}`}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="e.g. 1234"
+              inputMode="numeric"
+              className="h-8 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleApplySeed}>
+              Apply
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleClearSeed} disabled={seed === null}>
+              Clear
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400">
+            The same seed replays the same simulated drive, detections and alerts. Add ?seed=1234 to the URL to share one.
+          </p>
+        </div>
+
+        <div className="space-y-2 col-span-1 md:col-span-2">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-medium flex items-center">
+              <Clapperboard className="mr-2 h-4 w-4" />
+              Scenario
+            </h3>
+            <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+              {scenarioPlaying
+                ? `${scenarioTime.toFixed(1)} / ${scenarioDuration} s`
+                : scenarioStatus === 'finished' ? 'Finished' : 'Off'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectedScenarioId || undefined} onValueChange={setSelectedScenarioId}>
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue placeholder="Select scenario" />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map(scenario => (
+                  <SelectItem key={scenario.id} value={scenario.id} className="text-xs">
+                    {scenario.name}
+                    {scenario.id === activeScenarioId && scenarioPlaying && ' (playing)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {scenarioPlaying ? (
+              <Button variant="outline" size="sm" onClick={stopScenario}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => playScenario(selectedScenarioId)} disabled={!selectedScenario}>
+                <Play className="mr-2 h-4 w-4" />
+                Play
+              </Button>
+            )}
+            <input
+              type="file"
+              ref={scenarioInputRef}
+              className="hidden"
+              accept=".json,.yaml,.yml"
+              onChange={handleScenarioFileChange}
+            />
+            <Button variant="ghost" size="sm" onClick={() => scenarioInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Load
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400">
+            {selectedScenario?.description || 'Scripted situations replace simulated detections while they play.'}
+          </p>
+        </div>
+
+        <div className="space-y-2 col-span-1 md:col-span-2">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-medium flex items-center">
+              <FileClock className="mr-2 h-4 w-4" />
+              Detection Log
+            </h3>
+            <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+              {replay
+                ? `Replaying ${replay.frames} frames`
+                : logRecording ? `Recording (${recordedFrames} frames)` : 'Live'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={logRecording ? "destructive" : "outline"}
+              size="sm"
+              onClick={handleLogRecordingClick}
+              disabled={replay !== null}
+              className="flex-1"
+            >
+              <Circle className="mr-2 h-4 w-4" />
+              {logRecording ? "Stop & Save" : "Record"}
+            </Button>
+            <input
+              type="file"
+              ref={logInputRef}
+              className="hidden"
+              accept=".ndjson,.jsonl,.json"
+              onChange={handleLogFileChange}
+            />
+            {replay ? (
+              <Button variant="outline" size="sm" onClick={stopReplay} className="flex-1">
+                <Square className="mr-2 h-4 w-4" />
+                Stop Replay
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logInputRef.current?.click()}
+                disabled={logRecording}
+                className="flex-1"
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Replay Log
+              </Button>
+            )}
+          </div>
+          <p className={`text-xs ${replay && !replayMatchesVideo ? 'text-yellow-400' : 'text-gray-400'}`}>
+            {replay && !replayMatchesVideo
+              ? `Recorded on ${replay.video ? replay.video.name : 'the camera'} - upload that video for the replay to line up`
+              : 'Records every detection result with its video time, to replay alerts later without running inference.'}
+          </p>
+        </div>
+
+        <DatasetExportControls />
+
         {objectDetectionEnabled && (
           <div className="col-span-1 md:col-span-2 bg-gray-800/50 rounded p-2">
             <div className="flex justify-between items-center">
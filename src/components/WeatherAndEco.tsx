@@ -3,6 +3,7 @@ import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigation } from '@/context/NavigationContext';
 import { AlertCircle } from 'lucide-react';
+import SimulationService from '@/services/SimulationService';
 
 interface WeatherApiResponse {
   temperature: number;
@@ -32,12 +33,13 @@ const WeatherAndEco: React.FC = () => {
         await new Promise(resolve => setTimeout(resolve, 1500));
         
         // Create mock weather data based on coordinates (for demonstration)
+        const random = SimulationService.stream('weather');
         const mockWeather: WeatherApiResponse = {
-          temperature: 15 + Math.round(Math.random() * 15),
-          condition: ["Sunny", "Partly Cloudy", "Cloudy", "Rainy", "Stormy"][Math.floor(Math.random() * 5)],
-          humidity: 40 + Math.round(Math.random() * 40),
-          wind: 5 + Math.round(Math.random() * 15),
-          icon: ["01d", "02d", "03d", "09d", "11d"][Math.floor(Math.random() * 5)]
+          temperature: 15 + Math.round(random.next() * 15),
+          condition: random.pick(["Sunny", "Partly Cloudy", "Cloudy", "Rainy", "Stormy"]),
+          humidity: 40 + Math.round(random.next() * 40),
+          wind: 5 + Math.round(random.next() * 15),
+          icon: random.pick(["01d", "02d", "03d", "09d", "11d"])
         };
         
         // Pass weather data to navigation context
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, Circle, Download, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useDatasetExport } from '@/hooks/useDatasetExport';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
+import { DEFAULT_IMAGE_INTERVAL, MAX_CAPTURED_FRAMES, MAX_CAPTURED_IMAGES } from '@/services/DatasetExportService';
+import { DatasetFormat } from '@/services/dataset/datasetFormats';
+
+const DatasetExportControls: React.FC = () => {
+  const { toast } = useToast();
+  const {
+    datasetVideo,
+    capturing,
+    capturedFrames,
+    capturedImages,
+    capturedClasses,
+    imageInterval,
+    startCapture,
+    stopCapture,
+    clearCapture,
+    exportDataset
+  } = useDatasetExport();
+  // Simulated detections aren't found in the video, so there is nothing to capture without a model
+  const { realInference } = useDetectorBackends();
+  const captureFull = capturedFrames >= MAX_CAPTURED_FRAMES;
+  const [sampleImages, setSampleImages] = useState<boolean>(imageInterval !== null);
+  const [intervalInput, setIntervalInput] = useState<number>(imageInterval ?? DEFAULT_IMAGE_INTERVAL);
+  const [format, setFormat] = useState<DatasetFormat>('coco');
+  const [minConfidence, setMinConfidence] = useState<number>(0.5);
+  const [fps, setFps] = useState<number>(30);
+  const [excludedClasses, setExcludedClasses] = useState<Set<string>>(() => new Set());
+  const [includeImages, setIncludeImages] = useState<boolean>(true);
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  // A new video starts with every class selected again
+  useEffect(() => {
+    setExcludedClasses(new Set());
+  }, [datasetVideo]);
+
+  const handleCaptureClick = () => {
+    if (capturing) {
+      stopCapture();
+      return;
+    }
+    try {
+      startCapture(sampleImages ? intervalInput : null);
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Can't capture",
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+
+  const toggleClass = (className: string, included: boolean) => {
+    setExcludedClasses(previous => {
+      const next = new Set(previous);
+      if (included) {
+        next.delete(className);
+      } else {
+        next.add(className);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await exportDataset({
+        format,
+        minConfidence,
+        classes: capturedClasses.map(c => c.className).filter(className => !excludedClasses.has(className)),
+        includeImages: includeImages && capturedImages > 0,
+        fps
+      });
+      toast({
+        title: "Dataset exported",
+        description: `${result.objects} boxes on ${result.frames} frames in ${result.fileName}`
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: err instanceof Error ? err.message : String(err)
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 col-span-1 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium flex items-center">
+          <Database className="mr-2 h-4 w-4" />
+          Dataset Export
+        </h3>
+        <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+          {capturing
+            ? `Capturing (${capturedFrames} frames)`
+            : capturedFrames > 0 ? `${capturedFrames} frames` : 'Off'}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant={capturing ? "destructive" : "outline"}
+          size="sm"
+          onClick={handleCaptureClick}
+          disabled={!datasetVideo || (!capturing && (!realInference || captureFull))}
+          className="flex-1"
+        >
+          <Circle className="mr-2 h-4 w-4" />
+          {capturing ? "Stop Capture" : "Capture Detections"}
+        </Button>
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          <Checkbox
+            checked={sampleImages}
+            onCheckedChange={checked => setSampleImages(checked === true)}
+            disabled={capturing}
+          />
+          Image every
+        </label>
+        <Input
+          type="number"
+          min={0.1}
+          step={0.5}
+          value={intervalInput}
+          onChange={(e) => setIntervalInput(parseFloat(e.target.value) || DEFAULT_IMAGE_INTERVAL)}
+          disabled={capturing || !sampleImages}
+          className="h-8 w-16 text-sm"
+        />
+        <span className="text-xs text-gray-400">s</span>
+      </div>
+
+      {capturedFrames > 0 && (
+        <div className="space-y-3 bg-gray-800/50 rounded p-2">
+          <div className="flex gap-2">
+            <Select value={format} onValueChange={value => setFormat(value as DatasetFormat)}>
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="coco" className="text-xs">COCO JSON</SelectItem>
+                <SelectItem value="yolo" className="text-xs">YOLO labels</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={fps}
+              onChange={(e) => setFps(parseFloat(e.target.value) || 30)}
+              className="h-8 w-16 text-sm"
+              title="Frame rate used to number frames"
+            />
+            <span className="text-xs text-gray-400 self-center">fps</span>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between items-center text-xs">
+              <span className="text-gray-300">Minimum confidence</span>
+              <span className="text-blue-300">{Math.round(minConfidence * 100)}%</span>
+            </div>
+            <Slider
+              value={[minConfidence]}
+              min={0}
+              max={1}
+              step={0.05}
+              onValueChange={value => setMinConfidence(value[0])}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {capturedClasses.map(({ className, count }) => (
+              <label key={className} className="flex items-center gap-1 text-xs text-gray-300 capitalize">
+                <Checkbox
+                  checked={!excludedClasses.has(className)}
+                  onCheckedChange={checked => toggleClass(className, checked === true)}
+                />
+                {className} ({count})
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-300 flex-1">
+              <Checkbox
+                checked={includeImages && capturedImages > 0}
+                onCheckedChange={checked => setIncludeImages(checked === true)}
+                disabled={capturedImages === 0}
+              />
+              Include {capturedImages} frame images
+            </label>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clearCapture} disabled={exporting}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {datasetVideo && !realInference && (
+        <p className="text-xs text-amber-300">
+          Capture requires a model backend: the simulated detector doesn't look at the video, so its boxes
+          can't label it. Install a detection model and select it in the detector selector.
+        </p>
+      )}
+      {captureFull && (
+        <p className="text-xs text-amber-300">
+          The capture is full at {MAX_CAPTURED_FRAMES} frames; export or clear it to capture more.
+        </p>
+      )}
+      {capturedImages >= MAX_CAPTURED_IMAGES && !captureFull && (
+        <p className="text-xs text-amber-300">
+          The {MAX_CAPTURED_IMAGES} image limit is reached; only labels are captured from here on.
+        </p>
+      )}
+      <p className="text-xs text-gray-400">
+        {datasetVideo
+          ? 'Keeps the detections on this video as pre-labels for training data. With images, only the sampled frames are exported.'
+          : 'Upload a video to capture its detections as a COCO or YOLO dataset.'}
+      </p>
+    </div>
+  );
+};
+
+export default DatasetExportControls;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Moon, SplitSquareHorizontal } from 'lucide-react';
+import { useFramePreprocessing } from '@/hooks/useFramePreprocessing';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
+import { PreprocessingMode } from '@/services/FramePreprocessingService';
+import { ENHANCEMENT_PROFILES } from '@/services/detection/framePreprocessing';
+
+const MODES: { id: PreprocessingMode, label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'on', label: 'Always' },
+  { id: 'off', label: 'Off' }
+];
+
+const PreprocessingControls: React.FC = () => {
+  const { mode, preview, weatherCondition, brightness, condition, setMode, setPreview } = useFramePreprocessing();
+  // Generated detections don't look at the frame, so there is nothing to enhance for
+  const { realInference } = useDetectorBackends();
+
+  return (
+    <div className="space-y-2 col-span-1 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium flex items-center">
+          <Moon className="mr-2 h-4 w-4" />
+          Low-Light Enhancement
+        </h3>
+        <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+          {mode === 'off' ? 'Off' : !realInference ? 'Inactive' : condition ? ENHANCEMENT_PROFILES[condition].label : 'Not needed'}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        {MODES.map(option => (
+          <Button
+            key={option.id}
+            variant={mode === option.id ? "default" : "outline"}
+            size="sm"
+            onClick={() => setMode(option.id)}
+            className="h-7 text-xs flex-1"
+          >
+            {option.label}
+          </Button>
+        ))}
+        <Button
+          variant={preview ? "default" : "ghost"}
+          size="sm"
+          onClick={() => setPreview(!preview)}
+          disabled={mode === 'off' || !realInference}
+          className="h-7 text-xs"
+        >
+          <SplitSquareHorizontal className="mr-1 h-3 w-3" />
+          Compare
+        </Button>
+      </div>
+      {!realInference && (
+        <p className="text-xs text-amber-300">
+          Requires a model backend: the simulated detector doesn't look at the frames, so nothing is enhanced.
+          The mode chosen here applies once a detection model is installed and selected.
+        </p>
+      )}
+      {realInference && brightness !== null && (
+        <p className="text-xs text-gray-300">
+          Frame brightness {Math.round(brightness * 100)}%
+          {weatherCondition && ` · weather: ${weatherCondition}`}
+        </p>
+      )}
+      <p className="text-xs text-gray-400">
+        Brightens, denoises and evens out contrast in dark or rainy frames before the model sees them, and tones down headlight glare. Auto switches on below 35% brightness or in rain, fog and snow. Compare shows the original on the left and the enhanced frame on the right while enhancement is active.
+      </p>
+    </div>
+  );
+};
+
+export default PreprocessingControls;
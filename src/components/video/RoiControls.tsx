@@ -0,0 +1,84 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Eye, EyeOff, Shapes, Trash2, X } from 'lucide-react';
+import { useRoiMasks } from '@/hooks/useRoiMasks';
+import { ROI_ZONE_STYLES } from '@/services/detection/roiMasks';
+import { RoiZoneKind } from '@/types/detection';
+
+const ZONE_KINDS: RoiZoneKind[] = ['ignore', 'corridor', 'side'];
+
+const RoiControls: React.FC = () => {
+  const {
+    polygons,
+    editingKind,
+    masksVisible,
+    startEditing,
+    setMasksVisible,
+    removePolygon,
+    clearPolygons
+  } = useRoiMasks();
+
+  const handleDrawClick = (kind: RoiZoneKind) => {
+    startEditing(editingKind === kind ? null : kind);
+  };
+
+  return (
+    <div className="space-y-2 col-span-1 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium flex items-center">
+          <Shapes className="mr-2 h-4 w-4" />
+          Regions of Interest
+        </h3>
+        <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+          {editingKind ? 'Drawing' : polygons.length === 0 ? 'Whole frame' : `${polygons.length} zone${polygons.length === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {ZONE_KINDS.map(kind => (
+          <Button
+            key={kind}
+            variant={editingKind === kind ? "default" : "outline"}
+            size="sm"
+            onClick={() => handleDrawClick(kind)}
+            className="h-7 text-xs"
+          >
+            <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: ROI_ZONE_STYLES[kind].color }} />
+            {editingKind === kind ? 'Drawing...' : `Draw ${ROI_ZONE_STYLES[kind].label}`}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMasksVisible(!masksVisible)}
+          className="h-7 text-xs"
+        >
+          {masksVisible ? <EyeOff className="mr-1 h-3 w-3" /> : <Eye className="mr-1 h-3 w-3" />}
+          {masksVisible ? 'Hide' : 'Show'}
+        </Button>
+      </div>
+      {polygons.map((polygon, index) => (
+        <div key={polygon.id} className="flex items-center gap-2 text-xs">
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: ROI_ZONE_STYLES[polygon.kind].color }} />
+          <span className="flex-1">
+            {ROI_ZONE_STYLES[polygon.kind].label} {index + 1}
+            <span className="text-gray-400 ml-1">({polygon.points.length} points)</span>
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removePolygon(polygon.id)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {polygons.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => clearPolygons()} className="h-7 text-xs">
+          <Trash2 className="mr-1 h-3 w-3" />
+          Clear All
+        </Button>
+      )}
+      <p className="text-xs text-gray-400">
+        Click on the video to place points. Detections centered in an ignore zone are dropped. With a corridor drawn, pedestrian and vehicle alerts only consider objects standing in it; vehicles in a side zone are announced as passing on your left or right.
+      </p>
+    </div>
+  );
+};
+
+export default RoiControls;
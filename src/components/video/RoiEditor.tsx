@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Undo2, X } from 'lucide-react';
+import { useRoiMasks } from '@/hooks/useRoiMasks';
+import { ROI_ZONE_STYLES } from '@/services/detection/roiMasks';
+import { RoiPoint } from '@/types/detection';
+
+// Clicking this close to the first point (in frame fractions) closes the polygon
+const CLOSE_DISTANCE = 0.02;
+
+interface RoiEditorProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+interface FrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where the video frame is drawn inside its container; the video uses object-cover, so it may be cropped
+ */
+const coverRect = (containerWidth: number, containerHeight: number, videoWidth: number, videoHeight: number): FrameRect => {
+  if (!videoWidth || !videoHeight) {
+    return { left: 0, top: 0, width: containerWidth, height: containerHeight };
+  }
+  const scale = Math.max(containerWidth / videoWidth, containerHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { left: (containerWidth - width) / 2, top: (containerHeight - height) / 2, width, height };
+};
+
+const toPath = (points: RoiPoint[]) => points.map(point => `${point.x},${point.y}`).join(' ');
+
+/**
+ * Overlay for drawing region-of-interest polygons on the video and showing the saved ones
+ */
+const RoiEditor: React.FC<RoiEditorProps> = ({ videoRef }) => {
+  const { polygons, editingKind, masksVisible, startEditing, addPolygon } = useRoiMasks();
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [frameRect, setFrameRect] = useState<FrameRect | null>(null);
+  const [draft, setDraft] = useState<RoiPoint[]>([]);
+
+  // Follow container resizes and video size changes
+  useEffect(() => {
+    const container = containerRef.current;
+    const video = videoRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      setFrameRect(coverRect(container.clientWidth, container.clientHeight, video?.videoWidth || 0, video?.videoHeight || 0));
+    };
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    video?.addEventListener('loadedmetadata', measure);
+    return () => {
+      observer.disconnect();
+      video?.removeEventListener('loadedmetadata', measure);
+    };
+  }, [videoRef, editingKind, masksVisible]);
+
+  // A new drawing starts from scratch
+  useEffect(() => {
+    setDraft([]);
+  }, [editingKind]);
+
+  const finish = () => {
+    if (editingKind && draft.length >= 3) {
+      addPolygon(editingKind, draft);
+    }
+    startEditing(null);
+  };
+
+  // Enter closes the polygon, Escape cancels it
+  useEffect(() => {
+    if (!editingKind) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') startEditing(null);
+      if (event.key === 'Enter') finish();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  if (!editingKind && !masksVisible) return null;
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editingKind) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height
+    };
+
+    const first = draft[0];
+    if (first && draft.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE) {
+      finish();
+      return;
+    }
+    setDraft([...draft, point]);
+  };
+
+  const draftColor = editingKind ? ROI_ZONE_STYLES[editingKind].color : '#ffffff';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 overflow-hidden ${editingKind ? 'z-20' : 'pointer-events-none z-10'}`}
+      data-testid="roi-editor"
+    >
+      {frameRect && (
+        <svg
+          className={`absolute ${editingKind ? 'cursor-crosshair' : ''}`}
+          style={{ left: frameRect.left, top: frameRect.top, width: frameRect.width, height: frameRect.height }}
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          onClick={handleClick}
+        >
+          {polygons.map(polygon => (
+            <polygon
+              key={polygon.id}
+              points={toPath(polygon.points)}
+              fill={ROI_ZONE_STYLES[polygon.kind].color}
+              fillOpacity={0.2}
+              stroke={ROI_ZONE_STYLES[polygon.kind].color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {draft.length > 0 && (
+            <polyline
+              points={toPath(draft)}
+              fill={draftColor}
+              fillOpacity={0.15}
+              stroke={draftColor}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {draft.map((point, index) => (
+            <ellipse
+              key={index}
+              cx={point.x}
+              cy={point.y}
+              rx={index === 0 ? 0.008 : 0.005}
+              ry={((index === 0 ? 0.008 : 0.005) * frameRect.width) / frameRect.height}
+              fill={draftColor}
+            />
+          ))}
+        </svg>
+      )}
+
+      {editingKind && (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/70 text-white text-xs rounded-full px-3 py-1">
+          <span>
+            {ROI_ZONE_STYLES[editingKind].label}: click to add points{draft.length >= 3 ? ', click the first point to close' : ''}
+          </span>
+          <button
+            type="button"
+            onClick={() => setDraft(draft.slice(0, -1))}
+            disabled={draft.length === 0}
+            className="p-1 rounded-full hover:bg-white/20 disabled:opacity-40"
+            title="Undo point"
+          >
+            <Undo2 className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            onClick={finish}
+            disabled={draft.length < 3}
+            className="p-1 rounded-full hover:bg-white/20 disabled:opacity-40"
+            title="Finish polygon"
+          >
+            <Check className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => startEditing(null)}
+            className="p-1 rounded-full hover:bg-white/20"
+            title="Cancel"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoiEditor;
@@ -1,6 +1,7 @@
 
 import React, { useRef } from 'react';
 import VideoCanvas from '@/components/VideoCanvas';
+import RoiEditor from '@/components/video/RoiEditor';
 
 interface VideoMainDisplayProps {
   videoRef: React.RefObject<HTMLVideoElement>;
@@ -65,6 +66,11 @@ const VideoMainDisplay: React.FC<VideoMainDisplayProps> = ({
         />
       )}
       
+      {/* Region-of-interest masks and editor */}
+      {videoRef && isLoaded && (
+        <RoiEditor videoRef={videoRef} />
+      )}
+      
       {/* Loading/error states */}
       {!isLoaded && (
         <div
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { 
   NavigationState,
   Location,
@@ -9,7 +9,8 @@ import {
   EmergencyStatus,
   WeatherInfo,
   CO2Savings,
-  EmergencyLevel
+  EmergencyLevel,
+  SpeedLimit
 } from '../types/navigation';
 import { 
   mockRoute, 
@@ -21,10 +22,20 @@ import {
   mockCO2Savings,
   mockCurrentLocation,
   mockDestination,
-  getUpdatedLocation
+  getUpdatedLocation,
+  getUpdatedSpeed
 } from '../services/mockDataService';
+import SimulationService from '../services/SimulationService';
+import ScenarioService from '../services/ScenarioService';
+import VoiceAlertService from '../services/VoiceAlertService';
+import LanguageService from '../services/LanguageService';
+import AlertVerbosityService from '../services/AlertVerbosityService';
+import { EmergencyEvent, ScenarioEvent } from '../types/scenario';
+import { AlertSeverity } from '../types/alerts';
 import { useToast } from '@/components/ui/use-toast';
 
+const driveRandom = SimulationService.stream('drive');
+
 interface NavigationContextType {
   navigationState: NavigationState;
   setCurrentLocation: (location: Location) => void;
@@ -36,6 +47,7 @@ interface NavigationContextType {
   updateLaneOffset: (laneOffset: LaneOffset) => void;
   updateCO2Savings: () => void;
   updateEmergencyStatus: (emergencyStatus: EmergencyStatus) => void;
+  updateSpeedLimit: (speedLimit: SpeedLimit | null) => void;
 }
 
 const initialState: NavigationState = {
@@ -46,7 +58,15 @@ const initialState: NavigationState = {
   nextInstruction: null,
   distanceToNextInstruction: 0,
   detectedObjects: [],
-  laneOffset: { value: 0, direction: "Center" },
+  laneOffset: {
+    value: 0,
+    direction: "Center",
+    curveRadius: null,
+    curveDirection: "Straight",
+    heading: 0,
+    leftLine: { style: "unknown", color: "unknown" },
+    rightLine: { style: "unknown", color: "unknown" }
+  },
   emergencyStatus: {
     active: false,
     level: "none",
@@ -54,17 +74,43 @@ const initialState: NavigationState = {
     triggers: [],
     duration: 0
   },
+  currentSpeed: 0,
+  speedLimit: null,
   weather: null,
   co2Savings: { totalKg: 0, treesEquivalent: 0 }
 };
 
 const NavigationContext = createContext<NavigationContextType | undefined>(undefined);
 
+/**
+ * Emergency status for a scripted emergency event
+ */
+const scenarioEmergencyStatus = (event: EmergencyEvent): EmergencyStatus => {
+  if (event.level === "none") return initialState.emergencyStatus;
+  return {
+    active: true,
+    level: event.level,
+    type: event.kind || null,
+    triggers: [{ type: "scenario", level: event.level, details: event.details || event.kind || "Scripted emergency" }],
+    duration: 0,
+    response: event.response,
+    initiate_call: event.initiateCall
+  };
+};
+
 export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [navigationState, setNavigationState] = useState<NavigationState>(initialState);
   const [isNavigating, setIsNavigating] = useState(false);
   const [useAutoDetection, setUseAutoDetection] = useState(false);
+  const [scenarioPlaying, setScenarioPlaying] = useState(() => ScenarioService.isPlaying());
   const { toast } = useToast();
+  
+  // Toasts follow the alert verbosity profile and quiet mode like spoken alerts do
+  const notify = useCallback((severity: AlertSeverity, props: Parameters<typeof toast>[0]) => {
+    if (AlertVerbosityService.allows(severity)) {
+      toast(props);
+    }
+  }, [toast]);
   const startTimeRef = React.useRef<number>(Date.now());
   const lastCO2UpdateTime = React.useRef<number>(Date.now());
   const totalDriveTimeRef = React.useRef<number>(0);
@@ -84,6 +130,7 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
         route: route,
         nextInstruction: route.instructions[0],
         distanceToNextInstruction: 200,
+        currentSpeed: ScenarioService.getSpeed() ?? 50,
         weather: mockWeatherInfo(),
         co2Savings: mockCO2Savings(),
         detectedObjects: detectedObjects
@@ -93,7 +140,7 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       lastCO2UpdateTime.current = Date.now();
       totalDriveTimeRef.current = 0;
       
-      toast({
+      notify('info', {
         title: "Navigation Started",
         description: `Navigating to destination, ${route.distance.toFixed(1)}km away`,
       });
@@ -104,34 +151,49 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       // Update location
       const newLocation = getUpdatedLocation(navigationState.currentLocation);
       
+      // A playing scenario scripts speed, instructions and weather itself
+      if (scenarioPlaying) {
+        setNavigationState(prev => ({
+          ...prev,
+          currentLocation: newLocation,
+          distanceToNextInstruction: Math.max(0, prev.distanceToNextInstruction - prev.currentSpeed / 3.6)
+        }));
+        return;
+      }
+      
       // Update next instruction randomly (less frequently)
-      const shouldUpdateInstruction = Math.random() > 0.9;
+      const shouldUpdateInstruction = driveRandom.chance(0.1);
       const newInstruction = shouldUpdateInstruction ? mockNextInstruction() : navigationState.nextInstruction;
       const newDistance = shouldUpdateInstruction 
-        ? Math.floor(Math.random() * 500) + 100 
+        ? driveRandom.int(100, 599) 
         : Math.max(0, (navigationState.distanceToNextInstruction || 0) - 10);
       
       // Update weather info occasionally
-      const newWeather = Math.random() > 0.95 ? mockWeatherInfo() : navigationState.weather;
+      const newWeather = driveRandom.chance(0.05) ? mockWeatherInfo() : navigationState.weather;
       
       setNavigationState(prev => ({
         ...prev,
         currentLocation: newLocation,
         nextInstruction: newInstruction,
         distanceToNextInstruction: newDistance,
+        currentSpeed: getUpdatedSpeed(prev.currentSpeed),
         weather: newWeather,
       }));
     }, 1000);
     
     // Separate interval for emergency statuses
     const emergencyInterval = setInterval(() => {
+      // With live detection, emergency status comes from forward collision warning instead,
+      // and a playing scenario scripts its own emergencies
+      if (useAutoDetection || scenarioPlaying) return;
+      
       // Update emergency status
       const newEmergencyStatus = mockEmergencyStatus();
       
       // If emergency status changes to critical from not critical
       if (newEmergencyStatus.level === "critical" && 
           navigationState.emergencyStatus.level !== "critical") {
-        toast({
+        notify('critical', {
           variant: "destructive",
           title: "Emergency Alert",
           description: newEmergencyStatus.response || "Critical situation detected",
@@ -141,8 +203,7 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       setNavigationState(prev => ({
         ...prev,
         emergencyStatus: newEmergencyStatus,
-        // Only update detected objects if not using auto detection
-        ...(useAutoDetection ? {} : { detectedObjects: mockDetectedObjects() })
+        detectedObjects: mockDetectedObjects()
       }));
     }, 3000); // Update every 3 seconds
 
@@ -150,14 +211,90 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       clearInterval(mainInterval);
       clearInterval(emergencyInterval);
     };
-  }, [isNavigating, navigationState.isRouteSet, toast, navigationState.emergencyStatus.level, navigationState.currentLocation, navigationState.distanceToNextInstruction, useAutoDetection]);
+  }, [isNavigating, navigationState.isRouteSet, notify, navigationState.emergencyStatus.level, navigationState.currentLocation, navigationState.distanceToNextInstruction, useAutoDetection, scenarioPlaying]);
+
+  // Scripted scenarios drive speed, instructions, weather and emergencies while they play
+  useEffect(() => {
+    const handleScenarioEvent = (event: ScenarioEvent) => {
+      switch (event.type) {
+        case 'speed':
+          setNavigationState(prev => ({ ...prev, currentSpeed: event.speed }));
+          break;
+        case 'instruction':
+          setNavigationState(prev => ({
+            ...prev,
+            nextInstruction: {
+              number: (prev.nextInstruction?.number || 0) + 1,
+              distance: event.distance,
+              duration: 0,
+              instruction: event.instruction,
+              name: event.name || "",
+              coordinate: prev.nextInstruction?.coordinate || [0, 0]
+            },
+            distanceToNextInstruction: event.distance
+          }));
+          VoiceAlertService.speak(LanguageService.translate('navigation.instruction', {
+            distance: LanguageService.formatDistance(event.distance),
+            instruction: event.instruction
+          }), 'general');
+          break;
+        case 'weather':
+          setNavigationState(prev => ({
+            ...prev,
+            weather: {
+              ...(prev.weather || { temperature: 15, icon: 'weather-sunny', humidity: 50, wind: 10 }),
+              condition: event.condition,
+              ...(event.temperature !== undefined ? { temperature: event.temperature } : {})
+            }
+          }));
+          break;
+        case 'emergency': {
+          const emergencyStatus = scenarioEmergencyStatus(event);
+          setNavigationState(prev => ({ ...prev, emergencyStatus }));
+          if (emergencyStatus.level === "critical") {
+            notify('critical', {
+              variant: "destructive",
+              title: "Emergency Alert",
+              description: emergencyStatus.response || "Critical situation detected",
+            });
+            VoiceAlertService.alertCritical(emergencyStatus.response || (emergencyStatus.type
+              ? LanguageService.translate('emergency.typed', { type: emergencyStatus.type })
+              : LanguageService.translate('emergency.critical')));
+          }
+          break;
+        }
+        default:
+          // Actors, lanes and POIs reach the app through detection
+          break;
+      }
+    };
+
+    const unsubscribePlayback = ScenarioService.subscribe(playback => {
+      const playing = playback.status === 'playing';
+      setScenarioPlaying(playing);
+      setNavigationState(prev => {
+        if (playing) {
+          return { ...prev, currentSpeed: ScenarioService.getSpeed() ?? prev.currentSpeed };
+        }
+        // Don't leave a scripted emergency behind once the scenario is over
+        const scripted = prev.emergencyStatus.triggers.some(trigger => trigger.type === "scenario");
+        return scripted ? { ...prev, emergencyStatus: initialState.emergencyStatus } : prev;
+      });
+    });
+    const unsubscribeEvents = ScenarioService.onEvent(handleScenarioEvent);
+
+    return () => {
+      unsubscribePlayback();
+      unsubscribeEvents();
+    };
+  }, [notify]);
 
   const setCurrentLocation = (location: Location) => {
     setNavigationState(prev => ({
       ...prev,
       currentLocation: location
     }));
-    toast({
+    notify('info', {
       title: "Current Location Set",
       description: `Location set to ${location.lat.toFixed(4)}, ${location.lon.toFixed(4)}`,
     });
@@ -168,13 +305,15 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       ...prev,
       destination
     }));
-    toast({
+    notify('info', {
       title: "Destination Set",
       description: `Destination set to ${destination.lat.toFixed(4)}, ${destination.lon.toFixed(4)}`,
     });
   };
 
   const startNavigation = () => {
+    // Each drive replays a seeded session from its start
+    SimulationService.restart();
     setIsNavigating(true);
     startTimeRef.current = Date.now();
     lastCO2UpdateTime.current = Date.now();
@@ -188,7 +327,7 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       currentLocation: prev.currentLocation,
       destination: prev.destination,
     }));
-    toast({
+    notify('info', {
       title: "Navigation Ended",
       description: "You've completed your journey",
     });
@@ -251,7 +390,7 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
     
     // Show toast notification for critical emergencies
     if (emergencyStatus.level === "critical") {
-      toast({
+      notify('critical', {
         variant: "destructive",
         title: "Emergency Alert",
         description: emergencyStatus.response || "Critical situation detected",
@@ -259,6 +398,13 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
     }
   };
 
+  const updateSpeedLimit = (speedLimit: SpeedLimit | null) => {
+    setNavigationState(prev => ({
+      ...prev,
+      speedLimit
+    }));
+  };
+
   return (
     <NavigationContext.Provider value={{ 
       navigationState, 
@@ -270,7 +416,8 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
       updateDetectedObjects,
       updateLaneOffset,
       updateCO2Savings,
-      updateEmergencyStatus
+      updateEmergencyStatus,
+      updateSpeedLimit
     }}>
       {children}
     </NavigationContext.Provider>
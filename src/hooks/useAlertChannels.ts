@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import EarconService, { AlertChannel } from '@/services/EarconService';
+import { SEVERITY_PRIORITY } from '@/services/alerts/alertRules';
+import { EarconKind } from '@/services/audio/earcons';
+import { AlertSeverity } from '@/types/alerts';
+
+export const useAlertChannels = () => {
+  const [channels, setChannels] = useState<Record<AlertSeverity, AlertChannel>>(() => EarconService.getChannels());
+
+  useEffect(() => {
+    setChannels(EarconService.getChannels());
+    return EarconService.subscribe(setChannels);
+  }, []);
+
+  const setChannel = useCallback((severity: AlertSeverity, channel: AlertChannel) => {
+    EarconService.setChannel(severity, channel);
+  }, []);
+
+  /**
+   * Play an earcon at a severity's urgency, panned to one side to check the speakers
+   */
+  const playEarcon = useCallback((kind: EarconKind, severity: AlertSeverity, pan = 0) => {
+    EarconService.play(kind, SEVERITY_PRIORITY[severity], pan);
+  }, []);
+
+  return {
+    channels,
+    setChannel,
+    playEarcon
+  };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import AlertPolicyService from '@/services/AlertPolicyService';
+import { AlertRule, AlertTrigger } from '@/types/alerts';
+
+export const useAlertPolicy = () => {
+  const [rules, setRules] = useState<AlertRule[]>(() => AlertPolicyService.getRules());
+
+  useEffect(() => {
+    setRules(AlertPolicyService.getRules());
+    return AlertPolicyService.subscribe(setRules);
+  }, []);
+
+  const updateRule = useCallback((id: string, changes: Partial<AlertRule>) => {
+    AlertPolicyService.updateRule(id, changes);
+  }, []);
+
+  const addRule = useCallback((trigger: AlertTrigger) => AlertPolicyService.addRule(trigger), []);
+
+  const removeRule = useCallback((id: string) => {
+    AlertPolicyService.removeRule(id);
+  }, []);
+
+  const moveRule = useCallback((id: string, offset: number) => {
+    AlertPolicyService.moveRule(id, offset);
+  }, []);
+
+  const resetRules = useCallback(() => {
+    AlertPolicyService.reset();
+  }, []);
+
+  /**
+   * Replace the rules with those of a policy file; rejects with an AlertPolicyError when it's invalid
+   */
+  const importPolicy = useCallback(async (file: File) => {
+    return AlertPolicyService.importPolicy(await file.text(), file.name);
+  }, []);
+
+  const exportPolicy = useCallback(() => {
+    const blob = new Blob([AlertPolicyService.exportPolicy()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'alert-policy.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  return {
+    rules,
+    updateRule,
+    addRule,
+    removeRule,
+    moveRule,
+    resetRules,
+    importPolicy,
+    exportPolicy
+  };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import AlertVerbosityService from '@/services/AlertVerbosityService';
+import { VerbosityProfileId, VerbosityState } from '@/types/alerts';
+
+export const useAlertVerbosity = () => {
+  const [state, setState] = useState<VerbosityState>(() => AlertVerbosityService.getState());
+
+  useEffect(() => {
+    setState(AlertVerbosityService.getState());
+    return AlertVerbosityService.subscribe(setState);
+  }, []);
+
+  const setProfile = useCallback((profile: VerbosityProfileId) => {
+    AlertVerbosityService.setProfile(profile);
+  }, []);
+
+  const setQuiet = useCallback((quiet: boolean) => {
+    AlertVerbosityService.setQuiet(quiet);
+  }, []);
+
+  return {
+    profile: state.profile,
+    quiet: state.quiet,
+    setProfile,
+    setQuiet
+  };
+};
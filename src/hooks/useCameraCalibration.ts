@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import CameraCalibrationService from '@/services/CameraCalibrationService';
+import { CameraCalibration } from '@/types/navigation';
+
+export const useCameraCalibration = () => {
+  const [calibration, setCalibration] = useState<CameraCalibration>(() => CameraCalibrationService.getCalibration());
+
+  // Stay in sync with changes made elsewhere
+  useEffect(() => {
+    setCalibration(CameraCalibrationService.getCalibration());
+    return CameraCalibrationService.subscribe(setCalibration);
+  }, []);
+
+  const updateCalibration = useCallback((changes: Partial<CameraCalibration>) => {
+    CameraCalibrationService.update(changes);
+  }, []);
+
+  const resetCalibration = useCallback(() => {
+    CameraCalibrationService.reset();
+  }, []);
+
+  return {
+    calibration,
+    updateCalibration,
+    resetCalibration
+  };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import DatasetExportService, { DatasetExportState } from '@/services/DatasetExportService';
+import { DatasetExportOptions } from '@/services/dataset/datasetFormats';
+
+export const useDatasetExport = () => {
+  const [state, setState] = useState<DatasetExportState>(() => DatasetExportService.getState());
+
+  useEffect(() => {
+    setState(DatasetExportService.getState());
+    return DatasetExportService.subscribe(setState);
+  }, []);
+
+  const startCapture = useCallback((imageInterval: number | null) => {
+    DatasetExportService.startCapture(imageInterval);
+  }, []);
+
+  const stopCapture = useCallback(() => {
+    DatasetExportService.stopCapture();
+  }, []);
+
+  const clearCapture = useCallback(() => {
+    DatasetExportService.clear();
+  }, []);
+
+  /**
+   * Build the dataset and download it; rejects with a DatasetExportError when the filters leave nothing
+   */
+  const exportDataset = useCallback(async (options: DatasetExportOptions) => {
+    const result = await DatasetExportService.export(options);
+
+    const url = URL.createObjectURL(result.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = result.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    return result;
+  }, []);
+
+  return {
+    datasetVideo: state.video,
+    capturing: state.capturing,
+    capturedFrames: state.frames,
+    capturedImages: state.images,
+    capturedClasses: state.classes,
+    imageInterval: state.imageInterval,
+    startCapture,
+    stopCapture,
+    clearCapture,
+    exportDataset
+  };
+};
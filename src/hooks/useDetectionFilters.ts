@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import DetectionFilterService from '@/services/DetectionFilterService';
+import { DetectionFilterSettings } from '@/types/detection';
+
+export const useDetectionFilters = () => {
+  const [filters, setFilters] = useState<DetectionFilterSettings>(() => DetectionFilterService.getSettings());
+
+  // Stay in sync with changes made elsewhere
+  useEffect(() => {
+    setFilters(DetectionFilterService.getSettings());
+    return DetectionFilterService.subscribe(setFilters);
+  }, []);
+
+  const updateFilters = useCallback((changes: Partial<DetectionFilterSettings>) => {
+    DetectionFilterService.update(changes);
+  }, []);
+
+  const setClassThreshold = useCallback((type: string, threshold: number | null) => {
+    DetectionFilterService.setClassThreshold(type, threshold);
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    DetectionFilterService.reset();
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    setClassThreshold,
+    resetFilters
+  };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import DetectionLogService, { DetectionLogState, parseDetectionLog, sameVideo } from '@/services/DetectionLogService';
+
+export const useDetectionLog = () => {
+  const [state, setState] = useState<DetectionLogState>(() => DetectionLogService.getState());
+
+  // Stay in sync with recordings and replays started elsewhere
+  useEffect(() => {
+    setState(DetectionLogService.getState());
+    return DetectionLogService.subscribe(setState);
+  }, []);
+
+  const startLogRecording = useCallback(() => {
+    DetectionLogService.startRecording();
+  }, []);
+
+  /**
+   * Stop recording and download the log; returns the number of frames saved
+   */
+  const stopLogRecording = useCallback(() => {
+    const frames = DetectionLogService.getState().recordedFrames;
+    const log = DetectionLogService.stopRecording();
+    if (!log) return 0;
+
+    const url = URL.createObjectURL(log);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `detection-log-${new Date().toISOString()}.ndjson`;
+    a.click();
+    URL.revokeObjectURL(url);
+    return frames;
+  }, []);
+
+  /**
+   * Load a log file and start replaying it; rejects with a DetectionLogError when it's invalid
+   */
+  const replayLogFile = useCallback(async (file: File) => {
+    const log = parseDetectionLog(await file.text());
+    DetectionLogService.startReplay(log);
+    return log;
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    DetectionLogService.stopReplay();
+  }, []);
+
+  return {
+    logRecording: state.recording,
+    recordedFrames: state.recordedFrames,
+    replay: state.replay,
+    // A replay only lines up with the video it was recorded against
+    replayMatchesVideo: state.replay !== null && sameVideo(state.replay.video, state.video),
+    startLogRecording,
+    stopLogRecording,
+    replayLogFile,
+    stopReplay
+  };
+};
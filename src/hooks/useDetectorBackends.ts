@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import DetectorRegistry, { DetectorRegistryState } from '@/services/detection/DetectorRegistry';
+
+export const useDetectorBackends = () => {
+  const [registryState, setRegistryState] = useState<DetectorRegistryState>(() => DetectorRegistry.getState());
+  const [switching, setSwitching] = useState(false);
+
+  // Follow registry changes (loading progress, fallbacks, switches from elsewhere)
+  useEffect(() => {
+    setRegistryState(DetectorRegistry.getState());
+    return DetectorRegistry.subscribe(setRegistryState);
+  }, []);
+
+  const selectBackend = useCallback(async (id: string) => {
+    setSwitching(true);
+    try {
+      return await DetectorRegistry.activate(id);
+    } finally {
+      setSwitching(false);
+    }
+  }, []);
+
+  const activeBackend = registryState.backends.find(backend => backend.id === registryState.activeId) || null;
+
+  return {
+    backends: registryState.backends,
+    activeId: registryState.activeId,
+    // Calibrated distances, dataset export and frame enhancement only apply to real models
+    realInference: activeBackend?.capabilities.realInference ?? false,
+    statusMessage: registryState.message,
+    switching,
+    selectBackend
+  };
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import EvaluationService, { EvaluationState } from '@/services/EvaluationService';
+import { AnnotationSet, parseAnnotationFiles } from '@/services/evaluation/annotations';
+import { summarizeEvaluation } from '@/services/evaluation/metrics';
+
+export const useEvaluation = (threshold: number) => {
+  const [state, setState] = useState<EvaluationState>(() => EvaluationService.getState());
+  const [annotations, setAnnotations] = useState<AnnotationSet | null>(null);
+
+  useEffect(() => {
+    setState(EvaluationService.getState());
+    return EvaluationService.subscribe(setState);
+  }, []);
+
+  /**
+   * Read a COCO JSON file or a set of YOLO label files; rejects with an AnnotationError when they're invalid
+   */
+  const loadAnnotations = useCallback(async (files: File[]) => {
+    const texts = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+    const set = parseAnnotationFiles(texts);
+    setAnnotations(set);
+    return set;
+  }, []);
+
+  /**
+   * Evaluate the active backend on a video; returns the best-F1 threshold when the run completes
+   */
+  const runEvaluation = useCallback(async (video: HTMLVideoElement, fps: number) => {
+    if (!annotations) return null;
+    await EvaluationService.run(video, annotations, fps);
+    const finished = EvaluationService.getState();
+    return finished.status === 'done' ? summarizeEvaluation(finished.frames, 0).suggestedThreshold : null;
+  }, [annotations]);
+
+  const cancelEvaluation = useCallback(() => {
+    EvaluationService.cancel();
+  }, []);
+
+  // Matches are kept per frame, so moving the threshold doesn't need another run
+  const report = useMemo(
+    () => (state.frames.length > 0 ? summarizeEvaluation(state.frames, threshold) : null),
+    [state.frames, threshold]
+  );
+
+  return {
+    annotations,
+    evaluation: state,
+    report,
+    loadAnnotations,
+    runEvaluation,
+    cancelEvaluation
+  };
+};
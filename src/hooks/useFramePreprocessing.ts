@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import FramePreprocessingService, { PreprocessingMode, PreprocessingState } from '@/services/FramePreprocessingService';
+
+export const useFramePreprocessing = () => {
+  const [state, setState] = useState<PreprocessingState>(() => FramePreprocessingService.getState());
+
+  // The detection loop reports brightness and the active enhancement through the service
+  useEffect(() => {
+    setState(FramePreprocessingService.getState());
+    return FramePreprocessingService.subscribe(setState);
+  }, []);
+
+  const setMode = useCallback((mode: PreprocessingMode) => {
+    FramePreprocessingService.setMode(mode);
+  }, []);
+
+  const setPreview = useCallback((preview: boolean) => {
+    FramePreprocessingService.setPreview(preview);
+  }, []);
+
+  return {
+    mode: state.mode,
+    preview: state.preview,
+    weatherCondition: state.weatherCondition,
+    brightness: state.brightness,
+    condition: state.condition,
+    setMode,
+    setPreview
+  };
+};
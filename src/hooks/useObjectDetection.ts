@@ -3,7 +3,15 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigation } from '@/context/NavigationContext';
 import DetectionService from '@/services/DetectionService';
 import VoiceAlertService from '@/services/VoiceAlertService';
+import LanguageService from '@/services/LanguageService';
+import FramePreprocessingService from '@/services/FramePreprocessingService';
+import { collisionEmergencyStatus } from '@/services/detection/ForwardCollisionWarning';
+import { toLaneOffset } from '@/services/detection/LaneDetector';
+import { SpeedLimit } from '@/types/navigation';
+import { Detection, FrameResult, PoiHit } from '@/types/detection';
 import { useToast } from '@/components/ui/use-toast';
+import { useDetectionFilters } from '@/hooks/useDetectionFilters';
+import { meetsThreshold } from '@/services/DetectionFilterService';
 
 export const useObjectDetection = () => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -11,19 +19,16 @@ export const useObjectDetection = () => {
   const [detectFrameCount, setDetectFrameCount] = useState(0);
   const [processing, setProcessing] = useState(false);
   const [emergencyMode, setEmergencyMode] = useState(false);
-  const [confidenceThreshold, setConfidenceThreshold] = useState(0.5); // Default 50% threshold
+  const { filters, updateFilters } = useDetectionFilters();
   const processingTimerRef = useRef<number | null>(null);
   const lastDetectionTime = useRef<number>(Date.now());
-  const detectionResultsRef = useRef<any>({ 
-    objects: [], 
-    lanes: { offset: 0, direction: 'Center' },
-    pois: []
-  });
-  const { updateDetectedObjects, updateLaneOffset, updateCO2Savings, updateEmergencyStatus } = useNavigation();
+  const detectionResultsRef = useRef<FrameResult | null>(null);
+  const { navigationState, isNavigating, updateDetectedObjects, updateLaneOffset, updateCO2Savings, updateEmergencyStatus, updateSpeedLimit } = useNavigation();
+  const lastCollisionRef = useRef<{ level: string; trackId: number | null }>({ level: 'none', trackId: null });
+  const lastSpeedLimitRef = useRef<SpeedLimit | null>(null);
   const highPriorityDetectionRef = useRef<boolean>(false);
   const requestIdRef = useRef<number | null>(null);
   const emergencyEventDispatched = useRef<boolean>(false);
-  const frameSkipCount = useRef<number>(0);
   const isMountedRef = useRef<boolean>(true);
   const emergencyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const resetEmergencyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -148,42 +153,26 @@ export const useObjectDetection = () => {
       
       frameCount++;
       
-      // Use requestAnimationFrame for state updates to prevent batching issues
-      requestAnimationFrame(() => {
-        if (!isMountedRef.current) return;
-        setDetectFrameCount(frameCount);
-      });
-      
-      // Process frame if not already processing
-      if (!processing && isMountedRef.current && videoElementRef.current) {
-        setProcessing(true);
-        
-        // Use the DetectionService to process the current frame
+      // Every frame goes to the DetectionService, which applies backpressure itself: while the
+      // backend is busy it only redraws the last overlay on the new frame
+      if (videoElementRef.current) {
         try {
           DetectionService.processVideo(videoElementRef.current, canvas, (results) => {
             if (!isMountedRef.current) return;
-            handleDetectionResults(results);
-            // Immediately reset processing flag for better performance
-            setProcessing(false);
+            handleDetectionResultsRef.current(results);
           });
         } catch (error) {
           console.error("Error processing video frame:", error);
-          if (isMountedRef.current) {
-            setProcessing(false);
-          }
-        }
-      } else {
-        // If we're still processing the previous frame, increment the skip counter
-        frameSkipCount.current++;
-        
-        // If we've skipped too many frames, force reset the processing state
-        // This prevents getting stuck in processing mode
-        if (frameSkipCount.current > 10 && isMountedRef.current) {
-          setProcessing(false);
-          frameSkipCount.current = 0;
         }
       }
       
+      // Use requestAnimationFrame for state updates to prevent batching issues
+      requestAnimationFrame(() => {
+        if (!isMountedRef.current) return;
+        setDetectFrameCount(frameCount);
+        setProcessing(DetectionService.isInferenceInFlight());
+      });
+      
       // Only continue the animation loop if component is still mounted
       if (isMountedRef.current) {
         try {
@@ -224,7 +213,17 @@ export const useObjectDetection = () => {
         requestIdRef.current = null;
       }
     };
-  }, [objectDetectionEnabled, processing]);
+  }, [objectDetectionEnabled]);
+
+  // Time-to-collision uses our speed, which is only known while navigating
+  useEffect(() => {
+    DetectionService.setEgoSpeed(isNavigating ? navigationState.currentSpeed : null);
+  }, [isNavigating, navigationState.currentSpeed]);
+
+  // Rain, fog and snow switch on frame enhancement in auto mode
+  useEffect(() => {
+    FramePreprocessingService.setWeatherCondition(navigationState.weather?.condition ?? null);
+  }, [navigationState.weather?.condition]);
 
   // Initialize the detection service when component mounts - using useCallback for stability
   const initializeDetection = useCallback(async () => {
@@ -234,19 +233,13 @@ export const useObjectDetection = () => {
       const status = await DetectionService.initialize();
       console.log("Detection services initialized:", status);
       
-      // Initialize voice synthesis if available
-      if ('speechSynthesis' in window) {
-        // Pre-load voices
-        window.speechSynthesis.getVoices();
-        
-        // Announce ready status (only when first initialized)
-        if (isMountedRef.current) {
-          setTimeout(() => {
-            if (isMountedRef.current) {
-              VoiceAlertService.speak("Detection system ready", "general", 1);
-            }
-          }, 1000);
-        }
+      // Announce ready status (only when first initialized), through whichever speech output is active
+      if (isMountedRef.current) {
+        setTimeout(() => {
+          if (isMountedRef.current) {
+            VoiceAlertService.speak(LanguageService.translate('system.ready'), "general", 1);
+          }
+        }, 1000);
       }
     } catch (err) {
       console.error("Failed to initialize detection:", err);
@@ -328,7 +321,7 @@ export const useObjectDetection = () => {
         }
         
         // Announce emergency mode
-        VoiceAlertService.speak("Emergency mode activated. Locating nearest hospital.", "emergency", 1);
+        VoiceAlertService.speak(LanguageService.translate('emergency.locating'), "emergency", 1);
         
         // End emergency mode after some time with safety checks
         // Fix: Cast the return value to NodeJS.Timeout
@@ -345,7 +338,10 @@ export const useObjectDetection = () => {
           });
           
           console.log('✅ Emergency recording stopped and saved');
-          VoiceAlertService.speak("Emergency response complete. Nearest hospital: Memorial Hospital, 1.2 miles ahead.", "general", 1);
+          VoiceAlertService.speak(LanguageService.translate('emergency.complete', {
+            name: "Memorial Hospital",
+            distance: LanguageService.formatUnit(1.2, 'mile', 1)
+          }), "general", 1);
           
           // Reset flag after emergency is complete
           // Fix: Cast the return value to NodeJS.Timeout
@@ -484,26 +480,24 @@ export const useObjectDetection = () => {
   }, [isRecording]);
 
   // Handle detection results with improved performance
-  const handleDetectionResults = useCallback((results: any) => {
+  const handleDetectionResults = useCallback((results: FrameResult) => {
     if (!isMountedRef.current) return;
     
     const now = Date.now();
     // Save the latest detection results
     detectionResultsRef.current = results;
     
-    // Apply confidence threshold filtering
-    const filteredObjects = results.objects.filter((obj: any) => 
-      obj.confidence >= confidenceThreshold
-    );
+    // Apply the general and per-class confidence thresholds
+    const filteredObjects = results.objects.filter((obj: Detection) => meetsThreshold(filters, obj));
     
     // Check for high priority objects (pedestrians, traffic signs)
-    highPriorityDetectionRef.current = filteredObjects.some((obj: any) => 
+    highPriorityDetectionRef.current = filteredObjects.some((obj: Detection) => 
       ['person', 'pedestrian', 'traffic light', 'stop sign'].includes(obj.type.toLowerCase())
     );
     
     // Check for proximity to start/stop recording (10cm is too small, using 5m for demo)
     const proximityThresholdInMeters = 5;
-    const nearbyVehicles = filteredObjects.filter((obj: any) => 
+    const nearbyVehicles = filteredObjects.filter((obj: Detection) => 
       ['car', 'truck', 'bus'].includes(obj.type.toLowerCase()) && 
       obj.distance && 
       obj.distance <= proximityThresholdInMeters
@@ -523,7 +517,7 @@ export const useObjectDetection = () => {
         const currentResults = detectionResultsRef.current;
         if (!currentResults) return;
         
-        const stillNearby = currentResults.objects.some((obj: any) => 
+        const stillNearby = currentResults.objects.some((obj: Detection) => 
           ['car', 'truck', 'bus'].includes(obj.type.toLowerCase()) && 
           obj.distance && 
           obj.distance <= proximityThresholdInMeters
@@ -535,23 +529,41 @@ export const useObjectDetection = () => {
       }, 3000);
     }
     
+    // Publish forward collision warning changes, unless a manual emergency is in progress
+    const collision = results.collision;
+    if (collision && !emergencyMode) {
+      const last = lastCollisionRef.current;
+      if (collision.level !== last.level || collision.trackId !== last.trackId) {
+        lastCollisionRef.current = { level: collision.level, trackId: collision.trackId };
+        // The assessment is timed on the frame's clock, which is simulated in seeded sessions
+        updateEmergencyStatus(collisionEmergencyStatus(collision, results.timestamp));
+      }
+    }
+    
+    // Publish the speed limit whenever a new sign sets or lifts it
+    const speedLimit = results.speedLimit;
+    if (speedLimit?.timestamp !== lastSpeedLimitRef.current?.timestamp) {
+      lastSpeedLimitRef.current = speedLimit;
+      updateSpeedLimit(speedLimit);
+    }
+    
     // In emergency mode, add nearby hospitals to the detection results
     if (emergencyMode) {
       // Simulate finding nearby hospitals
-      const nearbyHospitals = [
+      const nearbyHospitals: PoiHit[] = [
         { 
           type: 'hospital',
           name: 'Memorial Hospital',
-          distance: '1.2 miles',
+          distance: 1930, // 1.2 miles
           direction: 'ahead',
-          coordinates: { lat: 40.7128, lng: -74.006 }
+          confidence: 0.9
         },
         {
           type: 'hospital',
           name: 'City Medical Center',
-          distance: '2.8 miles',
+          distance: 4510, // 2.8 miles
           direction: 'right',
-          coordinates: { lat: 40.7138, lng: -74.016 }
+          confidence: 0.9
         }
       ];
       
@@ -573,11 +585,19 @@ export const useObjectDetection = () => {
         
         if (results.lanes) {
           // Update lane offset in navigation context
-          updateLaneOffset(results.lanes);
+          updateLaneOffset(toLaneOffset(results.lanes));
         }
       });
     }
-  }, [confidenceThreshold, emergencyMode, updateDetectedObjects, updateLaneOffset, isRecording, startRecording, stopRecording]);
+  }, [filters, emergencyMode, updateDetectedObjects, updateLaneOffset, updateEmergencyStatus, updateSpeedLimit, isRecording, startRecording, stopRecording]);
+  
+  // The frame loop runs across renders, so it reaches the newest handler through a ref
+  const handleDetectionResultsRef = useRef(handleDetectionResults);
+  handleDetectionResultsRef.current = handleDetectionResults;
+
+  const setConfidenceThreshold = useCallback((value: number) => {
+    updateFilters({ confidenceThreshold: value });
+  }, [updateFilters]);
 
   const toggleObjectDetection = useCallback(() => {
     if (!isMountedRef.current) return;
@@ -590,14 +610,15 @@ export const useObjectDetection = () => {
       updateCO2Savings();
       
       // Announce activation
-      VoiceAlertService.speak("Detection activated", "general", 1);
+      VoiceAlertService.speak(LanguageService.translate('system.detectionOn'), "general", 1);
     } else {
       // Announce deactivation
-      VoiceAlertService.speak("Detection deactivated", "general", 1);
+      VoiceAlertService.speak(LanguageService.translate('system.detectionOff'), "general", 1);
       
-      // Stop any emergency mode when detection is turned off
-      if (emergencyMode) {
+      // Stop any emergency mode or collision warning when detection is turned off
+      if (emergencyMode || lastCollisionRef.current.level !== 'none') {
         setEmergencyMode(false);
+        lastCollisionRef.current = { level: 'none', trackId: null };
         updateEmergencyStatus({
           active: false,
           level: "none",
@@ -615,7 +636,7 @@ export const useObjectDetection = () => {
     detectFrameCount,
     processing,
     emergencyMode,
-    confidenceThreshold,
+    confidenceThreshold: filters.confidenceThreshold,
     setConfidenceThreshold,
     toggleObjectDetection,
     triggerEmergencyMode,
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import RoiService, { RoiState } from '@/services/RoiService';
+import { RoiPoint, RoiZoneKind } from '@/types/detection';
+
+export const useRoiMasks = () => {
+  const [state, setState] = useState<RoiState>(() => RoiService.getState());
+
+  // The editor overlay and the controls share the drawing state through the service
+  useEffect(() => {
+    setState(RoiService.getState());
+    return RoiService.subscribe(setState);
+  }, []);
+
+  const startEditing = useCallback((kind: RoiZoneKind | null) => {
+    RoiService.setEditing(kind);
+  }, []);
+
+  const setMasksVisible = useCallback((visible: boolean) => {
+    RoiService.setVisible(visible);
+  }, []);
+
+  const addPolygon = useCallback((kind: RoiZoneKind, points: RoiPoint[]) => {
+    RoiService.addPolygon(kind, points);
+  }, []);
+
+  const removePolygon = useCallback((id: string) => {
+    RoiService.removePolygon(id);
+  }, []);
+
+  const clearPolygons = useCallback((kind?: RoiZoneKind) => {
+    RoiService.clear(kind);
+  }, []);
+
+  return {
+    polygons: state.polygons,
+    editingKind: state.editing,
+    masksVisible: state.visible,
+    startEditing,
+    setMasksVisible,
+    addPolygon,
+    removePolygon,
+    clearPolygons
+  };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import ScenarioService from '@/services/ScenarioService';
+import { parseScenarioText } from '@/services/scenarios/scenarioSchema';
+import { Scenario, ScenarioPlayback } from '@/types/scenario';
+
+export const useScenario = () => {
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => ScenarioService.getScenarios());
+  const [playback, setPlayback] = useState<ScenarioPlayback>(() => ScenarioService.getPlayback());
+  const [time, setTime] = useState(0);
+
+  // Stay in sync with scenarios loaded and played elsewhere
+  useEffect(() => {
+    const sync = (next: ScenarioPlayback) => {
+      setPlayback(next);
+      setScenarios(ScenarioService.getScenarios());
+    };
+    sync(ScenarioService.getPlayback());
+    return ScenarioService.subscribe(sync);
+  }, []);
+
+  // Playback position only changes while playing
+  useEffect(() => {
+    if (playback.status !== 'playing') {
+      setTime(0);
+      return;
+    }
+    const interval = setInterval(() => setTime(ScenarioService.getTime()), 250);
+    return () => clearInterval(interval);
+  }, [playback.status, playback.scenarioId]);
+
+  const playScenario = useCallback((id: string) => {
+    ScenarioService.play(id);
+  }, []);
+
+  const stopScenario = useCallback(() => {
+    ScenarioService.stop();
+  }, []);
+
+  /**
+   * Load a scenario from a .json, .yaml or .yml file; rejects with a ScenarioError when it's invalid
+   */
+  const loadScenarioFile = useCallback(async (file: File) => {
+    const scenario = parseScenarioText(await file.text(), file.name);
+    ScenarioService.addScenario(scenario);
+    return scenario;
+  }, []);
+
+  return {
+    scenarios,
+    activeScenarioId: playback.scenarioId,
+    scenarioStatus: playback.status,
+    scenarioTime: time,
+    scenarioDuration: playback.duration,
+    playScenario,
+    stopScenario,
+    loadScenarioFile
+  };
+};
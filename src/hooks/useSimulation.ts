@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import SimulationService, { SimulationSettings } from '@/services/SimulationService';
+
+export const useSimulation = () => {
+  const [settings, setSettings] = useState<SimulationSettings>(() => SimulationService.getSettings());
+
+  // Stay in sync with changes made elsewhere
+  useEffect(() => {
+    setSettings(SimulationService.getSettings());
+    return SimulationService.subscribe(setSettings);
+  }, []);
+
+  const setSeed = useCallback((seed: number | null) => {
+    SimulationService.setSeed(seed);
+  }, []);
+
+  const restartSimulation = useCallback(() => {
+    SimulationService.restart();
+  }, []);
+
+  return {
+    seed: settings.seed,
+    seedSource: settings.source,
+    setSeed,
+    restartSimulation
+  };
+};
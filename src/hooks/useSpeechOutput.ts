@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import SpeechRegistry, { SpeechRegistryState } from '@/services/speech/SpeechRegistry';
+import VoiceAlertService from '@/services/VoiceAlertService';
+import LanguageService from '@/services/LanguageService';
+
+export const useSpeechOutput = () => {
+  const [state, setState] = useState<SpeechRegistryState>(() => SpeechRegistry.getState());
+
+  useEffect(() => {
+    setState(SpeechRegistry.getState());
+    return SpeechRegistry.subscribe(setState);
+  }, []);
+
+  const selectBackend = useCallback((id: string) => {
+    SpeechRegistry.select(id);
+  }, []);
+
+  const setServerUrl = useCallback((url: string) => {
+    SpeechRegistry.setServerUrl(url);
+  }, []);
+
+  // Speaks through the same queue as alerts, so it also checks the voice language
+  const testSpeech = useCallback(() => {
+    VoiceAlertService.speak(LanguageService.translate('system.ready'), 'general', 1);
+  }, []);
+
+  return {
+    backends: state.backends,
+    preferredId: state.preferredId,
+    activeId: state.activeId,
+    serverUrl: state.serverUrl,
+    selectBackend,
+    setServerUrl,
+    testSpeech
+  };
+};
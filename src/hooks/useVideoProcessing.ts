@@ -1,6 +1,8 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useToast } from '@/components/ui/use-toast';
+import DetectionLogService from '@/services/DetectionLogService';
+import DatasetExportService from '@/services/DatasetExportService';
 
 // Updated video sources that are more likely to work in modern browsers
 const MOCK_VIDEO_URL = "https://storage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
@@ -255,6 +257,9 @@ export const useVideoProcessing = () => {
       setIsCameraActive(true);
       setIsLoaded(true);
       setError(null);
+      // Camera sessions can be recorded but not replayed against
+      DetectionLogService.setVideoSource(null);
+      DatasetExportService.setVideoSource(null);
       
       toast({
         title: "Camera active",
@@ -333,6 +338,8 @@ export const useVideoProcessing = () => {
       setIsLoaded(false);
       setError(null);
       videoErrorCount.current = 0;
+      DetectionLogService.setVideoSource({ name: file.name, size: file.size });
+      DatasetExportService.setVideoSource({ name: file.name, size: file.size });
       
       toast({
         title: "Video uploaded",
@@ -348,6 +355,15 @@ export const useVideoProcessing = () => {
     }
   }, [isCameraActive, toast, registerCleanup]);
 
+  // Sample videos are told apart by URL; uploads are identified when they are picked
+  // Datasets are only captured from uploads
+  useEffect(() => {
+    if (!videoSrc.startsWith('blob:')) {
+      DetectionLogService.setVideoSource({ name: videoSrc, size: null });
+      DatasetExportService.setVideoSource(null);
+    }
+  }, [videoSrc]);
+
   // Clean up on unmount with improved error handling
   useEffect(() => {
     // Register cleanup for any blob URLs
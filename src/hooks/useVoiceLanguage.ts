@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from 'react';
+import LanguageService, { LanguageState } from '@/services/LanguageService';
+import { VoiceLanguage } from '@/types/i18n';
+
+export const useVoiceLanguage = () => {
+  const [state, setState] = useState<LanguageState>(() => LanguageService.getState());
+
+  // The voice list loads asynchronously, so the matched voice can change after mount
+  useEffect(() => {
+    setState(LanguageService.getState());
+    return LanguageService.subscribe(setState);
+  }, []);
+
+  const setLanguage = useCallback((language: VoiceLanguage) => {
+    LanguageService.setLanguage(language);
+  }, []);
+
+  return {
+    language: state.language,
+    voiceName: state.voiceName,
+    setLanguage
+  };
+};
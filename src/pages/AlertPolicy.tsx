@@ -0,0 +1,583 @@
+import React, { useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, Download, Plus, RotateCcw, Trash2, Upload, Volume2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAlertPolicy } from '@/hooks/useAlertPolicy';
+import { useVoiceLanguage } from '@/hooks/useVoiceLanguage';
+import { useAlertChannels } from '@/hooks/useAlertChannels';
+import { useSpeechOutput } from '@/hooks/useSpeechOutput';
+import { useAlertVerbosity } from '@/hooks/useAlertVerbosity';
+import {
+  ALERT_FIELDS,
+  ALERT_OPERATORS,
+  ALERT_TEMPLATE_VARIABLES,
+  AlertFieldInfo,
+  AlertPolicyError
+} from '@/services/alerts/alertRules';
+import { VOICE_LANGUAGES } from '@/services/i18n/messages';
+import { AlertChannel } from '@/services/EarconService';
+import { VERBOSITY_PROFILES } from '@/services/AlertVerbosityService';
+import { EARCON_PATTERNS, EarconKind } from '@/services/audio/earcons';
+import {
+  AlertCondition,
+  AlertFieldValue,
+  AlertOperator,
+  AlertRule,
+  AlertSeverity,
+  AlertTrigger,
+  VerbosityProfileId
+} from '@/types/alerts';
+import { VoiceLanguage } from '@/types/i18n';
+
+const TRIGGERS: { value: AlertTrigger, label: string }[] = [
+  { value: 'object', label: 'Object' },
+  { value: 'lane', label: 'Lane' },
+  { value: 'poi', label: 'Point of interest' }
+];
+
+const SEVERITIES: AlertSeverity[] = ['info', 'advisory', 'warning', 'critical'];
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  earcon: 'Earcon',
+  speech: 'Speech',
+  both: 'Earcon and speech'
+};
+
+// Earcon played when testing a severity
+const SAMPLE_EARCONS: Record<AlertSeverity, EarconKind> = {
+  info: 'poi',
+  advisory: 'lane',
+  warning: 'pedestrian',
+  critical: 'collision'
+};
+
+const OPERATOR_LABELS: Record<AlertOperator, string> = {
+  eq: 'is',
+  neq: 'is not',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  in: 'is one of',
+  exists: 'is present'
+};
+
+const fieldInfo = (trigger: AlertTrigger, name: string): AlertFieldInfo =>
+  ALERT_FIELDS[trigger].find(field => field.name === name) ?? ALERT_FIELDS[trigger][0];
+
+const defaultValue = (field: AlertFieldInfo, op: AlertOperator): AlertCondition['value'] => {
+  if (op === 'exists') return undefined;
+  if (op === 'in') return [];
+  if (field.kind === 'number') return 0;
+  if (field.kind === 'boolean') return true;
+  return '';
+};
+
+const formatValue = (value: AlertCondition['value']) =>
+  Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+
+/**
+ * Read typed text as a condition value; lists are comma-separated
+ */
+const parseValue = (text: string, field: AlertFieldInfo, op: AlertOperator): AlertCondition['value'] => {
+  const parseOne = (item: string): AlertFieldValue => {
+    if (field.kind !== 'number') return item;
+    const number = parseFloat(item);
+    return Number.isFinite(number) ? number : 0;
+  };
+  if (op === 'in') {
+    return text.split(',').map(item => item.trim()).filter(item => item.length > 0).map(parseOne);
+  }
+  return parseOne(text.trim());
+};
+
+interface ConditionRowProps {
+  trigger: AlertTrigger;
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow = ({ trigger, condition, onChange, onRemove }: ConditionRowProps) => {
+  const field = fieldInfo(trigger, condition.field);
+  const operators = ALERT_OPERATORS[field.kind];
+
+  const handleFieldChange = (name: string) => {
+    const next = fieldInfo(trigger, name);
+    const op = ALERT_OPERATORS[next.kind].includes(condition.op) ? condition.op : ALERT_OPERATORS[next.kind][0];
+    onChange({ field: name, op, value: defaultValue(next, op) });
+  };
+
+  const handleOpChange = (op: AlertOperator) => {
+    // Keep the value while the operator still takes the same shape
+    const sameShape = (op === 'in') === (condition.op === 'in') && op !== 'exists' && condition.op !== 'exists';
+    onChange({ ...condition, op, value: sameShape ? condition.value : defaultValue(field, op) });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={field.name} onValueChange={handleFieldChange}>
+        <SelectTrigger className="h-8 w-36 text-xs" title={field.description}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ALERT_FIELDS[trigger].map(option => (
+            <SelectItem key={option.name} value={option.name} className="text-xs">{option.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={condition.op} onValueChange={value => handleOpChange(value as AlertOperator)}>
+        <SelectTrigger className="h-8 w-28 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map(op => (
+            <SelectItem key={op} value={op} className="text-xs">{OPERATOR_LABELS[op]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {condition.op === 'exists' ? (
+        <div className="flex-1" />
+      ) : field.kind === 'boolean' ? (
+        <Select value={String(condition.value === true)} onValueChange={value => onChange({ ...condition, value: value === 'true' })}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true" className="text-xs">yes</SelectItem>
+            <SelectItem value="false" className="text-xs">no</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : (
+        // Committed on blur, so numbers and lists can be typed freely
+        <Input
+          key={formatValue(condition.value)}
+          defaultValue={formatValue(condition.value)}
+          placeholder={condition.op === 'in' ? 'comma-separated' : field.description}
+          onBlur={event => onChange({ ...condition, value: parseValue(event.target.value, field, condition.op) })}
+          className="h-8 flex-1 text-xs"
+        />
+      )}
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onRemove} title="Remove condition">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+interface RuleCardProps {
+  rule: AlertRule;
+  first: boolean;
+  last: boolean;
+  onUpdate: (id: string, changes: Partial<AlertRule>) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+}
+
+const RuleCard = ({ rule, first, last, onUpdate, onMove, onRemove }: RuleCardProps) => {
+  const update = (changes: Partial<AlertRule>) => onUpdate(rule.id, changes);
+
+  // A rule needs a name and a message, so clearing either puts the old text back
+  const commitText = (key: 'name' | 'message', input: HTMLInputElement) => {
+    const text = input.value.trim();
+    if (text && text !== rule[key]) {
+      // Own wording replaces the translated catalog message
+      update(key === 'message' ? { message: text, messageKey: undefined } : { name: text });
+    } else if (!text) {
+      input.value = rule[key];
+    }
+  };
+
+  const updateCondition = (index: number, condition: AlertCondition) =>
+    update({ conditions: rule.conditions.map((existing, i) => (i === index ? condition : existing)) });
+
+  const addCondition = () => {
+    const field = ALERT_FIELDS[rule.trigger][0];
+    const op = ALERT_OPERATORS[field.kind][0];
+    update({ conditions: [...rule.conditions, { field: field.name, op, value: defaultValue(field, op) }] });
+  };
+
+  return (
+    <div className={`bg-gray-800 rounded p-3 space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          checked={rule.enabled}
+          onCheckedChange={checked => update({ enabled: checked === true })}
+          title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+        />
+        <Input
+          key={rule.name}
+          defaultValue={rule.name}
+          onBlur={event => commitText('name', event.target)}
+          className="h-8 flex-1 text-sm font-medium"
+        />
+        <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+          {TRIGGERS.find(trigger => trigger.value === rule.trigger)?.label}
+        </span>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={first} onClick={() => onMove(rule.id, -1)} title="Move up">
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={last} onClick={() => onMove(rule.id, 1)} title="Move down">
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onRemove(rule.id)} title="Delete rule">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs text-gray-400">When {rule.trigger === 'lane' ? 'the lane estimate' : `a ${rule.trigger === 'poi' ? 'point of interest' : 'tracked object'}`} matches</h4>
+        {rule.conditions.length === 0 && (
+          <p className="text-xs text-gray-500">No conditions; every one matches</p>
+        )}
+        {rule.conditions.map((condition, index) => (
+          <ConditionRow
+            key={index}
+            trigger={rule.trigger}
+            condition={condition}
+            onChange={changed => updateCondition(index, changed)}
+            onRemove={() => update({ conditions: rule.conditions.filter((_, i) => i !== index) })}
+          />
+        ))}
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addCondition}>
+          <Plus className="mr-1 h-3 w-3" />
+          Condition
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>Severity</span>
+          <Select value={rule.severity} onValueChange={value => update({ severity: value as AlertSeverity })}>
+            <SelectTrigger className="h-8 text-xs capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEVERITIES.map(severity => (
+                <SelectItem key={severity} value={severity} className="text-xs capitalize">{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>Cooldown (s)</span>
+          <Input
+            type="number"
+            min={0}
+            step={1}
+            value={rule.cooldownMs / 1000}
+            onChange={event => update({ cooldownMs: Math.max(0, (parseFloat(event.target.value) || 0) * 1000) })}
+            className="h-8 text-xs"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>At least</span>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={rule.minCount}
+            onChange={event => update({ minCount: Math.max(1, parseInt(event.target.value, 10) || 1) })}
+            className="h-8 text-xs"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>Repeat for the same {rule.trigger === 'lane' ? 'direction' : rule.trigger === 'poi' ? 'place' : 'object'}</span>
+          <Select
+            value={rule.suppression.mode === 'subject' ? String(rule.suppression.forgetAfterMs / 1000) : 'always'}
+            onValueChange={value => update({
+              suppression: value === 'always'
+                ? { mode: 'none', forgetAfterMs: 0 }
+                : { mode: 'subject', forgetAfterMs: parseFloat(value) * 1000 }
+            })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="always" className="text-xs">Every cooldown</SelectItem>
+              {[0, 10, 30, 60, 300].map(seconds => (
+                <SelectItem key={seconds} value={String(seconds)} className="text-xs">
+                  {seconds === 0 ? 'Once it stops matching' : `${seconds} s after it stops matching`}
+                </SelectItem>
+              ))}
+              {rule.suppression.mode === 'subject' && ![0, 10000, 30000, 60000, 300000].includes(rule.suppression.forgetAfterMs) && (
+                <SelectItem value={String(rule.suppression.forgetAfterMs / 1000)} className="text-xs">
+                  {`${rule.suppression.forgetAfterMs / 1000} s after it stops matching`}
+                </SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>Message</span>
+          <Input
+            key={rule.message}
+            defaultValue={rule.message}
+            onBlur={event => commitText('message', event.target)}
+            className="h-8 text-xs"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-gray-400">
+          <span>Message for several</span>
+          <Input
+            value={rule.messagePlural ?? ''}
+            placeholder="Same as message"
+            onChange={event => update({ messagePlural: event.target.value || undefined, messageKey: undefined })}
+            className="h-8 text-xs"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        {rule.messageKey && 'Built-in message, spoken in the voice language; editing it speaks your wording instead. '}
+        Placeholders: {ALERT_TEMPLATE_VARIABLES[rule.trigger].map(name => `{${name}}`).join(' ')}
+      </p>
+    </div>
+  );
+};
+
+const AlertPolicy = () => {
+  const { toast } = useToast();
+  const { rules, updateRule, addRule, removeRule, moveRule, resetRules, importPolicy, exportPolicy } = useAlertPolicy();
+  const { language, voiceName, setLanguage } = useVoiceLanguage();
+  const { channels, setChannel, playEarcon } = useAlertChannels();
+  const { backends, preferredId, activeId, serverUrl, selectBackend, setServerUrl, testSpeech } = useSpeechOutput();
+  const { profile, quiet, setProfile, setQuiet } = useAlertVerbosity();
+  const preferredBackend = backends.find(backend => backend.id === preferredId);
+  const activeBackend = backends.find(backend => backend.id === activeId);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importPolicy(file);
+      toast({
+        title: "Alert rules imported",
+        description: `${count} rule${count === 1 ? '' : 's'} from ${file.name}`
+      });
+    } catch (err) {
+      toast({
+        title: err instanceof AlertPolicyError ? "Invalid alert policy" : "Can't import alert rules",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
+      <div className="container mx-auto px-4 py-6">
+        <header className="mb-6 flex items-center justify-between">
+          <Link to="/" className="flex items-center text-sm text-gray-300 hover:text-white">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to navigation
+          </Link>
+          <h1 className="text-2xl font-bold">Voice Alert Rules</h1>
+          <div className="w-32" />
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <div className="lg:col-span-4 navigation-panel space-y-5">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">How rules work</h3>
+              <p className="text-xs text-gray-400">
+                Every frame, enabled rules are checked from top to bottom and the first one that fires is spoken.
+                A rule fires when at least the given number of objects, places or lane estimates meet all its conditions,
+                its cooldown has passed, and one of them hasn't already been announced.
+              </p>
+              <p className="text-xs text-gray-400">
+                Collision warnings and traffic light changes are always spoken and aren't part of these rules.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Verbosity</h3>
+              <Select value={profile} onValueChange={value => setProfile(value as VerbosityProfileId)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VERBOSITY_PROFILES) as VerbosityProfileId[]).map(id => (
+                    <SelectItem key={id} value={id}>{VERBOSITY_PROFILES[id].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-400">{VERBOSITY_PROFILES[profile].description}</p>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={quiet} onCheckedChange={checked => setQuiet(checked === true)} />
+                Quiet mode
+              </label>
+              <p className="text-xs text-gray-400">
+                Quiet mode keeps only critical alerts, whatever the profile. Both apply to spoken alerts,
+                earcons and navigation notifications.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Voice Language</h3>
+              <Select value={language} onValueChange={value => setLanguage(value as VoiceLanguage)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VOICE_LANGUAGES) as VoiceLanguage[]).map(id => (
+                    <SelectItem key={id} value={id}>{VOICE_LANGUAGES[id].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-400">
+                {voiceName
+                  ? `Spoken with ${voiceName}.`
+                  : `No ${VOICE_LANGUAGES[language].label} voice is installed for this speech output; it picks one for ${VOICE_LANGUAGES[language].locale}.`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Speech Output</h3>
+              <div className="flex gap-2">
+                <Select value={preferredId} onValueChange={selectBackend}>
+                  <SelectTrigger className="h-9 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {backends.map(backend => (
+                      <SelectItem key={backend.id} value={backend.id}>{backend.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" className="h-9" onClick={testSpeech} title="Speak a test message">
+                  <Volume2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {preferredId === 'server' && (
+                <Input
+                  key={serverUrl}
+                  defaultValue={serverUrl}
+                  placeholder="http://localhost:5002/tts"
+                  onBlur={event => setServerUrl(event.target.value)}
+                  className="h-8 text-xs"
+                />
+              )}
+              <p className="text-xs text-gray-400">
+                {preferredId === 'server' && 'The server gets a JSON POST of text, locale, voice and rate, and answers with audio. '}
+                {preferredId === 'silent' && 'Alerts are only recorded, with their timing, and nothing is spoken. '}
+                {activeBackend && preferredBackend && activeBackend.id !== preferredBackend.id &&
+                  `${preferredBackend.name} unavailable, using ${activeBackend.name}.`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Alert Sound</h3>
+              {SEVERITIES.map(severity => (
+                <div key={severity} className="flex items-center gap-2">
+                  <span className="w-20 text-xs text-gray-300 capitalize">{severity}</span>
+                  <Select value={channels[severity]} onValueChange={value => setChannel(severity, value as AlertChannel)}>
+                    <SelectTrigger className="h-8 flex-1 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map(channel => (
+                        <SelectItem key={channel} value={channel} className="text-xs">{CHANNEL_LABELS[channel]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => playEarcon(SAMPLE_EARCONS[severity], severity)}
+                    title={`Play the ${EARCON_PATTERNS[SAMPLE_EARCONS[severity]].label.toLowerCase()} earcon at ${severity} urgency`}
+                  >
+                    <Volume2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-gray-400">
+                Earcons play at once, higher and faster the more urgent the alert, and from the side of the hazard.
+                Collision and brake warnings count as critical.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={() => playEarcon('lane', 'advisory', -1)}>
+                  Test Left
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => playEarcon('lane', 'advisory', 1)}>
+                  Test Right
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Add Rule</h3>
+              <div className="flex flex-wrap gap-2">
+                {TRIGGERS.map(trigger => (
+                  <Button key={trigger.value} variant="outline" size="sm" onClick={() => addRule(trigger.value)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    {trigger.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">New rules start disabled.</p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Policy File</h3>
+              <input
+                type="file"
+                ref={importInputRef}
+                className="hidden"
+                accept=".json,application/json"
+                onChange={handleImport}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+                <Button variant="outline" size="sm" onClick={exportPolicy}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </div>
+              <Button variant="outline" size="sm" className="w-full" onClick={resetRules}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restore Default Rules
+              </Button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-8 navigation-panel space-y-3">
+            {rules.length === 0 ? (
+              <div className="py-16 text-center text-gray-400">
+                No rules, so only collision and traffic light warnings are spoken
+              </div>
+            ) : (
+              rules.map((rule, index) => (
+                <RuleCard
+                  key={rule.id}
+                  rule={rule}
+                  first={index === 0}
+                  last={index === rules.length - 1}
+                  onUpdate={updateRule}
+                  onMove={moveRule}
+                  onRemove={removeRule}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertPolicy;
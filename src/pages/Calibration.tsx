@@ -0,0 +1,398 @@
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Camera, CameraOff, Crosshair, RotateCcw, Ruler, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { useCameraCalibration } from '@/hooks/useCameraCalibration';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
+import { groundDistanceAtRow, rowForGroundDistance } from '@/services/detection/distanceEstimation';
+
+// Distances (meters) drawn as reference lines on the road
+const GRID_DISTANCES = [5, 10, 20, 30, 50];
+
+type ClickMode = 'measure' | 'horizon' | 'reference';
+
+const Calibration = () => {
+  const { calibration, updateCalibration, resetCalibration } = useCameraCalibration();
+  const { realInference } = useDetectorBackends();
+  const { toast } = useToast();
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const [sourceType, setSourceType] = useState<'none' | 'camera' | 'video' | 'image'>('none');
+  const [clickMode, setClickMode] = useState<ClickMode>('measure');
+  const [measurePoint, setMeasurePoint] = useState<{ x: number; y: number } | null>(null);
+  const [referenceDistance, setReferenceDistance] = useState<number>(10);
+
+  const releaseSource = useCallback(() => {
+    if (cameraStreamRef.current) {
+      cameraStreamRef.current.getTracks().forEach(track => track.stop());
+      cameraStreamRef.current = null;
+    }
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.srcObject = null;
+      videoRef.current.removeAttribute('src');
+    }
+    imageRef.current = null;
+  }, []);
+
+  // Release camera and object URLs when leaving the page
+  useEffect(() => releaseSource, [releaseSource]);
+
+  const toggleCamera = async () => {
+    if (sourceType === 'camera') {
+      releaseSource();
+      setSourceType('none');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 720 } }
+      });
+      releaseSource();
+      cameraStreamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setSourceType('camera');
+    } catch (err) {
+      console.error("Error accessing camera:", err);
+      toast({
+        title: "Camera error",
+        description: "Failed to access device camera. Check permissions.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    releaseSource();
+    const url = URL.createObjectURL(file);
+    objectUrlRef.current = url;
+
+    if (file.type.startsWith('image/')) {
+      const image = new Image();
+      image.onload = () => {
+        imageRef.current = image;
+        setSourceType('image');
+      };
+      image.src = url;
+    } else if (file.type.startsWith('video/') && videoRef.current) {
+      videoRef.current.src = url;
+      videoRef.current.loop = true;
+      videoRef.current.play().catch(err => console.error("Error playing calibration video:", err));
+      setSourceType('video');
+    } else {
+      toast({
+        title: "Invalid file type",
+        description: "Please select an image or video file.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Draw the frame with the horizon, distance grid and measurement overlay
+  useEffect(() => {
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const video = videoRef.current;
+      const image = imageRef.current;
+      const sourceWidth = image ? image.naturalWidth : video?.videoWidth || 1280;
+      const sourceHeight = image ? image.naturalHeight : video?.videoHeight || 720;
+
+      if (canvas.width !== sourceWidth || canvas.height !== sourceHeight) {
+        canvas.width = sourceWidth;
+        canvas.height = sourceHeight;
+      }
+
+      const width = canvas.width;
+      const height = canvas.height;
+
+      ctx.fillStyle = '#1f2937';
+      ctx.fillRect(0, 0, width, height);
+      if (image) {
+        ctx.drawImage(image, 0, 0, width, height);
+      } else if (video && video.readyState >= 2) {
+        ctx.drawImage(video, 0, 0, width, height);
+      }
+
+      // Distance grid
+      ctx.font = `${Math.max(12, height * 0.025)}px Arial`;
+      GRID_DISTANCES.forEach(distance => {
+        const row = rowForGroundDistance(distance, height, calibration);
+        if (row > height) return;
+        ctx.strokeStyle = 'rgba(0, 255, 200, 0.6)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(width * 0.2, row);
+        ctx.lineTo(width * 0.8, row);
+        ctx.stroke();
+        ctx.fillStyle = 'rgba(0, 255, 200, 1.0)';
+        ctx.fillText(`${distance} m`, width * 0.8 + 8, row + 4);
+      });
+
+      // Horizon line
+      const horizonRow = calibration.horizon * height;
+      ctx.strokeStyle = 'rgba(255, 221, 0, 0.9)';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([12, 8]);
+      ctx.beginPath();
+      ctx.moveTo(0, horizonRow);
+      ctx.lineTo(width, horizonRow);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = 'rgba(255, 221, 0, 1.0)';
+      ctx.fillText('Horizon', 10, horizonRow - 6);
+
+      // Measured point
+      if (measurePoint) {
+        const x = measurePoint.x * width;
+        const y = measurePoint.y * height;
+        const distance = groundDistanceAtRow(y, height, calibration);
+        ctx.fillStyle = '#ff2020';
+        ctx.beginPath();
+        ctx.arc(x, y, 6, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(distance !== null ? `${distance.toFixed(1)} m` : 'above horizon', x + 10, y - 10);
+      }
+
+      animationFrameRef.current = requestAnimationFrame(draw);
+    };
+
+    animationFrameRef.current = requestAnimationFrame(draw);
+    return () => {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [calibration, measurePoint]);
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width;
+    const y = (event.clientY - rect.top) / rect.height;
+
+    if (clickMode === 'horizon') {
+      updateCalibration({ horizon: y });
+      setClickMode('measure');
+      return;
+    }
+
+    if (clickMode === 'reference') {
+      // Solve mounting height so the clicked road point is at the reference distance
+      const pixelsBelowHorizon = (y - calibration.horizon) * canvas.height;
+      if (pixelsBelowHorizon <= 0 || referenceDistance <= 0) {
+        toast({
+          title: "Point above horizon",
+          description: "Click where the reference object touches the road",
+          variant: "destructive"
+        });
+        return;
+      }
+      const focalPx = calibration.focalLength * canvas.height;
+      const mountingHeight = (referenceDistance * pixelsBelowHorizon) / focalPx;
+      updateCalibration({ mountingHeight: Math.round(mountingHeight * 100) / 100 });
+      setClickMode('measure');
+      toast({
+        title: "Mounting height updated",
+        description: `Camera height set to ${mountingHeight.toFixed(2)} m`
+      });
+    }
+
+    setMeasurePoint({ x, y });
+  };
+
+  const frameHeight = canvasRef.current?.height || 720;
+  const verticalFov = (2 * Math.atan(0.5 / calibration.focalLength) * 180) / Math.PI;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
+      <div className="container mx-auto px-4 py-6">
+        <header className="mb-6 flex items-center justify-between">
+          <Link to="/" className="flex items-center text-sm text-gray-300 hover:text-white">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to navigation
+          </Link>
+          <h1 className="text-2xl font-bold">Camera Calibration</h1>
+          <div className="w-32" />
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <div className="lg:col-span-8 space-y-3">
+            <div className="relative bg-gray-900 rounded-lg overflow-hidden">
+              <canvas
+                ref={canvasRef}
+                onClick={handleCanvasClick}
+                className={`w-full h-auto ${clickMode === 'measure' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+              />
+              {sourceType === 'none' && (
+                <div className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
+                  Use the camera or upload a frame from your dashcam
+                </div>
+              )}
+            </div>
+            <video ref={videoRef} className="hidden" muted playsInline />
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept="image/*,video/*"
+              onChange={handleFileChange}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Upload Frame
+              </Button>
+              <Button variant={sourceType === 'camera' ? "destructive" : "outline"} size="sm" onClick={toggleCamera}>
+                {sourceType === 'camera' ? <CameraOff className="mr-2 h-4 w-4" /> : <Camera className="mr-2 h-4 w-4" />}
+                {sourceType === 'camera' ? "Stop Camera" : "Use Camera"}
+              </Button>
+              <Button
+                variant={clickMode === 'horizon' ? "default" : "outline"}
+                size="sm"
+                onClick={() => setClickMode(clickMode === 'horizon' ? 'measure' : 'horizon')}
+              >
+                <Crosshair className="mr-2 h-4 w-4" />
+                Click to Set Horizon
+              </Button>
+            </div>
+            <p className="text-xs text-gray-400">
+              Click on the road to measure its distance. Line the horizon up with where the road vanishes.
+            </p>
+            {!realInference && (
+              <p className="text-xs text-amber-300">
+                The active detector is simulated and sets its own distances; this calibration applies once a
+                detection model is installed (see the detector selector on the main screen).
+              </p>
+            )}
+          </div>
+
+          <div className="lg:col-span-4 navigation-panel space-y-5">
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium">Focal Length</h3>
+                <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+                  {Math.round(calibration.focalLength * frameHeight)} px · {verticalFov.toFixed(0)}° vFOV
+                </span>
+              </div>
+              <Slider
+                value={[calibration.focalLength]}
+                min={0.5}
+                max={3}
+                step={0.01}
+                onValueChange={value => updateCalibration({ focalLength: value[0] })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium">Mounting Height</h3>
+                <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+                  {calibration.mountingHeight.toFixed(2)} m
+                </span>
+              </div>
+              <Slider
+                value={[calibration.mountingHeight]}
+                min={0.5}
+                max={3.5}
+                step={0.01}
+                onValueChange={value => updateCalibration({ mountingHeight: value[0] })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium">Pitch (down)</h3>
+                <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+                  {calibration.pitch.toFixed(1)}°
+                </span>
+              </div>
+              <Slider
+                value={[calibration.pitch]}
+                min={-15}
+                max={15}
+                step={0.1}
+                onValueChange={value => updateCalibration({ pitch: value[0] })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium">Horizon Line</h3>
+                <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+                  {Math.round(calibration.horizon * 100)}% from top
+                </span>
+              </div>
+              <Slider
+                value={[calibration.horizon]}
+                min={0.1}
+                max={0.9}
+                step={0.005}
+                onValueChange={value => updateCalibration({ horizon: value[0] })}
+              />
+            </div>
+
+            <div className="space-y-2 border-t border-gray-700 pt-4">
+              <h3 className="text-sm font-medium">Fit Height From Known Distance</h3>
+              <p className="text-xs text-gray-400">
+                Enter the distance to an object on the road, then click where it touches the ground.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={referenceDistance}
+                  onChange={event => setReferenceDistance(parseFloat(event.target.value) || 0)}
+                  className="h-9 bg-gray-800 border-gray-700"
+                />
+                <Button
+                  variant={clickMode === 'reference' ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setClickMode(clickMode === 'reference' ? 'measure' : 'reference')}
+                >
+                  <Ruler className="mr-2 h-4 w-4" />
+                  Pick Point
+                </Button>
+              </div>
+            </div>
+
+            <Button variant="outline" size="sm" onClick={resetCalibration} className="w-full">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Calibration;
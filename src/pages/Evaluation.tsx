@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, FileText, Play, Square, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { useEvaluation } from '@/hooks/useEvaluation';
+import { useDetectorBackends } from '@/hooks/useDetectorBackends';
+import DetectorRegistry from '@/services/detection/DetectorRegistry';
+
+const percent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+
+const Evaluation = () => {
+  const { toast } = useToast();
+  const { backends, activeId, statusMessage } = useDetectorBackends();
+  const [threshold, setThreshold] = useState(0.5);
+  const [fps, setFps] = useState(30);
+  const [videoName, setVideoName] = useState<string | null>(null);
+  const { annotations, evaluation, report, loadAnnotations, runEvaluation, cancelEvaluation } = useEvaluation(threshold);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const annotationInputRef = useRef<HTMLInputElement>(null);
+  const objectUrlRef = useRef<string | null>(null);
+
+  const activeBackend = backends.find(backend => backend.id === activeId);
+  const running = evaluation.status === 'running';
+
+  // Load the preferred backend when the page is opened directly
+  useEffect(() => {
+    if (!activeId) {
+      DetectorRegistry.initialize();
+    }
+  }, [activeId]);
+
+  // Stop the run and release the video when leaving the page
+  useEffect(() => () => {
+    cancelEvaluation();
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+  }, [cancelEvaluation]);
+
+  const handleVideoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !videoRef.current) return;
+
+    if (!file.type.startsWith('video/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select a video file.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    cancelEvaluation();
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+    }
+    objectUrlRef.current = URL.createObjectURL(file);
+    videoRef.current.src = objectUrlRef.current;
+    setVideoName(file.name);
+  };
+
+  const handleAnnotationChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const set = await loadAnnotations(files);
+      const boxes = set.frames.reduce((sum, frame) => sum + frame.boxes.length, 0);
+      toast({
+        title: "Annotations loaded",
+        description: `${set.format.toUpperCase()}: ${set.frames.length} frames, ${boxes} boxes`
+      });
+    } catch (err) {
+      toast({
+        title: "Invalid annotations",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    if (running) {
+      cancelEvaluation();
+      return;
+    }
+    if (!videoRef.current) return;
+
+    try {
+      // Start the slider at the best threshold once a run finishes
+      const suggested = await runEvaluation(videoRef.current, fps);
+      if (suggested !== null) {
+        setThreshold(Math.round(suggested * 100) / 100);
+      }
+    } catch (err) {
+      toast({
+        title: "Can't evaluate",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
+      <div className="container mx-auto px-4 py-6">
+        <header className="mb-6 flex items-center justify-between">
+          <Link to="/" className="flex items-center text-sm text-gray-300 hover:text-white">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to navigation
+          </Link>
+          <h1 className="text-2xl font-bold">Detection Evaluation</h1>
+          <div className="w-32" />
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <div className="lg:col-span-4 navigation-panel space-y-5">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Detector</h3>
+              <p className="text-xs text-gray-400">
+                {activeBackend ? activeBackend.name : statusMessage}. Switch backends on the main page.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Video</h3>
+              <video ref={videoRef} className="w-full rounded bg-gray-900" muted playsInline preload="auto" />
+              <input
+                type="file"
+                ref={videoInputRef}
+                className="hidden"
+                accept="video/*"
+                onChange={handleVideoChange}
+              />
+              <Button variant="outline" size="sm" className="w-full" disabled={running} onClick={() => videoInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                {videoName || "Load Video"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Annotations</h3>
+              <p className="text-xs text-gray-400">
+                A COCO .json file, or YOLO .txt labels with classes.txt, a .names file or data.yaml.
+              </p>
+              <input
+                type="file"
+                ref={annotationInputRef}
+                className="hidden"
+                accept=".json,.txt,.names,.yaml,.yml"
+                multiple
+                onChange={handleAnnotationChange}
+              />
+              <Button variant="outline" size="sm" className="w-full" disabled={running} onClick={() => annotationInputRef.current?.click()}>
+                <FileText className="mr-2 h-4 w-4" />
+                {annotations ? `${annotations.format.toUpperCase()} · ${annotations.frames.length} frames` : "Load Annotations"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Label Frame Rate</h3>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={fps}
+                disabled={running}
+                onChange={event => setFps(parseFloat(event.target.value) || 30)}
+                className="h-9 bg-gray-800 border-gray-700"
+              />
+            </div>
+
+            <Button
+              variant={running ? "destructive" : "default"}
+              size="sm"
+              className="w-full"
+              disabled={!running && (!annotations || !videoName || !activeBackend)}
+              onClick={handleRun}
+            >
+              {running ? <Square className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+              {running ? "Cancel" : "Run Evaluation"}
+            </Button>
+
+            {evaluation.status !== 'idle' && (
+              <div className="space-y-1">
+                <Progress value={evaluation.total > 0 ? (evaluation.processed / evaluation.total) * 100 : 0} className="h-2" />
+                <p className="text-xs text-gray-400">
+                  {evaluation.processed} / {evaluation.total} frames
+                  {evaluation.skipped > 0 && ` (${evaluation.skipped} past the end of the video)`}
+                  {evaluation.status === 'cancelled' && ' · cancelled'}
+                </p>
+                {evaluation.error && <p className="text-xs text-red-400">{evaluation.error}</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-8 navigation-panel space-y-5">
+            {!report ? (
+              <div className="py-16 text-center text-gray-400">
+                Load a video and its annotations, then run the evaluation
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="bg-gray-800 rounded p-3">
+                    <div className="text-xs text-gray-400">mAP@0.5</div>
+                    <div className="text-xl font-bold">{percent(report.meanAveragePrecision)}</div>
+                  </div>
+                  <div className="bg-gray-800 rounded p-3">
+                    <div className="text-xs text-gray-400">Precision</div>
+                    <div className="text-xl font-bold">{percent(report.precision)}</div>
+                  </div>
+                  <div className="bg-gray-800 rounded p-3">
+                    <div className="text-xs text-gray-400">Recall</div>
+                    <div className="text-xl font-bold">{percent(report.recall)}</div>
+                  </div>
+                  <div className="bg-gray-800 rounded p-3">
+                    <div className="text-xs text-gray-400">Lane offset error</div>
+                    <div className="text-xl font-bold">
+                      {report.lane ? `${report.lane.meanAbsoluteError.toFixed(1)}%` : '–'}
+                    </div>
+                    {report.lane && (
+                      <div className="text-xs text-gray-400">
+                        RMSE {report.lane.rootMeanSquareError.toFixed(1)}% · {report.lane.frames} frames
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-medium">Confidence Threshold</h3>
+                    <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">
+                      {Math.round(threshold * 100)}%
+                      {report.suggestedThreshold !== null && ` · best F1 at ${Math.round(report.suggestedThreshold * 100)}%`}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[threshold]}
+                    min={0.05}
+                    max={0.95}
+                    step={0.01}
+                    onValueChange={value => setThreshold(value[0])}
+                  />
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Class</TableHead>
+                      <TableHead className="text-right">Labels</TableHead>
+                      <TableHead className="text-right">Detections</TableHead>
+                      <TableHead className="text-right">Correct</TableHead>
+                      <TableHead className="text-right">Precision</TableHead>
+                      <TableHead className="text-right">Recall</TableHead>
+                      <TableHead className="text-right">AP@0.5</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.classes.map(metrics => (
+                      <TableRow key={metrics.className}>
+                        <TableCell className="capitalize">{metrics.className}</TableCell>
+                        <TableCell className="text-right">{metrics.groundTruth}</TableCell>
+                        <TableCell className="text-right">{metrics.detections}</TableCell>
+                        <TableCell className="text-right">{metrics.truePositives}</TableCell>
+                        <TableCell className="text-right">{percent(metrics.precision)}</TableCell>
+                        <TableCell className="text-right">{percent(metrics.recall)}</TableCell>
+                        <TableCell className="text-right">{percent(metrics.averagePrecision)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-gray-400">
+                  {report.frames} frames evaluated. A detection is correct when it overlaps an unmatched label of the same class by IoU 0.5 or more.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Evaluation;
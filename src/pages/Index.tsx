@@ -1,5 +1,7 @@
 
 import React, { useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BellOff, Ruler, Target } from 'lucide-react';
 import VideoFeedWrapper from '@/components/video/VideoFeedWrapper';
 import NavigationPanel from '@/components/NavigationPanel';
 import LanePositionIndicator from '@/components/LanePositionIndicator';
@@ -9,9 +11,11 @@ import WeatherAndEco from '@/components/WeatherAndEco';
 import RouteControls from '@/components/RouteControls';
 import RouteMap from '@/components/RouteMap';
 import { clearToasts } from '@/components/ui/use-toast';
+import { useAlertVerbosity } from '@/hooks/useAlertVerbosity';
 
 const Index = () => {
   const isMounted = useRef(true);
+  const { quiet, setQuiet } = useAlertVerbosity();
   
   // Clear any stale toasts on mount and unmount with improved safety
   useEffect(() => {
@@ -44,6 +48,29 @@ const Index = () => {
         <header className="mb-6">
           <h1 className="text-3xl font-bold text-center">Smart Route Vision Pilot</h1>
           <p className="text-center text-gray-400">AI-Powered Navigation and Safety System</p>
+          <div className="flex justify-center gap-4 mt-2">
+            <Link to="/calibration" className="flex items-center text-xs text-blue-300 hover:text-blue-200">
+              <Ruler className="w-3 h-3 mr-1" />
+              Camera calibration
+            </Link>
+            <Link to="/evaluation" className="flex items-center text-xs text-blue-300 hover:text-blue-200">
+              <Target className="w-3 h-3 mr-1" />
+              Detection evaluation
+            </Link>
+            <Link to="/alerts" className="flex items-center text-xs text-blue-300 hover:text-blue-200">
+              <Bell className="w-3 h-3 mr-1" />
+              Voice alert rules
+            </Link>
+            <button
+              type="button"
+              onClick={() => setQuiet(!quiet)}
+              className={`flex items-center text-xs ${quiet ? 'text-amber-300 hover:text-amber-200' : 'text-blue-300 hover:text-blue-200'}`}
+              title="Keep only critical alerts"
+            >
+              <BellOff className="w-3 h-3 mr-1" />
+              {quiet ? 'Quiet mode on' : 'Quiet mode'}
+            </button>
+          </div>
         </header>
 
         <EmergencyAlert />
@@ -0,0 +1,143 @@
+/**
+ * Service holding the voice alert rules
+ * The policy is persisted in localStorage so edits survive reloads, and can be exported and imported as JSON
+ */
+import { AlertPolicy, AlertRule, AlertTrigger } from '../types/alerts';
+import {
+  ALERT_POLICY_VERSION,
+  DEFAULT_ALERT_RULES,
+  parseAlertPolicy,
+  parseAlertPolicyText
+} from './alerts/alertRules';
+
+const STORAGE_KEY = 'alertPolicy';
+
+// Starting message of a new rule, per trigger
+const NEW_RULE_MESSAGES: Record<AlertTrigger, string> = {
+  object: '{type} ahead',
+  lane: 'Lane departure {direction}',
+  poi: '{label} {distanceText} {direction}'
+};
+
+type AlertPolicyListener = (rules: AlertRule[]) => void;
+
+const copyRules = (rules: AlertRule[]): AlertRule[] => JSON.parse(JSON.stringify(rules));
+
+class AlertPolicyService {
+  private rules: AlertRule[];
+  private listeners: Set<AlertPolicyListener>;
+
+  constructor() {
+    this.rules = this.loadStoredRules();
+    this.listeners = new Set();
+  }
+
+  private loadStoredRules(): AlertRule[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        return parseAlertPolicy(JSON.parse(stored)).rules;
+      }
+    } catch (err) {
+      console.error("Error reading stored alert policy:", err);
+    }
+    return copyRules(DEFAULT_ALERT_RULES);
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getPolicy(): AlertPolicy {
+    return { version: ALERT_POLICY_VERSION, rules: this.rules };
+  }
+
+  updateRule(id: string, changes: Partial<AlertRule>) {
+    this.save(this.rules.map(rule => (rule.id === id ? { ...rule, ...changes, id } : rule)));
+  }
+
+  /**
+   * Add a disabled rule for a trigger at the end of the list, returns its id
+   */
+  addRule(trigger: AlertTrigger) {
+    let n = this.rules.length + 1;
+    while (this.rules.some(rule => rule.id === `rule-${n}`)) n++;
+    const id = `rule-${n}`;
+
+    this.save([
+      ...this.rules,
+      {
+        id,
+        name: 'New rule',
+        enabled: false,
+        trigger,
+        conditions: [],
+        minCount: 1,
+        severity: 'info',
+        cooldownMs: 5000,
+        suppression: { mode: 'subject', forgetAfterMs: 10000 },
+        message: NEW_RULE_MESSAGES[trigger]
+      }
+    ]);
+    return id;
+  }
+
+  removeRule(id: string) {
+    this.save(this.rules.filter(rule => rule.id !== id));
+  }
+
+  /**
+   * Move a rule up (-1) or down (1); earlier rules take priority
+   */
+  moveRule(id: string, offset: number) {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= this.rules.length) return;
+
+    const rules = [...this.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.save(rules);
+  }
+
+  reset() {
+    this.save(copyRules(DEFAULT_ALERT_RULES));
+  }
+
+  /**
+   * Replace the rules with those of an exported policy file
+   * Throws AlertPolicyError when the file isn't a valid policy
+   */
+  importPolicy(text: string, fileName = '') {
+    const policy = parseAlertPolicyText(text, fileName);
+    this.save(policy.rules);
+    return policy.rules.length;
+  }
+
+  exportPolicy() {
+    return JSON.stringify(this.getPolicy(), null, 2);
+  }
+
+  /**
+   * Subscribe to rule changes, returns an unsubscribe function
+   */
+  subscribe(listener: AlertPolicyListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(rules: AlertRule[]) {
+    this.rules = rules;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getPolicy()));
+    } catch (err) {
+      console.error("Error saving alert policy:", err);
+    }
+
+    this.listeners.forEach(listener => listener(rules));
+  }
+}
+
+export default new AlertPolicyService();
@@ -0,0 +1,131 @@
+/**
+ * Service holding how talkative alerts are: a verbosity profile, and a quiet mode that keeps only
+ * critical alerts whatever the profile. Both are persisted in localStorage
+ */
+import { AlertSeverity, VerbosityProfile, VerbosityProfileId, VerbosityState } from '../types/alerts';
+import { SEVERITY_PRIORITY } from './alerts/alertRules';
+
+const STORAGE_KEY = 'alertVerbosity';
+
+export const VERBOSITY_PROFILES: Record<VerbosityProfileId, VerbosityProfile> = {
+  minimal: {
+    label: 'Minimal',
+    description: 'Only warnings and critical alerts, repeated less often.',
+    minSeverity: 'warning',
+    cooldownScale: 1.5,
+    everyPoi: false,
+    speakAll: false
+  },
+  standard: {
+    label: 'Standard',
+    description: 'Every alert the rules raise, at their own cooldowns.',
+    minSeverity: 'info',
+    cooldownScale: 1,
+    everyPoi: false,
+    speakAll: false
+  },
+  verbose: {
+    label: 'Verbose',
+    description: 'Every alert, repeated sooner, and every point of interest called out.',
+    minSeverity: 'info',
+    cooldownScale: 0.75,
+    everyPoi: true,
+    speakAll: false
+  },
+  'co-driver': {
+    label: 'Co-driver',
+    description: 'Talks through everything: earcon-only alerts are spoken too, at half the cooldowns.',
+    minSeverity: 'info',
+    cooldownScale: 0.5,
+    everyPoi: true,
+    speakAll: true
+  }
+};
+
+export const DEFAULT_VERBOSITY: VerbosityState = { profile: 'standard', quiet: false };
+
+const isProfileId = (value: unknown): value is VerbosityProfileId =>
+  typeof value === 'string' && value in VERBOSITY_PROFILES;
+
+type VerbosityListener = (state: VerbosityState) => void;
+
+class AlertVerbosityService {
+  private state: VerbosityState;
+  private listeners: Set<VerbosityListener>;
+
+  constructor() {
+    this.state = this.loadStoredState();
+    this.listeners = new Set();
+  }
+
+  private loadStoredState(): VerbosityState {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return {
+          profile: isProfileId(parsed.profile) ? parsed.profile : DEFAULT_VERBOSITY.profile,
+          quiet: parsed.quiet === true
+        };
+      }
+    } catch (err) {
+      console.error("Error reading stored alert verbosity:", err);
+    }
+    return { ...DEFAULT_VERBOSITY };
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  getProfile() {
+    return VERBOSITY_PROFILES[this.state.profile];
+  }
+
+  setProfile(profile: VerbosityProfileId) {
+    this.save({ ...this.state, profile });
+  }
+
+  setQuiet(quiet: boolean) {
+    this.save({ ...this.state, quiet });
+  }
+
+  /**
+   * Whether alerts and toasts of a severity get through the profile and quiet mode
+   */
+  allows(severity: AlertSeverity) {
+    const minSeverity = this.state.quiet ? 'critical' : this.getProfile().minSeverity;
+    return SEVERITY_PRIORITY[severity] >= SEVERITY_PRIORITY[minSeverity];
+  }
+
+  /**
+   * A cooldown in ms stretched or shortened by the profile
+   */
+  scaleCooldown(cooldown: number) {
+    return cooldown * this.getProfile().cooldownScale;
+  }
+
+  /**
+   * Subscribe to profile and quiet mode changes, returns an unsubscribe function
+   */
+  subscribe(listener: VerbosityListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(state: VerbosityState) {
+    this.state = state;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (err) {
+      console.error("Error saving alert verbosity:", err);
+    }
+
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export default new AlertVerbosityService();
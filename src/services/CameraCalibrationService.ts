@@ -0,0 +1,109 @@
+/**
+ * Service holding the dashcam calibration used for monocular distance estimation
+ * Values are persisted in localStorage so they survive reloads
+ */
+import { z } from 'zod';
+import { CameraCalibration } from '../types/navigation';
+import { safeParseWith } from './detection/frameResultSchema';
+
+const STORAGE_KEY = 'cameraCalibration';
+
+export const DEFAULT_CALIBRATION: CameraCalibration = {
+  focalLength: 1.2, // roughly a 45° vertical field of view
+  mountingHeight: 1.3,
+  pitch: 0,
+  horizon: 0.5
+};
+
+// Stored values feed straight into distance estimation, so anything else is replaced by the defaults
+const calibrationSchema = z.object({
+  focalLength: z.number().finite().positive(),
+  mountingHeight: z.number().finite().positive(),
+  pitch: z.number().finite().min(-90).max(90),
+  horizon: z.number().finite()
+});
+
+type CalibrationListener = (calibration: CameraCalibration) => void;
+
+/**
+ * Horizon row (fraction of frame height) for a camera tilted down by `pitch` degrees
+ */
+export const horizonFromPitch = (pitch: number, focalLength: number) =>
+  0.5 - focalLength * Math.tan((pitch * Math.PI) / 180);
+
+/**
+ * Downward tilt (degrees) that puts the horizon at the given row
+ */
+export const pitchFromHorizon = (horizon: number, focalLength: number) =>
+  (Math.atan((0.5 - horizon) / focalLength) * 180) / Math.PI;
+
+class CameraCalibrationService {
+  private calibration: CameraCalibration;
+  private listeners: Set<CalibrationListener>;
+
+  constructor() {
+    this.calibration = this.loadStoredCalibration();
+    this.listeners = new Set();
+  }
+
+  private loadStoredCalibration(): CameraCalibration {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Fields missing from older versions take their defaults
+        const result = safeParseWith<CameraCalibration>(calibrationSchema, { ...DEFAULT_CALIBRATION, ...JSON.parse(stored) });
+        if (result.success === true) {
+          return result.data;
+        }
+        console.warn(`Ignoring invalid stored camera calibration: ${result.issues}`);
+      }
+    } catch (err) {
+      console.error("Error reading stored camera calibration:", err);
+    }
+    return { ...DEFAULT_CALIBRATION };
+  }
+
+  getCalibration(): CameraCalibration {
+    return this.calibration;
+  }
+
+  /**
+   * Update calibration values
+   * Pitch and horizon describe the same thing, so changing one recomputes the other
+   */
+  update(changes: Partial<CameraCalibration>) {
+    const next = { ...this.calibration, ...changes };
+
+    if (changes.horizon !== undefined) {
+      next.pitch = pitchFromHorizon(next.horizon, next.focalLength);
+    } else if (changes.pitch !== undefined || changes.focalLength !== undefined) {
+      next.horizon = horizonFromPitch(next.pitch, next.focalLength);
+    }
+
+    this.calibration = next;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.error("Error saving camera calibration:", err);
+    }
+
+    this.listeners.forEach(listener => listener(next));
+  }
+
+  reset() {
+    this.update({ ...DEFAULT_CALIBRATION });
+  }
+
+  /**
+   * Subscribe to calibration changes, returns an unsubscribe function
+   */
+  subscribe(listener: CalibrationListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export default new CameraCalibrationService();
@@ -0,0 +1,265 @@
+/**
+ * Service capturing detections on uploaded videos and exporting them as a labeled dataset
+ * While capturing, every frame result is kept with its video time, and a JPEG of the frame inference ran on
+ * is sampled at an interval; the export writes COCO JSON or YOLO labels for pre-labeling training data
+ * Captures are held in memory, so a session keeps at most MAX_CAPTURED_FRAMES results and MAX_CAPTURED_IMAGES images
+ */
+import { Zippable, zipSync } from 'fflate';
+import { FrameResult } from '@/types/detection';
+import { VideoIdentity } from './DetectionLogService';
+import { normalizeClassName } from './evaluation/annotations';
+import {
+  CapturedFrame,
+  DatasetExportOptions,
+  DatasetFile,
+  buildCocoDataset,
+  buildYoloFiles,
+  frameFileName,
+  selectFrames
+} from './dataset/datasetFormats';
+
+const JPEG_QUALITY = 0.9;
+export const DEFAULT_IMAGE_INTERVAL = 1; // seconds of video between sampled images
+export const MAX_CAPTURED_FRAMES = 20000; // capture stops here, over ten minutes of video at 30 fps
+export const MAX_CAPTURED_IMAGES = 500; // sampling stops here, a few hundred MB of JPEGs at most
+
+export interface DatasetClassCount {
+  className: string;
+  count: number; // detections captured
+}
+
+export interface DatasetExportState {
+  video: VideoIdentity | null; // uploaded video now playing; capture is only offered for uploads
+  capturing: boolean;
+  frames: number;
+  images: number;
+  classes: DatasetClassCount[]; // sorted by name
+  imageInterval: number | null; // seconds between sampled images, null without images
+}
+
+export interface DatasetExport {
+  blob: Blob;
+  fileName: string;
+  frames: number;
+  objects: number;
+}
+
+type DatasetExportListener = (state: DatasetExportState) => void;
+
+export class DatasetExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetExportError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const toBytes = async (data: Blob | string) =>
+  typeof data === 'string' ? encoder.encode(data) : new Uint8Array(await data.arrayBuffer());
+
+/**
+ * File name without its extension, safe to build export names from
+ */
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') || 'video';
+
+class DatasetExportService {
+  private video: VideoIdentity | null;
+  private capturing: boolean;
+  private imageInterval: number | null;
+  private lastImageTime: number | null;
+  private captures: CapturedFrame[];
+  private images: number;
+  private sampledImages: number; // images requested, including ones still being encoded
+  private classCounts: Map<string, number>;
+  private generation: number; // bumped when captures are dropped, so late images don't count
+  private listeners: Set<DatasetExportListener>;
+
+  constructor() {
+    this.video = null;
+    this.capturing = false;
+    this.imageInterval = DEFAULT_IMAGE_INTERVAL;
+    this.lastImageTime = null;
+    this.captures = [];
+    this.images = 0;
+    this.sampledImages = 0;
+    this.classCounts = new Map();
+    this.generation = 0;
+    this.listeners = new Set();
+  }
+
+  getState(): DatasetExportState {
+    return {
+      video: this.video,
+      capturing: this.capturing,
+      frames: this.captures.length,
+      images: this.images,
+      classes: Array.from(this.classCounts.entries())
+        .map(([className, count]) => ({ className, count }))
+        .sort((a, b) => a.className.localeCompare(b.className)),
+      imageInterval: this.imageInterval
+    };
+  }
+
+  /**
+   * Set the uploaded video now playing; null for the camera and sample videos
+   * Captures belong to one video, so switching videos drops them
+   */
+  setVideoSource(video: VideoIdentity | null) {
+    if (this.video && video && this.video.name === video.name && this.video.size === video.size) return;
+    this.video = video;
+    this.capturing = false;
+    this.clearCaptures();
+    this.notify();
+  }
+
+  isCapturing() {
+    return this.capturing;
+  }
+
+  /**
+   * Start capturing detections on the uploaded video, or carry on after stopping
+   * @param imageInterval Seconds of video between sampled frame images, or null for labels only
+   */
+  startCapture(imageInterval: number | null) {
+    if (!this.video) {
+      throw new DatasetExportError('Upload a video to capture detections from');
+    }
+    if (this.captures.length >= MAX_CAPTURED_FRAMES) {
+      throw new DatasetExportError(`The capture is full (${MAX_CAPTURED_FRAMES} frames); export or clear it first`);
+    }
+    this.capturing = true;
+    this.imageInterval = imageInterval !== null && imageInterval > 0 ? imageInterval : null;
+    this.lastImageTime = null;
+    this.notify();
+  }
+
+  stopCapture() {
+    if (!this.capturing) return;
+    this.capturing = false;
+    this.notify();
+  }
+
+  /**
+   * Drop everything captured so far
+   */
+  clear() {
+    this.clearCaptures();
+    this.notify();
+  }
+
+  /**
+   * Snapshot the frame about to be inferred if an image is due at this video time
+   * Call before inference draws over the canvas; the pixels are copied right away and encoded later
+   * Once MAX_CAPTURED_IMAGES are taken no more are sampled, while labels are still captured
+   */
+  sampleImage(videoTime: number, canvas: HTMLCanvasElement): Promise<Blob | null> | null {
+    if (!this.capturing || this.imageInterval === null || this.sampledImages >= MAX_CAPTURED_IMAGES) return null;
+    // Seeking back or looping restarts the interval
+    if (this.lastImageTime !== null && Math.abs(videoTime - this.lastImageTime) < this.imageInterval) return null;
+
+    this.lastImageTime = videoTime;
+    this.sampledImages++;
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  }
+
+  /**
+   * Keep a frame result, with the image sampled for it if any; capture stops at MAX_CAPTURED_FRAMES
+   */
+  async capture(videoTime: number, frame: FrameResult, image: Promise<Blob | null> | null) {
+    if (!this.capturing) return;
+
+    const generation = this.generation;
+    const captured: CapturedFrame = {
+      time: videoTime,
+      width: frame.frameWidth,
+      height: frame.frameHeight,
+      objects: frame.objects.map(object => ({
+        className: normalizeClassName(object.type),
+        confidence: object.confidence,
+        box: { ...object.boundingBox }
+      })),
+      image: null
+    };
+    this.captures.push(captured);
+    captured.objects.forEach(object => {
+      this.classCounts.set(object.className, (this.classCounts.get(object.className) || 0) + 1);
+    });
+    const full = this.captures.length >= MAX_CAPTURED_FRAMES;
+    if (full) this.capturing = false;
+
+    if (image) {
+      captured.image = await image;
+      if (generation !== this.generation) return;
+      if (captured.image) this.images++;
+    }
+
+    // The counts in the UI don't need every frame
+    if (image || full || this.captures.length % 30 === 1) this.notify();
+  }
+
+  /**
+   * Build the export: a COCO .json file on its own, otherwise a .zip with labels and images
+   * Throws DatasetExportError when the filters leave no frames
+   */
+  async export(options: DatasetExportOptions): Promise<DatasetExport> {
+    if (options.classes.length === 0) {
+      throw new DatasetExportError('Select at least one class to export');
+    }
+    const frames = selectFrames(this.captures, options);
+    if (frames.length === 0) {
+      throw new DatasetExportError(options.includeImages ? 'No captured frames have images' : 'No frames captured yet');
+    }
+
+    const videoName = this.video?.name || 'video';
+    const name = `${baseName(videoName)}-${options.format}`;
+    const objects = frames.reduce((sum, frame) => sum + frame.objects.length, 0);
+    const coco = options.format === 'coco' ? JSON.stringify(buildCocoDataset(frames, options.classes, videoName)) : null;
+
+    if (coco !== null && !options.includeImages) {
+      return { blob: new Blob([coco], { type: 'application/json' }), fileName: `${name}.json`, frames: frames.length, objects };
+    }
+
+    const files: DatasetFile[] = coco !== null
+      ? [{ name: 'annotations.json', data: coco }]
+      : buildYoloFiles(frames, options.classes);
+    if (options.includeImages) {
+      frames.forEach(frame => files.push({ name: `images/${frameFileName(frame.frame, 'jpg')}`, data: frame.image }));
+    }
+
+    // Images are JPEGs already, so they are stored as they are and only the labels are compressed
+    const contents = await Promise.all(files.map(file => toBytes(file.data)));
+    const entries: Zippable = {};
+    files.forEach((file, i) => {
+      entries[`${name}/${file.name}`] = [contents[i], { level: typeof file.data === 'string' ? 6 : 0 }];
+    });
+    const zip = zipSync(entries);
+    return { blob: new Blob([zip], { type: 'application/zip' }), fileName: `${name}.zip`, frames: frames.length, objects };
+  }
+
+  /**
+   * Subscribe to capture changes, returns an unsubscribe function
+   */
+  subscribe(listener: DatasetExportListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private clearCaptures() {
+    this.captures = [];
+    this.images = 0;
+    this.sampledImages = 0;
+    this.classCounts = new Map();
+    this.lastImageTime = null;
+    this.generation++;
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new DatasetExportService();
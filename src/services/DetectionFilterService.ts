@@ -0,0 +1,127 @@
+/**
+ * Service holding the confidence thresholds and duplicate suppression applied to detections
+ * Values are persisted in localStorage so they survive reloads
+ */
+import { z } from 'zod';
+import { DetectionFilterSettings, RawDetection } from '../types/detection';
+import { suppressDuplicates } from './detection/nonMaxSuppression';
+import { safeParseWith } from './detection/frameResultSchema';
+
+const STORAGE_KEY = 'detectionFilters';
+
+export const DEFAULT_DETECTION_FILTERS: DetectionFilterSettings = {
+  confidenceThreshold: 0.5,
+  classThresholds: {},
+  nmsEnabled: true,
+  nmsIoU: 0.5
+};
+
+const fraction = z.number().finite().min(0).max(1);
+
+const filterSettingsSchema = z.object({
+  confidenceThreshold: fraction,
+  classThresholds: z.record(fraction),
+  nmsEnabled: z.boolean(),
+  nmsIoU: fraction
+});
+
+type DetectionFilterListener = (settings: DetectionFilterSettings) => void;
+
+/**
+ * Minimum confidence for an object type: its own threshold, or the general one
+ */
+export const thresholdFor = (settings: DetectionFilterSettings, type: string) =>
+  settings.classThresholds[type.toLowerCase()] ?? settings.confidenceThreshold;
+
+/**
+ * Check whether an object is confident enough to report; objects without a confidence always are
+ */
+export const meetsThreshold = (settings: DetectionFilterSettings, object: { type: string, confidence?: number }) =>
+  typeof object.confidence === 'undefined' || object.confidence >= thresholdFor(settings, object.type);
+
+class DetectionFilterService {
+  private settings: DetectionFilterSettings;
+  private listeners: Set<DetectionFilterListener>;
+
+  constructor() {
+    this.settings = this.loadStoredSettings();
+    this.listeners = new Set();
+  }
+
+  private loadStoredSettings(): DetectionFilterSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Fields missing from older versions take their defaults
+        const result = safeParseWith<DetectionFilterSettings>(filterSettingsSchema, {
+          ...DEFAULT_DETECTION_FILTERS,
+          classThresholds: {},
+          ...JSON.parse(stored)
+        });
+        if (result.success === true) {
+          return result.data;
+        }
+        console.warn(`Ignoring invalid stored detection filters: ${result.issues}`);
+      }
+    } catch (err) {
+      console.error("Error reading stored detection filters:", err);
+    }
+    return { ...DEFAULT_DETECTION_FILTERS, classThresholds: {} };
+  }
+
+  getSettings(): DetectionFilterSettings {
+    return this.settings;
+  }
+
+  update(changes: Partial<DetectionFilterSettings>) {
+    this.save({ ...this.settings, ...changes });
+  }
+
+  /**
+   * Give an object type its own threshold, or null to fall back to the general one
+   */
+  setClassThreshold(type: string, threshold: number | null) {
+    const classThresholds = { ...this.settings.classThresholds };
+    if (threshold === null) {
+      delete classThresholds[type.toLowerCase()];
+    } else {
+      classThresholds[type.toLowerCase()] = threshold;
+    }
+    this.save({ ...this.settings, classThresholds });
+  }
+
+  reset() {
+    this.save({ ...DEFAULT_DETECTION_FILTERS, classThresholds: {} });
+  }
+
+  /**
+   * Remove duplicate boxes from a backend's detections, when suppression is enabled
+   */
+  suppressDuplicates<T extends RawDetection>(detections: T[]): T[] {
+    return this.settings.nmsEnabled ? suppressDuplicates(detections, this.settings.nmsIoU) : detections;
+  }
+
+  /**
+   * Subscribe to filter changes, returns an unsubscribe function
+   */
+  subscribe(listener: DetectionFilterListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(settings: DetectionFilterSettings) {
+    this.settings = settings;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.error("Error saving detection filters:", err);
+    }
+
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+export default new DetectionFilterService();
@@ -0,0 +1,258 @@
+/**
+ * Service recording detection results to a log and replaying them
+ * Logs are NDJSON: a header line, then one line per frame result with the video time it was
+ * detected at, so a recorded session can be replayed against the same video without inference
+ */
+import { z } from 'zod';
+import { FrameResult } from '@/types/detection';
+import { parseFrameResult, safeParseWith } from './detection/frameResultSchema';
+
+export const DETECTION_LOG_FORMAT = 'detection-log';
+export const DETECTION_LOG_VERSION = 1;
+
+// Replay leaves gaps longer than this empty rather than holding the last frame
+const MAX_REPLAY_GAP = 1; // seconds
+
+// Video a log was recorded against; uploaded files are told apart by name and size
+export interface VideoIdentity {
+  name: string;
+  size: number | null;
+}
+
+export interface DetectionLogHeader {
+  format: typeof DETECTION_LOG_FORMAT;
+  version: typeof DETECTION_LOG_VERSION;
+  video: VideoIdentity | null; // null for the camera, which can't be replayed against
+  recordedAt: number; // in milliseconds since the epoch
+}
+
+export interface DetectionLogEntry {
+  t: number; // video time in seconds
+  speed: number | null; // ego speed in km/h when the frame was detected
+  frame: FrameResult;
+}
+
+export interface DetectionLog {
+  header: DetectionLogHeader;
+  entries: DetectionLogEntry[]; // sorted by video time
+}
+
+export interface DetectionLogState {
+  recording: boolean;
+  recordedFrames: number;
+  replay: { video: VideoIdentity | null, frames: number, duration: number } | null;
+  video: VideoIdentity | null; // video currently playing
+}
+
+type DetectionLogListener = (state: DetectionLogState) => void;
+
+const headerSchema = z.object({
+  format: z.literal(DETECTION_LOG_FORMAT),
+  version: z.literal(DETECTION_LOG_VERSION),
+  video: z.object({ name: z.string(), size: z.number().nonnegative().nullable() }).nullable(),
+  recordedAt: z.number()
+});
+
+const entrySchema = z.object({
+  t: z.number().finite().nonnegative(),
+  speed: z.number().finite().nullable(),
+  frame: z.unknown()
+});
+
+export class DetectionLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DetectionLogError';
+  }
+}
+
+// Millimeter and millisecond precision is plenty, and keeps lines short
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isInteger(value) ? Math.round(value * 1000) / 1000 : value;
+
+/**
+ * Check whether two videos are the same file
+ */
+export const sameVideo = (a: VideoIdentity | null, b: VideoIdentity | null) =>
+  a !== null && b !== null && a.name === b.name && a.size === b.size;
+
+/**
+ * Parse the text of an NDJSON detection log
+ * Throws DetectionLogError naming the first bad line
+ */
+export const parseDetectionLog = (text: string): DetectionLog => {
+  const lines = text.split(/\r?\n/);
+  const parseLine = (index: number) => {
+    try {
+      return JSON.parse(lines[index]);
+    } catch {
+      throw new DetectionLogError(`Line ${index + 1} is not valid JSON`);
+    }
+  };
+
+  const firstLine = lines.findIndex(line => line.trim() !== '');
+  if (firstLine < 0) {
+    throw new DetectionLogError('The log is empty');
+  }
+  const header = safeParseWith<DetectionLogHeader>(headerSchema, parseLine(firstLine));
+  if (header.success === false) {
+    throw new DetectionLogError(`Line ${firstLine + 1} is not a detection log header (version ${DETECTION_LOG_VERSION})`);
+  }
+
+  const entries: DetectionLogEntry[] = [];
+  for (let index = firstLine + 1; index < lines.length; index++) {
+    if (lines[index].trim() === '') continue;
+
+    const entry = entrySchema.safeParse(parseLine(index));
+    if (!entry.success) {
+      throw new DetectionLogError(`Line ${index + 1} is not a detection log entry`);
+    }
+    try {
+      entries.push({ t: entry.data.t, speed: entry.data.speed, frame: parseFrameResult(entry.data.frame) });
+    } catch (err) {
+      throw new DetectionLogError(`Line ${index + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  entries.sort((a, b) => a.t - b.t);
+  return { header: header.data, entries };
+};
+
+class DetectionLogService {
+  private video: VideoIdentity | null;
+  private recording: { header: DetectionLogHeader, lines: string[] } | null;
+  private replay: DetectionLog | null;
+  private listeners: Set<DetectionLogListener>;
+
+  constructor() {
+    this.video = null;
+    this.recording = null;
+    this.replay = null;
+    this.listeners = new Set();
+  }
+
+  getState(): DetectionLogState {
+    const entries = this.replay?.entries;
+    return {
+      recording: this.recording !== null,
+      recordedFrames: this.recording?.lines.length || 0,
+      replay: this.replay && {
+        video: this.replay.header.video,
+        frames: entries.length,
+        duration: entries.length > 0 ? entries[entries.length - 1].t : 0
+      },
+      video: this.video
+    };
+  }
+
+  /**
+   * Set the video now playing; null for the camera
+   */
+  setVideoSource(video: VideoIdentity | null) {
+    this.video = video;
+    this.notify();
+  }
+
+  isRecording() {
+    return this.recording !== null;
+  }
+
+  isReplaying() {
+    return this.replay !== null;
+  }
+
+  /**
+   * Start recording frame results for the video now playing
+   */
+  startRecording() {
+    this.recording = {
+      header: {
+        format: DETECTION_LOG_FORMAT,
+        version: DETECTION_LOG_VERSION,
+        video: this.video,
+        recordedAt: Date.now()
+      },
+      lines: []
+    };
+    this.notify();
+  }
+
+  /**
+   * Add a frame result to the recording, if one is running
+   */
+  record(videoTime: number, speed: number | null, frame: FrameResult) {
+    if (!this.recording) return;
+    const entry: DetectionLogEntry = { t: videoTime, speed, frame };
+    this.recording.lines.push(JSON.stringify(entry, roundNumbers));
+
+    // Only the first frame and then every hundredth change what the UI shows
+    if (this.recording.lines.length % 100 === 1) this.notify();
+  }
+
+  /**
+   * Stop recording and return the log, or null when nothing was recording
+   */
+  stopRecording(): Blob | null {
+    if (!this.recording) return null;
+    const { header, lines } = this.recording;
+    this.recording = null;
+    this.notify();
+
+    return new Blob([[JSON.stringify(header), ...lines].join('\n') + '\n'], { type: 'application/x-ndjson' });
+  }
+
+  /**
+   * Replay a parsed log instead of running detection
+   */
+  startReplay(log: DetectionLog) {
+    this.replay = log;
+    this.notify();
+  }
+
+  stopReplay() {
+    if (!this.replay) return;
+    this.replay = null;
+    this.notify();
+  }
+
+  /**
+   * Recorded entry for a video time: the latest one at or before it, unless that is too old
+   */
+  entryAt(videoTime: number): DetectionLogEntry | null {
+    const entries = this.replay?.entries;
+    if (!entries || entries.length === 0) return null;
+
+    // Binary search for the last entry with t <= videoTime
+    let low = 0;
+    let high = entries.length - 1;
+    if (entries[0].t > videoTime) return null;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (entries[mid].t <= videoTime) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const entry = entries[low];
+    return videoTime - entry.t <= MAX_REPLAY_GAP ? entry : null;
+  }
+
+  /**
+   * Subscribe to recording and replay changes, returns an unsubscribe function
+   */
+  subscribe(listener: DetectionLogListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new DetectionLogService();
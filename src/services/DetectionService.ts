@@ -1,55 +1,115 @@
 
 // This service handles the integration between the React frontend and detection models
-// It simulates the bridge between our React app and models for object and lane detection
+// Object detection runs on whichever backend is active in the detector registry
 import VoiceAlertService from './VoiceAlertService';
+import DetectorRegistry from './detection/DetectorRegistry';
+import ObjectTracker, { TrackedObject } from './detection/ObjectTracker';
+import { DetectorBackend, RawDetection } from './detection/DetectorBackend';
+import { FRAME_RESULT_VERSION, parseRawDetections } from './detection/frameResultSchema';
+import { estimateDistance } from './detection/distanceEstimation';
+import CameraCalibrationService from './CameraCalibrationService';
+import SimulationService from './SimulationService';
+import ScenarioService from './ScenarioService';
+import ScenarioDetector, { scriptedLaneEstimate } from './detection/ScenarioDetector';
+import DetectionLogService, { DetectionLogEntry } from './DetectionLogService';
+import DatasetExportService from './DatasetExportService';
+import DetectionFilterService from './DetectionFilterService';
+import FramePreprocessingService from './FramePreprocessingService';
+import RoiService from './RoiService';
+import AlertPolicyService from './AlertPolicyService';
+import AlertVerbosityService from './AlertVerbosityService';
+import LanguageService from './LanguageService';
+import AlertPolicyEngine from './alerts/AlertPolicyEngine';
+import { assessRisks } from './detection/riskAssessment';
+import LaneDetector, { laneLineX } from './detection/LaneDetector';
+import { pixelForGroundPoint } from './detection/distanceEstimation';
+import ForwardCollisionWarning, { NO_COLLISION_RISK } from './detection/ForwardCollisionWarning';
+import TrafficLightClassifier, { TrafficLightEvent } from './detection/TrafficLightClassifier';
+import SignClassifier, { SignReading } from './detection/SignClassifier';
+import { getSignClass } from './detection/signTaxonomy';
+import { CollisionAssessment, SpeedLimit } from '@/types/navigation';
+import { FrameResult, LaneEstimate, PoiHit } from '@/types/detection';
 
 class DetectionService {
   private trafficModelLoaded: boolean;
-  private yoloModelLoaded: boolean;
   private laneProcessorReady: boolean;
   private videoStream: MediaStream | null;
   private processingInterval: number | null;
-  private trafficSignModel: any; // Would be TensorFlow.js model in real implementation
-  private yoloModel: any; // Would be TensorFlow.js model in real implementation
+  private inferenceInFlight: boolean;
+  private tracker: ObjectTracker;
+  private trackedBackendId: string | null;
+  private laneDetector: LaneDetector;
+  private trafficLightClassifier: TrafficLightClassifier;
+  private lastLightEvent: TrafficLightEvent | null;
+  private signClassifier: SignClassifier;
+  private speedLimit: SpeedLimit | null;
+  private lastFrameResults: { objects: TrackedObject[], lanes: LaneEstimate } | null;
+  private frameTime: number; // time of the latest processed frame, on the clock its stages run on
   private lastProcessedTime: number;
   private frameCount: number;
-  private lastLaneUpdate: number;
-  private lanePatternOffset: number;
-  private detectionWorker: Worker | null;
-  private lastVoiceAlertTime: number;
-  private lastLaneAlertDirection: string | null;
   private previousLaneOffset: number;
-  private objectHistory: Map<string, {count: number, lastSeen: number}>;
+  private alertPolicy: AlertPolicyEngine;
   private emergencyMode: boolean;
-  private lastCollisionCheck: number;
+  private collisionWarning: ForwardCollisionWarning;
+  private collision: CollisionAssessment;
+  private egoSpeed: number | null;
+  private scenarioDetector: ScenarioDetector;
+  private replaying: boolean;
+  private lastReplayEntry: DetectionLogEntry | null;
+  private lastReplayTime: number | null;
   private poiDatabase: Map<string, {lat: number, lon: number, type: string, name: string}>;
 
   constructor() {
     this.trafficModelLoaded = false;
-    this.yoloModelLoaded = false;
     this.laneProcessorReady = false;
     this.videoStream = null;
     this.processingInterval = null;
-    this.trafficSignModel = null;
-    this.yoloModel = null;
+    this.inferenceInFlight = false;
+    this.tracker = new ObjectTracker();
+    this.trackedBackendId = null;
+    this.laneDetector = new LaneDetector();
+    this.trafficLightClassifier = new TrafficLightClassifier();
+    this.lastLightEvent = null;
+    this.signClassifier = new SignClassifier();
+    this.speedLimit = null;
+    this.lastFrameResults = null;
+    this.frameTime = 0;
     this.lastProcessedTime = 0;
     this.frameCount = 0;
-    this.lastLaneUpdate = 0;
-    this.lanePatternOffset = 0;
-    this.detectionWorker = null;
-    this.lastVoiceAlertTime = 0;
-    this.lastLaneAlertDirection = null;
     this.previousLaneOffset = 0;
-    this.objectHistory = new Map();
+    this.alertPolicy = new AlertPolicyEngine();
     this.emergencyMode = false;
-    this.lastCollisionCheck = 0;
+    this.collisionWarning = new ForwardCollisionWarning();
+    this.collision = NO_COLLISION_RISK;
+    this.egoSpeed = null;
+    this.scenarioDetector = new ScenarioDetector();
+    this.replaying = false;
+    this.lastReplayEntry = null;
+    this.lastReplayTime = null;
+    
+    // Each scenario playback starts with fresh tracks and announces its POIs afresh
+    ScenarioService.subscribe(() => {
+      this.trackedBackendId = null;
+      this.alertPolicy.reset(AlertPolicyService.getRules().filter(rule => rule.trigger === 'poi'));
+    });
+    
+    // A restarted simulation rewinds its clock, so tracks and alert times start over with it
+    SimulationService.subscribe(() => {
+      this.trackedBackendId = null;
+    });
+    
+    // Replays start with no alerts behind them, and live detection resumes with fresh tracks
+    DetectionLogService.subscribe(state => {
+      const replaying = state.replay !== null;
+      if (replaying === this.replaying) return;
+      this.replaying = replaying;
+      this.trackedBackendId = null;
+      this.resetAlertState();
+    });
     
     // Initialize Points of Interest database (simulated)
     this.poiDatabase = new Map();
     this.initializePoiDatabase();
-    
-    // Try to initialize a worker for offloading detection processing
-    this.initializeDetectionWorker();
   }
   
   /**
@@ -87,34 +147,20 @@ class DetectionService {
     });
   }
   
-  /**
-   * Initialize a web worker for detection processing if supported
-   */
-  private initializeDetectionWorker() {
-    // In a real implementation, this would instantiate a worker
-    // for detection tasks to improve performance
-    try {
-      // This is just a simulation since we're not actually creating a worker file
-      console.log("Initializing detection worker for improved performance");
-    } catch (err) {
-      console.warn("Web Workers not supported in this browser, falling back to main thread processing");
-    }
-  }
-  
   /**
    * Initialize all detection models and processors
    */
   async initialize() {
     try {
-      await Promise.all([
+      const [, detectorBackend] = await Promise.all([
         this.loadTrafficSignModel(),
-        this.loadYoloModel(),
+        DetectorRegistry.initialize(),
         this.initializeLaneProcessor()
       ]);
       
       return {
         trafficModelLoaded: this.trafficModelLoaded,
-        yoloModelLoaded: this.yoloModelLoaded,
+        detectorBackend: detectorBackend,
         laneProcessorReady: this.laneProcessorReady
       };
     } catch (error) {
@@ -125,51 +171,58 @@ class DetectionService {
   
   /**
    * Load the traffic sign classifier model
+   * Signs still get classes from the detector labels when the model isn't available
    */
   async loadTrafficSignModel() {
-    try {
-      // In a real implementation, this would use TensorFlow.js to load the model
-      console.log("Loading traffic sign classifier from traffic_sign_classifier.h5");
-      
-      // Simulating model loading time
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // In reality, you would load the model and label encoder like this:
-      // this.trafficSignModel = await tf.loadLayersModel('traffic_sign_classifier.h5');
-      // this.labelEncoder = await fetch('label_encoder.pkl').then(res => res.json());
-      
-      this.trafficModelLoaded = true;
+    console.log("Loading traffic sign classifier");
+    this.trafficModelLoaded = await this.signClassifier.load();
+    if (this.trafficModelLoaded) {
       console.log("Traffic sign classifier loaded successfully");
-      return true;
-    } catch (error) {
-      console.error("Failed to load traffic sign classifier:", error);
-      this.trafficModelLoaded = false;
-      return false;
     }
+    return this.trafficModelLoaded;
   }
   
   /**
-   * Load the YOLO object detection model as fallback
+   * Get the id of the object detection backend currently in use
    */
-  async loadYoloModel() {
-    try {
-      // In a real implementation, this would use TensorFlow.js to load the YOLO model
-      console.log("Loading YOLO object detection model");
-      
-      // Simulating model loading time
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // In reality, you would load the model like this:
-      // this.yoloModel = await tf.loadGraphModel('yolo_model/model.json');
-      
-      this.yoloModelLoaded = true;
-      console.log("YOLO model loaded successfully");
-      return true;
-    } catch (error) {
-      console.error("Failed to load YOLO model:", error);
-      this.yoloModelLoaded = false;
-      return false;
-    }
+  getBackend() {
+    return DetectorRegistry.getState().activeId;
+  }
+  
+  /**
+   * Switch the object detection backend at runtime
+   * Falls back to the next registered backend if the requested one fails to load
+   */
+  setBackend(id: string) {
+    return DetectorRegistry.activate(id);
+  }
+  
+  /**
+   * Set our own speed in km/h, used for time-to-collision; null when unknown
+   */
+  setEgoSpeed(speed: number | null) {
+    this.egoSpeed = speed;
+  }
+  
+  /**
+   * Ego speed in km/h for this frame; a playing scenario scripts its own
+   */
+  private currentEgoSpeed() {
+    return ScenarioService.getSpeed() ?? this.egoSpeed;
+  }
+  
+  /**
+   * Get the latest forward collision assessment
+   */
+  getCollisionAssessment() {
+    return this.collision;
+  }
+  
+  /**
+   * Get the speed limit of the most recent confidently read sign, or null when none applies
+   */
+  getSpeedLimit() {
+    return this.speedLimit;
   }
   
   /**
@@ -179,11 +232,8 @@ class DetectionService {
     try {
       console.log("Initializing lane processor");
       
-      // In a real implementation, this might load parameters or calibration data
-      // Or initialize web workers for lane processing
-      
-      // Simulating initialization time
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Lane detection is classical computer vision on the frame pixels, so there is no model to load
+      this.laneDetector.reset();
       
       this.laneProcessorReady = true;
       console.log("Lane processor initialized");
@@ -195,14 +245,22 @@ class DetectionService {
     }
   }
   
+  /**
+   * Whether a frame is still with the backend; newer frames are shown with the last overlay meanwhile
+   */
+  isInferenceInFlight() {
+    return this.inferenceInFlight;
+  }
+  
   /**
    * Process the video directly for object detection
    * This method is optimized for real-time performance
    * @param video - The video element
    * @param canvas - Canvas for drawing results
-   * @param onDetection - Callback for results
+   * @param onDetection - Callback for results; only called for frames with new results
+   *   (not while inference is busy, no backend is ready, or a replay is on the same recorded frame)
    */
-  processVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement, onDetection: Function) {
+  processVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement, onDetection: (results: FrameResult) => void) {
     if (!canvas || !video) return;
     
     const context = canvas.getContext('2d');
@@ -218,98 +276,297 @@ class DetectionService {
     // Draw the current frame
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
     
+    // Replaying a log: results come from the recording at this video time instead of inference
+    if (DetectionLogService.isReplaying()) {
+      this.replayFrame(video, context, canvas, onDetection);
+      return;
+    }
+    
+    // Backpressure: while the backend (usually in the worker) is busy with an earlier frame,
+    // drop this one for inference and keep the video smooth with the last known overlay
+    if (this.inferenceInFlight) {
+      this.redrawLastResults(context, canvas);
+      return;
+    }
+    
     // Process the frame more efficiently
     this.frameCount++;
-    const now = Date.now();
-    
-    // Generate detection results based on video frame
-    // Faster processing interval for real-time experience
-    let objects = this.generateRealisticObjects(canvas.width, canvas.height);
-    let lanes = this.generateRealisticLanes(canvas.width, canvas.height);
-    let pois = this.getNearbyPOIs();
-    
-    // Check for collision risks - only periodically, not every frame
-    if (now - this.lastCollisionCheck > 500) {
-      this.checkCollisionRisks(objects, now);
-      this.lastCollisionCheck = now;
+    
+    // A playing scenario takes over from the selected backend until it ends
+    // No backend ready yet (still loading or switching) - nothing to detect with
+    const backend = ScenarioService.isPlaying() ? this.scenarioDetector : DetectorRegistry.getActive();
+    if (!backend) return;
+    
+    // Tracks from one backend mean nothing to another, and neither do alert times: simulated
+    // backends run on the simulation clock, models on the wall clock
+    if (backend.id !== this.trackedBackendId) {
+      this.tracker.reset();
+      this.collisionWarning.reset();
+      this.signClassifier.reset();
+      this.resetAlertState();
+      this.trackedBackendId = backend.id;
     }
     
-    // Check for significant detection events that need voice alerts
-    // Do this less frequently to avoid too much processing
-    if (now - this.lastVoiceAlertTime > 5000) {
-      this.handleVoiceAlerts(objects, lanes, pois);
+    // Frames from backends that don't look at pixels are simulated frames. In a seeded session each
+    // one is a fixed clock step, and rendered frames in between only redraw the last overlay
+    const simulated = !backend.capabilities.realInference;
+    if (simulated && !SimulationService.isStepDue()) {
+      this.redrawLastResults(context, canvas);
+      return;
     }
+    const now = simulated ? SimulationService.advance() : Date.now();
+    
+    this.inferenceInFlight = true;
+    const videoTime = video.currentTime;
+    // Datasets are only built from a model looking at the video, not from generated detections
+    const exporting = backend.capabilities.realInference && DatasetExportService.isCapturing();
+    const image = exporting ? DatasetExportService.sampleImage(videoTime, canvas) : null;
+    // Night and bad-weather frames are enhanced for the model only; the display and datasets keep the original
+    const enhancement = backend.capabilities.realInference ? FramePreprocessingService.chooseEnhancement(canvas) : null;
+    backend.infer(canvas, { enhancement })
+      .then(output => {
+        // Backends are pluggable, so check what they returned before anything else uses it
+        // Scripted scenes are placed on purpose, only detectors report duplicates
+        // Ignore zones (hood, sky, reflections) are masked out the same way
+        const parsed = parseRawDetections(output, backend.name);
+        const objects = backend === this.scenarioDetector
+          ? parsed
+          : RoiService.removeIgnored(DetectionFilterService.suppressDuplicates(parsed), canvas.width, canvas.height);
+        
+        // Redraw the newest frame so results land on what the user is currently seeing
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const results = this.completeFrame(context, canvas, objects, backend, now);
+        DetectionLogService.record(videoTime, this.currentEgoSpeed(), results);
+        if (exporting) {
+          DatasetExportService.capture(videoTime, results, image);
+        }
+        
+        // Call the callback with the results
+        if (onDetection && typeof onDetection === 'function') {
+          onDetection(results);
+        }
+      })
+      .catch(error => console.error(`Inference failed on ${backend.name} backend:`, error))
+      .finally(() => {
+        this.inferenceInFlight = false;
+      });
+  }
+  
+  /**
+   * Keep the last known overlay on the newest video frame
+   */
+  private redrawLastResults(context: CanvasRenderingContext2D, canvas: HTMLCanvasElement) {
+    if (this.lastFrameResults) {
+      const { objects, lanes } = this.lastFrameResults;
+      this.drawDetectionResultsOnVideo(context, canvas.width, canvas.height, objects, lanes);
+    }
+  }
+  
+  /**
+   * Show the recorded frame result for the current video time and run the alert stages on it
+   */
+  private replayFrame(video: HTMLVideoElement, context: CanvasRenderingContext2D, canvas: HTMLCanvasElement, onDetection: (results: FrameResult) => void) {
+    const videoTime = video.currentTime;
     
-    // Draw detection results with optimized rendering
-    this.drawDetectionResultsOnVideo(context, canvas.width, canvas.height, objects, lanes);
+    // Seeking back replays the alerts from there, as they first happened
+    if (this.lastReplayTime !== null && videoTime < this.lastReplayTime) {
+      this.resetAlertState();
+    }
+    this.lastReplayTime = videoTime;
+    
+    // Nothing was recorded here, so the frame stays bare
+    const entry = DetectionLogService.entryAt(videoTime);
+    if (!entry) {
+      this.lastReplayEntry = null;
+      return;
+    }
+    
+    // Still on the same recorded frame; keep its overlay on the newest video frame
+    if (entry === this.lastReplayEntry) {
+      this.redrawLastResults(context, canvas);
+      return;
+    }
+    
+    this.lastReplayEntry = entry;
+    onDetection(this.completeReplayFrame(context, canvas, entry));
+  }
+  
+  /**
+   * Run the alert and drawing stages on a recorded frame result
+   * Tracking, distances, lanes, POIs, collision risk and the speed limit are taken as recorded
+   * The stages run on the recorded video time, so alerts come at the same points of the video
+   * however smoothly or quickly it plays back
+   */
+  private completeReplayFrame(context: CanvasRenderingContext2D, canvas: HTMLCanvasElement, entry: DetectionLogEntry): FrameResult {
+    const { frame } = entry;
+    const now = entry.t * 1000;
+    this.frameTime = now;
     
-    // Call the callback with the results
-    if (onDetection && typeof onDetection === 'function') {
-      onDetection({
-        objects: objects,
-        lanes: lanes,
-        pois: pois,
-        timestamp: now,
-        emergency: this.emergencyMode
+    // Later stages update objects in place, and the log must stay as it was recorded
+    // Current ignore zones apply, so masks can be tuned against a recording
+    const objects = RoiService.removeIgnored(frame.objects, frame.frameWidth, frame.frameHeight).map(obj => ({ ...obj }));
+    // Risk is graded again so recordings made before risk scoring, or with other masks, get it too
+    assessRisks(objects, frame.lanes, frame.frameWidth, frame.frameHeight, CameraCalibrationService.getCalibration(), RoiService.getPolygons());
+    
+    this.handleTrafficLightEvents(this.trafficLightClassifier.replay(objects, now, entry.speed));
+    this.speedLimit = frame.speedLimit;
+    this.applyCollisionAssessment(frame.collision);
+    
+    this.handleVoiceAlerts(objects, frame.lanes, frame.pois, frame.frameWidth, frame.frameHeight, now);
+    
+    this.drawDetectionResultsOnVideo(context, canvas.width, canvas.height, objects, frame.lanes);
+    this.lastFrameResults = { objects, lanes: frame.lanes };
+    
+    return { ...frame, objects, emergency: this.emergencyMode };
+  }
+  
+  /**
+   * Forget what has been announced, so alerts fire again as if the drive started now
+   */
+  private resetAlertState() {
+    this.alertPolicy.reset();
+    this.lastLightEvent = null;
+    this.lastReplayEntry = null;
+    this.trafficLightClassifier.reset();
+    this.applyCollisionAssessment(NO_COLLISION_RISK);
+  }
+  
+  /**
+   * Run lane, POI, alert and drawing stages for the detected objects of a frame
+   */
+  private completeFrame(context: CanvasRenderingContext2D, canvas: HTMLCanvasElement, detections: RawDetection[], backend: DetectorBackend, now: number): FrameResult {
+    this.frameTime = now;
+    
+    // Link detections to tracks so every later stage sees stable object identities
+    const objects = this.tracker.update(detections, now);
+    
+    // Real detectors measure boxes, so derive distance from the calibrated camera geometry
+    // (the simulator authors its own distances)
+    const calibration = CameraCalibrationService.getCalibration();
+    if (backend.capabilities.realInference) {
+      objects.forEach(obj => {
+        obj.distance = estimateDistance(obj, canvas.height, calibration);
       });
     }
+    
+    // The canvas still holds the bare frame here, before any overlay is drawn
+    const lightEvents = this.trafficLightClassifier.update(canvas, objects, now, this.currentEgoSpeed());
+    this.handleTrafficLightEvents(lightEvents);
+    this.handleSignReadings(this.signClassifier.update(canvas, objects, now));
+    
+    // Scenarios that script the lane position and POIs replace what the frame and the POI database show
+    const scriptedLane = ScenarioService.getLane();
+    const lanes = scriptedLane ? scriptedLaneEstimate(scriptedLane) : this.laneDetector.detect(canvas, calibration, objects);
+    const pois = ScenarioService.isPlaying() ? ScenarioService.getPois() : this.getNearbyPOIs();
+    
+    // Grade each object by where it stands relative to our lane, how close it is and how it moves
+    assessRisks(objects, lanes, canvas.width, canvas.height, calibration, RoiService.getPolygons());
+    
+    // Time-to-collision needs every frame's distances, so this runs on each frame
+    this.checkCollisionRisks(objects, canvas.width, now);
+    
+    // Check for significant detection events that need voice alerts
+    this.handleVoiceAlerts(objects, lanes, pois, canvas.width, canvas.height, now);
+    
+    // Draw detection results with optimized rendering
+    this.drawDetectionResultsOnVideo(context, canvas.width, canvas.height, objects, lanes);
+    this.lastFrameResults = { objects, lanes };
+    
+    return {
+      version: FRAME_RESULT_VERSION,
+      timestamp: now,
+      frameWidth: canvas.width,
+      frameHeight: canvas.height,
+      backendId: backend.id,
+      objects: objects,
+      lanes: lanes,
+      pois: pois,
+      emergency: this.emergencyMode,
+      collision: this.collision,
+      speedLimit: this.speedLimit
+    };
   }
   
   /**
-   * Check for collision risks with nearby vehicles
+   * Grade forward collision risk from time-to-collision with the lead vehicle
    */
-  private checkCollisionRisks(objects: any[], now: number) {
-    // Only check periodically to avoid overwhelming the system
-    if (now - this.lastCollisionCheck < 1000) return;
-    this.lastCollisionCheck = now;
-    
-    // Check for vehicles that are too close
-    const vehicles = objects.filter(obj => 
-      ['car', 'truck', 'bus'].includes(obj.type.toLowerCase())
-    );
-    
-    // Find closest vehicle and calculate distance
-    let closestVehicle = null;
-    let minDistance = Infinity;
-    
-    for (const vehicle of vehicles) {
-      if (vehicle.distance && vehicle.distance < minDistance) {
-        closestVehicle = vehicle;
-        minDistance = vehicle.distance;
-      }
+  private checkCollisionRisks(objects: TrackedObject[], frameWidth: number, now: number) {
+    this.applyCollisionAssessment(this.collisionWarning.update(objects, frameWidth, now, this.currentEgoSpeed()));
+  }
+  
+  /**
+   * Announce escalations of a collision assessment and enter or leave emergency mode
+   */
+  private applyCollisionAssessment(assessment: CollisionAssessment) {
+    const previous = this.collision;
+    this.collision = assessment;
+    
+    // Only escalations are announced; easing off is silent
+    const levels = ['none', 'advisory', 'warning', 'brake'];
+    if (levels.indexOf(this.collision.level) > levels.indexOf(previous.level)) {
+      VoiceAlertService.alertForwardCollision(this.collision.level, this.collision.objectType || 'Vehicle');
     }
     
-    // If a vehicle is too close, trigger emergency mode
-    if (closestVehicle && minDistance < 15) {
+    // Emergency mode (recording, red overlay) is reserved for imminent collisions
+    if (this.collision.level === 'brake') {
       if (!this.emergencyMode) {
         this.emergencyMode = true;
         VoiceAlertService.setEmergencyMode(true);
       }
-    } else if (this.emergencyMode && (!closestVehicle || minDistance > 40)) {
-      // If we were in emergency mode but vehicles are now far enough away
+    } else if (this.emergencyMode && this.collision.level === 'none') {
       this.emergencyMode = false;
       VoiceAlertService.setEmergencyMode(false);
     }
   }
   
+  /**
+   * Announce traffic light events and keep the latest one for the overlay
+   */
+  private handleTrafficLightEvents(events: TrafficLightEvent[]) {
+    // A red light at speed matters more than one turning green
+    const event = events.find(e => e.type === 'red_ahead_at_speed') || events[0];
+    if (!event) return;
+    
+    VoiceAlertService.alertTrafficLight(event.type);
+    this.lastLightEvent = event;
+  }
+  
+  /**
+   * Keep the current speed limit from the latest sign that sets or lifts one
+   */
+  private handleSignReadings(readings: SignReading[]) {
+    readings.forEach(reading => {
+      if (reading.sign.speedLimit) {
+        this.speedLimit = {
+          value: reading.sign.speedLimit,
+          signId: reading.sign.id,
+          confidence: reading.confidence,
+          timestamp: reading.timestamp
+        };
+      } else if (reading.sign.endsSpeedLimit) {
+        this.speedLimit = null;
+      }
+    });
+  }
+  
   /**
    * Get nearby points of interest (simulated)
    */
   private getNearbyPOIs() {
-    const pois = [];
-    const now = Date.now();
+    const pois: PoiHit[] = [];
+    const random = SimulationService.stream('poi');
     
     // Simulate some POIs being detected randomly
-    const detectHospital = Math.random() > 0.7;
-    const detectGasStation = Math.random() > 0.6;
+    const detectHospital = random.chance(0.3);
+    const detectGasStation = random.chance(0.4);
     
     if (detectHospital) {
       pois.push({
         type: 'hospital',
         name: 'City Hospital',
-        distance: 1200 + Math.random() * 500, // meters
-        direction: Math.random() > 0.5 ? 'ahead' : 'right',
-        confidence: 0.8 + Math.random() * 0.15
+        distance: random.range(1200, 1700), // meters
+        direction: random.chance(0.5) ? 'ahead' : 'right',
+        confidence: random.range(0.8, 0.95)
       });
     }
     
@@ -317,9 +574,9 @@ class DetectionService {
       pois.push({
         type: 'gas',
         name: 'Quick Fuel',
-        distance: 800 + Math.random() * 300, // meters
-        direction: Math.random() > 0.7 ? 'ahead' : (Math.random() > 0.5 ? 'left' : 'right'),
-        confidence: 0.7 + Math.random() * 0.2
+        distance: random.range(800, 1100), // meters
+        direction: random.chance(0.3) ? 'ahead' : (random.chance(0.5) ? 'left' : 'right'),
+        confidence: random.range(0.7, 0.9)
       });
     }
     
@@ -327,286 +584,55 @@ class DetectionService {
   }
   
   /**
-   * Handle voice alerts for significant detections
+   * Speak the first alert the alert policy raises for a frame
    */
-  private handleVoiceAlerts(objects: any[], lanes: any, pois: any[]) {
-    const now = Date.now();
-    
-    // Only process voice alerts every 2 seconds at most
-    if (now - this.lastVoiceAlertTime < 2000) return;
-    
-    // Check for pedestrians (highest priority)
-    const pedestrians = objects.filter(obj => 
-      obj.type.toLowerCase() === 'person' || 
-      obj.type.toLowerCase() === 'pedestrian'
-    );
-    
-    if (pedestrians.length > 0) {
-      VoiceAlertService.alertPedestrian(pedestrians.length);
-      this.lastVoiceAlertTime = now;
-      return; // Exit to avoid multiple alerts at once
-    }
-    
-    // Check for lane departure
-    const laneOffset = lanes.offset;
-    if (Math.abs(laneOffset) > 20 && // Significant lane departure
-        (this.lastLaneAlertDirection !== lanes.direction)) { // Direction changed
-          
-      VoiceAlertService.alertLaneDeparture(lanes.direction);
-      this.lastLaneAlertDirection = lanes.direction;
-      this.lastVoiceAlertTime = now;
-      return;
-    } else if (Math.abs(laneOffset) < 10) {
-      // Reset lane alert direction when back in lane
-      this.lastLaneAlertDirection = null;
-    }
-    
-    // Check for vehicles that are close
-    const vehicles = objects.filter(obj => 
-      ['car', 'truck', 'bus'].includes(obj.type.toLowerCase())
-    );
-    
-    // Find closest vehicle behind
-    if (vehicles.length > 0) {
-      const closestVehicle = vehicles.reduce((closest, current) => {
-        if (!closest.distance) return current;
-        if (!current.distance) return closest;
-        return current.distance < closest.distance ? current : closest;
+  private handleVoiceAlerts(objects: TrackedObject[], lanes: LaneEstimate, pois: PoiHit[], frameWidth: number, frameHeight: number, now: number) {
+    // How often alerts come is up to the rules: each has its own cooldown, and the first rule that fires wins
+    // Scripted and replayed POIs are all offered to the policy, as are simulated ones when the
+    // verbosity profile wants every POI; otherwise simulated ones at random to avoid too many
+    const verbosity = AlertVerbosityService.getProfile();
+    const offeredPois = ScenarioService.isPlaying() || DetectionLogService.isReplaying() || verbosity.everyPoi
+      ? pois
+      : pois.length > 0 && SimulationService.stream('poi').chance(0.3) ? [pois[0]] : [];
+    
+    // Rules the profile or quiet mode would silence are left out, so they don't hold back the ones after them
+    const rules = AlertPolicyService.getRules()
+      .filter(rule => AlertVerbosityService.allows(rule.severity))
+      .map(rule => ({ ...rule, cooldownMs: AlertVerbosityService.scaleCooldown(rule.cooldownMs) }));
+    
+    const alert = this.alertPolicy.evaluate(rules, {
+      objects,
+      lanes,
+      pois: offeredPois,
+      frameWidth,
+      frameHeight,
+      polygons: RoiService.getPolygons(),
+      language: LanguageService.getLanguage()
+    }, now);
+    
+    if (alert) {
+      // The policy already held the rule to its cooldown on the frame clock; a second, wall-clock cooldown
+      // in the voice service would drop replayed and simulated alerts the policy counts as fired
+      VoiceAlertService.speak(alert.message, `rule:${alert.rule.id}`, alert.priority, {
+        cooldown: 0,
+        earcon: alert.earcon,
+        pan: alert.pan
       });
-      
-      if (closestVehicle && closestVehicle.distance) {
-        VoiceAlertService.alertVehicle(
-          closestVehicle.type, 
-          closestVehicle.distance,
-          vehicles.length
-        );
-        this.lastVoiceAlertTime = now;
-        return;
-      }
     }
-    
-    // Check for traffic signs
-    const trafficSigns = objects.filter(obj => 
-      obj.type.toLowerCase() === 'stop sign' || 
-      obj.type.toLowerCase() === 'traffic light'
-    );
-    
-    if (trafficSigns.length > 0) {
-      const signType = trafficSigns[0].type;
-      // Check if this sign was recently spotted
-      const signKey = `sign-${signType}`;
-      if (!this.objectHistory.has(signKey)) {
-        VoiceAlertService.alertTrafficSign(signType);
-        this.objectHistory.set(signKey, {count: 1, lastSeen: now});
-        this.lastVoiceAlertTime = now;
-        return;
-      }
-    }
-    
-    // Check for Points of Interest
-    if (pois.length > 0 && Math.random() > 0.7) { // Randomize POI alerts to avoid too many
-      const poi = pois[0];
-      VoiceAlertService.alertPOI(poi.type, poi.distance, poi.direction);
-      this.lastVoiceAlertTime = now;
-      return;
-    }
-    
-    // Clean up object history (remove entries older than 10 seconds)
-    this.objectHistory.forEach((value, key) => {
-      if (now - value.lastSeen > 10000) {
-        this.objectHistory.delete(key);
-      }
-    });
-  }
-  
-  /**
-   * Generate realistic-looking detected objects based on position in a road scene
-   * Now with variable confidence levels
-   */
-  generateRealisticObjects(width: number, height: number) {
-    const objects = [];
-    const possibleObjects = [
-      { type: "Car", 
-        probability: 0.9, 
-        position: () => ({ 
-          x: width * (0.3 + Math.random() * 0.4), 
-          y: height * (0.5 + Math.random() * 0.2),
-          w: width * (0.1 + Math.random() * 0.08),
-          h: height * (0.05 + Math.random() * 0.04)
-        }),
-        confidenceRange: [0.65, 0.98] // Most cars are detected with high confidence
-      },
-      { type: "Person", 
-        probability: 0.3, 
-        position: () => ({ 
-          x: width * (Math.random() > 0.5 ? 0.05 : 0.85), 
-          y: height * (0.5 + Math.random() * 0.3),
-          w: width * 0.03,
-          h: height * 0.1
-        }),
-        confidenceRange: [0.4, 0.95] // People can be harder to detect
-      },
-      { type: "Truck", 
-        probability: 0.2, 
-        position: () => ({ 
-          x: width * (0.3 + Math.random() * 0.4), 
-          y: height * (0.4 + Math.random() * 0.2),
-          w: width * (0.15 + Math.random() * 0.08),
-          h: height * (0.08 + Math.random() * 0.05)
-        }),
-        confidenceRange: [0.7, 0.95] // Trucks are easy to detect
-      },
-      { type: "Traffic Light", 
-        probability: 0.4, 
-        position: () => ({ 
-          x: width * (Math.random() > 0.5 ? 0.1 : 0.85), 
-          y: height * (0.2 + Math.random() * 0.2),
-          w: width * 0.03,
-          h: height * 0.05
-        }),
-        confidenceRange: [0.3, 0.85] // Traffic lights can be harder to detect
-      },
-      { type: "Stop Sign", 
-        probability: 0.15, 
-        position: () => ({ 
-          x: width * (Math.random() > 0.5 ? 0.15 : 0.8), 
-          y: height * (0.25 + Math.random() * 0.1),
-          w: width * 0.04,
-          h: height * 0.04
-        }),
-        confidenceRange: [0.4, 0.9] // Stop signs medium difficulty
-      },
-      { type: "Bicycle", 
-        probability: 0.2, 
-        position: () => ({ 
-          x: width * (Math.random() > 0.5 ? 0.1 : 0.85), 
-          y: height * (0.6 + Math.random() * 0.2),
-          w: width * 0.04,
-          h: height * 0.07
-        }),
-        confidenceRange: [0.3, 0.8] // Bicycles can be hard to detect
-      },
-      // Add car behind for collision detection
-      { type: "Car Behind", 
-        probability: 0.6, 
-        position: () => ({ 
-          x: width * (0.4 + Math.random() * 0.2), 
-          y: height * (0.85 + Math.random() * 0.1),
-          w: width * (0.15 + Math.random() * 0.05),
-          h: height * (0.08 + Math.random() * 0.03)
-        }),
-        confidenceRange: [0.5, 0.9] // Cars behind medium difficulty
-      },
-      // Add more object types with low confidence for testing threshold
-      { type: "Pothole", 
-        probability: 0.15, 
-        position: () => ({ 
-          x: width * (0.3 + Math.random() * 0.4), 
-          y: height * (0.7 + Math.random() * 0.2),
-          w: width * 0.05,
-          h: width * 0.05
-        }),
-        confidenceRange: [0.1, 0.4] // Potholes are hard to detect
-      },
-      { type: "Animal", 
-        probability: 0.1, 
-        position: () => ({ 
-          x: width * (Math.random() > 0.5 ? 0.1 : 0.9), 
-          y: height * (0.6 + Math.random() * 0.2),
-          w: width * 0.04,
-          h: width * 0.03
-        }),
-        confidenceRange: [0.2, 0.6] // Animals are hard to detect
-      }
-    ];
-    
-    // Generate a somewhat realistic number of objects
-    // More likely to see cars than anything else
-    possibleObjects.forEach(obj => {
-      // Random check based on probability
-      if (Math.random() < obj.probability) {
-        // Some objects might appear multiple times
-        const count = obj.type === "Car" ? Math.floor(Math.random() * 3) + 1 : 1;
-        
-        for (let i = 0; i < count; i++) {
-          const pos = obj.position();
-          
-          // Calculate simulated distance
-          const distance = obj.type === "Car Behind" 
-            ? (Math.random() * 45) // Random distance for car behind (0-45 meters)
-            : 50 + Math.random() * 50; // Further for other objects
-          
-          // Generate realistic confidence value
-          const confidenceMin = obj.confidenceRange[0];
-          const confidenceMax = obj.confidenceRange[1];
-          const confidence = confidenceMin + Math.random() * (confidenceMax - confidenceMin);
-          
-          // Add emergency car with low probability
-          let emergencyVehicle = false;
-          if ((obj.type === "Car" || obj.type === "Truck") && Math.random() > 0.95) {
-            emergencyVehicle = true;
-          }
-          
-          objects.push({
-            type: obj.type === "Car Behind" ? "Car" : obj.type, // Normalize the type
-            count: 1,
-            confidence: confidence, // Add variable confidence for threshold filtering
-            distance: distance,
-            emergency: emergencyVehicle,
-            boundingBox: {
-              x: pos.x + (i * pos.w * 0.5), // Offset multiple cars
-              y: pos.y,
-              width: pos.w,
-              height: pos.h
-            }
-          });
-        }
-      }
-    });
-    
-    return objects;
-  }
-
-  /**
-   * Generate realistic lane detection results - optimized for real-time
-   */
-  generateRealisticLanes(width: number, height: number) {
-    const now = Date.now();
-    
-    // Update lane pattern offset at a fixed interval - more efficient update
-    if (now - this.lastLaneUpdate > 35) { // Faster updates for smoother animation
-      this.lastLaneUpdate = now;
-      this.lanePatternOffset += 0.7; // move the pattern down faster
-      if (this.lanePatternOffset > 50) this.lanePatternOffset = 0;
-    }
-    
-    // Generate a smooth drifting offset to simulate car moving in lane
-    const offsetCycle = Math.sin(now / 8000) * 25;
-    const direction = offsetCycle > 10 ? "Right" : 
-                     offsetCycle < -10 ? "Left" : 
-                     "Center";
-    
-    return {
-      offset: offsetCycle,
-      direction: direction,
-      patternOffset: this.lanePatternOffset, // Used for drawing dashed lines
-      confidence: 0.85 + Math.random() * 0.1,
-      leftLineDetected: true,
-      rightLineDetected: true,
-      centerLineDetected: Math.random() > 0.2, // Sometimes lose center line detection
-      laneWidth: 350 + Math.sin(now / 10000) * 15 // Slight variation in detected lane width
-    };
   }
   
   /**
    * Draw detection results directly on the video canvas
    * Optimized for performance in real-time scenarios
    */
-  drawDetectionResultsOnVideo(ctx: CanvasRenderingContext2D, width: number, height: number, objects: any[], lanes: any) {
+  drawDetectionResultsOnVideo(ctx: CanvasRenderingContext2D, width: number, height: number, objects: TrackedObject[], lanes: LaneEstimate) {
     // Use lighter overlay for better performance
     ctx.fillStyle = 'rgba(0,0,0,0.05)';
     ctx.fillRect(0, 0, width, height);
     
+    // Split-screen before/after view of the frame enhancement, when enabled
+    FramePreprocessingService.drawPreview(ctx, width, height);
+    
     // Draw lane markings first (behind objects)
     this.drawLaneOverlay(ctx, width, height, lanes);
     
@@ -616,130 +642,120 @@ class DetectionService {
     const objectsToDraw = objects.slice(0, maxObjectsToDraw);
     objectsToDraw.forEach(obj => this.drawObjectOverlay(ctx, obj));
     
+    // Show traffic light events for a few seconds
+    if (this.lastLightEvent && this.frameTime - this.lastLightEvent.timestamp < 3000) {
+      this.drawTrafficLightBanner(ctx, width, this.lastLightEvent);
+    }
+    
     // Draw emergency indicator if active
-    if (this.emergencyMode) {
+    if (this.emergencyMode || this.collision.level === 'warning') {
       this.drawEmergencyOverlay(ctx, width, height);
     }
   }
   
   /**
-   * Draw emergency overlay when in emergency mode
+   * Draw a banner at the top of the frame for a traffic light event
+   */
+  private drawTrafficLightBanner(ctx: CanvasRenderingContext2D, width: number, event: TrafficLightEvent) {
+    const isRed = event.type === 'red_ahead_at_speed';
+    const text = isRed ? 'RED LIGHT AHEAD - SLOW DOWN' : 'LIGHT TURNED GREEN';
+    
+    ctx.font = 'bold 20px Arial';
+    const textWidth = ctx.measureText(text).width;
+    ctx.fillStyle = isRed ? 'rgba(220, 20, 20, 0.85)' : 'rgba(20, 160, 60, 0.85)';
+    ctx.fillRect((width - textWidth) / 2 - 12, 12, textWidth + 24, 34);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(text, (width - textWidth) / 2, 36);
+  }
+  
+  /**
+   * Draw emergency overlay when in emergency mode or on a forward collision warning
    */
   private drawEmergencyOverlay(ctx: CanvasRenderingContext2D, width: number, height: number) {
-    // Draw red border
-    ctx.strokeStyle = 'rgba(255, 0, 0, 0.8)';
+    // Red border for imminent collisions, amber for warnings
+    const color = this.emergencyMode ? 'rgba(255, 0, 0, 0.8)' : 'rgba(255, 170, 0, 0.8)';
+    ctx.strokeStyle = color;
     ctx.lineWidth = 10;
     ctx.strokeRect(0, 0, width, height);
     
     // Draw distance warning
-    ctx.fillStyle = 'rgba(255, 0, 0, 0.8)';
+    ctx.fillStyle = color;
     ctx.font = 'bold 24px Arial';
-    const warningText = 'COLLISION RISK';
+    const warningText = this.collision.level === 'brake' ? 'BRAKE' : 'COLLISION RISK';
     const textWidth = ctx.measureText(warningText).width;
     ctx.fillText(warningText, (width - textWidth) / 2, height - 40);
   }
   
   /**
-   * Draw lane detection overlay - optimized for real-time visualization
+   * Draw lane detection overlay - the fitted lane lines projected back onto the frame
    */
-  drawLaneOverlay(ctx: CanvasRenderingContext2D, width: number, height: number, lanes: any) {
-    // Define horizon point (perspective vanishing point)
-    const horizonY = height * 0.55;
-    
-    // Define lane starting position (at bottom of canvas)
-    const laneWidth = lanes.laneWidth;
-    const centerX = width / 2;
-    const laneOffset = lanes.offset || 0;
-    
-    // Calculate lane positions with offset 
-    const offsetPixels = (laneOffset / 100) * (width * 0.1);
-    
-    // Bottom positions (wide)
-    const bottomLeftX = centerX - (laneWidth/2) - offsetPixels;
-    const bottomRightX = centerX + (laneWidth/2) - offsetPixels;
-    
-    // Top positions (narrow due to perspective)
-    const topLeftX = centerX - (laneWidth * 0.2) - (offsetPixels * 0.3);
-    const topRightX = centerX + (laneWidth * 0.2) - (offsetPixels * 0.3);
-    
-    // Draw solid edge lines with increased visibility
-    ctx.lineWidth = 5;
-    
-    // Left lane line - Thicker yellow line for better visibility
-    ctx.strokeStyle = 'rgba(255, 255, 100, 0.95)';  // More opaque yellow
-    ctx.beginPath();
-    ctx.moveTo(bottomLeftX, height);
-    ctx.lineTo(topLeftX, horizonY);
-    ctx.stroke();
+  drawLaneOverlay(ctx: CanvasRenderingContext2D, width: number, height: number, lanes: LaneEstimate) {
+    const calibration = CameraCalibrationService.getCalibration();
+    
+    // Sample a fitted line from near to far as image points
+    const projectLine = (line: LaneEstimate['left']) => {
+      if (!line) return [];
+      const points: { x: number, y: number }[] = [];
+      const near = Math.max(1, line.minDistance);
+      const far = Math.max(near + 1, line.maxDistance);
+      for (let z = near; z <= far; z += Math.max(0.5, (far - near) / 30)) {
+        const pixel = pixelForGroundPoint(laneLineX(line, z), z, width, height, calibration);
+        points.push({ x: pixel.col, y: pixel.row });
+      }
+      return points;
+    };
     
-    // Right lane line - Thicker white line for better visibility
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.95)';  // More opaque white
-    ctx.beginPath();
-    ctx.moveTo(bottomRightX, height);
-    ctx.lineTo(topRightX, horizonY);
-    ctx.stroke();
+    const leftPoints = projectLine(lanes.left);
+    const rightPoints = projectLine(lanes.right);
     
-    // Draw center dashed line with improved visibility
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
-    ctx.lineWidth = 4;
-    
-    // Create a vertical pattern of dashes for the center lane
-    // Larger dash height for better visibility
-    const dashHeight = 25;
-    const dashGap = 15;
-    const dashStart = lanes.patternOffset || 0; // Moving offset creates animation
-    
-    // Create an array of dash start Y-positions from bottom to horizon
-    let dashPositions = [];
-    for (let y = height - dashStart % (dashHeight + dashGap); y > horizonY; y -= dashHeight + dashGap) {
-      // Calculate how far up we are (0 at bottom, 1 at horizon)
-      const progressToHorizon = 1 - ((y - horizonY) / (height - horizonY));
-      
-      // Calculate x-position with perspective
-      const xPos = centerX - offsetPixels * (1 - progressToHorizon * 0.7);
-      
-      // Calculate dash width and height with perspective
-      const perspectiveDashHeight = dashHeight * (1 - progressToHorizon * 0.7);
-      
-      dashPositions.push({
-        x: xPos,
-        y: y,
-        height: perspectiveDashHeight
-      });
-    }
-    
-    // Draw dashes with perspective and improved visibility
-    dashPositions.forEach(dash => {
-      // Calculate x-coordinates with perspective
-      const bottomY = dash.y;
-      const topY = dash.y - dash.height;
-      
-      // Calculate how far up we are (0 at bottom, 1 at horizon) for both ends of dash
-      const bottomProgress = 1 - ((bottomY - horizonY) / (height - horizonY));
-      const topProgress = 1 - ((topY - horizonY) / (height - horizonY));
-      
-      // Perspective width adjustments - wider dashes for better visibility
-      const bottomWidth = 3 * (1 - bottomProgress * 0.7);
-      const topWidth = 3 * (1 - topProgress * 0.7);
-      
-      // Draw the dash as a trapezoid to account for perspective
+    // Shade the ego lane when both lines are known
+    if (leftPoints.length > 1 && rightPoints.length > 1) {
+      ctx.fillStyle = 'rgba(0, 255, 120, 0.15)';
       ctx.beginPath();
-      ctx.moveTo(dash.x - bottomWidth, bottomY);
-      ctx.lineTo(dash.x + bottomWidth, bottomY);
-      ctx.lineTo(dash.x + topWidth, topY);
-      ctx.lineTo(dash.x - topWidth, topY);
+      ctx.moveTo(leftPoints[0].x, leftPoints[0].y);
+      leftPoints.forEach(point => ctx.lineTo(point.x, point.y));
+      [...rightPoints].reverse().forEach(point => ctx.lineTo(point.x, point.y));
       ctx.closePath();
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
       ctx.fill();
-    });
+    }
+    
+    // Lines measured in this frame are solid, lines carried over from earlier frames are dashed
+    const drawLine = (points: { x: number, y: number }[], color: string, detected: boolean) => {
+      if (points.length < 2) return;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 5;
+      ctx.setLineDash(detected ? [] : [12, 10]);
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+    
+    const lineColor = (type: LaneEstimate['leftLineType']) =>
+      type.color === 'yellow' ? 'rgba(255, 255, 100, 0.95)' : 'rgba(255, 255, 255, 0.95)';
+    drawLine(leftPoints, lineColor(lanes.leftLineType), lanes.leftLineDetected);
+    drawLine(rightPoints, lineColor(lanes.rightLineType), lanes.rightLineDetected);
     
     // Draw status text with better visibility
     ctx.font = '12px Arial';
     ctx.fillStyle = 'rgba(0, 255, 200, 1.0)';
-    ctx.fillText(`Lane offset: ${Math.abs(lanes.offset).toFixed(1)}px ${lanes.direction}`, width - 160, height - 10);
-    ctx.fillText(`Confidence: ${(lanes.confidence * 100).toFixed(0)}%`, width - 160, height - 25);
+    if (lanes.direction === 'Unknown') {
+      ctx.fillText('Lane: not detected', width - 160, height - 10);
+      return;
+    }
+    ctx.fillText(`Lane offset: ${Math.abs(lanes.offsetMeters).toFixed(2)}m ${lanes.direction}`, width - 160, height - 10);
+    ctx.fillText(`Lane width: ${lanes.laneWidth.toFixed(1)}m`, width - 160, height - 25);
+    ctx.fillText(`Confidence: ${(lanes.confidence * 100).toFixed(0)}%`, width - 160, height - 40);
+    if (lanes.curveRadius !== null) {
+      ctx.fillText(`Curve radius: ${Math.round(lanes.curveRadius)}m`, width - 160, height - 55);
+    }
     
-    // Draw car position indicator at bottom with improved visibility
+    // Car indicator sits at the camera, the lane center marker is offset from it
+    const laneWidthPixels = leftPoints.length > 0 && rightPoints.length > 0
+      ? rightPoints[0].x - leftPoints[0].x
+      : width * 0.5;
+    const offsetPixels = (lanes.offset / 100) * laneWidthPixels;
     this.drawCarPositionIndicator(ctx, width, height, offsetPixels);
   }
   
@@ -747,8 +763,9 @@ class DetectionService {
    * Draw car position indicator at bottom of screen
    */
   drawCarPositionIndicator(ctx: CanvasRenderingContext2D, width: number, height: number, offsetPixels: number) {
-    const centerX = width / 2;
-    const carX = centerX - offsetPixels;
+    // The camera is on the car's centerline; the lane center is offset from it
+    const carX = width / 2;
+    const laneCenterX = carX - offsetPixels;
     const carY = height - 20;
     
     ctx.fillStyle = 'rgba(0, 200, 255, 0.9)';
@@ -761,11 +778,11 @@ class DetectionService {
     ctx.closePath();
     ctx.fill();
     
-    // Draw center marker
+    // Draw lane center marker
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
     ctx.beginPath();
-    ctx.moveTo(centerX, height - 5);
-    ctx.lineTo(centerX, height - 15);
+    ctx.moveTo(laneCenterX, height - 5);
+    ctx.lineTo(laneCenterX, height - 15);
     ctx.stroke();
   }
   
@@ -773,7 +790,7 @@ class DetectionService {
    * Draw object detection boxes with improved real-time visualization
    * Now displays confidence values
    */
-  drawObjectOverlay(ctx: CanvasRenderingContext2D, object: any) {
+  drawObjectOverlay(ctx: CanvasRenderingContext2D, object: TrackedObject) {
     if (!object.boundingBox) return;
     
     const { x, y, width, height } = object.boundingBox;
@@ -799,18 +816,27 @@ class DetectionService {
         color = isEmergency ? '#ff00ff' : '#ffaa00'; // Special color for emergency vehicles
         break;
       case 'traffic light':
+        // Box takes the color of the lit lamp once it is known
+        color = object.lightState === 'red' ? '#ff3030'
+          : object.lightState === 'green' ? '#30e060'
+          : '#ffdd00';
+        break;
       case 'stop sign':
         color = '#ffdd00'; // Bright yellow for traffic controls
         break;
       default:
-        color = '#40a0ff'; // Brighter blue for default
+        color = object.signClass ? '#ffdd00' : '#40a0ff'; // Brighter blue for default
     }
     
     // Draw bounding box with animated pulsing effect for important objects
     ctx.lineWidth = 3;
     
-    // Apply pulsing effect to high priority objects
-    if (['person', 'pedestrian', 'bicycle', 'motorcycle', 'traffic light', 'stop sign'].includes(type.toLowerCase()) || isEmergency) {
+    // Apply pulsing effect to high priority objects; with a risk score, only risky road users pulse
+    const risk = object.risk;
+    const vulnerable = risk
+      ? risk.level === 'high'
+      : ['person', 'pedestrian', 'bicycle', 'motorcycle'].includes(type.toLowerCase());
+    if (vulnerable || ['traffic light', 'stop sign'].includes(type.toLowerCase()) || object.signClass || isEmergency) {
       const pulse = Math.sin(Date.now() / 200) * 0.5 + 0.5; // Pulse between 0 and 1
       ctx.strokeStyle = color;
       ctx.setLineDash([5, 3]);
@@ -833,11 +859,16 @@ class DetectionService {
     ctx.fillRect(x, y, width, height);
     
     // Draw label with improved visibility
+    const trackLabel = object.trackId !== undefined ? ` #${object.trackId}` : '';
+    const stateLabel = object.lightState && object.lightState !== 'unknown' ? ` ${object.lightState.toUpperCase()}` : '';
+    // Read signs are labelled with what they say rather than the detector class
+    const sign = getSignClass(object.signClass);
+    const displayType = sign ? sign.label : type;
     const labelText = isEmergency 
-      ? `${type} (Emergency)` 
+      ? `${displayType}${trackLabel} (Emergency)` 
       : confidence !== undefined
-        ? `${type} ${Math.round(confidence * 100)}%` 
-        : `${type}`;
+        ? `${displayType}${stateLabel}${trackLabel} ${Math.round(confidence * 100)}%` 
+        : `${displayType}${stateLabel}${trackLabel}`;
     
     ctx.font = '13px Arial';
     
@@ -850,6 +881,39 @@ class DetectionService {
     ctx.fillStyle = '#ffffff';
     ctx.fillText(labelText, x + 5, y - 6);
     
+    // Draw the risk score in the top right corner of the box
+    if (risk) {
+      const riskText = `RISK ${Math.round(risk.score * 100)}`;
+      ctx.font = 'bold 11px Arial';
+      const riskWidth = ctx.measureText(riskText).width + 8;
+      ctx.fillStyle = risk.level === 'high' ? '#ff2020' : risk.level === 'medium' ? '#ffaa00' : '#40a0ff';
+      ctx.fillRect(x + width - riskWidth, y, riskWidth, 16);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(riskText, x + width - riskWidth + 4, y + 12);
+    }
+    
+    // Draw motion vector for confirmed tracks (where the object will be in half a second)
+    if (object.confirmed && object.velocity) {
+      const centerX = x + width / 2;
+      const centerY = y + height / 2;
+      const endX = centerX + object.velocity.x * 0.5;
+      const endY = centerY + object.velocity.y * 0.5;
+      
+      if (Math.hypot(endX - centerX, endY - centerY) > 3) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        ctx.lineTo(endX, endY);
+        ctx.stroke();
+        
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(endX, endY, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    
     // Draw tracking lines and distance estimates for some objects with improved visibility
     if (['car', 'truck', 'bus', 'person', 'pedestrian'].includes(type.toLowerCase())) {
       // Draw tracking line
@@ -866,8 +930,10 @@ class DetectionService {
       ctx.font = distance && distance < 30 ? 'bold 12px Arial' : '12px Arial';
       ctx.fillText(`${displayDistance}m`, x + width/2 - 15, y + height + 40);
       
-      // Add warning indicator for close objects
-      if (distance && distance < 15) {
+      // Add warning indicator and time-to-collision for the lead vehicle we are warning about
+      const isWarningLead = object.trackId === this.collision.trackId &&
+        (this.collision.level === 'warning' || this.collision.level === 'brake');
+      if (isWarningLead) {
         ctx.fillStyle = '#ff0000';
         ctx.beginPath();
         const warningX = x + width/2;
@@ -879,6 +945,12 @@ class DetectionService {
         ctx.font = 'bold 14px Arial';
         const warningTextWidth = ctx.measureText('!').width;
         ctx.fillText('!', warningX - warningTextWidth/2, warningY + 5);
+        
+        if (this.collision.timeToCollision !== null) {
+          ctx.fillStyle = '#ff3333';
+          ctx.font = 'bold 12px Arial';
+          ctx.fillText(`TTC ${this.collision.timeToCollision.toFixed(1)}s`, warningX + 14, warningY + 4);
+        }
       }
     }
   }
@@ -0,0 +1,145 @@
+/**
+ * Service playing earcons through Web Audio, panned toward the side of the hazard
+ * It also holds which channel, earcon, speech or both, announces alerts of each severity;
+ * the choice is persisted in localStorage
+ */
+import { AlertSeverity } from '../types/alerts';
+import { EarconKind, earconTones } from './audio/earcons';
+
+const STORAGE_KEY = 'alertChannels';
+
+// Fade in and out of every tone, so it starts and stops without clicks
+const TONE_RAMP = 0.005;
+
+export type AlertChannel = 'earcon' | 'speech' | 'both';
+
+export const DEFAULT_ALERT_CHANNELS: Record<AlertSeverity, AlertChannel> = {
+  info: 'speech',
+  advisory: 'speech',
+  warning: 'both',
+  critical: 'both'
+};
+
+type ChannelListener = (channels: Record<AlertSeverity, AlertChannel>) => void;
+
+class EarconService {
+  private context: AudioContext | null;
+  private channels: Record<AlertSeverity, AlertChannel>;
+  private listeners: Set<ChannelListener>;
+
+  constructor() {
+    this.context = null;
+    this.channels = this.loadStoredChannels();
+    this.listeners = new Set();
+  }
+
+  private loadStoredChannels(): Record<AlertSeverity, AlertChannel> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        const channels = { ...DEFAULT_ALERT_CHANNELS };
+        (Object.keys(channels) as AlertSeverity[]).forEach(severity => {
+          if (['earcon', 'speech', 'both'].includes(parsed[severity])) {
+            channels[severity] = parsed[severity];
+          }
+        });
+        return channels;
+      }
+    } catch (err) {
+      console.error("Error reading stored alert channels:", err);
+    }
+    return { ...DEFAULT_ALERT_CHANNELS };
+  }
+
+  getChannels() {
+    return this.channels;
+  }
+
+  getChannel(severity: AlertSeverity) {
+    return this.channels[severity];
+  }
+
+  setChannel(severity: AlertSeverity, channel: AlertChannel) {
+    this.channels = { ...this.channels, [severity]: channel };
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.channels));
+    } catch (err) {
+      console.error("Error saving alert channels:", err);
+    }
+
+    this.listeners.forEach(listener => listener(this.channels));
+  }
+
+  /**
+   * Play an earcon
+   * @param kind Alert type, which sets the waveform and melody
+   * @param urgency 1 (lowest) to 5, which sets pitch and repetition
+   * @param pan Stereo position from -1 (left) to 1 (right)
+   * @param volume Value between 0 and 1
+   */
+  play(kind: EarconKind, urgency: number, pan = 0, volume = 1) {
+    const context = this.getContext();
+    if (!context) return;
+
+    // Browsers start audio suspended until the page has been interacted with
+    if (context.state === 'suspended') {
+      context.resume().catch(err => console.error("Error resuming audio:", err));
+    }
+
+    const output = context.createGain();
+    output.gain.value = Math.max(0, Math.min(1, volume)) * 0.4;
+    if (typeof context.createStereoPanner === 'function') {
+      const panner = context.createStereoPanner();
+      panner.pan.value = Math.max(-1, Math.min(1, pan));
+      output.connect(panner);
+      panner.connect(context.destination);
+    } else {
+      output.connect(context.destination);
+    }
+
+    const startTime = context.currentTime + 0.01;
+    earconTones(kind, urgency).forEach(tone => {
+      const oscillator = context.createOscillator();
+      oscillator.type = tone.wave;
+      oscillator.frequency.value = tone.frequency;
+
+      const envelope = context.createGain();
+      const start = startTime + tone.start;
+      const end = start + tone.duration;
+      envelope.gain.setValueAtTime(0, start);
+      envelope.gain.linearRampToValueAtTime(1, start + TONE_RAMP);
+      envelope.gain.setValueAtTime(1, end - TONE_RAMP);
+      envelope.gain.linearRampToValueAtTime(0, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(output);
+      oscillator.start(start);
+      oscillator.stop(end);
+    });
+  }
+
+  /**
+   * Subscribe to channel changes, returns an unsubscribe function
+   */
+  subscribe(listener: ChannelListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getContext() {
+    if (!this.context) {
+      const AudioContextClass = typeof window !== 'undefined'
+        ? window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+        : undefined;
+      if (!AudioContextClass) return null;
+      this.context = new AudioContextClass();
+    }
+    return this.context;
+  }
+}
+
+export default new EarconService();
@@ -0,0 +1,181 @@
+/**
+ * Service evaluating the active detector against annotated video
+ * Seeks to every labeled frame, runs the backend and the lane detector on it, and keeps the per-frame
+ * matches so the report can be recomputed at any confidence threshold
+ */
+import DetectorRegistry from './detection/DetectorRegistry';
+import LaneDetector from './detection/LaneDetector';
+import CameraCalibrationService from './CameraCalibrationService';
+import DetectionFilterService from './DetectionFilterService';
+import { parseRawDetections } from './detection/frameResultSchema';
+import { AnnotationSet, normalizeClassName, scaleAnnotations } from './evaluation/annotations';
+import { FrameEvaluation, matchFrame } from './evaluation/metrics';
+
+// Give up on a seek the browser never finishes
+const SEEK_TIMEOUT_MS = 5000;
+
+export type EvaluationStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+export interface EvaluationState {
+  status: EvaluationStatus;
+  processed: number;
+  total: number;
+  backendName: string | null;
+  frames: FrameEvaluation[];
+  skipped: number; // labeled frames past the end of the video
+  error: string | null;
+}
+
+type EvaluationListener = (state: EvaluationState) => void;
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+const IDLE_STATE: EvaluationState = {
+  status: 'idle',
+  processed: 0,
+  total: 0,
+  backendName: null,
+  frames: [],
+  skipped: 0,
+  error: null
+};
+
+/**
+ * Seek a video and wait until the frame is available
+ */
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(new EvaluationError(`Seeking to ${time.toFixed(2)}s timed out`));
+    }, SEEK_TIMEOUT_MS);
+    const onSeeked = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.currentTime = time;
+  });
+
+class EvaluationService {
+  private state: EvaluationState;
+  private runId: number;
+  private listeners: Set<EvaluationListener>;
+
+  constructor() {
+    this.state = IDLE_STATE;
+    this.runId = 0;
+    this.listeners = new Set();
+  }
+
+  getState(): EvaluationState {
+    return this.state;
+  }
+
+  /**
+   * Evaluate the active backend on every labeled frame of a video
+   * @param video Video element with the clip loaded (metadata available)
+   * @param annotations Labels for the clip
+   * @param fps Frame rate the labels were numbered at
+   */
+  async run(video: HTMLVideoElement, annotations: AnnotationSet, fps: number) {
+    const backend = DetectorRegistry.getActive();
+    if (!backend) {
+      throw new EvaluationError('No detector backend is ready');
+    }
+    if (!video.videoWidth || !video.videoHeight) {
+      throw new EvaluationError('The video has not loaded yet');
+    }
+
+    const runId = ++this.runId;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    const labels = scaleAnnotations(annotations, canvas.width, canvas.height);
+    const labeledClasses = new Set(labels.classes);
+    const calibration = CameraCalibrationService.getCalibration();
+    const laneDetector = new LaneDetector();
+    const frames: FrameEvaluation[] = [];
+    let skipped = 0;
+
+    video.pause();
+    this.setState({ ...IDLE_STATE, status: 'running', total: labels.frames.length, backendName: backend.name });
+
+    try {
+      for (const label of labels.frames) {
+        if (runId !== this.runId) return;
+
+        // Aim for the middle of the frame so rounding can't land on its neighbour
+        const time = (label.frame + 0.5) / fps;
+        if (time > video.duration) {
+          skipped++;
+          continue;
+        }
+
+        await seekTo(video, time);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        // Evaluate what the pipeline sees, duplicates removed
+        const detections = DetectionFilterService.suppressDuplicates(parseRawDetections(await backend.infer(canvas), backend.name))
+          // Classes the labels don't cover can't be judged right or wrong
+          .filter(detection => labeledClasses.has(normalizeClassName(detection.type)));
+        // Each labeled frame is judged on its own pixels, not on lines smoothed over the frames evaluated before it
+        laneDetector.reset();
+        const lanes = laneDetector.detect(canvas, calibration, detections);
+
+        const groundTruth: Record<string, number> = {};
+        label.boxes.forEach(box => {
+          groundTruth[box.className] = (groundTruth[box.className] || 0) + 1;
+        });
+        frames.push({
+          frame: label.frame,
+          predictions: matchFrame(detections, label.boxes),
+          groundTruth,
+          laneOffset: label.laneOffset !== null && lanes.confidence > 0
+            ? { predicted: lanes.offset, actual: label.laneOffset }
+            : null
+        });
+
+        if (runId !== this.runId) return;
+        this.setState({ ...this.state, processed: frames.length + skipped, frames: [...frames], skipped });
+      }
+
+      this.setState({ ...this.state, status: 'done', processed: frames.length + skipped, frames, skipped });
+    } catch (err) {
+      if (runId !== this.runId) return;
+      console.error("Evaluation failed:", err);
+      this.setState({ ...this.state, status: 'error', error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  /**
+   * Stop a running evaluation, keeping the frames evaluated so far
+   */
+  cancel() {
+    if (this.state.status !== 'running') return;
+    this.runId++;
+    this.setState({ ...this.state, status: 'cancelled' });
+  }
+
+  /**
+   * Subscribe to progress and results, returns an unsubscribe function
+   */
+  subscribe(listener: EvaluationListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: EvaluationState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new EvaluationService();
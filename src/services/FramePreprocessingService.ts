@@ -0,0 +1,221 @@
+/**
+ * Service choosing the low-light and bad-weather enhancement for frames before inference
+ * The mode is persisted in localStorage; in auto mode the enhancement follows frame brightness and the weather
+ * Only small copies of the frame are processed here: the model's full-size copy is enhanced by the detector,
+ * in the detection worker when there is one
+ */
+import {
+  chooseCondition,
+  enhanceFrame,
+  EnhancementSettings,
+  ENHANCEMENT_PROFILES,
+  FrameCondition,
+  measureBrightness
+} from './detection/framePreprocessing';
+
+const STORAGE_KEY = 'framePreprocessing';
+
+// The before/after preview only shows an enhanced frame this recent
+const PREVIEW_MAX_AGE_MS = 1000;
+
+// Widths of the copies brightness is measured on and the preview is enhanced on
+const ANALYSIS_WIDTH = 160;
+const PREVIEW_WIDTH = 480;
+
+// Brightness changes smaller than this don't notify listeners
+const BRIGHTNESS_STEP = 0.02;
+
+export type PreprocessingMode = 'auto' | 'on' | 'off';
+
+export interface PreprocessingState {
+  mode: PreprocessingMode;
+  preview: boolean; // split-screen before/after on the video
+  weatherCondition: string | null;
+  brightness: number | null; // mean luma of the last frame, 0-1
+  condition: FrameCondition | null; // enhancement applied to the last frame
+}
+
+type PreprocessingListener = (state: PreprocessingState) => void;
+
+class FramePreprocessingService {
+  private mode: PreprocessingMode;
+  private preview: boolean;
+  private weatherCondition: string | null;
+  private brightness: number | null;
+  private condition: FrameCondition | null;
+  private analysisCanvas: HTMLCanvasElement | null;
+  private previewCanvas: HTMLCanvasElement | null; // holds the enhanced preview of the latest frame
+  private enhancedTime: number;
+  private listeners: Set<PreprocessingListener>;
+
+  constructor() {
+    this.mode = this.loadStoredMode();
+    this.preview = false;
+    this.weatherCondition = null;
+    this.brightness = null;
+    this.condition = null;
+    this.analysisCanvas = null;
+    this.previewCanvas = null;
+    this.enhancedTime = 0;
+    this.listeners = new Set();
+  }
+
+  private loadStoredMode(): PreprocessingMode {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored === 'auto' || stored === 'on' || stored === 'off') {
+        return stored;
+      }
+    } catch (err) {
+      console.error("Error reading stored preprocessing mode:", err);
+    }
+    return 'auto';
+  }
+
+  getState(): PreprocessingState {
+    return {
+      mode: this.mode,
+      preview: this.preview,
+      weatherCondition: this.weatherCondition,
+      brightness: this.brightness,
+      condition: this.condition
+    };
+  }
+
+  setMode(mode: PreprocessingMode) {
+    this.mode = mode;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, mode);
+    } catch (err) {
+      console.error("Error saving preprocessing mode:", err);
+    }
+
+    if (mode === 'off') {
+      this.brightness = null;
+      this.condition = null;
+    }
+    this.notify();
+  }
+
+  setPreview(preview: boolean) {
+    this.preview = preview;
+    this.notify();
+  }
+
+  /**
+   * Set the current weather description, e.g. "Rainy"; null when unknown
+   */
+  setWeatherCondition(condition: string | null) {
+    if (condition === this.weatherCondition) return;
+    this.weatherCondition = condition;
+    this.notify();
+  }
+
+  /**
+   * Enhancement the detector should apply to this frame, or null when the mode and conditions don't
+   * call for one; the canvas is left untouched so the display never shows the enhanced frame
+   */
+  chooseEnhancement(canvas: HTMLCanvasElement): EnhancementSettings | null {
+    if (this.mode === 'off' || !canvas.width || !canvas.height) return null;
+
+    this.analysisCanvas = this.drawScaled(this.analysisCanvas, canvas, ANALYSIS_WIDTH);
+    const image = this.readPixels(this.analysisCanvas);
+    if (!image) return null;
+    const brightness = measureBrightness(image, 1);
+    const condition = chooseCondition(brightness, this.weatherCondition) ?? (this.mode === 'on' ? 'dim' : null);
+
+    const changed = condition !== this.condition
+      || this.brightness === null
+      || Math.abs(brightness - this.brightness) >= BRIGHTNESS_STEP;
+    this.condition = condition;
+    if (changed) {
+      this.brightness = brightness;
+      this.notify();
+    }
+
+    if (!condition) return null;
+
+    const settings = ENHANCEMENT_PROFILES[condition].settings;
+    if (this.preview) {
+      this.updatePreview(canvas, settings);
+    }
+    return settings;
+  }
+
+  /**
+   * Draw the last enhanced frame over the right half of the video, next to the original on the left
+   * The preview is enhanced at a lower resolution than the model's copy, so fine detail can differ
+   */
+  drawPreview(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    if (!this.preview || !this.previewCanvas || Date.now() - this.enhancedTime > PREVIEW_MAX_AGE_MS) return;
+
+    const source = this.previewCanvas;
+    const half = width / 2;
+    ctx.drawImage(source, source.width / 2, 0, source.width / 2, source.height, half, 0, half, height);
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(half, 0);
+    ctx.lineTo(half, height);
+    ctx.stroke();
+
+    const label = this.condition ? `Enhanced (${ENHANCEMENT_PROFILES[this.condition].label})` : 'Enhanced';
+    ctx.font = 'bold 13px Arial';
+    const originalWidth = ctx.measureText('Original').width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(half - originalWidth - 18, height - 30, originalWidth + 12, 22);
+    ctx.fillRect(half + 6, height - 30, ctx.measureText(label).width + 12, 22);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('Original', half - originalWidth - 12, height - 14);
+    ctx.fillText(label, half + 12, height - 14);
+  }
+
+  /**
+   * Subscribe to mode and condition changes, returns an unsubscribe function
+   */
+  subscribe(listener: PreprocessingListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private updatePreview(canvas: HTMLCanvasElement, settings: EnhancementSettings) {
+    this.previewCanvas = this.drawScaled(this.previewCanvas, canvas, PREVIEW_WIDTH);
+    const image = this.readPixels(this.previewCanvas);
+    if (!image) return;
+    enhanceFrame(image, settings);
+    this.previewCanvas.getContext('2d').putImageData(image, 0, 0);
+    this.enhancedTime = Date.now();
+  }
+
+  /**
+   * Draw the frame into a canvas at most maxWidth wide, creating or resizing the canvas as needed
+   */
+  private drawScaled(target: HTMLCanvasElement | null, canvas: HTMLCanvasElement, maxWidth: number) {
+    const scaled = target || document.createElement('canvas');
+    const scale = Math.min(1, maxWidth / canvas.width);
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
+    if (scaled.width !== width || scaled.height !== height) {
+      scaled.width = width;
+      scaled.height = height;
+    }
+    scaled.getContext('2d', { willReadFrequently: true })?.drawImage(canvas, 0, 0, width, height);
+    return scaled;
+  }
+
+  private readPixels(canvas: HTMLCanvasElement) {
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    return context ? context.getImageData(0, 0, canvas.width, canvas.height) : null;
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new FramePreprocessingService();
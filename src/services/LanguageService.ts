@@ -0,0 +1,145 @@
+/**
+ * Service holding the language of spoken alerts and the speech voice that matches it
+ * The language is persisted in localStorage; it defaults to the browser's language when there is a catalog for it
+ * The voice is picked from those of the active speech backend, and picked again when the backend or its voices change
+ */
+import { MessageKey, TermGroup, VoiceLanguage } from '../types/i18n';
+import {
+  formatDistance,
+  formatMessage,
+  formatNumber,
+  formatUnit,
+  isVoiceLanguage,
+  translateSign,
+  translateTerm,
+  VOICE_LANGUAGES
+} from './i18n/messages';
+import type { SignClass } from './detection/signTaxonomy';
+import SpeechRegistry from './speech/SpeechRegistry';
+
+const STORAGE_KEY = 'voiceLanguage';
+
+export interface LanguageState {
+  language: VoiceLanguage;
+  voiceName: string | null; // installed voice used for the language, null when the speech backend picks
+}
+
+type LanguageListener = (state: LanguageState) => void;
+
+class LanguageService {
+  private language: VoiceLanguage;
+  private voiceName: string | null;
+  private listeners: Set<LanguageListener>;
+
+  constructor() {
+    this.language = this.loadStoredLanguage();
+    this.voiceName = this.findVoice();
+    this.listeners = new Set();
+
+    // Speech output switches and voice lists that load late both change the voice to use
+    SpeechRegistry.subscribe(() => {
+      const voiceName = this.findVoice();
+      if (voiceName === this.voiceName) return;
+      this.voiceName = voiceName;
+      this.notify();
+    });
+  }
+
+  private loadStoredLanguage(): VoiceLanguage {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored && isVoiceLanguage(stored)) {
+        return stored;
+      }
+    } catch (err) {
+      console.error("Error reading stored voice language:", err);
+    }
+    const browserLanguage = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+    return isVoiceLanguage(browserLanguage) ? browserLanguage : 'en';
+  }
+
+  /**
+   * Pick a voice of the active speech backend for the language, preferring the exact locale, then Google's voices
+   */
+  private findVoice(): string | null {
+    const locale = VOICE_LANGUAGES[this.language].locale.toLowerCase();
+    const voices = (SpeechRegistry.getActive()?.getVoices() ?? []).filter(voice =>
+      voice.locale.replace('_', '-').toLowerCase().startsWith(this.language)
+    );
+    const exact = voices.filter(voice => voice.locale.replace('_', '-').toLowerCase() === locale);
+    const candidates = exact.length > 0 ? exact : voices;
+    return (candidates.find(voice => voice.name.includes('Google')) ?? candidates[0])?.name ?? null;
+  }
+
+  getState(): LanguageState {
+    return {
+      language: this.language,
+      voiceName: this.voiceName
+    };
+  }
+
+  getLanguage(): VoiceLanguage {
+    return this.language;
+  }
+
+  getLocale() {
+    return VOICE_LANGUAGES[this.language].locale;
+  }
+
+  setLanguage(language: VoiceLanguage) {
+    this.language = language;
+    this.voiceName = this.findVoice();
+
+    try {
+      localStorage.setItem(STORAGE_KEY, language);
+    } catch (err) {
+      console.error("Error saving voice language:", err);
+    }
+
+    this.notify();
+  }
+
+  /**
+   * A catalog message in the current language
+   */
+  translate(key: MessageKey, variables: Record<string, string | number> = {}) {
+    return formatMessage(this.language, key, variables);
+  }
+
+  term(group: TermGroup, value: string, count = 1) {
+    return translateTerm(this.language, group, value, count);
+  }
+
+  signName(sign: SignClass) {
+    return translateSign(this.language, sign);
+  }
+
+  formatDistance(meters: number) {
+    return formatDistance(this.language, meters);
+  }
+
+  formatUnit(value: number, unit: 'meter' | 'kilometer' | 'mile', fractionDigits = 0) {
+    return formatUnit(this.language, value, unit, fractionDigits);
+  }
+
+  formatNumber(value: number, fractionDigits = 0) {
+    return formatNumber(this.language, value, fractionDigits);
+  }
+
+  /**
+   * Subscribe to language and voice changes, returns an unsubscribe function
+   */
+  subscribe(listener: LanguageListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new LanguageService();
@@ -0,0 +1,147 @@
+/**
+ * Service holding the region-of-interest masks drawn over the video
+ * Polygons are persisted in localStorage so they survive reloads; the dashcam mount rarely moves
+ */
+import { BoundingBox, RoiPoint, RoiPolygon, RoiZoneKind } from '../types/detection';
+import { isIgnored } from './detection/roiMasks';
+
+const STORAGE_KEY = 'roiMasks';
+
+export interface RoiState {
+  polygons: RoiPolygon[];
+  editing: RoiZoneKind | null; // zone kind being drawn
+  visible: boolean; // draw the masks over the video
+}
+
+type RoiListener = (state: RoiState) => void;
+
+const isPolygon = (value: unknown): value is RoiPolygon => {
+  const polygon = value as RoiPolygon;
+  return !!polygon
+    && typeof polygon.id === 'string'
+    && ['ignore', 'corridor', 'side'].includes(polygon.kind)
+    && Array.isArray(polygon.points)
+    && polygon.points.length >= 3
+    && polygon.points.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y));
+};
+
+class RoiService {
+  private polygons: RoiPolygon[];
+  private editing: RoiZoneKind | null;
+  private visible: boolean;
+  private nextId: number;
+  private listeners: Set<RoiListener>;
+
+  constructor() {
+    this.polygons = this.loadStoredPolygons();
+    this.editing = null;
+    this.visible = false;
+    this.nextId = Date.now();
+    this.listeners = new Set();
+  }
+
+  private loadStoredPolygons(): RoiPolygon[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return Array.isArray(parsed) ? parsed.filter(isPolygon) : [];
+      }
+    } catch (err) {
+      console.error("Error reading stored ROI masks:", err);
+    }
+    return [];
+  }
+
+  getState(): RoiState {
+    return {
+      polygons: this.polygons,
+      editing: this.editing,
+      visible: this.visible
+    };
+  }
+
+  getPolygons() {
+    return this.polygons;
+  }
+
+  /**
+   * Check whether any polygon of a kind is drawn; without a corridor, alerts consider the whole frame
+   */
+  hasZone(kind: RoiZoneKind) {
+    return this.polygons.some(polygon => polygon.kind === kind);
+  }
+
+  /**
+   * Drop detections whose center lies in an ignore zone
+   */
+  removeIgnored<T extends { boundingBox: BoundingBox }>(detections: T[], frameWidth: number, frameHeight: number): T[] {
+    if (!this.hasZone('ignore')) return detections;
+    return detections.filter(detection => !isIgnored(detection.boundingBox, frameWidth, frameHeight, this.polygons));
+  }
+
+  /**
+   * Start drawing a polygon of a kind over the video, or stop with null
+   */
+  setEditing(kind: RoiZoneKind | null) {
+    this.editing = kind;
+    this.notify();
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    this.notify();
+  }
+
+  /**
+   * Add a drawn polygon; points are frame fractions
+   */
+  addPolygon(kind: RoiZoneKind, points: RoiPoint[]) {
+    if (points.length < 3) return;
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    this.save([
+      ...this.polygons,
+      { id: `roi-${this.nextId++}`, kind, points: points.map(point => ({ x: clamp(point.x), y: clamp(point.y) })) }
+    ]);
+  }
+
+  removePolygon(id: string) {
+    this.save(this.polygons.filter(polygon => polygon.id !== id));
+  }
+
+  /**
+   * Remove every polygon, or only those of one kind
+   */
+  clear(kind?: RoiZoneKind) {
+    this.save(kind ? this.polygons.filter(polygon => polygon.kind !== kind) : []);
+  }
+
+  /**
+   * Subscribe to mask and editor changes, returns an unsubscribe function
+   */
+  subscribe(listener: RoiListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(polygons: RoiPolygon[]) {
+    this.polygons = polygons;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(polygons));
+    } catch (err) {
+      console.error("Error saving ROI masks:", err);
+    }
+
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new RoiService();
@@ -0,0 +1,368 @@
+/**
+ * Service playing scripted driving scenarios
+ * A scenario timeline drives what the simulator detects (actors, lane position, POIs) and what
+ * the drive reports (speed, instructions, weather, emergencies), so a situation can be replayed on demand
+ * The timeline runs on the simulation clock, so in a seeded session it moves on with the simulated frames
+ */
+import {
+  LaneEvent,
+  PoiEvent,
+  Scenario,
+  ScenarioActor,
+  ScenarioEvent,
+  ScenarioPlayback,
+  ScenarioStatus
+} from '@/types/scenario';
+import { PoiHit } from '@/types/detection';
+import { BUILT_IN_SCENARIOS } from './scenarios/scenarioLibrary';
+import { ScenarioError } from './scenarios/scenarioSchema';
+import SimulationService from './SimulationService';
+
+// How often due events are fired
+const TICK_MS = 100;
+
+// Actors never get closer than this, so a scripted closing speed can't drive through the car
+const MIN_ACTOR_DISTANCE = 3;
+
+export interface ScenarioLane {
+  offset: number; // from lane center in percent of lane width, positive when right of center
+  curveRadius: number | null; // in meters
+  curveDirection: 'Left' | 'Right' | 'Straight';
+}
+
+interface ActorState extends ScenarioActor {
+  since: number; // scenario time distance and lateral were last set, in seconds
+}
+
+interface LaneState {
+  from: number;
+  to: number;
+  rampStart: number; // scenario time the offset starts moving, in seconds
+  rampEnd: number;
+  curveRadius: number | null;
+  curveDirection: 'Left' | 'Right' | 'Straight';
+}
+
+type PlaybackListener = (playback: ScenarioPlayback) => void;
+type ScenarioEventListener = (event: ScenarioEvent, scenario: Scenario) => void;
+
+class ScenarioService {
+  private scenarios: Map<string, Scenario>;
+  private active: Scenario | null;
+  private status: ScenarioStatus;
+  private startedAt: number; // simulation time in ms
+  private nextEventIndex: number;
+  private actors: Map<string, ActorState>;
+  private lane: LaneState | null;
+  private speed: number;
+  private pois: { event: PoiEvent, until: number }[];
+  private timer: ReturnType<typeof setInterval> | null;
+  private listeners: Set<PlaybackListener>;
+  private eventListeners: Set<ScenarioEventListener>;
+
+  constructor() {
+    this.scenarios = new Map(BUILT_IN_SCENARIOS.map(scenario => [scenario.id, scenario]));
+    this.active = null;
+    this.status = 'idle';
+    this.startedAt = 0;
+    this.nextEventIndex = 0;
+    this.actors = new Map();
+    this.lane = null;
+    this.speed = 0;
+    this.pois = [];
+    this.timer = null;
+    this.listeners = new Set();
+    this.eventListeners = new Set();
+
+    // A restarted simulation rewinds its clock, so a playing scenario starts over with it
+    SimulationService.subscribe(() => {
+      if (!this.isPlaying()) return;
+      this.rewind();
+      this.notify();
+    });
+  }
+
+  /**
+   * Get the built-in and loaded scenarios
+   */
+  getScenarios(): Scenario[] {
+    return Array.from(this.scenarios.values());
+  }
+
+  /**
+   * Add a scenario, e.g. one loaded from a file; replaces a scenario with the same id
+   */
+  addScenario(scenario: Scenario) {
+    this.scenarios.set(scenario.id, scenario);
+    this.notify();
+  }
+
+  getPlayback(): ScenarioPlayback {
+    return {
+      scenarioId: this.active?.id || null,
+      status: this.status,
+      duration: this.active?.duration || 0
+    };
+  }
+
+  isPlaying() {
+    return this.status === 'playing';
+  }
+
+  /**
+   * Playback position in seconds
+   */
+  getTime() {
+    if (!this.active || this.status !== 'playing') return 0;
+    return Math.min(this.active.duration, (SimulationService.now() - this.startedAt) / 1000);
+  }
+
+  /**
+   * Start a scenario from the beginning, stopping any other one
+   */
+  play(id: string) {
+    const scenario = this.scenarios.get(id);
+    if (!scenario) {
+      throw new ScenarioError(`Unknown scenario "${id}"`);
+    }
+
+    this.clearTimer();
+    this.active = scenario;
+    this.status = 'playing';
+    this.rewind();
+    this.timer = setInterval(() => this.advance(), TICK_MS);
+    this.notify();
+    this.advance();
+  }
+
+  /**
+   * Stop the running scenario and clear everything it placed in the scene
+   */
+  stop() {
+    if (!this.active) return;
+    this.clearTimer();
+    this.active = null;
+    this.status = 'idle';
+    this.clearScene();
+    this.notify();
+  }
+
+  /**
+   * Scripted actors where they are right now
+   */
+  getActors(): ScenarioActor[] {
+    this.advance();
+    const time = this.getTime();
+
+    return Array.from(this.actors.values()).map(actor => {
+      const { since, ...props } = actor;
+      const elapsed = time - since;
+      return {
+        ...props,
+        distance: Math.max(MIN_ACTOR_DISTANCE, actor.distance - actor.closingSpeed * elapsed),
+        lateral: actor.lateral + actor.lateralSpeed * elapsed
+      };
+    });
+  }
+
+  /**
+   * Scripted lane position, or null when the scenario leaves lanes to the lane detector
+   */
+  getLane(): ScenarioLane | null {
+    this.advance();
+    if (!this.lane) return null;
+
+    return {
+      offset: this.laneOffsetAt(this.getTime()),
+      curveRadius: this.lane.curveRadius,
+      curveDirection: this.lane.curveDirection
+    };
+  }
+
+  /**
+   * Scripted ego speed in km/h, or null when no scenario is playing
+   */
+  getSpeed(): number | null {
+    this.advance();
+    return this.isPlaying() ? this.speed : null;
+  }
+
+  /**
+   * Scripted points of interest, the most recently announced first
+   */
+  getPois(): PoiHit[] {
+    this.advance();
+    const time = this.getTime();
+
+    return this.pois
+      .filter(poi => poi.until > time)
+      .reverse()
+      .map(({ event }) => ({
+        type: event.poiType,
+        name: event.name,
+        distance: event.distance,
+        direction: event.direction,
+        confidence: 1
+      }));
+  }
+
+  /**
+   * Subscribe to playback changes, returns an unsubscribe function
+   */
+  subscribe(listener: PlaybackListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to scenario events as they fire, returns an unsubscribe function
+   */
+  onEvent(listener: ScenarioEventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fire the events that are due and handle the end of the timeline
+   */
+  private advance() {
+    if (!this.active || this.status !== 'playing') return;
+    const scenario = this.active;
+    const time = (SimulationService.now() - this.startedAt) / 1000;
+
+    while (this.nextEventIndex < scenario.events.length && scenario.events[this.nextEventIndex].at <= time) {
+      const event = scenario.events[this.nextEventIndex++];
+      this.apply(event);
+      this.eventListeners.forEach(listener => listener(event, scenario));
+    }
+
+    if (time < scenario.duration) return;
+
+    if (scenario.loop) {
+      // Keep the overshoot so looping doesn't drift
+      const overshoot = time - scenario.duration;
+      this.rewind();
+      this.startedAt -= overshoot * 1000;
+      this.notify();
+      return;
+    }
+
+    this.clearTimer();
+    this.status = 'finished';
+    this.clearScene();
+    this.notify();
+  }
+
+  /**
+   * Update the scene for an event
+   */
+  private apply(event: ScenarioEvent) {
+    switch (event.type) {
+      case 'spawn':
+        this.actors.set(event.actor, {
+          id: event.actor,
+          class: event.class,
+          distance: event.distance,
+          lateral: event.lateral ?? 0,
+          closingSpeed: event.closingSpeed ?? 0,
+          lateralSpeed: event.lateralSpeed ?? 0,
+          confidence: event.confidence ?? 0.9,
+          emergency: event.emergency ?? false,
+          lightState: event.lightState,
+          signClass: event.signClass,
+          since: event.at
+        });
+        break;
+      case 'update': {
+        const actor = this.actors.get(event.actor);
+        if (!actor) break;
+        // Carry on from where the actor is now, then apply the changes
+        const elapsed = event.at - actor.since;
+        const { type: _type, at: _at, actor: _id, ...changes } = event;
+        this.actors.set(event.actor, {
+          ...actor,
+          distance: Math.max(MIN_ACTOR_DISTANCE, actor.distance - actor.closingSpeed * elapsed),
+          lateral: actor.lateral + actor.lateralSpeed * elapsed,
+          ...changes,
+          since: event.at
+        });
+        break;
+      }
+      case 'remove':
+        this.actors.delete(event.actor);
+        break;
+      case 'lane':
+        this.lane = this.laneAfter(event);
+        break;
+      case 'speed':
+        this.speed = event.speed;
+        break;
+      case 'poi':
+        this.pois.push({ event, until: event.duration !== undefined ? event.at + event.duration : Infinity });
+        break;
+      default:
+        // Instructions, weather and emergencies are for the drive, which listens to events itself
+        break;
+    }
+  }
+
+  private laneAfter(event: LaneEvent): LaneState {
+    const rampTime = event.rampTime ?? 0;
+    const curveRadius = event.curveRadius ?? null;
+    return {
+      from: this.laneOffsetAt(event.at),
+      to: event.offset,
+      rampStart: event.at,
+      rampEnd: event.at + rampTime,
+      curveRadius,
+      curveDirection: curveRadius === null ? 'Straight' : event.curveDirection || 'Right'
+    };
+  }
+
+  private laneOffsetAt(time: number) {
+    const lane = this.lane;
+    if (!lane) return 0;
+    if (time >= lane.rampEnd) return lane.to;
+    if (time <= lane.rampStart) return lane.from;
+    return lane.from + (lane.to - lane.from) * (time - lane.rampStart) / (lane.rampEnd - lane.rampStart);
+  }
+
+  /**
+   * Reset the scene to the start of the active scenario
+   */
+  private rewind() {
+    this.clearScene();
+    this.startedAt = SimulationService.now();
+    this.nextEventIndex = 0;
+    this.speed = this.active?.speed ?? 0;
+
+    // Scenarios that script the lane position start centered; others keep the lane detector
+    if (this.active?.events.some(event => event.type === 'lane')) {
+      this.lane = { from: 0, to: 0, rampStart: 0, rampEnd: 0, curveRadius: null, curveDirection: 'Straight' };
+    }
+  }
+
+  private clearScene() {
+    this.actors.clear();
+    this.lane = null;
+    this.pois = [];
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify() {
+    const playback = this.getPlayback();
+    this.listeners.forEach(listener => listener(playback));
+  }
+}
+
+export default new ScenarioService();
@@ -0,0 +1,234 @@
+/**
+ * Service owning the simulation clock and random numbers
+ * Every simulator draws from a named stream here instead of Math.random. In a seeded session the
+ * clock moves a fixed step per simulated frame, so detections, tracks and alerts depend on the
+ * frame count rather than on how fast frames are rendered or how busy the detector is
+ */
+
+const STORAGE_KEY = 'simulationSeed';
+const URL_PARAM = 'seed';
+
+// Seeded sessions start their clock here (midnight UTC, 1 January 2024)
+export const SIMULATION_EPOCH = Date.UTC(2024, 0, 1);
+
+// Simulated time between two simulated frames in a seeded session (10 frames per second)
+export const SIMULATION_STEP_MS = 100;
+
+export type SeedSource = 'url' | 'settings' | null;
+
+export interface SimulationSettings {
+  seed: number | null; // null when running unseeded on Math.random
+  source: SeedSource;
+}
+
+type SimulationListener = (settings: SimulationSettings) => void;
+
+/**
+ * Hash a string into a 32-bit integer (FNV-1a), to derive one stream seed per name
+ */
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Parse a seed typed by a user or found in the URL; any non-negative integer is accepted
+ */
+export const parseSeed = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const seed = Number(value.trim());
+  return Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff ? seed : null;
+};
+
+/**
+ * Independent random number stream (mulberry32 when seeded)
+ * Each simulator has its own stream, so how often one of them draws doesn't shift the others
+ */
+export class RandomStream {
+  readonly name: string;
+  private state: number | null;
+
+  constructor(name: string, seed: number | null) {
+    this.name = name;
+    this.state = null;
+    this.reseed(seed);
+  }
+
+  reseed(seed: number | null) {
+    this.state = seed === null ? null : (seed ^ hashString(this.name)) >>> 0;
+  }
+
+  /**
+   * Uniform number in [0, 1)
+   */
+  next(): number {
+    if (this.state === null) return Math.random();
+
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform number in [min, max)
+   */
+  range(min: number, max: number) {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number) {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number) {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+class SimulationService {
+  private settings: SimulationSettings;
+  private streams: Map<string, RandomStream>;
+  private step: number;
+  private lastStepAt: number | null; // wall clock (performance.now) of the latest step
+  private listeners: Set<SimulationListener>;
+
+  constructor() {
+    this.settings = this.loadSettings();
+    this.streams = new Map();
+    this.step = 0;
+    this.lastStepAt = null;
+    this.listeners = new Set();
+  }
+
+  /**
+   * A seed in the URL (?seed=1234) wins over the one saved in settings
+   */
+  private loadSettings(): SimulationSettings {
+    // The detection worker bundles the simulator too, but has no URL or storage to read
+    if (typeof window === 'undefined') return { seed: null, source: null };
+
+    try {
+      const fromUrl = parseSeed(new URLSearchParams(window.location.search).get(URL_PARAM));
+      if (fromUrl !== null) {
+        return { seed: fromUrl, source: 'url' };
+      }
+
+      const stored = parseSeed(localStorage.getItem(STORAGE_KEY));
+      if (stored !== null) {
+        return { seed: stored, source: 'settings' };
+      }
+    } catch (err) {
+      console.error("Error reading simulation seed:", err);
+    }
+    return { seed: null, source: null };
+  }
+
+  getSettings(): SimulationSettings {
+    return this.settings;
+  }
+
+  /**
+   * Get the random stream for a simulator, e.g. stream('detector')
+   */
+  stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(name, this.settings.seed);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  isSeeded() {
+    return this.settings.seed !== null;
+  }
+
+  /**
+   * Simulation time in milliseconds since the epoch
+   * Seeded sessions count whole steps from SIMULATION_EPOCH, unseeded ones use the wall clock
+   */
+  now(): number {
+    if (this.settings.seed === null) return Date.now();
+    return SIMULATION_EPOCH + this.step * SIMULATION_STEP_MS;
+  }
+
+  /**
+   * Whether enough wall-clock time has passed for the next simulated frame
+   * Seeded sessions simulate at most one frame per step however fast the video renders; when frames
+   * come slower, simulated time falls behind the wall clock instead of skipping steps
+   */
+  isStepDue(): boolean {
+    if (this.settings.seed === null || this.lastStepAt === null) return true;
+    return performance.now() - this.lastStepAt >= SIMULATION_STEP_MS;
+  }
+
+  /**
+   * Start the next simulated frame: move the clock one step on and return the new time
+   */
+  advance(): number {
+    if (this.settings.seed !== null) {
+      this.step++;
+      this.lastStepAt = performance.now();
+    }
+    return this.now();
+  }
+
+  /**
+   * Set (or clear with null) the seed saved in settings and restart every stream and the clock
+   */
+  setSeed(seed: number | null) {
+    try {
+      if (seed === null) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, String(seed));
+      }
+    } catch (err) {
+      console.error("Error saving simulation seed:", err);
+    }
+
+    this.settings = { seed, source: seed === null ? null : 'settings' };
+    this.restart();
+  }
+
+  /**
+   * Rewind every stream and the clock to the start of the seeded session
+   */
+  restart() {
+    this.streams.forEach(stream => stream.reseed(this.settings.seed));
+    this.step = 0;
+    this.lastStepAt = null;
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+
+  /**
+   * Subscribe to seed changes, returns an unsubscribe function
+   */
+  subscribe(listener: SimulationListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export default new SimulationService();
@@ -1,18 +1,51 @@
+import { CollisionWarningLevel } from '@/types/navigation';
+import type { TrafficLightEventType } from './detection/TrafficLightClassifier';
+import LanguageService from './LanguageService';
+import EarconService from './EarconService';
+import AlertVerbosityService from './AlertVerbosityService';
+import { EarconKind } from './audio/earcons';
+import { severityForPriority } from './alerts/alertRules';
+import { SpeechBackend } from './speech/SpeechBackend';
+import SpeechRegistry from './speech/SpeechRegistry';
+import RecordingSpeechBackend from './speech/RecordingSpeechBackend';
+
+export interface SpeakOptions {
+  cooldown?: number; // in ms, overriding the one set for the alert type; used as given, without the profile's scaling
+  earcon?: EarconKind; // tone pattern, by default the one of the alert type
+  pan?: number; // side of the hazard from -1 (left) to 1 (right), for the earcon
+}
+
+interface QueuedAlert {
+  message: string;
+  alertType: string;
+  priority: number;
+}
+
+// Earcons of alert types that don't name their own
+const ALERT_TYPE_EARCONS: Record<string, EarconKind> = {
+  emergency: 'brake',
+  collision: 'collision',
+  traffic_light: 'light'
+};
+
 
 /**
  * Service for handling voice alerts for detected objects and lane departures
+ * Depending on severity an alert is spoken, played as an earcon, or both
+ * The verbosity profile and quiet mode decide which severities get through, and stretch the cooldowns
+ * Speech goes through a SpeechBackend, so alerts can be recorded silently in tests and headless runs
  */
-class VoiceAlertService {
-  private speechSynthesis: SpeechSynthesis;
+export class VoiceAlertService {
+  private speech: SpeechBackend;
   private alertCooldowns: Map<string, number>;
   private lastAlertTime: Map<string, number>;
   private isSpeaking: boolean;
-  private alertQueue: string[];
+  private alertQueue: QueuedAlert[];
   private alertVolume: number;
   private emergencyMode: boolean;
 
-  constructor() {
-    this.speechSynthesis = window.speechSynthesis;
+  constructor(speech: SpeechBackend) {
+    this.speech = speech;
     this.alertCooldowns = new Map();
     this.lastAlertTime = new Map();
     this.isSpeaking = false;
@@ -21,13 +54,19 @@ class VoiceAlertService {
     this.emergencyMode = false;
 
     // Set default cooldown times (in ms) for different alert types
-    this.alertCooldowns.set('pedestrian', 10000);
-    this.alertCooldowns.set('vehicle', 8000);
-    this.alertCooldowns.set('lane_departure', 5000);
-    this.alertCooldowns.set('traffic_sign', 6000);
     this.alertCooldowns.set('general', 3000);
-    this.alertCooldowns.set('poi', 12000);
     this.alertCooldowns.set('emergency', 5000);
+    this.alertCooldowns.set('collision', 4000);
+    this.alertCooldowns.set('traffic_light', 4000);
+  }
+
+  /**
+   * Switch speech output; the utterance being spoken on the old backend is stopped
+   */
+  setSpeechBackend(speech: SpeechBackend) {
+    if (speech === this.speech) return;
+    this.speech.cancel();
+    this.speech = speech;
   }
 
   /**
@@ -45,13 +84,15 @@ class VoiceAlertService {
   setEmergencyMode(isEmergency: boolean) {
     if (isEmergency && !this.emergencyMode) {
       // Entering emergency mode - announce it
-      this.alertCritical("Emergency mode activated. Recording collision risk.");
+      this.alertCritical(LanguageService.translate('emergency.recording'));
       
       // Dispatch event for UI components to respond
-      const emergencyEvent = new CustomEvent('emergency-detected', {
-        detail: { time: new Date() }
-      });
-      window.dispatchEvent(emergencyEvent);
+      if (typeof window !== 'undefined') {
+        const emergencyEvent = new CustomEvent('emergency-detected', {
+          detail: { time: new Date() }
+        });
+        window.dispatchEvent(emergencyEvent);
+      }
     }
     
     this.emergencyMode = isEmergency;
@@ -62,10 +103,16 @@ class VoiceAlertService {
    * @param message The message to speak
    * @param alertType The type of alert for cooldown purposes
    * @param priority Priority level (higher number = higher priority)
+   * @param options Cooldown override, and the earcon and its stereo position
    */
-  speak(message: string, alertType: string = 'general', priority: number = 1): void {
+  speak(message: string, alertType: string = 'general', priority: number = 1, options: SpeakOptions = {}): void {
+    // Filter by the alert's own severity, before emergency mode raises it
+    if (!AlertVerbosityService.allows(severityForPriority(priority))) {
+      return;
+    }
+    
     const now = Date.now();
-    const cooldown = this.alertCooldowns.get(alertType) || 3000;
+    const cooldown = options.cooldown ?? AlertVerbosityService.scaleCooldown(this.alertCooldowns.get(alertType) ?? 3000);
     const lastTime = this.lastAlertTime.get(alertType) || 0;
     
     // Check if we're still in cooldown period
@@ -78,6 +125,17 @@ class VoiceAlertService {
       priority = 3;
     }
     
+    // Earcons play at once rather than waiting their turn in the speech queue
+    const channel = EarconService.getChannel(severityForPriority(priority));
+    if (channel !== 'speech') {
+      const earcon = options.earcon ?? ALERT_TYPE_EARCONS[alertType] ?? 'general';
+      EarconService.play(earcon, priority, options.pan ?? 0, this.alertVolume);
+    }
+    if (channel === 'earcon' && !AlertVerbosityService.getProfile().speakAll) {
+      this.lastAlertTime.set(alertType, now);
+      return;
+    }
+    
     // Add to queue with priority
     this.queueAlert(message, alertType, priority);
     
@@ -91,17 +149,10 @@ class VoiceAlertService {
    * Add an alert to the queue with priority
    */
   private queueAlert(message: string, alertType: string, priority: number): void {
-    // Format with metadata for sorting later
-    const alertItem = `${priority}|${alertType}|${message}`;
-    
-    this.alertQueue.push(alertItem);
+    this.alertQueue.push({ message, alertType, priority });
     
     // Sort queue by priority (higher first)
-    this.alertQueue.sort((a, b) => {
-      const priorityA = parseInt(a.split('|')[0], 10);
-      const priorityB = parseInt(b.split('|')[0], 10);
-      return priorityB - priorityA;
-    });
+    this.alertQueue.sort((a, b) => b.priority - a.priority);
   }
 
   /**
@@ -115,108 +166,50 @@ class VoiceAlertService {
     
     this.isSpeaking = true;
     
-    // Get next alert and parse its parts
-    const alertItem = this.alertQueue.shift() as string;
-    const parts = alertItem.split('|');
-    const alertType = parts[1];
-    const message = parts[2];
+    // Get next alert
+    const { message, alertType } = this.alertQueue.shift();
     
     // Update last alert time for this type
     this.lastAlertTime.set(alertType, Date.now());
     
-    // Create and configure speech utterance
-    const utterance = new SpeechSynthesisUtterance(message);
-    utterance.volume = this.alertVolume;
-    
-    // Adjust rate based on alert type and emergency mode
-    if (this.emergencyMode || alertType === 'emergency') {
-      utterance.rate = 1.2; // Faster for emergency
-    } else {
-      utterance.rate = 1.1; // Slightly faster than normal for urgency
-    }
-    
-    // Set voice based on alert type
-    const voices = this.speechSynthesis.getVoices();
-    if (voices.length > 0) {
-      // Try to find a clear, authoritative voice
-      const preferredVoice = voices.find(voice => 
-        voice.name.includes('Google') || 
-        voice.name.includes('English') || 
-        voice.name.includes('US')
-      );
-      if (preferredVoice) {
-        utterance.voice = preferredVoice;
-      }
-    }
-    
-    // When done speaking, process the next alert
-    utterance.onend = () => {
-      this.processNextAlert();
-    };
-    
-    // Speak the alert
-    this.speechSynthesis.speak(utterance);
-  }
-
-  /**
-   * Alert for pedestrian detection
-   */
-  alertPedestrian(count: number = 1): void {
-    const message = count > 1 
-      ? `Caution. ${count} pedestrians detected ahead` 
-      : "Caution. Pedestrian detected ahead";
-    this.speak(message, 'pedestrian', 3);
-  }
-
-  /**
-   * Alert for lane departure
-   */
-  alertLaneDeparture(direction: string): void {
-    const message = `Lane departure ${direction}`;
-    this.speak(message, 'lane_departure', 2);
-  }
-
-  /**
-   * Alert for traffic sign detection
-   */
-  alertTrafficSign(signType: string): void {
-    this.speak(`${signType} ahead`, 'traffic_sign', 2);
+    // Speak in the voice language; faster for emergencies, and slightly faster than normal otherwise for urgency
+    this.speech.speak({
+      text: message,
+      locale: LanguageService.getLocale(),
+      voiceName: LanguageService.getState().voiceName,
+      rate: this.emergencyMode || alertType === 'emergency' ? 1.2 : 1.1,
+      volume: this.alertVolume
+    })
+      .catch(err => console.error("Error speaking alert:", err))
+      // When done speaking, process the next alert
+      .then(() => this.processNextAlert());
   }
 
   /**
-   * Alert for vehicle detection that might be a risk
+   * Alert for a forward collision warning level
    */
-  alertVehicle(vehicleType: string, distance: number, count: number = 1): void {
-    if (distance < 15) {
-      // Vehicle very close - emergency!
-      this.setEmergencyMode(true);
-      this.speak(`Warning! ${vehicleType} too close!`, 'emergency', 5);
-    } else if (distance < 30) {
-      // Vehicle close - alert
-      this.speak(`${vehicleType} close behind`, 'vehicle', 3);
-    } else if (count > 2) {
-      this.speak(`Multiple ${vehicleType}s ahead`, 'vehicle', 1);
+  alertForwardCollision(level: CollisionWarningLevel, vehicleType: string): void {
+    const type = LanguageService.term('object', vehicleType);
+    if (level === 'brake') {
+      this.speak(LanguageService.translate('collision.brake', { type }), 'emergency', 5);
+    } else if (level === 'warning') {
+      this.speak(LanguageService.translate('collision.warning', { type }), 'collision', 4);
+    } else if (level === 'advisory') {
+      this.speak(LanguageService.translate('collision.advisory'), 'collision', 2);
     }
   }
   
   /**
-   * Alert for point of interest detection
+   * Alert for a traffic light state event
    */
-  alertPOI(poiType: string, distance: number, direction: string): void {
-    let messagePrefix = "";
-    
-    if (poiType.toLowerCase() === "hospital") {
-      messagePrefix = "Hospital";
-    } else if (poiType.toLowerCase() === "gas" || poiType.toLowerCase() === "gas station") {
-      messagePrefix = "Gas station";
-    } else {
-      messagePrefix = poiType;
+  alertTrafficLight(event: TrafficLightEventType): void {
+    if (event === 'red_ahead_at_speed') {
+      this.speak(LanguageService.translate('light.redAhead'), 'traffic_light', 4);
+    } else if (event === 'turned_green') {
+      this.speak(LanguageService.translate('light.turnedGreen'), 'traffic_light', 2);
     }
-    
-    const distanceKm = (distance / 1000).toFixed(1);
-    this.speak(`${messagePrefix} ${distanceKm} kilometers ${direction}`, 'poi', 1);
   }
-
+  
   /**
    * General alert for any critical situation
    */
@@ -225,4 +218,10 @@ class VoiceAlertService {
   }
 }
 
-export default new VoiceAlertService();
+const voiceAlerts = new VoiceAlertService(SpeechRegistry.getActive() ?? new RecordingSpeechBackend());
+SpeechRegistry.subscribe(() => {
+  const speech = SpeechRegistry.getActive();
+  if (speech) voiceAlerts.setSpeechBackend(speech);
+});
+
+export default voiceAlerts;
@@ -0,0 +1,268 @@
+// Alert policy evaluation
+// Turns a frame result into candidates per trigger, matches them against the rules in order,
+// and keeps the cooldown and suppression state between frames
+import { AlertFieldValue, AlertRule, AlertTrigger } from '@/types/alerts';
+import { LaneEstimate, PoiHit, RoiPolygon } from '@/types/detection';
+import { VoiceLanguage } from '@/types/i18n';
+import { TrackedObject } from '../detection/ObjectTracker';
+import { zoneOf } from '../detection/roiMasks';
+import { getSignClass } from '../detection/signTaxonomy';
+import {
+  formatDistance,
+  formatMessage,
+  formatNumber,
+  interpolate,
+  translateSign,
+  translateTerm
+} from '../i18n/messages';
+import { EarconKind } from '../audio/earcons';
+import { matchesConditions, SEVERITY_PRIORITY } from './alertRules';
+
+export interface AlertContext {
+  objects: TrackedObject[];
+  lanes: LaneEstimate;
+  pois: PoiHit[];
+  frameWidth: number;
+  frameHeight: number;
+  polygons: RoiPolygon[]; // ROI masks, for the zone fields
+  language: VoiceLanguage; // messages and the names filled into them are spoken in this language
+}
+
+export interface AlertDecision {
+  rule: AlertRule;
+  message: string;
+  priority: number;
+  earcon: EarconKind;
+  pan: number; // side of the announced subject, -1 (left) to 1 (right)
+}
+
+interface AlertCandidate {
+  key: string; // identifies the subject for suppression
+  distance: number | null; // the nearest matching candidate is the one announced
+  earcon: EarconKind;
+  pan: number;
+  fields: Record<string, AlertFieldValue | null>; // language-independent, so conditions hold in every language
+  variables: Record<string, string | number>;
+}
+
+// Pan of a left/right/ahead direction
+const directionPan = (direction: string) => {
+  const normalized = direction.toLowerCase();
+  return normalized === 'left' ? -1 : normalized === 'right' ? 1 : 0;
+};
+
+/**
+ * Earcon of an object: vulnerable road users, lights and signs each have their own
+ */
+const objectEarcon = (obj: TrackedObject): EarconKind => {
+  const type = obj.type.toLowerCase();
+  if (type === 'person' || type === 'pedestrian' || type === 'bicycle') return 'pedestrian';
+  if (type === 'traffic light') return 'light';
+  if (obj.signClass) return 'sign';
+  return 'vehicle';
+};
+
+/**
+ * Name a traffic light by its state, or a sign by what it says; null for other objects
+ */
+const objectLabel = (obj: TrackedObject, language: VoiceLanguage) => {
+  if (obj.type.toLowerCase() === 'traffic light') {
+    return obj.lightState && obj.lightState !== 'unknown'
+      ? translateTerm(language, 'light', obj.lightState)
+      : translateTerm(language, 'object', obj.type);
+  }
+  const sign = getSignClass(obj.signClass);
+  return sign ? translateSign(language, sign) : null;
+};
+
+const objectCandidates = (context: AlertContext): AlertCandidate[] => {
+  const { objects, frameWidth, frameHeight, polygons, language } = context;
+  const hasCorridor = polygons.some(polygon => polygon.kind === 'corridor');
+
+  return objects.map(obj => {
+    const zone = zoneOf(obj.boundingBox, frameWidth, frameHeight, polygons);
+    const side = obj.boundingBox.x + obj.boundingBox.width / 2 < frameWidth / 2 ? 'left' : 'right';
+    const label = objectLabel(obj, 'en');
+    return {
+      key: `track-${obj.trackId}`,
+      distance: obj.distance > 0 ? obj.distance : null,
+      earcon: objectEarcon(obj),
+      pan: Math.max(-1, Math.min(1, ((obj.boundingBox.x + obj.boundingBox.width / 2) / frameWidth) * 2 - 1)),
+      fields: {
+        type: obj.type.toLowerCase(),
+        distance: obj.distance,
+        confidence: obj.confidence,
+        zone: zone ?? 'none',
+        inCorridor: !hasCorridor || zone === 'corridor',
+        side,
+        risk: obj.risk?.score ?? null,
+        riskLevel: obj.risk?.level ?? null,
+        lane: obj.risk?.lane ?? null,
+        label,
+        lightState: obj.lightState ?? null,
+        emergency: obj.emergency,
+        confirmed: obj.confirmed
+      },
+      variables: {
+        type: translateTerm(language, 'object', obj.type),
+        types: translateTerm(language, 'object', obj.type, 2),
+        distance: Math.round(obj.distance),
+        side: translateTerm(language, 'side', side),
+        label: objectLabel(obj, language) ?? translateTerm(language, 'object', obj.type),
+        risk: Math.round((obj.risk?.score ?? 0) * 100)
+      }
+    };
+  });
+};
+
+const laneCandidates = ({ lanes, language }: AlertContext): AlertCandidate[] => [{
+  key: `lane-${lanes.direction}`,
+  distance: null,
+  earcon: 'lane',
+  pan: directionPan(lanes.direction),
+  fields: {
+    offset: Math.abs(lanes.offset),
+    direction: lanes.direction,
+    confidence: lanes.confidence
+  },
+  variables: {
+    direction: translateTerm(language, 'laneDirection', lanes.direction),
+    offset: Math.round(Math.abs(lanes.offset))
+  }
+}];
+
+const poiCandidates = ({ pois, language }: AlertContext): AlertCandidate[] =>
+  pois.map(poi => ({
+    key: `poi-${poi.type}-${poi.name}`,
+    distance: poi.distance,
+    earcon: 'poi',
+    pan: directionPan(poi.direction),
+    fields: {
+      type: poi.type.toLowerCase(),
+      name: poi.name,
+      distance: poi.distance,
+      direction: poi.direction
+    },
+    variables: {
+      label: translateTerm(language, 'poi', poi.type),
+      name: poi.name,
+      type: poi.type,
+      distance: Math.round(poi.distance),
+      distanceKm: formatNumber(language, poi.distance / 1000, 1),
+      distanceText: formatDistance(language, poi.distance),
+      direction: translateTerm(language, 'poiDirection', poi.direction)
+    }
+  }));
+
+const CANDIDATES: Record<AlertTrigger, (context: AlertContext) => AlertCandidate[]> = {
+  object: objectCandidates,
+  lane: laneCandidates,
+  poi: poiCandidates
+};
+
+class AlertPolicyEngine {
+  private lastFired: Map<string, number>; // by rule id
+  private announced: Map<string, number>; // last time each announced subject matched, by rule id and subject key
+
+  constructor() {
+    this.lastFired = new Map();
+    this.announced = new Map();
+  }
+
+  /**
+   * Evaluate the rules in order against a frame and return the alert to speak, if any
+   * Every rule's suppression state is refreshed, even when an earlier rule fires
+   */
+  evaluate(rules: AlertRule[], context: AlertContext, now: number): AlertDecision | null {
+    const candidatesByTrigger = new Map<AlertTrigger, AlertCandidate[]>();
+    const candidatesFor = (trigger: AlertTrigger) => {
+      if (!candidatesByTrigger.has(trigger)) {
+        candidatesByTrigger.set(trigger, CANDIDATES[trigger](context));
+      }
+      return candidatesByTrigger.get(trigger);
+    };
+
+    const enabled = rules.filter(rule => rule.enabled);
+    const matches = enabled.map(rule => {
+      const matching = candidatesFor(rule.trigger).filter(candidate => matchesConditions(rule.conditions, candidate.fields));
+      this.refreshAnnounced(rule, matching, now);
+      return matching;
+    });
+
+    for (let i = 0; i < enabled.length; i++) {
+      const rule = enabled[i];
+      const matching = matches[i];
+      if (now - (this.lastFired.get(rule.id) ?? -Infinity) < rule.cooldownMs) continue;
+      if (matching.length < rule.minCount) continue;
+
+      const fresh = rule.suppression.mode === 'subject'
+        ? matching.filter(candidate => !this.announced.has(this.announcedKey(rule, candidate)))
+        : matching;
+      if (fresh.length === 0) continue;
+
+      // The nearest new candidate is the one named in the message
+      const subject = fresh.reduce((nearest, candidate) =>
+        candidate.distance !== null && (nearest.distance === null || candidate.distance < nearest.distance) ? candidate : nearest
+      );
+
+      if (rule.suppression.mode === 'subject') {
+        fresh.forEach(candidate => this.announced.set(this.announcedKey(rule, candidate), now));
+      }
+      this.lastFired.set(rule.id, now);
+
+      const variables = { ...subject.variables, count: matching.length };
+      const template = matching.length > 1 && rule.messagePlural ? rule.messagePlural : rule.message;
+      return {
+        rule,
+        message: rule.messageKey
+          ? formatMessage(context.language, rule.messageKey, variables)
+          : interpolate(template, variables),
+        priority: SEVERITY_PRIORITY[rule.severity],
+        earcon: subject.earcon,
+        pan: subject.pan
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Forget cooldowns and announced subjects, for all rules or only those of one trigger
+   */
+  reset(rules?: AlertRule[]) {
+    if (!rules) {
+      this.lastFired.clear();
+      this.announced.clear();
+      return;
+    }
+    rules.forEach(rule => {
+      this.lastFired.delete(rule.id);
+      this.announced.forEach((_, key) => {
+        if (key.startsWith(`${rule.id}|`)) this.announced.delete(key);
+      });
+    });
+  }
+
+  private announcedKey(rule: AlertRule, candidate: AlertCandidate) {
+    return `${rule.id}|${candidate.key}`;
+  }
+
+  /**
+   * Keep announced subjects that still match, and forget those that stopped matching long enough ago
+   */
+  private refreshAnnounced(rule: AlertRule, matching: AlertCandidate[], now: number) {
+    if (rule.suppression.mode !== 'subject') return;
+
+    matching.forEach(candidate => {
+      const key = this.announcedKey(rule, candidate);
+      if (this.announced.has(key)) this.announced.set(key, now);
+    });
+    this.announced.forEach((lastMatched, key) => {
+      if (key.startsWith(`${rule.id}|`) && now - lastMatched > rule.suppression.forgetAfterMs) {
+        this.announced.delete(key);
+      }
+    });
+  }
+}
+
+export default AlertPolicyEngine;
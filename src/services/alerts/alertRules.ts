@@ -0,0 +1,306 @@
+// Alert rule vocabulary, the built-in policy, and validation of imported policies
+import { z } from 'zod';
+import {
+  AlertCondition,
+  AlertFieldValue,
+  AlertOperator,
+  AlertPolicy,
+  AlertRule,
+  AlertSeverity,
+  AlertTrigger
+} from '@/types/alerts';
+import { isMessageKey } from '../i18n/messages';
+import { parseWith } from '../detection/frameResultSchema';
+
+export const ALERT_POLICY_VERSION = 1;
+
+export type AlertFieldKind = 'number' | 'string' | 'boolean';
+
+export interface AlertFieldInfo {
+  name: string;
+  kind: AlertFieldKind;
+  description: string;
+}
+
+// Fields a condition can test, per trigger
+export const ALERT_FIELDS: Record<AlertTrigger, AlertFieldInfo[]> = {
+  object: [
+    { name: 'type', kind: 'string', description: 'detector class in lowercase, e.g. car, person' },
+    { name: 'distance', kind: 'number', description: 'meters, 0 when unknown' },
+    { name: 'confidence', kind: 'number', description: '0 to 1' },
+    { name: 'zone', kind: 'string', description: 'ROI zone under the object: corridor, side or none' },
+    { name: 'inCorridor', kind: 'boolean', description: 'in the driving corridor, or anywhere when none is drawn' },
+    { name: 'side', kind: 'string', description: 'left or right half of the frame' },
+    { name: 'risk', kind: 'number', description: 'risk score, 0 to 1' },
+    { name: 'riskLevel', kind: 'string', description: 'high, medium or low' },
+    { name: 'lane', kind: 'string', description: 'ego, adjacent, outside or unknown' },
+    { name: 'label', kind: 'string', description: 'what a read sign says, or the light state' },
+    { name: 'lightState', kind: 'string', description: 'red, amber, green or unknown' },
+    { name: 'emergency', kind: 'boolean', description: 'emergency vehicle' },
+    { name: 'confirmed', kind: 'boolean', description: 'track seen often enough to trust' }
+  ],
+  lane: [
+    { name: 'offset', kind: 'number', description: 'distance from lane center to either side, percent of lane width' },
+    { name: 'direction', kind: 'string', description: 'Left, Center, Right or Unknown' },
+    { name: 'confidence', kind: 'number', description: '0 to 1' }
+  ],
+  poi: [
+    { name: 'type', kind: 'string', description: 'e.g. hospital, gas' },
+    { name: 'name', kind: 'string', description: 'name of the place' },
+    { name: 'distance', kind: 'number', description: 'meters' },
+    { name: 'direction', kind: 'string', description: 'ahead, left or right' }
+  ]
+};
+
+// Placeholders a message template can use, per trigger; {count} is always available
+// Names and directions are filled in the voice language, and {types} is the plural of {type}
+export const ALERT_TEMPLATE_VARIABLES: Record<AlertTrigger, string[]> = {
+  object: ['type', 'types', 'count', 'distance', 'side', 'label', 'risk'],
+  lane: ['direction', 'offset'],
+  poi: ['label', 'name', 'type', 'count', 'distance', 'distanceKm', 'distanceText', 'direction']
+};
+
+export const ALERT_OPERATORS: Record<AlertFieldKind, AlertOperator[]> = {
+  number: ['lt', 'lte', 'gt', 'gte', 'eq', 'neq', 'exists'],
+  string: ['eq', 'neq', 'in', 'exists'],
+  boolean: ['eq', 'neq']
+};
+
+// Speech queue priority of each severity
+export const SEVERITY_PRIORITY: Record<AlertSeverity, number> = {
+  info: 1,
+  advisory: 2,
+  warning: 3,
+  critical: 4
+};
+
+/**
+ * Severity of a speech queue priority; priorities above critical's (such as brake warnings) count as critical
+ */
+export const severityForPriority = (priority: number): AlertSeverity =>
+  priority >= SEVERITY_PRIORITY.critical ? 'critical'
+    : priority >= SEVERITY_PRIORITY.warning ? 'warning'
+    : priority >= SEVERITY_PRIORITY.advisory ? 'advisory'
+    : 'info';
+
+const VEHICLES = ['car', 'truck', 'bus'];
+
+// The policy the app ships with; it reproduces the original fixed alert order and cooldowns,
+// and speaks catalog messages so it follows the voice language
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'pedestrian',
+    name: 'Pedestrian ahead',
+    enabled: true,
+    trigger: 'object',
+    conditions: [
+      { field: 'type', op: 'in', value: ['person', 'pedestrian'] },
+      { field: 'inCorridor', op: 'eq', value: true }
+    ],
+    minCount: 1,
+    severity: 'warning',
+    cooldownMs: 10000,
+    suppression: { mode: 'subject', forgetAfterMs: 10000 },
+    message: 'Caution. Pedestrian detected ahead',
+    messagePlural: 'Caution. {count} pedestrians detected ahead',
+    messageKey: 'alert.pedestrian'
+  },
+  {
+    id: 'lane-departure',
+    name: 'Lane departure',
+    enabled: true,
+    trigger: 'lane',
+    conditions: [
+      { field: 'offset', op: 'gt', value: 20 },
+      { field: 'direction', op: 'in', value: ['Left', 'Right'] }
+    ],
+    minCount: 1,
+    severity: 'advisory',
+    cooldownMs: 5000,
+    suppression: { mode: 'subject', forgetAfterMs: 0 },
+    message: 'Lane departure {direction}',
+    messageKey: 'alert.laneDeparture'
+  },
+  {
+    id: 'side-vehicle',
+    name: 'Vehicle alongside',
+    enabled: true,
+    trigger: 'object',
+    conditions: [
+      { field: 'type', op: 'in', value: VEHICLES },
+      { field: 'zone', op: 'eq', value: 'side' },
+      { field: 'distance', op: 'gt', value: 0 },
+      { field: 'distance', op: 'lt', value: 20 }
+    ],
+    minCount: 1,
+    severity: 'advisory',
+    cooldownMs: 8000,
+    suppression: { mode: 'subject', forgetAfterMs: 10000 },
+    message: '{type} on your {side}',
+    messageKey: 'alert.sideVehicle'
+  },
+  {
+    id: 'close-vehicle',
+    name: 'Close vehicle',
+    enabled: true,
+    trigger: 'object',
+    conditions: [
+      { field: 'type', op: 'in', value: VEHICLES },
+      { field: 'inCorridor', op: 'eq', value: true },
+      { field: 'distance', op: 'gt', value: 0 },
+      { field: 'distance', op: 'lt', value: 30 }
+    ],
+    minCount: 1,
+    severity: 'warning',
+    cooldownMs: 8000,
+    suppression: { mode: 'none', forgetAfterMs: 0 },
+    message: '{type} close behind',
+    messageKey: 'alert.closeVehicle'
+  },
+  {
+    id: 'traffic-ahead',
+    name: 'Traffic ahead',
+    enabled: true,
+    trigger: 'object',
+    conditions: [
+      { field: 'type', op: 'in', value: VEHICLES },
+      { field: 'inCorridor', op: 'eq', value: true }
+    ],
+    minCount: 3,
+    severity: 'info',
+    cooldownMs: 8000,
+    suppression: { mode: 'none', forgetAfterMs: 0 },
+    message: 'Multiple {types} ahead',
+    messageKey: 'alert.trafficAhead'
+  },
+  {
+    id: 'traffic-sign',
+    name: 'Traffic sign or light',
+    enabled: true,
+    trigger: 'object',
+    conditions: [
+      { field: 'label', op: 'exists' }
+    ],
+    minCount: 1,
+    severity: 'advisory',
+    cooldownMs: 6000,
+    suppression: { mode: 'subject', forgetAfterMs: 10000 },
+    message: '{label} ahead',
+    messageKey: 'alert.trafficSign'
+  },
+  {
+    id: 'poi',
+    name: 'Point of interest',
+    enabled: true,
+    trigger: 'poi',
+    conditions: [],
+    minCount: 1,
+    severity: 'info',
+    cooldownMs: 12000,
+    suppression: { mode: 'subject', forgetAfterMs: 60000 },
+    message: '{label} {distanceText} {direction}',
+    messageKey: 'alert.poi'
+  }
+];
+
+/**
+ * Test a candidate's fields against every condition of a rule
+ */
+export const matchesConditions = (conditions: AlertCondition[], fields: Record<string, AlertFieldValue | null>) =>
+  conditions.every(condition => {
+    const actual = fields[condition.field];
+    if (condition.op === 'exists') return actual !== null && actual !== undefined;
+    if (actual === null || actual === undefined) return false;
+
+    const expected = condition.value;
+    switch (condition.op) {
+      case 'eq': return actual === expected;
+      case 'neq': return actual !== expected;
+      case 'lt': return typeof expected === 'number' && (actual as number) < expected;
+      case 'lte': return typeof expected === 'number' && (actual as number) <= expected;
+      case 'gt': return typeof expected === 'number' && (actual as number) > expected;
+      case 'gte': return typeof expected === 'number' && (actual as number) >= expected;
+      case 'in': return Array.isArray(expected) && expected.includes(actual);
+      default: return false;
+    }
+  });
+
+const fieldValueSchema = z.union([z.string(), z.number().finite(), z.boolean()]);
+
+const conditionSchema = z.object({
+  field: z.string().min(1),
+  op: z.enum(['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'exists']),
+  value: z.union([fieldValueSchema, z.array(fieldValueSchema)]).optional()
+}).strict();
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  trigger: z.enum(['object', 'lane', 'poi']),
+  conditions: z.array(conditionSchema).default([]),
+  minCount: z.number().int().positive().default(1),
+  severity: z.enum(['info', 'advisory', 'warning', 'critical']),
+  cooldownMs: z.number().finite().nonnegative().default(5000),
+  suppression: z.object({
+    mode: z.enum(['none', 'subject']),
+    forgetAfterMs: z.number().finite().nonnegative().default(10000)
+  }).strict().default({ mode: 'none', forgetAfterMs: 0 }),
+  message: z.string().min(1),
+  messagePlural: z.string().min(1).optional(),
+  messageKey: z.string().optional()
+}).strict();
+
+const policySchema = z.object({
+  version: z.literal(ALERT_POLICY_VERSION),
+  rules: z.array(ruleSchema)
+}).strict();
+
+export class AlertPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertPolicyError';
+  }
+}
+
+/**
+ * Validate an alert policy
+ * Throws AlertPolicyError when the shape doesn't match, a rule id repeats, or a condition tests
+ * a field its trigger doesn't have
+ */
+export const parseAlertPolicy = (value: unknown): AlertPolicy => {
+  const policy = parseWith<AlertPolicy>(policySchema, value, issues => new AlertPolicyError(`Invalid alert policy: ${issues}`));
+
+  const ids = new Set<string>();
+  policy.rules.forEach(rule => {
+    if (ids.has(rule.id)) {
+      throw new AlertPolicyError(`Rule id "${rule.id}" is used more than once`);
+    }
+    ids.add(rule.id);
+
+    if (rule.messageKey !== undefined && !isMessageKey(rule.messageKey)) {
+      throw new AlertPolicyError(`Rule "${rule.id}" uses unknown message "${rule.messageKey}"`);
+    }
+
+    rule.conditions.forEach(condition => {
+      if (!ALERT_FIELDS[rule.trigger].some(field => field.name === condition.field)) {
+        throw new AlertPolicyError(`Rule "${rule.id}" tests unknown ${rule.trigger} field "${condition.field}"`);
+      }
+    });
+  });
+
+  return policy;
+};
+
+/**
+ * Parse the text of an exported policy file
+ */
+export const parseAlertPolicyText = (text: string, fileName = ''): AlertPolicy => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new AlertPolicyError(`Could not read ${fileName || 'alert policy'}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseAlertPolicy(value);
+};
@@ -0,0 +1,55 @@
+// Earcons: short tone patterns that announce an alert faster than speech
+// Each alert type has its own waveform and melody; urgency raises the pitch and repeats the
+// pattern more often and more quickly
+
+export type EarconKind = 'brake' | 'collision' | 'pedestrian' | 'vehicle' | 'lane' | 'sign' | 'light' | 'poi' | 'general';
+
+interface EarconPattern {
+  label: string;
+  wave: OscillatorType;
+  notes: number[]; // frequencies in Hz, played in order
+  noteLength: number; // seconds
+}
+
+export const EARCON_PATTERNS: Record<EarconKind, EarconPattern> = {
+  brake: { label: 'Brake', wave: 'square', notes: [1200, 1200], noteLength: 0.06 },
+  collision: { label: 'Collision', wave: 'square', notes: [880], noteLength: 0.09 },
+  pedestrian: { label: 'Pedestrian', wave: 'triangle', notes: [660, 880], noteLength: 0.08 },
+  vehicle: { label: 'Vehicle', wave: 'sawtooth', notes: [440, 440], noteLength: 0.07 },
+  lane: { label: 'Lane', wave: 'triangle', notes: [600, 450], noteLength: 0.08 },
+  sign: { label: 'Sign', wave: 'sine', notes: [700, 940], noteLength: 0.1 },
+  light: { label: 'Traffic light', wave: 'triangle', notes: [990, 740], noteLength: 0.1 },
+  poi: { label: 'Point of interest', wave: 'sine', notes: [523, 659, 784], noteLength: 0.1 },
+  general: { label: 'General', wave: 'sine', notes: [600], noteLength: 0.12 }
+};
+
+export interface EarconTone {
+  frequency: number;
+  wave: OscillatorType;
+  start: number; // seconds after the earcon starts
+  duration: number;
+}
+
+/**
+ * Tones of an earcon at an urgency from 1 (lowest) to 5 (brake)
+ * Each step up raises the pitch by a major second, and from urgency 3 on the pattern repeats
+ * once more per step with shorter pauses
+ */
+export const earconTones = (kind: EarconKind, urgency: number): EarconTone[] => {
+  const pattern = EARCON_PATTERNS[kind];
+  const level = Math.min(5, Math.max(1, Math.round(urgency)));
+  const pitch = Math.pow(2, (2 * (level - 1)) / 12);
+  const repeats = level <= 2 ? 1 : level - 1;
+  const pause = 0.3 - 0.05 * level;
+
+  const tones: EarconTone[] = [];
+  let start = 0;
+  for (let r = 0; r < repeats; r++) {
+    pattern.notes.forEach(note => {
+      tones.push({ frequency: note * pitch, wave: pattern.wave, start, duration: pattern.noteLength });
+      start += pattern.noteLength * 1.25;
+    });
+    start += pause;
+  }
+  return tones;
+};
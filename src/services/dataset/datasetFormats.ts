@@ -0,0 +1,137 @@
+// Dataset formats for exported detections
+// Writes COCO JSON and YOLO txt labels that the evaluation page reads back (see evaluation/annotations.ts)
+import { BoundingBox } from '@/types/detection';
+
+export type DatasetFormat = 'coco' | 'yolo';
+
+export interface CapturedObject {
+  className: string; // normalized, see normalizeClassName
+  confidence: number;
+  box: BoundingBox; // in frame pixels
+}
+
+// Detections for one processed frame of an uploaded video
+export interface CapturedFrame {
+  time: number; // video time in seconds
+  width: number;
+  height: number;
+  objects: CapturedObject[];
+  image: Blob | null; // JPEG of the frame inference ran on, for sampled frames
+}
+
+export interface DatasetExportOptions {
+  format: DatasetFormat;
+  minConfidence: number;
+  classes: string[]; // normalized class names to keep, in category order
+  includeImages: boolean; // only export frames with a sampled image, and add the images
+  fps: number; // frame rate to number frames at
+}
+
+// Frame as it is written to the dataset
+export interface DatasetFrame {
+  frame: number;
+  width: number;
+  height: number;
+  objects: CapturedObject[];
+  image: Blob | null;
+}
+
+// File in the exported archive; text is written as UTF-8
+export interface DatasetFile {
+  name: string;
+  data: Blob | string;
+}
+
+/**
+ * File name for a frame, e.g. "frame_000120.jpg"; the evaluation page reads the number back
+ */
+export const frameFileName = (frame: number, extension: string) => `frame_${String(frame).padStart(6, '0')}.${extension}`;
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Clip a box to the frame, or null if nothing of it is left
+ */
+const clipBox = (box: BoundingBox, width: number, height: number): BoundingBox | null => {
+  const left = Math.max(0, box.x);
+  const top = Math.max(0, box.y);
+  const right = Math.min(width, box.x + box.width);
+  const bottom = Math.min(height, box.y + box.height);
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Number captured frames and apply the confidence and class filters
+ * A frame captured more than once (the video looped or was seeked back) keeps its latest detections
+ */
+export const selectFrames = (captures: CapturedFrame[], options: DatasetExportOptions): DatasetFrame[] => {
+  const classes = new Set(options.classes);
+  const frames = new Map<number, DatasetFrame>();
+
+  captures.forEach(capture => {
+    const frame = Math.floor(capture.time * options.fps);
+    const objects = capture.objects
+      .filter(object => object.confidence >= options.minConfidence && classes.has(object.className))
+      .map(object => ({ ...object, box: clipBox(object.box, capture.width, capture.height) }))
+      .filter(object => object.box !== null);
+    const image = capture.image || frames.get(frame)?.image || null;
+    frames.set(frame, { frame, width: capture.width, height: capture.height, objects, image });
+  });
+
+  return Array.from(frames.values())
+    .filter(frame => !options.includeImages || frame.image !== null)
+    .sort((a, b) => a.frame - b.frame);
+};
+
+/**
+ * COCO JSON with one image per frame; images carry frame_index, annotations the detector's score
+ */
+export const buildCocoDataset = (frames: DatasetFrame[], classes: string[], videoName: string) => {
+  const categoryIds = new Map(classes.map((className, index) => [className, index + 1]));
+  let annotationId = 0;
+
+  return {
+    info: {
+      description: `Detections exported from ${videoName}`,
+      date_created: new Date().toISOString()
+    },
+    images: frames.map(frame => ({
+      id: frame.frame,
+      file_name: frameFileName(frame.frame, 'jpg'),
+      width: frame.width,
+      height: frame.height,
+      frame_index: frame.frame
+    })),
+    annotations: frames.flatMap(frame => frame.objects.map(object => ({
+      id: ++annotationId,
+      image_id: frame.frame,
+      category_id: categoryIds.get(object.className),
+      bbox: [round(object.box.x, 2), round(object.box.y, 2), round(object.box.width, 2), round(object.box.height, 2)],
+      area: round(object.box.width * object.box.height, 2),
+      iscrowd: 0,
+      score: round(object.confidence, 3)
+    }))),
+    categories: classes.map((className, index) => ({ id: index + 1, name: className }))
+  };
+};
+
+/**
+ * YOLO label files, one per frame (empty for frames without detections), and classes.txt
+ */
+export const buildYoloFiles = (frames: DatasetFrame[], classes: string[]): DatasetFile[] => {
+  const classIndexes = new Map(classes.map((className, index) => [className, index]));
+
+  const labels = frames.map(frame => ({
+    name: `labels/${frameFileName(frame.frame, 'txt')}`,
+    data: frame.objects.map(({ className, box }) => [
+      classIndexes.get(className),
+      round((box.x + box.width / 2) / frame.width, 6),
+      round((box.y + box.height / 2) / frame.height, 6),
+      round(box.width / frame.width, 6),
+      round(box.height / frame.height, 6)
+    ].join(' ') + '\n').join('')
+  }));
+
+  return [{ name: 'classes.txt', data: classes.join('\n') + '\n' }, ...labels];
+};
@@ -0,0 +1,107 @@
+// Main-thread side of the detection worker
+// Owns the Worker instance and matches responses to their requests
+import type { RawDetection } from './DetectorBackend';
+import type { EnhancementSettings } from './framePreprocessing';
+
+export type DetectionWorkerRequest =
+  | { type: 'load'; requestId: number; backendId: string }
+  | { type: 'infer'; requestId: number; backendId: string; frame: ImageBitmap; enhancement: EnhancementSettings | null }
+  | { type: 'dispose'; requestId: number; backendId: string };
+
+export type DetectionWorkerResponse =
+  | { type: 'loaded'; requestId: number; ok: boolean; error: string | null }
+  | { type: 'result'; requestId: number; objects: RawDetection[] }
+  | { type: 'disposed'; requestId: number }
+  | { type: 'error'; requestId: number; error: string };
+
+// Request payload without the id, which the client assigns
+type RequestPayload<T> = T extends { requestId: number } ? Omit<T, 'requestId'> : never;
+
+interface PendingRequest {
+  resolve: (response: DetectionWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+class DetectionWorkerClient {
+  private worker: Worker | null;
+  private failed: boolean;
+  private nextRequestId: number;
+  private pending: Map<number, PendingRequest>;
+
+  constructor() {
+    this.worker = null;
+    this.failed = false;
+    this.nextRequestId = 1;
+    this.pending = new Map();
+  }
+
+  /**
+   * Whether this browser can run detection off the main thread
+   */
+  isSupported() {
+    return !this.failed &&
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Send a request to the worker, starting it on first use
+   */
+  request(message: RequestPayload<DetectionWorkerRequest>, transfer: Transferable[] = []): Promise<DetectionWorkerResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.reject(new Error("Detection worker unavailable"));
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      try {
+        worker.postMessage({ ...message, requestId }, transfer);
+      } catch (err) {
+        this.pending.delete(requestId);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  }
+
+  private getWorker() {
+    if (this.worker || !this.isSupported()) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('./detection.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+        const pendingRequest = this.pending.get(event.data.requestId);
+        if (!pendingRequest) return;
+        this.pending.delete(event.data.requestId);
+        pendingRequest.resolve(event.data);
+      };
+      this.worker.onerror = (event) => {
+        console.error("Detection worker crashed, falling back to main thread processing:", event.message);
+        this.terminate(new Error(event.message || "Detection worker crashed"));
+      };
+    } catch (err) {
+      console.warn("Web Workers not supported in this browser, falling back to main thread processing", err);
+      this.failed = true;
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Stop the worker and reject everything still waiting on it
+   */
+  private terminate(reason: Error) {
+    this.failed = true;
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pending.forEach(pendingRequest => pendingRequest.reject(reason));
+    this.pending.clear();
+  }
+}
+
+export default new DetectionWorkerClient();
@@ -0,0 +1,45 @@
+// Contract shared by every object detection backend
+// DetectionService and the ObjectDetection panel only talk to backends through this interface
+import type { RawDetection } from '@/types/detection';
+import type { EnhancementSettings } from './framePreprocessing';
+
+// Detected object in the shape the detection pipeline passes around
+export type { RawDetection };
+
+// Frame sources a backend can run inference on
+export type DetectorFrame = HTMLCanvasElement | ImageData | ImageBitmap;
+
+export type DetectorStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface DetectorInferOptions {
+  enhancement?: EnhancementSettings | null; // applied to the model's copy of the frame; generators ignore it
+}
+
+export interface DetectorCapabilities {
+  realInference: boolean; // false for generators that ignore frame pixels
+  emergencyVehicles: boolean; // can flag emergency vehicles
+  classes: string[]; // object types the backend can emit
+}
+
+export interface DetectorBackend {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: DetectorCapabilities;
+  status: DetectorStatus;
+  error: string | null;
+
+  /**
+   * Prepare the backend for inference, resolving to false if it can't be used
+   */
+  load(): Promise<boolean>;
+
+  /**
+   * Detect objects in a single frame, in frame pixel coordinates
+   */
+  infer(frame: DetectorFrame, options?: DetectorInferOptions): Promise<RawDetection[]>;
+
+  /**
+   * Release model memory; the backend can be loaded again later
+   */
+  dispose(): void;
+}
@@ -0,0 +1,145 @@
+// Registry of object detection backends
+// Keeps track of the active backend and falls back to the next usable one when loading fails
+import { DetectorBackend } from './DetectorBackend';
+import YoloDetector from './YoloDetector';
+import SimulatedDetector from './SimulatedDetector';
+import WorkerDetector from './WorkerDetector';
+
+export interface DetectorRegistryState {
+  activeId: string | null;
+  backends: DetectorBackend[];
+  message: string;
+}
+
+type RegistryListener = (state: DetectorRegistryState) => void;
+
+class DetectorRegistry {
+  private backends: Map<string, DetectorBackend>;
+  private fallbackOrder: string[];
+  private activeId: string | null;
+  private message: string;
+  private listeners: Set<RegistryListener>;
+  private switchCounter: number;
+
+  constructor() {
+    this.backends = new Map();
+    this.fallbackOrder = [];
+    this.activeId = null;
+    this.message = 'Loading models...';
+    this.listeners = new Set();
+    this.switchCounter = 0;
+  }
+
+  /**
+   * Register a backend; registration order is the fallback order
+   */
+  register(backend: DetectorBackend) {
+    this.backends.set(backend.id, backend);
+    if (!this.fallbackOrder.includes(backend.id)) {
+      this.fallbackOrder.push(backend.id);
+    }
+    this.notify();
+  }
+
+  getBackends() {
+    return this.fallbackOrder.map(id => this.backends.get(id) as DetectorBackend);
+  }
+
+  getBackend(id: string) {
+    return this.backends.get(id) || null;
+  }
+
+  /**
+   * Get the active backend, only if it is ready for inference
+   */
+  getActive() {
+    const backend = this.activeId ? this.backends.get(this.activeId) : null;
+    return backend && backend.status === 'ready' ? backend : null;
+  }
+
+  getState(): DetectorRegistryState {
+    return {
+      activeId: this.activeId,
+      backends: this.getBackends(),
+      message: this.message
+    };
+  }
+
+  /**
+   * Switch to a backend, loading it if needed
+   * When it fails to load, the remaining backends are tried in registration order
+   */
+  async activate(id: string): Promise<string | null> {
+    const switchId = ++this.switchCounter;
+    const candidates = [id, ...this.fallbackOrder.filter(other => other !== id)];
+
+    for (const candidateId of candidates) {
+      const backend = this.backends.get(candidateId);
+      if (!backend) continue;
+
+      this.message = `Loading ${backend.name}...`;
+      this.notify();
+
+      const loaded = backend.status === 'ready' || await backend.load();
+
+      // A newer switch request superseded this one while we were loading
+      if (switchId !== this.switchCounter) return this.activeId;
+
+      if (loaded) {
+        const previous = this.activeId ? this.backends.get(this.activeId) : null;
+        this.activeId = backend.id;
+        this.message = candidateId === id
+          ? `Using ${backend.name}`
+          : `${this.backends.get(id)?.name || id} unavailable, using ${backend.name}`;
+        this.notify();
+
+        // Free the previous model once the new one is serving frames
+        if (previous && previous !== backend) {
+          previous.dispose();
+        }
+        return backend.id;
+      }
+
+      console.warn(`Detector backend "${backend.name}" failed to load:`, backend.error);
+    }
+
+    this.message = 'All models failed to load';
+    this.notify();
+    return this.activeId;
+  }
+
+  /**
+   * Load the preferred (first registered) backend
+   */
+  initialize() {
+    return this.activate(this.fallbackOrder[0]);
+  }
+
+  /**
+   * Subscribe to registry changes, returns an unsubscribe function
+   */
+  subscribe(listener: RegistryListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (err) {
+        console.error("Detector registry listener error:", err);
+      }
+    });
+  }
+}
+
+const registry = new DetectorRegistry();
+// Real models run in the detection worker; the simulator needs no pixels so it stays on the main thread
+registry.register(new WorkerDetector(new YoloDetector()));
+registry.register(new SimulatedDetector());
+
+export default registry;
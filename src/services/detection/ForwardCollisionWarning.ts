@@ -0,0 +1,294 @@
+// Forward collision warning
+// Estimates time-to-collision for each tracked lead vehicle from how fast its distance shrinks,
+// and grades the most urgent one into advisory / warning / brake levels
+import { CollisionAssessment, CollisionWarningLevel, EmergencyStatus, EmergencyLevel } from '@/types/navigation';
+import { TrackedObject } from './ObjectTracker';
+
+// Objects that can be a lead vehicle in our path
+const LEAD_CLASSES = ['car', 'truck', 'bus', 'motorcycle', 'bicycle'];
+
+// Time-to-collision thresholds in seconds
+const TTC_BRAKE = 1.5;
+const TTC_WARNING = 2.5;
+const TTC_ADVISORY = 4.0;
+
+// Following closer than this time gap is worth an advisory even without closing speed
+const HEADWAY_ADVISORY = 0.8;
+
+// Gap in meters that always warrants a warning while not pulling away
+const MIN_SAFE_GAP = 5;
+
+// Below this ego speed (m/s) we are crawling or stopped and don't warn
+const MIN_EGO_SPEED = 2;
+
+// Distance history used for the range-rate fit
+const HISTORY_WINDOW_MS = 1000;
+const MIN_HISTORY_SAMPLES = 3;
+const MIN_HISTORY_SPAN_MS = 300;
+
+// Levels stay up this long after the threat eases, so warnings don't flicker
+const RELEASE_HOLD_MS = 1000;
+
+const LEVEL_RANK: Record<CollisionWarningLevel, number> = {
+  none: 0,
+  advisory: 1,
+  warning: 2,
+  brake: 3
+};
+
+interface LeadCandidate {
+  object: TrackedObject;
+  level: CollisionWarningLevel;
+  closingSpeed: number | null;
+  timeToCollision: number | null;
+  headway: number | null;
+}
+
+export const NO_COLLISION_RISK: CollisionAssessment = {
+  level: 'none',
+  trackId: null,
+  objectType: null,
+  distance: null,
+  closingSpeed: null,
+  timeToCollision: null,
+  headway: null,
+  since: 0
+};
+
+/**
+ * Map a collision assessment onto the emergency status shown to the driver
+ * @param now Time of the frame the assessment was made on, on the same clock
+ */
+export const collisionEmergencyStatus = (assessment: CollisionAssessment, now: number): EmergencyStatus => {
+  if (assessment.level === 'none') {
+    return {
+      active: false,
+      level: 'none',
+      type: null,
+      triggers: [],
+      duration: 0
+    };
+  }
+
+  const level: EmergencyLevel = assessment.level === 'brake' ? 'critical' : 'warning';
+  const vehicle = assessment.objectType || 'Vehicle';
+  const triggers = [];
+
+  if (assessment.timeToCollision !== null) {
+    triggers.push({
+      type: 'time_to_collision',
+      level,
+      details: `${vehicle} ahead, ${assessment.timeToCollision.toFixed(1)}s to collision`
+    });
+  }
+  if (assessment.headway !== null && assessment.headway < HEADWAY_ADVISORY) {
+    triggers.push({
+      type: 'following_distance',
+      level: 'warning' as EmergencyLevel,
+      details: `Following at ${assessment.headway.toFixed(1)}s headway`
+    });
+  }
+  if (assessment.distance !== null && assessment.distance < MIN_SAFE_GAP) {
+    triggers.push({
+      type: 'proximity',
+      level,
+      details: `${vehicle} within ${assessment.distance.toFixed(1)}m`
+    });
+  }
+
+  const responses: Record<Exclude<CollisionWarningLevel, 'none'>, string> = {
+    advisory: 'Keep a safe distance',
+    warning: 'Forward collision warning',
+    brake: 'BRAKE - collision imminent'
+  };
+
+  return {
+    active: true,
+    level,
+    type: `forward_collision_${assessment.level}`,
+    triggers,
+    duration: Math.floor((now - assessment.since) / 1000),
+    response: responses[assessment.level],
+    action: assessment.level === 'brake' ? 'Brake now' : undefined,
+    collision: assessment
+  };
+};
+
+class ForwardCollisionWarning {
+  private distanceHistory: Map<number, { time: number; distance: number }[]>;
+  private current: CollisionAssessment;
+  private holdUntil: number;
+
+  constructor() {
+    this.distanceHistory = new Map();
+    this.current = NO_COLLISION_RISK;
+    this.holdUntil = 0;
+  }
+
+  /**
+   * Assess the tracked objects of a frame
+   * @param objects Tracked objects with distances in meters
+   * @param frameWidth Width of the frame, used to tell which objects are in our path
+   * @param now Frame timestamp in milliseconds
+   * @param egoSpeed Our own speed in km/h, or null when unknown
+   */
+  update(objects: TrackedObject[], frameWidth: number, now: number, egoSpeed: number | null): CollisionAssessment {
+    const egoSpeedMs = egoSpeed !== null ? egoSpeed / 3.6 : null;
+
+    // Record distances for every lead candidate
+    const leads = objects.filter(obj =>
+      LEAD_CLASSES.includes(obj.type.toLowerCase()) &&
+      obj.distance > 0 &&
+      this.isInPath(obj, frameWidth)
+    );
+    leads.forEach(obj => {
+      const history = this.distanceHistory.get(obj.trackId) || [];
+      history.push({ time: now, distance: obj.distance });
+      while (history.length > 0 && now - history[0].time > HISTORY_WINDOW_MS) {
+        history.shift();
+      }
+      this.distanceHistory.set(obj.trackId, history);
+    });
+
+    // Forget tracks that left our path
+    this.distanceHistory.forEach((history, trackId) => {
+      if (now - history[history.length - 1].time > HISTORY_WINDOW_MS) {
+        this.distanceHistory.delete(trackId);
+      }
+    });
+
+    // Stopped or crawling: nothing to warn about
+    const crawling = egoSpeedMs !== null && egoSpeedMs < MIN_EGO_SPEED;
+
+    let worst: LeadCandidate | null = null;
+    if (!crawling) {
+      leads.filter(obj => obj.confirmed).forEach(obj => {
+        const candidate = this.assessLead(obj, egoSpeedMs);
+        if (!worst || this.isMoreUrgent(candidate, worst)) {
+          worst = candidate;
+        }
+      });
+    }
+
+    const next = this.applyHysteresis(worst, now);
+    this.current = next;
+    return next;
+  }
+
+  getCurrent() {
+    return this.current;
+  }
+
+  /**
+   * Clear history, e.g. when the video source or detector changes
+   */
+  reset() {
+    this.distanceHistory.clear();
+    this.current = NO_COLLISION_RISK;
+    this.holdUntil = 0;
+  }
+
+  private assessLead(object: TrackedObject, egoSpeedMs: number | null): LeadCandidate {
+    let closingSpeed = this.rangeRate(object.trackId);
+
+    // Monocular range rates are noisy; the gap can't close much faster than we drive
+    if (closingSpeed !== null && egoSpeedMs !== null) {
+      closingSpeed = Math.min(closingSpeed, egoSpeedMs + 2);
+    }
+
+    const timeToCollision = closingSpeed !== null && closingSpeed > 0.1
+      ? object.distance / closingSpeed
+      : null;
+    const headway = egoSpeedMs !== null && egoSpeedMs > 0
+      ? object.distance / egoSpeedMs
+      : null;
+
+    let level: CollisionWarningLevel = 'none';
+    if (timeToCollision !== null && timeToCollision < TTC_BRAKE) {
+      level = 'brake';
+    } else if (timeToCollision !== null && timeToCollision < TTC_WARNING) {
+      level = 'warning';
+    } else if (object.distance < MIN_SAFE_GAP && (closingSpeed === null || closingSpeed >= 0)) {
+      level = 'warning';
+    } else if (
+      (timeToCollision !== null && timeToCollision < TTC_ADVISORY) ||
+      (headway !== null && headway < HEADWAY_ADVISORY)
+    ) {
+      level = 'advisory';
+    }
+
+    return { object, level, closingSpeed, timeToCollision, headway };
+  }
+
+  /**
+   * Closing speed in m/s from a least-squares fit of the recent distances
+   */
+  private rangeRate(trackId: number) {
+    const history = this.distanceHistory.get(trackId);
+    if (!history || history.length < MIN_HISTORY_SAMPLES) return null;
+    if (history[history.length - 1].time - history[0].time < MIN_HISTORY_SPAN_MS) return null;
+
+    const t0 = history[0].time;
+    const n = history.length;
+    let sumT = 0, sumD = 0, sumTT = 0, sumTD = 0;
+    history.forEach(sample => {
+      const t = (sample.time - t0) / 1000;
+      sumT += t;
+      sumD += sample.distance;
+      sumTT += t * t;
+      sumTD += t * sample.distance;
+    });
+
+    const denominator = n * sumTT - sumT * sumT;
+    if (denominator <= 0) return null;
+    const slope = (n * sumTD - sumT * sumD) / denominator;
+    return -slope;
+  }
+
+  private isInPath(object: TrackedObject, frameWidth: number) {
+    // Objects whose box covers the central strip of the frame are in our lane
+    const { x, width } = object.boundingBox;
+    const pathLeft = frameWidth * 0.4;
+    const pathRight = frameWidth * 0.6;
+    return x < pathRight && x + width > pathLeft;
+  }
+
+  private isMoreUrgent(a: LeadCandidate, b: LeadCandidate) {
+    if (LEVEL_RANK[a.level] !== LEVEL_RANK[b.level]) {
+      return LEVEL_RANK[a.level] > LEVEL_RANK[b.level];
+    }
+    const ttcA = a.timeToCollision ?? Infinity;
+    const ttcB = b.timeToCollision ?? Infinity;
+    if (ttcA !== ttcB) return ttcA < ttcB;
+    return a.object.distance < b.object.distance;
+  }
+
+  private applyHysteresis(lead: LeadCandidate | null, now: number): CollisionAssessment {
+    const level = lead ? lead.level : 'none';
+    const previous = this.current;
+
+    // Hold a higher level until it has eased for a while
+    if (LEVEL_RANK[level] < LEVEL_RANK[previous.level]) {
+      if (now < this.holdUntil) return previous;
+    } else if (level !== 'none') {
+      this.holdUntil = now + RELEASE_HOLD_MS;
+    }
+
+    if (!lead || level === 'none') {
+      return level === previous.level ? previous : { ...NO_COLLISION_RISK, since: now };
+    }
+
+    return {
+      level,
+      trackId: lead.object.trackId,
+      objectType: lead.object.type,
+      distance: lead.object.distance,
+      closingSpeed: lead.closingSpeed,
+      timeToCollision: lead.timeToCollision,
+      headway: lead.headway,
+      since: level === previous.level ? previous.since : now
+    };
+  }
+}
+
+export default ForwardCollisionWarning;
@@ -0,0 +1,653 @@
+// Classical computer-vision lane detection
+// Runs on the frame pixels: ROI mask, white/yellow color threshold, horizontal gradient edges,
+// then sliding windows on the road plane and a polynomial fit for each lane line
+import { CameraCalibration, LaneLineType, LaneOffset } from '@/types/navigation';
+import { LaneEstimate, LanePolynomial } from '@/types/detection';
+import { RawDetection } from './DetectorBackend';
+import { groundPointAtPixel } from './distanceEstimation';
+
+// Width of the downscaled frame the pipeline runs on
+const PROCESSING_WIDTH = 320;
+
+// Road plane region searched for lane lines, in meters
+const MAX_LATERAL = 6;
+const MAX_LOOKAHEAD = 40;
+
+// Sliding window layout on the road plane
+const WINDOW_DEPTH = 3;
+const WINDOW_MARGIN = 0.6;
+const MIN_WINDOW_POINTS = 3;
+const BASE_SEARCH_DEPTH = 12;
+const HISTOGRAM_BIN = 0.1;
+
+// Plausible lane widths, and the width assumed when only one line is visible
+const MIN_LANE_WIDTH = 2.5;
+const MAX_LANE_WIDTH = 5.0;
+export const DEFAULT_LANE_WIDTH = 3.7;
+
+// Lines stay on screen this many frames after we lose them
+const MAX_MISSED_FRAMES = 10;
+
+// Weight of a new measurement in the temporally smoothed fit
+const SMOOTHING = 0.4;
+
+// Roads bending less than this radius (m) are reported as straight
+const STRAIGHT_RADIUS = 2000;
+
+// Line type classification: stretch of the line inspected, and how much of it must be painted
+const CLASSIFY_DEPTH = 15;
+const CLASSIFY_BIN = 1;
+const SOLID_COVERAGE = 0.7;
+const DASHED_COVERAGE = 0.15;
+
+// Frames of line type votes kept per side
+const TYPE_VOTES = 15;
+
+const UNKNOWN_LINE: LaneLineType = { style: "unknown", color: "unknown" };
+
+interface GroundPoints {
+  x: Float32Array;
+  z: Float32Array;
+  color: Uint8Array; // 1 for white paint, 2 for yellow
+  count: number;
+}
+
+interface LineState {
+  fit: LanePolynomial;
+  missed: number;
+  votes: LaneLineType[];
+}
+
+/**
+ * Least-squares fit of x = a·z² + b·z + c, falling back to a straight line
+ * when the points don't span enough depth to support a curve
+ */
+const fitLine = (xs: number[], zs: number[]): LanePolynomial | null => {
+  const n = xs.length;
+  if (n < 3) return null;
+
+  // Sums for the normal equations
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0, s4 = 0;
+  let t0 = 0, t1 = 0, t2 = 0;
+  let minDistance = Infinity;
+  let maxDistance = 0;
+  for (let i = 0; i < n; i++) {
+    const z = zs[i];
+    const x = xs[i];
+    const z2 = z * z;
+    minDistance = Math.min(minDistance, z);
+    maxDistance = Math.max(maxDistance, z);
+    s0 += 1;
+    s1 += z;
+    s2 += z2;
+    s3 += z2 * z;
+    s4 += z2 * z2;
+    t0 += x;
+    t1 += x * z;
+    t2 += x * z2;
+  }
+
+  const span = maxDistance - minDistance;
+  if (span < 3) return null;
+
+  let coefficients: [number, number, number] | null = null;
+
+  if (span >= 6) {
+    // Solve the 3x3 system with Cramer's rule
+    const det = s4 * (s2 * s0 - s1 * s1) - s3 * (s3 * s0 - s1 * s2) + s2 * (s3 * s1 - s2 * s2);
+    if (Math.abs(det) > 1e-9) {
+      const a = (t2 * (s2 * s0 - s1 * s1) - s3 * (t1 * s0 - s1 * t0) + s2 * (t1 * s1 - s2 * t0)) / det;
+      const b = (s4 * (t1 * s0 - s1 * t0) - t2 * (s3 * s0 - s1 * s2) + s2 * (s3 * t0 - t1 * s2)) / det;
+      const c = (s4 * (s2 * t0 - s1 * t1) - s3 * (s3 * t0 - s1 * t2) + t2 * (s3 * s1 - s2 * s2)) / det;
+      // Curves tighter than a 50 m radius are noise, not road geometry
+      if (Math.abs(2 * a) < 0.02) {
+        coefficients = [a, b, c];
+      }
+    }
+  }
+
+  if (!coefficients) {
+    const det = s2 * s0 - s1 * s1;
+    if (Math.abs(det) < 1e-9) return null;
+    const b = (t1 * s0 - s1 * t0) / det;
+    const c = (s2 * t0 - s1 * t1) / det;
+    coefficients = [0, b, c];
+  }
+
+  return { coefficients, minDistance, maxDistance, pointCount: n };
+};
+
+/**
+ * Evaluate a lane polynomial at a distance ahead
+ */
+export const laneLineX = (line: LanePolynomial, z: number) => {
+  const [a, b, c] = line.coefficients;
+  return a * z * z + b * z + c;
+};
+
+/**
+ * Signed curvature (1/m) of a lane line at a distance ahead
+ */
+export const laneLineCurvature = (line: LanePolynomial, z: number) => {
+  const [a, b] = line.coefficients;
+  const slope = 2 * a * z + b;
+  return (2 * a) / Math.pow(1 + slope * slope, 1.5);
+};
+
+/**
+ * Classify the paint along a fitted line
+ * Solid lines are painted along most of the inspected stretch, dashed ones have regular gaps,
+ * and double lines show two parallel peaks across the line
+ */
+const classifyLine = (points: GroundPoints, line: LanePolynomial): LaneLineType => {
+  const near = line.minDistance;
+  const far = Math.min(line.maxDistance, near + CLASSIFY_DEPTH);
+  const bins = Math.max(1, Math.floor((far - near) / CLASSIFY_BIN));
+  const painted = new Uint8Array(bins);
+  // Lateral profile across the line, 5 cm bins from -0.5 to 0.5 m
+  const profile = new Float32Array(20);
+  let yellow = 0;
+  let total = 0;
+
+  for (let i = 0; i < points.count; i++) {
+    const z = points.z[i];
+    if (z < near || z >= far) continue;
+    const across = points.x[i] - laneLineX(line, z);
+    if (Math.abs(across) >= 0.5) continue;
+
+    painted[Math.min(bins - 1, Math.floor((z - near) / CLASSIFY_BIN))] = 1;
+    profile[Math.floor((across + 0.5) / 0.05)]++;
+    if (points.color[i] === 2) yellow++;
+    total++;
+  }
+
+  if (total === 0) return UNKNOWN_LINE;
+
+  const color = yellow / total > 0.4 ? "yellow" : "white";
+  const coverage = painted.reduce((sum, value) => sum + value, 0) / bins;
+
+  // Two peaks 15 cm or more apart with a clear valley between them
+  let firstPeak = -1;
+  let secondPeak = -1;
+  for (let bin = 1; bin < profile.length - 1; bin++) {
+    const isPeak = profile[bin] >= profile[bin - 1] && profile[bin] >= profile[bin + 1] && profile[bin] > 0;
+    if (!isPeak) continue;
+    if (firstPeak < 0 || profile[bin] > profile[firstPeak]) {
+      secondPeak = firstPeak;
+      firstPeak = bin;
+    } else if (secondPeak < 0 || profile[bin] > profile[secondPeak]) {
+      secondPeak = bin;
+    }
+  }
+  if (firstPeak >= 0 && secondPeak >= 0 && Math.abs(firstPeak - secondPeak) >= 3) {
+    const low = Math.min(firstPeak, secondPeak);
+    const high = Math.max(firstPeak, secondPeak);
+    let valley = Infinity;
+    for (let bin = low + 1; bin < high; bin++) valley = Math.min(valley, profile[bin]);
+    const weaker = Math.min(profile[firstPeak], profile[secondPeak]);
+    if (weaker >= total * 0.1 && valley < weaker * 0.4) {
+      return { style: "double", color };
+    }
+  }
+
+  if (coverage >= SOLID_COVERAGE) return { style: "solid", color };
+  if (coverage >= DASHED_COVERAGE) return { style: "dashed", color };
+  return { style: "unknown", color };
+};
+
+/**
+ * Most common line type among the recent votes, style and color counted separately
+ */
+const majorityLineType = (votes: LaneLineType[]): LaneLineType => {
+  const mostCommon = <T extends string>(values: T[], fallback: T): T => {
+    const counts = new Map<T, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    let best = fallback;
+    let bestCount = 0;
+    counts.forEach((count, value) => {
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    });
+    return best;
+  };
+
+  // Unknown votes only win when nothing else was seen
+  const styles = votes.map(vote => vote.style).filter(style => style !== "unknown");
+  const colors = votes.map(vote => vote.color).filter(color => color !== "unknown");
+  return {
+    style: mostCommon(styles, "unknown"),
+    color: mostCommon(colors, "unknown")
+  };
+};
+
+export const NO_LANE_ESTIMATE: LaneEstimate = {
+  left: null,
+  right: null,
+  leftLineDetected: false,
+  rightLineDetected: false,
+  laneWidth: DEFAULT_LANE_WIDTH,
+  curvature: 0,
+  curveRadius: null,
+  heading: 0,
+  leftLineType: UNKNOWN_LINE,
+  rightLineType: UNKNOWN_LINE,
+  offset: 0,
+  offsetMeters: 0,
+  direction: "Unknown",
+  confidence: 0
+};
+
+/**
+ * Summarize a lane estimate for the lane position indicator
+ */
+export const toLaneOffset = (lanes: LaneEstimate): LaneOffset => ({
+  value: lanes.offset,
+  direction: lanes.direction,
+  curveRadius: lanes.curveRadius,
+  curveDirection: lanes.curveRadius === null ? "Straight" : lanes.curvature > 0 ? "Right" : "Left",
+  heading: lanes.heading,
+  leftLine: lanes.leftLineType,
+  rightLine: lanes.rightLineType
+});
+
+class LaneDetector {
+  private canvas: HTMLCanvasElement | null;
+  private context: CanvasRenderingContext2D | null;
+  private leftLine: LineState | null;
+  private rightLine: LineState | null;
+  private laneWidth: number;
+
+  constructor() {
+    this.canvas = null;
+    this.context = null;
+    this.leftLine = null;
+    this.rightLine = null;
+    this.laneWidth = DEFAULT_LANE_WIDTH;
+  }
+
+  /**
+   * Detect the ego lane in the current frame
+   * @param source Canvas holding the video frame, without overlays
+   * @param calibration Camera geometry used to map pixels onto the road plane
+   * @param exclude Detected objects whose boxes are ignored (cars often have white paint)
+   */
+  detect(source: HTMLCanvasElement, calibration: CameraCalibration, exclude: RawDetection[] = []): LaneEstimate {
+    if (!source.width || !source.height) return NO_LANE_ESTIMATE;
+
+    const scale = PROCESSING_WIDTH / source.width;
+    const width = PROCESSING_WIDTH;
+    const height = Math.max(1, Math.round(source.height * scale));
+    const frame = this.downscale(source, width, height);
+    if (!frame) return NO_LANE_ESTIMATE;
+
+    const excludeBoxes = exclude.map(obj => ({
+      x: obj.boundingBox.x * scale,
+      y: obj.boundingBox.y * scale,
+      width: obj.boundingBox.width * scale,
+      height: obj.boundingBox.height * scale
+    }));
+
+    const mask = this.laneMarkingMask(frame, width, height, calibration, excludeBoxes);
+    const points = this.toGroundPoints(mask, width, height, calibration);
+
+    const leftFit = this.fitSide(points, -1);
+    const rightFit = this.fitSide(points, 1);
+    return this.combine(points, leftFit, rightFit);
+  }
+
+  /**
+   * Forget smoothed lines, e.g. when the video source changes
+   */
+  reset() {
+    this.leftLine = null;
+    this.rightLine = null;
+    this.laneWidth = DEFAULT_LANE_WIDTH;
+  }
+
+  private downscale(source: HTMLCanvasElement, width: number, height: number) {
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+      this.context = this.canvas.getContext('2d', { willReadFrequently: true });
+    }
+    if (!this.context) return null;
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.context.drawImage(source, 0, 0, width, height);
+    return this.context.getImageData(0, 0, width, height).data;
+  }
+
+  /**
+   * Binary mask of lane marking pixels inside the road region of interest
+   * A pixel counts when it is white or yellow and sits next to a strong horizontal gradient,
+   * which rejects large bright areas such as sky, sunlit concrete or white vehicles
+   */
+  private laneMarkingMask(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    calibration: CameraCalibration,
+    excludeBoxes: RawDetection['boundingBox'][]
+  ) {
+    const mask = new Uint8Array(width * height);
+    const top = Math.min(height - 1, Math.ceil(calibration.horizon * height + height * 0.04));
+    if (top >= height - 2) return mask;
+
+    // ROI: trapezoid from the full frame width at the bottom to a narrow band near the horizon
+    const centerX = width / 2;
+    const roiHalfWidth = (row: number) => {
+      const progress = (row - top) / (height - top);
+      return width * (0.12 + 0.38 * progress);
+    };
+
+    const gray = new Float32Array(width * height);
+    const value = new Uint8Array(width * height);
+    const candidates = new Uint8Array(width * height);
+    const brightnessHistogram = new Uint32Array(256);
+    let roiPixels = 0;
+
+    for (let row = top; row < height; row++) {
+      const halfWidth = roiHalfWidth(row);
+      const left = Math.max(0, Math.floor(centerX - halfWidth));
+      const right = Math.min(width - 1, Math.ceil(centerX + halfWidth));
+      for (let col = left; col <= right; col++) {
+        const index = row * width + col;
+        const r = data[index * 4];
+        const g = data[index * 4 + 1];
+        const b = data[index * 4 + 2];
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        gray[index] = 0.299 * r + 0.587 * g + 0.114 * b;
+        value[index] = max;
+        brightnessHistogram[max]++;
+        roiPixels++;
+
+        // Yellow paint: hue between orange and yellow-green, clearly saturated
+        const saturation = max > 0 ? (max - min) / max : 0;
+        if (saturation > 0.35 && max > 100 && b === min) {
+          const hue = 60 * ((g - b) / (max - min));
+          if (r === max && hue >= 15 && hue <= 65) {
+            candidates[index] = 2;
+            continue;
+          }
+        }
+        if (saturation < 0.25) {
+          candidates[index] = 1; // possible white paint, brightness checked below
+        }
+      }
+    }
+
+    if (roiPixels === 0) return mask;
+
+    // White paint is among the brightest pixels on the road, whatever the exposure
+    let cumulative = 0;
+    let whiteThreshold = 255;
+    for (let level = 255; level >= 0; level--) {
+      cumulative += brightnessHistogram[level];
+      if (cumulative >= roiPixels * 0.06) {
+        whiteThreshold = level;
+        break;
+      }
+    }
+    whiteThreshold = Math.max(140, whiteThreshold);
+
+    // Sobel gradient across columns marks the sides of painted lines
+    const edges = new Uint8Array(width * height);
+    for (let row = Math.max(1, top); row < height - 1; row++) {
+      for (let col = 1; col < width - 1; col++) {
+        const index = row * width + col;
+        const gx =
+          (gray[index - width + 1] + 2 * gray[index + 1] + gray[index + width + 1]) -
+          (gray[index - width - 1] + 2 * gray[index - 1] + gray[index + width - 1]);
+        if (Math.abs(gx) > 120) {
+          edges[index] = 1;
+        }
+      }
+    }
+
+    for (let row = top; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const index = row * width + col;
+        const candidate = candidates[index];
+        if (!candidate) continue;
+        if (candidate === 1 && value[index] < whiteThreshold) continue;
+
+        // Require an edge within a few pixels on the same row
+        let nearEdge = false;
+        for (let d = -3; d <= 3 && !nearEdge; d++) {
+          const c = col + d;
+          if (c >= 0 && c < width && edges[row * width + c]) nearEdge = true;
+        }
+        if (!nearEdge) continue;
+
+        const insideObject = excludeBoxes.some(box =>
+          col >= box.x && col <= box.x + box.width && row >= box.y && row <= box.y + box.height
+        );
+        if (!insideObject) {
+          mask[index] = candidate;
+        }
+      }
+    }
+
+    return mask;
+  }
+
+  /**
+   * Project lane marking pixels onto the road plane
+   */
+  private toGroundPoints(mask: Uint8Array, width: number, height: number, calibration: CameraCalibration): GroundPoints {
+    let total = 0;
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i]) total++;
+    }
+
+    const x = new Float32Array(total);
+    const color = new Uint8Array(total);
+    const z = new Float32Array(total);
+    let count = 0;
+
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (!mask[row * width + col]) continue;
+        const point = groundPointAtPixel(col + 0.5, row + 0.5, width, height, calibration);
+        if (!point || point.z > MAX_LOOKAHEAD || Math.abs(point.x) > MAX_LATERAL) continue;
+        x[count] = point.x;
+        color[count] = mask[row * width + col];
+        z[count] = point.z;
+        count++;
+      }
+    }
+
+    return { x, z, color, count };
+  }
+
+  /**
+   * Sliding window search for one lane line
+   * @param side -1 for the line left of the camera, 1 for the right one
+   */
+  private fitSide(points: GroundPoints, side: -1 | 1): LanePolynomial | null {
+    if (points.count === 0) return null;
+
+    let nearest = Infinity;
+    for (let i = 0; i < points.count; i++) nearest = Math.min(nearest, points.z[i]);
+
+    // Start where the previous frame's line was, then fall back to the histogram peak near the car
+    const previous = side < 0 ? this.leftLine : this.rightLine;
+    if (previous) {
+      const fit = this.slidingWindowFit(points, side, nearest, laneLineX(previous.fit, nearest));
+      if (fit) return fit;
+    }
+
+    const base = this.histogramPeak(points, side, nearest);
+    return base === null ? null : this.slidingWindowFit(points, side, nearest, base);
+  }
+
+  private slidingWindowFit(points: GroundPoints, side: -1 | 1, nearest: number, start: number) {
+    let current = start;
+    const xs: number[] = [];
+    const zs: number[] = [];
+    let drift = 0;
+    let windowsWithPoints = 0;
+
+    for (let zStart = nearest; zStart < MAX_LOOKAHEAD; zStart += WINDOW_DEPTH) {
+      const zEnd = zStart + WINDOW_DEPTH;
+      let sumX = 0;
+      let inWindow = 0;
+
+      for (let i = 0; i < points.count; i++) {
+        const z = points.z[i];
+        if (z < zStart || z >= zEnd) continue;
+        const x = points.x[i];
+        if (Math.abs(x - current) > WINDOW_MARGIN) continue;
+        xs.push(x);
+        zs.push(z);
+        sumX += x;
+        inWindow++;
+      }
+
+      if (inWindow >= MIN_WINDOW_POINTS) {
+        const center = sumX / inWindow;
+        drift = center - current;
+        current = center;
+        windowsWithPoints++;
+      } else {
+        // Follow the line's trend through gaps between dashes
+        current += drift;
+      }
+    }
+
+    if (windowsWithPoints < 2) return null;
+    const fit = fitLine(xs, zs);
+
+    // The line has to stay on its side of the car
+    if (!fit || Math.sign(laneLineX(fit, fit.minDistance)) !== side) return null;
+    return fit;
+  }
+
+  private histogramPeak(points: GroundPoints, side: -1 | 1, nearest: number) {
+    const bins = Math.round(MAX_LANE_WIDTH / HISTOGRAM_BIN);
+    const histogram = new Float32Array(bins);
+
+    for (let i = 0; i < points.count; i++) {
+      if (points.z[i] > nearest + BASE_SEARCH_DEPTH) continue;
+      const lateral = points.x[i] * side;
+      if (lateral < 0.3 || lateral >= MAX_LANE_WIDTH) continue;
+      histogram[Math.floor(lateral / HISTOGRAM_BIN)]++;
+    }
+
+    let strongest = 0;
+    for (let bin = 0; bin < bins; bin++) strongest = Math.max(strongest, histogram[bin]);
+    if (strongest < MIN_WINDOW_POINTS * 2) return null;
+
+    // Of the strong peaks, the one closest to the car is our lane's line, not the next lane's
+    for (let bin = 0; bin < bins; bin++) {
+      if (histogram[bin] >= strongest * 0.5) {
+        return side * (bin + 0.5) * HISTOGRAM_BIN;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Smooth the new fits into the tracked lines and derive lane geometry
+   */
+  private combine(points: GroundPoints, leftFit: LanePolynomial | null, rightFit: LanePolynomial | null): LaneEstimate {
+    // Reject pairs that can't be one lane and keep the better supported line
+    if (leftFit && rightFit) {
+      const width = laneLineX(rightFit, 0) - laneLineX(leftFit, 0);
+      if (width < MIN_LANE_WIDTH || width > MAX_LANE_WIDTH) {
+        if (leftFit.pointCount >= rightFit.pointCount) {
+          rightFit = null;
+        } else {
+          leftFit = null;
+        }
+      }
+    }
+
+    this.leftLine = this.smoothLine(this.leftLine, leftFit, leftFit && classifyLine(points, leftFit));
+    this.rightLine = this.smoothLine(this.rightLine, rightFit, rightFit && classifyLine(points, rightFit));
+
+    const left = this.leftLine?.fit || null;
+    const right = this.rightLine?.fit || null;
+    if (!left && !right) {
+      return { ...NO_LANE_ESTIMATE, laneWidth: this.laneWidth };
+    }
+
+    // Measure the lane width when both lines are visible, otherwise assume the last one
+    if (left && right) {
+      const measured = laneLineX(right, 0) - laneLineX(left, 0);
+      if (measured >= MIN_LANE_WIDTH && measured <= MAX_LANE_WIDTH) {
+        this.laneWidth = this.laneWidth * (1 - SMOOTHING) + measured * SMOOTHING;
+      }
+    }
+
+    const leftX = left ? laneLineX(left, 0) : laneLineX(right, 0) - this.laneWidth;
+    const rightX = right ? laneLineX(right, 0) : leftX + this.laneWidth;
+    const laneCenter = (leftX + rightX) / 2;
+
+    // The camera sits on the car's centerline, at x = 0
+    const offsetMeters = -laneCenter;
+    const offset = (offsetMeters / this.laneWidth) * 100;
+    const direction = offset > 10 ? "Right" : offset < -10 ? "Left" : "Center";
+
+    const lines = [left, right].filter(Boolean);
+    const curvature = lines.reduce((sum, line) => sum + laneLineCurvature(line, 0), 0) / lines.length;
+    const curveRadius = Math.abs(curvature) > 1 / STRAIGHT_RADIUS ? 1 / Math.abs(curvature) : null;
+    
+    // The lane's direction at the car is the slope of its lines there; the car points along z
+    const laneSlope = lines.reduce((sum, line) => sum + line.coefficients[1], 0) / lines.length;
+    const heading = -Math.atan(laneSlope) * 180 / Math.PI;
+
+    // Confidence from how many lines we see now and how recently they were measured
+    const lineConfidence = (state: LineState | null) =>
+      state ? Math.max(0, 1 - state.missed / MAX_MISSED_FRAMES) : 0;
+    const confidence = (lineConfidence(this.leftLine) + lineConfidence(this.rightLine)) / 2;
+
+    return {
+      left,
+      right,
+      leftLineDetected: !!leftFit,
+      rightLineDetected: !!rightFit,
+      laneWidth: this.laneWidth,
+      curvature,
+      curveRadius,
+      heading,
+      leftLineType: this.leftLine ? majorityLineType(this.leftLine.votes) : UNKNOWN_LINE,
+      rightLineType: this.rightLine ? majorityLineType(this.rightLine.votes) : UNKNOWN_LINE,
+      offset,
+      offsetMeters,
+      direction,
+      confidence
+    };
+  }
+
+  private smoothLine(state: LineState | null, fit: LanePolynomial | null, type: LaneLineType | null): LineState | null {
+    if (!fit) {
+      if (!state) return null;
+      return state.missed + 1 > MAX_MISSED_FRAMES
+        ? null
+        : { fit: state.fit, missed: state.missed + 1, votes: state.votes };
+    }
+    if (!state) return { fit, missed: 0, votes: [type || UNKNOWN_LINE] };
+
+    const blend = (previous: number, next: number) => previous * (1 - SMOOTHING) + next * SMOOTHING;
+    const [pa, pb, pc] = state.fit.coefficients;
+    const [na, nb, nc] = fit.coefficients;
+    return {
+      fit: {
+        coefficients: [blend(pa, na), blend(pb, nb), blend(pc, nc)],
+        minDistance: blend(state.fit.minDistance, fit.minDistance),
+        maxDistance: blend(state.fit.maxDistance, fit.maxDistance),
+        pointCount: fit.pointCount
+      },
+      missed: 0,
+      votes: [...state.votes, type || UNKNOWN_LINE].slice(-TYPE_VOTES)
+    };
+  }
+}
+
+export default LaneDetector;
@@ -0,0 +1,229 @@
+// SORT-style multi-object tracker
+// Each track runs a constant-velocity Kalman filter on box center and size, and detections
+// are associated to predicted track boxes by IoU, so objects keep the same id across frames
+import { BoundingBox, Detection } from '@/types/detection';
+import { RawDetection } from './DetectorBackend';
+
+// Tracked objects are the detections the service reports
+export type TrackedObject = Detection;
+
+type Box = BoundingBox;
+
+/**
+ * One-dimensional constant-velocity Kalman filter (position + velocity)
+ */
+class AxisKalman {
+  position: number;
+  velocity: number;
+  private p00: number;
+  private p01: number;
+  private p11: number;
+  private processNoise: number;
+  private measurementVariance: number;
+
+  /**
+   * @param processNoise - Acceleration noise, as a variance
+   * @param measurementStd - Standard deviation of a measurement, in the measured unit (pixels)
+   */
+  constructor(position: number, processNoise: number, measurementStd: number) {
+    this.position = position;
+    this.velocity = 0;
+    this.measurementVariance = measurementStd * measurementStd;
+    // Position is known from the first measurement, velocity is not
+    this.p00 = this.measurementVariance;
+    this.p01 = 0;
+    this.p11 = 1000;
+    this.processNoise = processNoise;
+  }
+
+  predict(dt: number) {
+    this.position += this.velocity * dt;
+
+    const q = this.processNoise;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * dt ** 4 / 4;
+    const p01 = this.p01 + dt * this.p11 + q * dt ** 3 / 2;
+    const p11 = this.p11 + q * dt * dt;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 = p11;
+  }
+
+  update(measurement: number) {
+    const innovation = measurement - this.position;
+    const s = this.p00 + this.measurementVariance;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+
+    const p00 = (1 - k0) * this.p00;
+    const p01 = (1 - k0) * this.p01;
+    const p11 = this.p11 - k1 * this.p01;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 = p11;
+  }
+}
+
+interface Track {
+  id: number;
+  type: string;
+  createdAt: number;
+  lastUpdate: number;
+  lastPredict: number;
+  hits: number;
+  detection: RawDetection;
+  centerX: AxisKalman;
+  centerY: AxisKalman;
+  width: AxisKalman;
+  height: AxisKalman;
+}
+
+/**
+ * Intersection over union of two boxes
+ */
+export const boxIoU = (a: Box, b: Box) => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+class ObjectTracker {
+  private tracks: Track[];
+  private nextTrackId: number;
+  private iouThreshold: number;
+  private maxAgeMs: number;
+  private minHits: number;
+
+  constructor() {
+    this.tracks = [];
+    this.nextTrackId = 1;
+    this.iouThreshold = 0.3;
+    this.maxAgeMs = 1000; // drop tracks not seen for this long
+    this.minHits = 3;
+  }
+
+  /**
+   * Update tracks with the detections of a new frame
+   * Returns the tracks matched or created in this frame
+   */
+  update(detections: RawDetection[], timestamp: number): TrackedObject[] {
+    // Predict every track forward to this frame
+    this.tracks.forEach(track => {
+      const dt = Math.max(0, (timestamp - track.lastPredict) / 1000);
+      track.centerX.predict(dt);
+      track.centerY.predict(dt);
+      track.width.predict(dt);
+      track.height.predict(dt);
+      track.lastPredict = timestamp;
+    });
+
+    // Score every same-class track/detection pair by IoU against the predicted box
+    const candidates: { trackIndex: number; detectionIndex: number; iou: number }[] = [];
+    this.tracks.forEach((track, trackIndex) => {
+      const predicted = this.predictedBox(track);
+      detections.forEach((detection, detectionIndex) => {
+        if (detection.type !== track.type) return;
+        const iou = boxIoU(predicted, detection.boundingBox);
+        if (iou >= this.iouThreshold) {
+          candidates.push({ trackIndex, detectionIndex, iou });
+        }
+      });
+    });
+
+    // Greedy association, best overlaps first
+    candidates.sort((a, b) => b.iou - a.iou);
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    const updatedTracks: Track[] = [];
+
+    candidates.forEach(({ trackIndex, detectionIndex }) => {
+      if (matchedTracks.has(trackIndex) || matchedDetections.has(detectionIndex)) return;
+      matchedTracks.add(trackIndex);
+      matchedDetections.add(detectionIndex);
+
+      const track = this.tracks[trackIndex];
+      const detection = detections[detectionIndex];
+      const box = detection.boundingBox;
+      track.centerX.update(box.x + box.width / 2);
+      track.centerY.update(box.y + box.height / 2);
+      track.width.update(box.width);
+      track.height.update(box.height);
+      track.detection = detection;
+      track.hits++;
+      track.lastUpdate = timestamp;
+      updatedTracks.push(track);
+    });
+
+    // Unmatched detections start new tracks
+    detections.forEach((detection, detectionIndex) => {
+      if (matchedDetections.has(detectionIndex)) return;
+      const track = this.createTrack(detection, timestamp);
+      this.tracks.push(track);
+      updatedTracks.push(track);
+    });
+
+    // Forget tracks that haven't been seen for a while
+    this.tracks = this.tracks.filter(track => timestamp - track.lastUpdate <= this.maxAgeMs);
+
+    return updatedTracks.map(track => this.toTrackedObject(track, timestamp));
+  }
+
+  /**
+   * Drop all tracks, e.g. when the video source or detector changes
+   */
+  reset() {
+    this.tracks = [];
+  }
+
+  private createTrack(detection: RawDetection, timestamp: number): Track {
+    const box = detection.boundingBox;
+    // Measurement noise (a standard deviation in pixels) scales with box size so small and
+    // large objects track equally well
+    const positionNoise = Math.max(4, box.width * 0.05);
+    return {
+      id: this.nextTrackId++,
+      type: detection.type,
+      createdAt: timestamp,
+      lastUpdate: timestamp,
+      lastPredict: timestamp,
+      hits: 1,
+      detection,
+      centerX: new AxisKalman(box.x + box.width / 2, 200, positionNoise),
+      centerY: new AxisKalman(box.y + box.height / 2, 200, positionNoise),
+      width: new AxisKalman(box.width, 50, positionNoise),
+      height: new AxisKalman(box.height, 50, positionNoise)
+    };
+  }
+
+  private predictedBox(track: Track): Box {
+    const width = Math.max(1, track.width.position);
+    const height = Math.max(1, track.height.position);
+    return {
+      x: track.centerX.position - width / 2,
+      y: track.centerY.position - height / 2,
+      width,
+      height
+    };
+  }
+
+  private toTrackedObject(track: Track, timestamp: number): TrackedObject {
+    return {
+      ...track.detection,
+      // Smoothed box from the filter
+      boundingBox: this.predictedBox(track),
+      trackId: track.id,
+      age: (timestamp - track.createdAt) / 1000,
+      hits: track.hits,
+      confirmed: track.hits >= this.minHits,
+      velocity: { x: track.centerX.velocity, y: track.centerY.velocity }
+    };
+  }
+}
+
+export default ObjectTracker;
@@ -0,0 +1,126 @@
+// Scripted scenario detection backend
+// Projects the actors of the playing scenario into the frame with the calibrated camera geometry
+import { DetectorBackend, DetectorCapabilities, DetectorFrame, DetectorStatus, RawDetection } from './DetectorBackend';
+import { KNOWN_CLASS_HEIGHTS, pixelForGroundPoint } from './distanceEstimation';
+import { DEFAULT_LANE_WIDTH } from './LaneDetector';
+import CameraCalibrationService from '../CameraCalibrationService';
+import ScenarioService, { ScenarioLane } from '../ScenarioService';
+import { LaneEstimate } from '@/types/detection';
+
+// Width in meters, and height above the road for things mounted on poles
+const CLASS_WIDTHS: Record<string, number> = {
+  'person': 0.5,
+  'pedestrian': 0.5,
+  'car': 1.8,
+  'truck': 2.5,
+  'bus': 2.5,
+  'motorcycle': 0.8,
+  'bicycle': 0.6,
+  'animal': 0.9,
+  'traffic light': 0.35,
+  'stop sign': 0.75,
+  'traffic sign': 0.6,
+  'pothole': 0.8
+};
+const CLASS_ELEVATIONS: Record<string, number> = {
+  'traffic light': 4.5,
+  'stop sign': 1.5,
+  'traffic sign': 2
+};
+
+class ScenarioDetector implements DetectorBackend {
+  readonly id = 'scenario';
+  readonly name = 'Scenario';
+  readonly capabilities: DetectorCapabilities = {
+    realInference: false,
+    emergencyVehicles: true,
+    classes: ['Car', 'Person', 'Truck', 'Bus', 'Traffic Light', 'Stop Sign', 'Traffic Sign', 'Bicycle', 'Motorcycle', 'Pothole', 'Animal']
+  };
+  status: DetectorStatus;
+  error: string | null;
+
+  constructor() {
+    // Nothing to load, the scenario service holds the scene
+    this.status = 'ready';
+    this.error = null;
+  }
+
+  async load() {
+    this.status = 'ready';
+    return true;
+  }
+
+  async infer(frame: DetectorFrame) {
+    const { width, height } = frame;
+    const calibration = CameraCalibrationService.getCalibration();
+    const focalPx = calibration.focalLength * height;
+    const detections: RawDetection[] = [];
+
+    ScenarioService.getActors().forEach(actor => {
+      const type = actor.class.toLowerCase();
+      const realWidth = CLASS_WIDTHS[type] ?? 1;
+      const realHeight = KNOWN_CLASS_HEIGHTS[type] ?? 0.5;
+      const elevation = CLASS_ELEVATIONS[type] ?? 0;
+
+      const ground = pixelForGroundPoint(actor.lateral, actor.distance, width, height, calibration);
+      const boxWidth = (realWidth * focalPx) / actor.distance;
+      const boxHeight = (realHeight * focalPx) / actor.distance;
+      const bottom = ground.row - (elevation * focalPx) / actor.distance;
+      const box = { x: ground.col - boxWidth / 2, y: bottom - boxHeight, width: boxWidth, height: boxHeight };
+
+      // Off to the side of the frame - the camera can't see it
+      if (box.x + box.width < 0 || box.x > width || box.y > height) return;
+
+      detections.push({
+        type: actor.class,
+        count: 1,
+        confidence: actor.confidence,
+        distance: actor.distance,
+        emergency: actor.emergency,
+        boundingBox: box,
+        ...(actor.lightState ? { lightState: actor.lightState } : {}),
+        ...(actor.signClass ? { signClass: actor.signClass } : {})
+      });
+    });
+
+    return detections;
+  }
+
+  dispose() {
+    // Stays ready; playback is owned by the scenario service
+  }
+}
+
+/**
+ * Lane estimate for a scripted lane position, on a lane of standard width
+ */
+export const scriptedLaneEstimate = (lane: ScenarioLane): LaneEstimate => {
+  const laneWidth = DEFAULT_LANE_WIDTH;
+  const offsetMeters = (lane.offset / 100) * laneWidth;
+  const curvature = lane.curveRadius ? (lane.curveDirection === 'Left' ? -1 : 1) / lane.curveRadius : 0;
+  const line = (c: number) => ({
+    coefficients: [curvature / 2, 0, c] as [number, number, number],
+    minDistance: 3,
+    maxDistance: 40,
+    pointCount: 0
+  });
+
+  return {
+    left: line(-laneWidth / 2 - offsetMeters),
+    right: line(laneWidth / 2 - offsetMeters),
+    leftLineDetected: true,
+    rightLineDetected: true,
+    laneWidth,
+    curvature,
+    curveRadius: lane.curveRadius,
+    heading: 0,
+    leftLineType: { style: 'dashed', color: 'white' },
+    rightLineType: { style: 'solid', color: 'white' },
+    offset: lane.offset,
+    offsetMeters,
+    direction: lane.offset > 10 ? 'Right' : lane.offset < -10 ? 'Left' : 'Center',
+    confidence: 1
+  };
+};
+
+export default ScenarioDetector;
@@ -0,0 +1,301 @@
+// Traffic sign recognition on sign crops
+// A small TensorFlow.js classifier names each sign the detector boxes, and the result is smoothed per track.
+// Without the model, signs keep whatever class the detector or simulator already gave them.
+import type { Tensor2D } from '@tensorflow/tfjs-core';
+import type { GraphModel } from '@tensorflow/tfjs-converter';
+import { TrackedObject } from './ObjectTracker';
+import { DetectorStatus } from './DetectorBackend';
+import { GTSRB_CLASS_ORDER, SignClass, getSignClass, isTrafficSignType, signClassForLabel } from './signTaxonomy';
+
+type TfCore = typeof import('@tensorflow/tfjs-core');
+
+// Model files are served from public/models/signs; labels.json optionally lists taxonomy ids in output order
+export const SIGN_MODEL_URL = '/models/signs/model.json';
+export const SIGN_LABELS_URL = '/models/signs/labels.json';
+
+// Square RGB input the classifier was trained on
+const INPUT_SIZE = 32;
+
+// Boxes smaller than this (in frame pixels) are too blurry to read
+const MIN_CROP_SIZE = 12;
+
+// Classify at most this many sign crops per frame, closest first
+const MAX_CROPS_PER_FRAME = 4;
+
+// Exponential smoothing of per-class scores; a class needs this score to count as read
+const SCORE_DECAY = 0.6;
+export const MIN_SIGN_CONFIDENCE = 0.7;
+
+// Once a track is this sure it is not classified again
+const SETTLED_CONFIDENCE = 0.95;
+
+const TRACK_TIMEOUT_MS = 2000;
+
+export interface SignReading {
+  trackId: number;
+  sign: SignClass;
+  confidence: number;
+  distance: number;
+  timestamp: number;
+}
+
+interface SignTrack {
+  scores: Map<string, number>;
+  signId: string | null;
+  confidence: number;
+  lastSeen: number;
+  reported: boolean;
+}
+
+interface SignMeasurement {
+  signId: string;
+  probability: number;
+}
+
+const softmax = (values: number[]) => {
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+};
+
+class SignClassifier {
+  status: DetectorStatus;
+  error: string | null;
+  private tf: TfCore | null;
+  private model: GraphModel | null;
+  private labels: string[];
+  private loadingPromise: Promise<boolean> | null;
+  private tracks: Map<number, SignTrack>;
+
+  constructor() {
+    this.status = 'idle';
+    this.error = null;
+    this.tf = null;
+    this.model = null;
+    this.labels = GTSRB_CLASS_ORDER;
+    this.loadingPromise = null;
+    this.tracks = new Map();
+  }
+
+  /**
+   * Load TensorFlow.js with the CPU backend and the sign classifier
+   * Resolves to false when the model is missing; signs then keep their detector labels
+   */
+  load(): Promise<boolean> {
+    if (this.model) return Promise.resolve(true);
+    if (this.loadingPromise) return this.loadingPromise;
+
+    this.status = 'loading';
+    this.error = null;
+
+    this.loadingPromise = (async () => {
+      try {
+        const tf = await import('@tensorflow/tfjs-core');
+        await import('@tensorflow/tfjs-backend-cpu');
+        const { loadGraphModel } = await import('@tensorflow/tfjs-converter');
+
+        await tf.setBackend('cpu');
+        await tf.ready();
+
+        const model = await loadGraphModel(SIGN_MODEL_URL);
+        this.labels = await this.loadLabels();
+
+        // Warm up once so the first sign doesn't stall a frame
+        const warmup = tf.zeros([1, INPUT_SIZE, INPUT_SIZE, 3]);
+        const warmupResult = model.execute(warmup);
+        tf.dispose([warmup, warmupResult]);
+
+        this.tf = tf;
+        this.model = model;
+        this.status = 'ready';
+        return true;
+      } catch (error) {
+        console.warn(`Sign classifier unavailable at ${SIGN_MODEL_URL}, using detector labels:`, error);
+        this.model = null;
+        this.status = 'error';
+        this.error = error instanceof Error ? error.message : String(error);
+        return false;
+      } finally {
+        this.loadingPromise = null;
+      }
+    })();
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * Classify every traffic sign in the frame and set its smoothed signClass
+   * @param frame Canvas holding the video frame, without overlays
+   * @param objects Tracked objects of the frame; signs are updated in place
+   * @param now Frame timestamp in milliseconds
+   * @returns Signs read with confidence for the first time
+   */
+  update(frame: HTMLCanvasElement, objects: TrackedObject[], now: number): SignReading[] {
+    const readings: SignReading[] = [];
+    const signs = objects.filter(obj => isTrafficSignType(obj.type));
+    if (signs.length === 0) {
+      this.forgetStaleTracks(now);
+      return readings;
+    }
+
+    const measurements = this.measure(frame, signs);
+
+    signs.forEach(obj => {
+      const track = this.tracks.get(obj.trackId) || {
+        scores: new Map<string, number>(),
+        signId: null,
+        confidence: 0,
+        lastSeen: now,
+        reported: false
+      };
+
+      const measured = measurements.get(obj.trackId);
+      if (measured) {
+        track.scores.forEach((score, signId) => track.scores.set(signId, score * SCORE_DECAY));
+        const previous = track.scores.get(measured.signId) || 0;
+        track.scores.set(measured.signId, previous + (1 - SCORE_DECAY) * measured.probability);
+
+        let best: string | null = null;
+        let bestScore = 0;
+        for (const [signId, score] of track.scores) {
+          if (score > bestScore) {
+            best = signId;
+            bestScore = score;
+          }
+        }
+
+        // A different sign in the same track (e.g. a new class winning) has to be read again
+        if (best !== track.signId) track.reported = false;
+        track.signId = best;
+        track.confidence = bestScore;
+      }
+
+      const sign = getSignClass(track.signId);
+      if (sign && track.confidence >= MIN_SIGN_CONFIDENCE && !track.reported) {
+        readings.push({ trackId: obj.trackId, sign, confidence: track.confidence, distance: obj.distance, timestamp: now });
+        track.reported = true;
+      }
+
+      track.lastSeen = now;
+      this.tracks.set(obj.trackId, track);
+      if (sign && track.confidence >= MIN_SIGN_CONFIDENCE) {
+        obj.signClass = sign.id;
+      }
+    });
+
+    this.forgetStaleTracks(now);
+    return readings;
+  }
+
+  /**
+   * Forget all sign tracks, e.g. when the tracker is reset
+   */
+  reset() {
+    this.tracks.clear();
+  }
+
+  /**
+   * Get one class measurement per sign that still needs reading
+   */
+  private measure(frame: HTMLCanvasElement, signs: TrackedObject[]) {
+    const measurements = new Map<number, SignMeasurement>();
+    const toClassify: TrackedObject[] = [];
+
+    signs.forEach(obj => {
+      // Authored classes and taxonomy labels from the detector need no model
+      const known = getSignClass(obj.signClass) || signClassForLabel(obj.type);
+      if (known) {
+        measurements.set(obj.trackId, { signId: known.id, probability: 1 });
+        return;
+      }
+
+      const track = this.tracks.get(obj.trackId);
+      const settled = track && track.confidence >= SETTLED_CONFIDENCE;
+      const { width, height } = obj.boundingBox;
+      if (!settled && width >= MIN_CROP_SIZE && height >= MIN_CROP_SIZE) {
+        toClassify.push(obj);
+      }
+    });
+
+    if (this.model && this.tf && toClassify.length > 0) {
+      const batch = toClassify
+        .sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity))
+        .slice(0, MAX_CROPS_PER_FRAME);
+      this.classifyCrops(this.tf, this.model, frame, batch).forEach((measurement, index) => {
+        if (measurement) measurements.set(batch[index].trackId, measurement);
+      });
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Run the classifier on a batch of sign boxes cut out of the frame
+   */
+  private classifyCrops(tf: TfCore, model: GraphModel, frame: HTMLCanvasElement, signs: TrackedObject[]) {
+    const output = tf.tidy(() => {
+      const pixels = tf.div(tf.browser.fromPixels(frame), 255);
+      // cropAndResize takes [y1, x1, y2, x2] normalized to the frame
+      const boxes = tf.tensor2d(signs.map(obj => {
+        const { x, y, width, height } = obj.boundingBox;
+        return [y / frame.height, x / frame.width, (y + height) / frame.height, (x + width) / frame.width];
+      }));
+      const crops = tf.image.cropAndResize(
+        tf.expandDims(pixels, 0) as Parameters<typeof tf.image.cropAndResize>[0],
+        boxes,
+        tf.zeros([signs.length], 'int32'),
+        [INPUT_SIZE, INPUT_SIZE]
+      );
+      return model.execute(crops) as Tensor2D;
+    });
+
+    try {
+      const [rows, classes] = output.shape;
+      const data = output.dataSync();
+      const results: (SignMeasurement | null)[] = [];
+      for (let row = 0; row < rows; row++) {
+        const scores = Array.from(data.subarray(row * classes, (row + 1) * classes));
+        // Accept logits as well as softmax outputs
+        const sum = scores.reduce((total, score) => total + score, 0);
+        const probabilities = Math.abs(sum - 1) < 1e-3 && scores.every(score => score >= 0)
+          ? scores
+          : softmax(scores);
+
+        let bestIndex = 0;
+        probabilities.forEach((probability, index) => {
+          if (probability > probabilities[bestIndex]) bestIndex = index;
+        });
+        const signId = this.labels[bestIndex];
+        results.push(getSignClass(signId) ? { signId, probability: probabilities[bestIndex] } : null);
+      }
+      return results;
+    } finally {
+      output.dispose();
+    }
+  }
+
+  /**
+   * Read the label list shipped with the model, falling back to the GTSRB order
+   */
+  private async loadLabels() {
+    try {
+      const response = await fetch(SIGN_LABELS_URL);
+      if (!response.ok) return GTSRB_CLASS_ORDER;
+      const labels = await response.json();
+      return Array.isArray(labels) && labels.every(label => typeof label === 'string') ? labels : GTSRB_CLASS_ORDER;
+    } catch {
+      return GTSRB_CLASS_ORDER;
+    }
+  }
+
+  private forgetStaleTracks(now: number) {
+    this.tracks.forEach((track, trackId) => {
+      if (now - track.lastSeen > TRACK_TIMEOUT_MS) {
+        this.tracks.delete(trackId);
+      }
+    });
+  }
+}
+
+export default SignClassifier;
@@ -0,0 +1,291 @@
+// Simulated detection backend
+// Produces plausible road-scene detections without looking at frame pixels
+// Objects persist across frames and move: each one has a distance and a closing speed, and its box
+// follows from those in a simple perspective model, so tracks keep their ids and velocities mean something
+import { DetectorBackend, DetectorCapabilities, DetectorFrame, DetectorStatus, RawDetection } from './DetectorBackend';
+import SimulationService, { RandomStream } from '../SimulationService';
+
+// Signs posted along the simulated road, one per stretch so a sign track keeps its class
+const SIMULATED_SIGNS = [
+  'speed_limit_50', 'no_overtaking', 'speed_limit_80', 'school_zone', 'speed_limit_30',
+  'yield', 'end_all_limits', 'speed_limit_100', 'no_entry', 'road_work'
+];
+const SIGN_STRETCH_MS = 20000;
+
+// Where the road vanishes, as fractions of the frame; boxes grow away from it as objects come closer
+const VANISHING_X = 0.5;
+const VANISHING_Y = 0.45;
+
+// Longest step simulated at once, so a stalled tab doesn't teleport every object
+const MAX_STEP_SECONDS = 0.5;
+
+// A box as fractions of the frame size
+interface FrameBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface SimulatedKind {
+  type: string;
+  spawnRate: number; // new objects per second
+  maxCount: number; // at most this many at once
+  box: (random: RandomStream) => FrameBox;
+  distance: (random: RandomStream) => number; // meters when first seen
+  closingSpeed: (random: RandomStream) => number; // m/s, positive when getting closer
+  drift: (random: RandomStream) => number; // own sideways motion, frame widths per second
+  confidenceRange: [number, number];
+}
+
+interface SimulatedActor {
+  kind: SimulatedKind;
+  box: FrameBox;
+  distance: number;
+  closingSpeed: number;
+  drift: number;
+  confidence: number;
+  emergency: boolean;
+  signClass?: string;
+  expiresAt: number; // simulation ms
+}
+
+const side = (random: RandomStream, left: number, right: number) => random.next() > 0.5 ? left : right;
+
+// Roadside objects stand still, so they come closer at about our own speed
+const egoSpeed = (random: RandomStream) => random.range(10, 16);
+const noDrift = () => 0;
+
+const SIMULATED_KINDS: SimulatedKind[] = [
+  { type: "Car",
+    spawnRate: 0.6,
+    maxCount: 3,
+    box: random => ({ x: 0.3 + random.next() * 0.4, y: 0.5 + random.next() * 0.2, w: 0.1 + random.next() * 0.08, h: 0.05 + random.next() * 0.04 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: random => random.range(-3, 4), // traffic ahead, a little faster or slower than us
+    drift: random => random.range(-0.01, 0.01),
+    confidenceRange: [0.65, 0.98] // Most cars are detected with high confidence
+  },
+  { type: "Person",
+    spawnRate: 0.15,
+    maxCount: 1,
+    box: random => ({ x: side(random, 0.05, 0.85), y: 0.5 + random.next() * 0.3, w: 0.03, h: 0.1 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: random => random.range(-0.03, 0.03),
+    confidenceRange: [0.4, 0.95] // People can be harder to detect
+  },
+  { type: "Truck",
+    spawnRate: 0.1,
+    maxCount: 1,
+    box: random => ({ x: 0.3 + random.next() * 0.4, y: 0.4 + random.next() * 0.2, w: 0.15 + random.next() * 0.08, h: 0.08 + random.next() * 0.05 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: random => random.range(-2, 3),
+    drift: random => random.range(-0.005, 0.005),
+    confidenceRange: [0.7, 0.95] // Trucks are easy to detect
+  },
+  { type: "Traffic Light",
+    spawnRate: 0.2,
+    maxCount: 1,
+    box: random => ({ x: side(random, 0.1, 0.85), y: 0.2 + random.next() * 0.2, w: 0.03, h: 0.05 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: noDrift,
+    confidenceRange: [0.3, 0.85] // Traffic lights can be harder to detect
+  },
+  { type: "Stop Sign",
+    spawnRate: 0.08,
+    maxCount: 1,
+    box: random => ({ x: side(random, 0.15, 0.8), y: 0.25 + random.next() * 0.1, w: 0.04, h: 0.04 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: noDrift,
+    confidenceRange: [0.4, 0.9] // Stop signs medium difficulty
+  },
+  { type: "Traffic Sign",
+    spawnRate: 0.15,
+    maxCount: 1,
+    box: random => ({ x: 0.82 + random.next() * 0.05, y: 0.25 + random.next() * 0.1, w: 0.04, h: 0.07 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: noDrift,
+    confidenceRange: [0.5, 0.9] // Signs are distinctive but small
+  },
+  { type: "Bicycle",
+    spawnRate: 0.1,
+    maxCount: 1,
+    box: random => ({ x: side(random, 0.1, 0.85), y: 0.6 + random.next() * 0.2, w: 0.04, h: 0.07 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: random => random.range(6, 12), // riding our way, slower than us
+    drift: random => random.range(-0.01, 0.01),
+    confidenceRange: [0.3, 0.8] // Bicycles can be hard to detect
+  },
+  // Car behind for collision detection
+  { type: "Car Behind",
+    spawnRate: 0.3,
+    maxCount: 1,
+    box: random => ({ x: 0.4 + random.next() * 0.2, y: 0.85 + random.next() * 0.1, w: 0.15 + random.next() * 0.05, h: 0.08 + random.next() * 0.03 }),
+    distance: random => random.range(5, 45),
+    closingSpeed: random => random.range(-1, 1),
+    drift: random => random.range(-0.005, 0.005),
+    confidenceRange: [0.5, 0.9] // Cars behind medium difficulty
+  },
+  // Low-confidence object types for testing the threshold
+  { type: "Pothole",
+    spawnRate: 0.08,
+    maxCount: 1,
+    box: random => ({ x: 0.3 + random.next() * 0.4, y: 0.7 + random.next() * 0.2, w: 0.05, h: 0.05 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: noDrift,
+    confidenceRange: [0.1, 0.4] // Potholes are hard to detect
+  },
+  { type: "Animal",
+    spawnRate: 0.05,
+    maxCount: 1,
+    box: random => ({ x: side(random, 0.1, 0.9), y: 0.6 + random.next() * 0.2, w: 0.04, h: 0.03 }),
+    distance: random => random.range(50, 100),
+    closingSpeed: egoSpeed,
+    drift: random => random.range(-0.04, 0.04),
+    confidenceRange: [0.2, 0.6] // Animals are hard to detect
+  }
+];
+
+class SimulatedDetector implements DetectorBackend {
+  readonly id = 'simulated';
+  readonly name = 'Simulated';
+  readonly capabilities: DetectorCapabilities = {
+    realInference: false,
+    emergencyVehicles: true,
+    classes: ['Car', 'Person', 'Truck', 'Traffic Light', 'Stop Sign', 'Traffic Sign', 'Bicycle', 'Pothole', 'Animal']
+  };
+  status: DetectorStatus;
+  error: string | null;
+  private actors: SimulatedActor[];
+  private lastStepTime: number | null;
+
+  constructor() {
+    this.status = 'idle';
+    this.error = null;
+    this.actors = [];
+    this.lastStepTime = null;
+
+    // A restarted session starts from an empty road, like the first one did
+    SimulationService.subscribe(() => this.reset());
+  }
+
+  async load() {
+    this.status = 'ready';
+    return true;
+  }
+
+  async infer(frame: DetectorFrame) {
+    return this.generateRealisticObjects(frame.width, frame.height);
+  }
+
+  dispose() {
+    this.reset();
+    this.status = 'idle';
+  }
+
+  /**
+   * Clear the road
+   */
+  reset() {
+    this.actors = [];
+    this.lastStepTime = null;
+  }
+
+  /**
+   * Move the simulated objects on to the current simulation time and report them
+   * Objects come and go at random, and their confidence varies a little from frame to frame
+   */
+  generateRealisticObjects(width: number, height: number) {
+    // Draw from the seedable simulation stream so seeded sessions see the same scene
+    const random = SimulationService.stream('detector');
+    const now = SimulationService.now();
+    const dt = this.lastStepTime === null ? 0 : Math.min(MAX_STEP_SECONDS, Math.max(0, (now - this.lastStepTime) / 1000));
+    this.lastStepTime = now;
+
+    this.actors.forEach(actor => this.move(actor, dt));
+    this.actors = this.actors.filter(actor => this.isInView(actor, now));
+
+    SIMULATED_KINDS.forEach(kind => {
+      const count = this.actors.filter(actor => actor.kind === kind).length;
+      // The first frame gets a scene to start from rather than an empty road
+      const spawnChance = dt === 0 ? kind.spawnRate * 2 : kind.spawnRate * dt;
+      if (count < kind.maxCount && random.chance(spawnChance)) {
+        this.actors.push(this.spawn(kind, random, now));
+      }
+    });
+
+    return this.actors.map(actor => {
+      const [confidenceMin, confidenceMax] = actor.kind.confidenceRange;
+      const confidence = Math.min(confidenceMax, Math.max(confidenceMin, actor.confidence + random.range(-0.05, 0.05)));
+      const detection: RawDetection = {
+        type: actor.kind.type === "Car Behind" ? "Car" : actor.kind.type, // Normalize the type
+        count: 1,
+        confidence,
+        distance: actor.distance,
+        emergency: actor.emergency,
+        signClass: actor.signClass,
+        boundingBox: {
+          x: actor.box.x * width,
+          y: actor.box.y * height,
+          width: actor.box.w * width,
+          height: actor.box.h * height
+        }
+      };
+      return detection;
+    });
+  }
+
+  private spawn(kind: SimulatedKind, random: RandomStream, now: number): SimulatedActor {
+    const [confidenceMin, confidenceMax] = kind.confidenceRange;
+    return {
+      kind,
+      box: kind.box(random),
+      distance: kind.distance(random),
+      closingSpeed: kind.closingSpeed(random),
+      drift: kind.drift(random),
+      confidence: confidenceMin + random.next() * (confidenceMax - confidenceMin),
+      // Emergency vehicles are rare
+      emergency: (kind.type === "Car" || kind.type === "Truck") && random.next() > 0.95,
+      signClass: kind.type === "Traffic Sign"
+        ? SIMULATED_SIGNS[Math.floor(now / SIGN_STRETCH_MS) % SIMULATED_SIGNS.length]
+        : undefined,
+      expiresAt: now + random.range(4000, 15000)
+    };
+  }
+
+  /**
+   * Advance an object by dt seconds; its box scales with 1 / distance away from the vanishing point
+   */
+  private move(actor: SimulatedActor, dt: number) {
+    const distance = Math.max(1, actor.distance - actor.closingSpeed * dt);
+    const scale = actor.distance / distance;
+    actor.distance = distance;
+
+    const { box } = actor;
+    const centerX = VANISHING_X + (box.x + box.w / 2 - VANISHING_X) * scale + actor.drift * dt;
+    const bottom = VANISHING_Y + (box.y + box.h - VANISHING_Y) * scale;
+    box.w *= scale;
+    box.h *= scale;
+    box.x = centerX - box.w / 2;
+    box.y = bottom - box.h;
+  }
+
+  /**
+   * Objects leave once passed, too far ahead, out of the frame or simply out of sight
+   */
+  private isInView(actor: SimulatedActor, now: number) {
+    const { box } = actor;
+    return now < actor.expiresAt
+      && actor.distance > 3 && actor.distance < 150
+      && box.x + box.w > 0 && box.x < 1
+      && box.y + box.h > 0 && box.y < 1
+      && box.h < 0.6;
+  }
+}
+
+export default SimulatedDetector;
@@ -0,0 +1,262 @@
+// Traffic light state classification
+// Looks at the lit lamp color inside each traffic light box and smooths the result per track,
+// then reports state changes the driver should hear about
+import { TrafficLightState } from '@/types/navigation';
+import { TrackedObject } from './ObjectTracker';
+
+export type TrafficLightEventType = 'turned_green' | 'red_ahead_at_speed';
+
+export interface TrafficLightEvent {
+  type: TrafficLightEventType;
+  trackId: number;
+  distance: number;
+  timestamp: number;
+}
+
+type LampColor = Exclude<TrafficLightState, 'unknown'>;
+
+// Lit lamps are bright and saturated; hue ranges in degrees
+const MIN_LAMP_VALUE = 150;
+const MIN_LAMP_SATURATION = 0.4;
+const HUE_RANGES: Record<LampColor, [number, number][]> = {
+  red: [[0, 15], [340, 360]],
+  amber: [[15, 50]],
+  green: [[90, 200]] // signal green is bluish
+};
+
+// Share of the box that has to be lit for a confident reading
+const MIN_LIT_FRACTION = 0.02;
+const MIN_LIT_PIXELS = 4;
+
+// Crops are sampled down to at most this many pixels on the long side
+const MAX_CROP_SIZE = 48;
+
+// Exponential smoothing of per-state scores; a state needs this score to be reported
+const SCORE_DECAY = 0.7;
+const STATE_THRESHOLD = 0.5;
+
+// Red light alert: only when we are fast and close enough that it matters
+const RED_ALERT_MIN_SPEED = 30; // km/h
+const RED_ALERT_MAX_DISTANCE = 80; // meters
+
+const TRACK_TIMEOUT_MS = 2000;
+
+interface LightTrack {
+  scores: Record<LampColor, number>;
+  state: TrafficLightState;
+  lastSeen: number;
+  redAlerted: boolean;
+}
+
+const isTrafficLight = (type: string) => type.toLowerCase() === 'traffic light';
+
+const hueOf = (r: number, g: number, b: number, max: number, min: number) => {
+  const delta = max - min;
+  if (delta === 0) return 0;
+  let hue;
+  if (max === r) {
+    hue = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+  hue *= 60;
+  return hue < 0 ? hue + 360 : hue;
+};
+
+/**
+ * Classify a single traffic light crop by its lit lamp
+ * Vertical lights get a bonus when the color sits where that lamp is mounted (red top, green bottom)
+ */
+export const classifyLightCrop = (data: Uint8ClampedArray, width: number, height: number): TrafficLightState => {
+  const counts: Record<LampColor, number> = { red: 0, amber: 0, green: 0 };
+  const vertical = height > width * 1.5;
+  const expectedBand: Record<LampColor, number> = { red: 0, amber: 1, green: 2 };
+
+  for (let row = 0; row < height; row++) {
+    const band = Math.min(2, Math.floor((row / height) * 3));
+    for (let col = 0; col < width; col++) {
+      const index = (row * width + col) * 4;
+      const r = data[index];
+      const g = data[index + 1];
+      const b = data[index + 2];
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      if (max < MIN_LAMP_VALUE || (max - min) / max < MIN_LAMP_SATURATION) continue;
+
+      const hue = hueOf(r, g, b, max, min);
+      (Object.keys(HUE_RANGES) as LampColor[]).forEach(color => {
+        if (HUE_RANGES[color].some(([low, high]) => hue >= low && hue < high)) {
+          counts[color] += vertical && band === expectedBand[color] ? 1.5 : 1;
+        }
+      });
+    }
+  }
+
+  let best: LampColor | null = null;
+  (Object.keys(counts) as LampColor[]).forEach(color => {
+    if (!best || counts[color] > counts[best]) best = color;
+  });
+
+  const lit = best ? counts[best] : 0;
+  if (!best || lit < MIN_LIT_PIXELS || lit < width * height * MIN_LIT_FRACTION) {
+    return 'unknown';
+  }
+  return best;
+};
+
+class TrafficLightClassifier {
+  private tracks: Map<number, LightTrack>;
+  private cropCanvas: HTMLCanvasElement | null;
+  private cropContext: CanvasRenderingContext2D | null;
+
+  constructor() {
+    this.tracks = new Map();
+    this.cropCanvas = null;
+    this.cropContext = null;
+  }
+
+  /**
+   * Classify every traffic light in the frame and set its smoothed lightState
+   * @param frame Canvas holding the video frame, without overlays
+   * @param objects Tracked objects of the frame; traffic lights are updated in place
+   * @param now Frame timestamp in milliseconds
+   * @param egoSpeed Our own speed in km/h, or null when unknown
+   * @returns Events worth alerting the driver about
+   */
+  update(frame: HTMLCanvasElement, objects: TrackedObject[], now: number, egoSpeed: number | null): TrafficLightEvent[] {
+    const events: TrafficLightEvent[] = [];
+
+    objects.filter(obj => isTrafficLight(obj.type)).forEach(obj => {
+      // Authored states (e.g. from the simulator) go through the same smoothing as measured ones
+      const measured = obj.lightState || this.classifyBox(frame, obj.boundingBox);
+
+      const track = this.tracks.get(obj.trackId) || {
+        scores: { red: 0, amber: 0, green: 0 },
+        state: 'unknown' as TrafficLightState,
+        lastSeen: now,
+        redAlerted: false
+      };
+
+      (Object.keys(track.scores) as LampColor[]).forEach(color => {
+        track.scores[color] = track.scores[color] * SCORE_DECAY + (measured === color ? 1 - SCORE_DECAY : 0);
+      });
+
+      let next: TrafficLightState = 'unknown';
+      (Object.keys(track.scores) as LampColor[]).forEach(color => {
+        if (track.scores[color] >= STATE_THRESHOLD && (next === 'unknown' || track.scores[color] > track.scores[next])) {
+          next = color;
+        }
+      });
+      // Keep the last confident state through brief occlusions or flicker
+      if (next === 'unknown' && track.state !== 'unknown' && Math.max(...Object.values(track.scores)) > 0.2) {
+        next = track.state;
+      }
+
+      this.advanceTrack(obj, track, next, now, egoSpeed, events);
+    });
+
+    this.forgetStaleTracks(now);
+    return events;
+  }
+
+  /**
+   * Report events for lights whose smoothed state is already known, e.g. from a recorded log
+   * @param objects Tracked objects of the frame, with lightState as it was reported
+   * @param now Frame timestamp in milliseconds
+   * @param egoSpeed Our own speed in km/h, or null when unknown
+   */
+  replay(objects: TrackedObject[], now: number, egoSpeed: number | null): TrafficLightEvent[] {
+    const events: TrafficLightEvent[] = [];
+
+    objects.filter(obj => isTrafficLight(obj.type)).forEach(obj => {
+      const track = this.tracks.get(obj.trackId) || {
+        scores: { red: 0, amber: 0, green: 0 },
+        state: 'unknown' as TrafficLightState,
+        lastSeen: now,
+        redAlerted: false
+      };
+      this.advanceTrack(obj, track, obj.lightState || 'unknown', now, egoSpeed, events);
+    });
+
+    this.forgetStaleTracks(now);
+    return events;
+  }
+
+  /**
+   * Move a light track to its next smoothed state, collecting the events that causes
+   */
+  private advanceTrack(
+    obj: TrackedObject,
+    track: LightTrack,
+    next: TrafficLightState,
+    now: number,
+    egoSpeed: number | null,
+    events: TrafficLightEvent[]
+  ) {
+    if (next === 'green' && (track.state === 'red' || track.state === 'amber')) {
+      events.push({ type: 'turned_green', trackId: obj.trackId, distance: obj.distance, timestamp: now });
+    }
+
+    if (next === 'red') {
+      const fast = egoSpeed !== null && egoSpeed >= RED_ALERT_MIN_SPEED;
+      const close = obj.distance > 0 && obj.distance <= RED_ALERT_MAX_DISTANCE;
+      if (fast && close && !track.redAlerted) {
+        events.push({ type: 'red_ahead_at_speed', trackId: obj.trackId, distance: obj.distance, timestamp: now });
+        track.redAlerted = true;
+      }
+    } else {
+      track.redAlerted = false;
+    }
+
+    track.state = next;
+    track.lastSeen = now;
+    this.tracks.set(obj.trackId, track);
+    obj.lightState = next;
+  }
+
+  /**
+   * Forget lights that left the view
+   */
+  private forgetStaleTracks(now: number) {
+    this.tracks.forEach((track, trackId) => {
+      if (now - track.lastSeen > TRACK_TIMEOUT_MS) {
+        this.tracks.delete(trackId);
+      }
+    });
+  }
+
+  /**
+   * Forget all light tracks, e.g. when the tracker is reset
+   */
+  reset() {
+    this.tracks.clear();
+  }
+
+  private classifyBox(frame: HTMLCanvasElement, box: TrackedObject['boundingBox']): TrafficLightState {
+    const x = Math.max(0, Math.floor(box.x));
+    const y = Math.max(0, Math.floor(box.y));
+    const width = Math.min(frame.width - x, Math.ceil(box.width));
+    const height = Math.min(frame.height - y, Math.ceil(box.height));
+    if (width < 2 || height < 2) return 'unknown';
+
+    if (!this.cropCanvas) {
+      this.cropCanvas = document.createElement('canvas');
+      this.cropContext = this.cropCanvas.getContext('2d', { willReadFrequently: true });
+    }
+    if (!this.cropContext) return 'unknown';
+
+    const scale = Math.min(1, MAX_CROP_SIZE / Math.max(width, height));
+    const cropWidth = Math.max(1, Math.round(width * scale));
+    const cropHeight = Math.max(1, Math.round(height * scale));
+    this.cropCanvas.width = cropWidth;
+    this.cropCanvas.height = cropHeight;
+    this.cropContext.drawImage(frame, x, y, width, height, 0, 0, cropWidth, cropHeight);
+
+    const data = this.cropContext.getImageData(0, 0, cropWidth, cropHeight).data;
+    return classifyLightCrop(data, cropWidth, cropHeight);
+  }
+}
+
+export default TrafficLightClassifier;
@@ -0,0 +1,121 @@
+// Runs a detection backend inside the detection worker
+// Falls back to running the same backend on the main thread when workers are unavailable
+import { DetectorBackend, DetectorCapabilities, DetectorFrame, DetectorInferOptions, DetectorStatus, RawDetection } from './DetectorBackend';
+import DetectionWorkerClient from './DetectionWorkerClient';
+import { enhanceFrame, EnhancementSettings } from './framePreprocessing';
+
+/**
+ * Enhanced copy of a frame, for the main-thread fallback; the frame itself is left untouched
+ */
+const enhancedCopy = (frame: DetectorFrame, settings: EnhancementSettings) => {
+  let image: ImageData;
+  if (frame instanceof ImageData) {
+    image = new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height);
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return frame;
+    context.drawImage(frame, 0, 0);
+    image = context.getImageData(0, 0, frame.width, frame.height);
+  }
+  enhanceFrame(image, settings);
+  return image;
+};
+
+class WorkerDetector implements DetectorBackend {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: DetectorCapabilities;
+  status: DetectorStatus;
+  error: string | null;
+  private local: DetectorBackend;
+  private useWorker: boolean;
+
+  /**
+   * @param local - Backend instance used when the worker can't be
+   */
+  constructor(local: DetectorBackend) {
+    this.local = local;
+    this.id = local.id;
+    this.name = local.name;
+    this.capabilities = local.capabilities;
+    this.status = 'idle';
+    this.error = null;
+    this.useWorker = false;
+  }
+
+  /**
+   * Where inference currently runs
+   */
+  getExecutionMode() {
+    return this.useWorker ? 'worker' : 'main';
+  }
+
+  async load() {
+    this.status = 'loading';
+    this.error = null;
+
+    if (DetectionWorkerClient.isSupported()) {
+      try {
+        const response = await DetectionWorkerClient.request({ type: 'load', backendId: this.id });
+        if (response.type === 'loaded') {
+          this.useWorker = response.ok;
+          this.status = response.ok ? 'ready' : 'error';
+          this.error = response.error;
+          return response.ok;
+        }
+      } catch (err) {
+        console.warn(`Detection worker unavailable for ${this.name}, using main thread:`, err);
+      }
+    }
+
+    // Main-thread fallback
+    this.useWorker = false;
+    const ok = await this.local.load();
+    this.status = this.local.status;
+    this.error = this.local.error;
+    return ok;
+  }
+
+  async infer(frame: DetectorFrame, options: DetectorInferOptions = {}): Promise<RawDetection[]> {
+    const enhancement = options.enhancement ?? null;
+    if (!this.useWorker) {
+      return this.local.infer(enhancement ? enhancedCopy(frame, enhancement) : frame);
+    }
+
+    // Transfer the frame as an ImageBitmap so no pixel copy happens on postMessage
+    const bitmap = await createImageBitmap(frame);
+    try {
+      const response = await DetectionWorkerClient.request(
+        { type: 'infer', backendId: this.id, frame: bitmap, enhancement },
+        [bitmap]
+      );
+      if (response.type === 'result') return response.objects;
+      throw new Error(response.type === 'error' ? response.error : `Unexpected worker response "${response.type}"`);
+    } catch (err) {
+      if (!DetectionWorkerClient.isSupported()) {
+        // Worker died mid-session - reload on the main thread for the next frames
+        console.warn(`Detection worker lost, moving ${this.name} to main thread`);
+        this.useWorker = false;
+        this.status = 'loading';
+        this.load();
+      }
+      throw err;
+    }
+  }
+
+  dispose() {
+    if (this.useWorker) {
+      DetectionWorkerClient.request({ type: 'dispose', backendId: this.id }).catch(() => {
+        // Worker already gone, nothing to free
+      });
+    }
+    this.local.dispose();
+    this.useWorker = false;
+    this.status = 'idle';
+  }
+}
+
+export default WorkerDetector;
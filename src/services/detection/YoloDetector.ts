@@ -0,0 +1,264 @@
+// Real in-browser object detection using a YOLO-style graph model
+// The model runs through TensorFlow.js on the CPU backend so it works everywhere,
+// including environments without WebGL
+import type { Tensor, Tensor1D, Tensor2D, Rank } from '@tensorflow/tfjs-core';
+import type { GraphModel } from '@tensorflow/tfjs-converter';
+import { DetectorBackend, DetectorCapabilities, DetectorFrame, DetectorStatus, RawDetection } from './DetectorBackend';
+
+type TfCore = typeof import('@tensorflow/tfjs-core');
+
+// Model files are served from public/models/yolo (model.json + weight shards)
+export const YOLO_MODEL_URL = '/models/yolo/model.json';
+
+// Square input resolution the model was exported with
+const INPUT_SIZE = 640;
+
+// Grey padding value used by the YOLO letterbox preprocessing (114 / 255)
+const LETTERBOX_FILL = 114 / 255;
+
+// COCO class list, in the order used by the exported model
+export const COCO_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+  'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat',
+  'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack',
+  'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball',
+  'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket',
+  'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple',
+  'sandwich', 'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair',
+  'couch', 'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse',
+  'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
+  'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier',
+  'toothbrush'
+];
+
+// Map COCO names onto the object types the rest of the app already understands
+const ANIMAL_CLASSES = ['bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe'];
+
+export const toDisplayType = (className: string): string => {
+  if (ANIMAL_CLASSES.includes(className)) return 'Animal';
+  return className
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+/**
+ * Whether the model is actually served; the dev server answers missing files with the app's index.html
+ */
+const isModelServed = async (modelUrl: string) => {
+  try {
+    const response = await fetch(modelUrl, { method: 'HEAD' });
+    return response.ok && (response.headers.get('content-type') || '').includes('json');
+  } catch {
+    return false;
+  }
+};
+
+class YoloDetector implements DetectorBackend {
+  readonly id = 'yolo';
+  readonly name = 'YOLO (TensorFlow.js CPU)';
+  readonly capabilities: DetectorCapabilities = {
+    realInference: true,
+    emergencyVehicles: false,
+    classes: Array.from(new Set(COCO_CLASSES.map(toDisplayType)))
+  };
+  status: DetectorStatus;
+  error: string | null;
+  private modelUrl: string;
+  private tf: TfCore | null;
+  private model: GraphModel | null;
+  private loadingPromise: Promise<boolean> | null;
+  private scoreThreshold: number;
+  private iouThreshold: number;
+  private maxDetections: number;
+
+  constructor(modelUrl: string = YOLO_MODEL_URL) {
+    this.status = 'idle';
+    this.error = null;
+    this.modelUrl = modelUrl;
+    this.tf = null;
+    this.model = null;
+    this.loadingPromise = null;
+    this.scoreThreshold = 0.25;
+    this.iouThreshold = 0.45;
+    this.maxDetections = 50;
+  }
+
+  /**
+   * Load TensorFlow.js with the CPU backend and the YOLO graph model
+   * Concurrent callers share the same loading promise
+   */
+  load(): Promise<boolean> {
+    if (this.model) return Promise.resolve(true);
+    if (this.loadingPromise) return this.loadingPromise;
+
+    const modelUrl = this.modelUrl;
+    this.status = 'loading';
+    this.error = null;
+
+    this.loadingPromise = (async () => {
+      try {
+        // No model ships with the app, so say plainly when none has been added
+        if (!(await isModelServed(modelUrl))) {
+          throw new Error(`No model installed; add a TensorFlow.js YOLO export as ${modelUrl}`);
+        }
+
+        // Load TensorFlow.js lazily so the simulated backend doesn't pay for it
+        const tf = await import('@tensorflow/tfjs-core');
+        await import('@tensorflow/tfjs-backend-cpu');
+        const { loadGraphModel } = await import('@tensorflow/tfjs-converter');
+
+        await tf.setBackend('cpu');
+        await tf.ready();
+
+        const model = await loadGraphModel(modelUrl);
+
+        // Warm up once so the first real frame doesn't stall
+        const warmup = tf.zeros([1, INPUT_SIZE, INPUT_SIZE, 3]);
+        const warmupResult = model.execute(warmup);
+        tf.dispose([warmup, warmupResult]);
+
+        this.tf = tf;
+        this.model = model;
+        this.status = 'ready';
+        return true;
+      } catch (error) {
+        console.error(`Failed to load YOLO model from ${modelUrl}:`, error);
+        this.model = null;
+        this.status = 'error';
+        this.error = error instanceof Error ? error.message : String(error);
+        return false;
+      } finally {
+        this.loadingPromise = null;
+      }
+    })();
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * Run the model on a single frame and return detections in source pixel coordinates
+   */
+  async infer(source: DetectorFrame): Promise<RawDetection[]> {
+    const tf = this.tf;
+    const model = this.model;
+    if (!tf || !model) return [];
+
+    const frameWidth = source.width;
+    const frameHeight = source.height;
+    if (!frameWidth || !frameHeight) return [];
+
+    // Letterbox the frame into the square model input, keeping aspect ratio
+    const scale = Math.min(INPUT_SIZE / frameWidth, INPUT_SIZE / frameHeight);
+    const scaledWidth = Math.round(frameWidth * scale);
+    const scaledHeight = Math.round(frameHeight * scale);
+    const padX = Math.floor((INPUT_SIZE - scaledWidth) / 2);
+    const padY = Math.floor((INPUT_SIZE - scaledHeight) / 2);
+
+    const { boxes, scores, classes } = tf.tidy(() => {
+      const pixels = tf.browser.fromPixels(source);
+      const resized = tf.image.resizeBilinear(pixels, [scaledHeight, scaledWidth]);
+      const normalized = tf.div(resized, 255);
+      const padded = tf.pad(normalized, [
+        [padY, INPUT_SIZE - scaledHeight - padY],
+        [padX, INPUT_SIZE - scaledWidth - padX],
+        [0, 0]
+      ], LETTERBOX_FILL);
+      const input = tf.expandDims(padded, 0);
+
+      const output = model.execute(input) as Tensor;
+      return this.decodeOutput(tf, output);
+    });
+
+    try {
+      const keep = await tf.image.nonMaxSuppressionAsync(
+        boxes, scores, this.maxDetections, this.iouThreshold, this.scoreThreshold
+      );
+      const keepIndices = await keep.data();
+      const boxData = await boxes.data();
+      const scoreData = await scores.data();
+      const classData = await classes.data();
+      keep.dispose();
+
+      const detections: RawDetection[] = [];
+      keepIndices.forEach(index => {
+        // Boxes are [y1, x1, y2, x2] in letterboxed input pixels
+        const y1 = (boxData[index * 4] - padY) / scale;
+        const x1 = (boxData[index * 4 + 1] - padX) / scale;
+        const y2 = (boxData[index * 4 + 2] - padY) / scale;
+        const x2 = (boxData[index * 4 + 3] - padX) / scale;
+
+        const x = Math.max(0, x1);
+        const y = Math.max(0, y1);
+        const width = Math.min(frameWidth, x2) - x;
+        const height = Math.min(frameHeight, y2) - y;
+        if (width <= 0 || height <= 0) return;
+
+        const className = COCO_CLASSES[classData[index]] || 'object';
+
+        detections.push({
+          type: toDisplayType(className),
+          count: 1,
+          confidence: scoreData[index],
+          distance: 0, // Filled in from the camera calibration by DetectionService
+          emergency: false,
+          boundingBox: { x, y, width, height }
+        });
+      });
+
+      return detections;
+    } finally {
+      tf.dispose([boxes, scores, classes]);
+    }
+  }
+
+  /**
+   * Convert raw model output into corner boxes, best scores and class ids
+   * Supports both YOLOv8 ([1, 4 + classes, anchors]) and YOLOv5 ([1, anchors, 5 + classes]) layouts
+   */
+  private decodeOutput(tf: TfCore, output: Tensor<Rank>) {
+    const numClasses = COCO_CLASSES.length;
+    let predictions = tf.squeeze(output, [0]) as Tensor2D;
+    let hasObjectness = false;
+
+    if (predictions.shape[0] === numClasses + 4) {
+      // YOLOv8 layout: attributes first, anchors second
+      predictions = tf.transpose(predictions) as Tensor2D;
+    } else if (predictions.shape[1] === numClasses + 5) {
+      hasObjectness = true;
+    }
+
+    const centerX = tf.slice(predictions, [0, 0], [-1, 1]);
+    const centerY = tf.slice(predictions, [0, 1], [-1, 1]);
+    const halfWidth = tf.div(tf.slice(predictions, [0, 2], [-1, 1]), 2);
+    const halfHeight = tf.div(tf.slice(predictions, [0, 3], [-1, 1]), 2);
+
+    const boxes = tf.concat([
+      tf.sub(centerY, halfHeight),
+      tf.sub(centerX, halfWidth),
+      tf.add(centerY, halfHeight),
+      tf.add(centerX, halfWidth)
+    ], 1) as Tensor2D;
+
+    let classScores = tf.slice(predictions, [0, hasObjectness ? 5 : 4], [-1, numClasses]);
+    if (hasObjectness) {
+      classScores = tf.mul(classScores, tf.slice(predictions, [0, 4], [-1, 1]));
+    }
+
+    return {
+      boxes,
+      scores: tf.max(classScores, 1) as Tensor1D,
+      classes: tf.argMax(classScores, 1) as Tensor1D
+    };
+  }
+
+  dispose() {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+    this.status = 'idle';
+  }
+}
+
+export default YoloDetector;
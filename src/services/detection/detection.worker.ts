@@ -0,0 +1,94 @@
+// Detection worker - runs backend inference off the main thread
+// Frames arrive as transferred ImageBitmaps and are decoded through an OffscreenCanvas, then enhanced here
+// when the request asks for it, so the per-pixel work stays off the main thread too
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from './DetectionWorkerClient';
+import { DetectorBackend } from './DetectorBackend';
+import { enhanceFrame } from './framePreprocessing';
+import YoloDetector from './YoloDetector';
+import SimulatedDetector from './SimulatedDetector';
+
+const backendFactories: Record<string, () => DetectorBackend> = {
+  yolo: () => new YoloDetector(),
+  simulated: () => new SimulatedDetector()
+};
+
+const backends = new Map<string, DetectorBackend>();
+let frameCanvas: OffscreenCanvas | null = null;
+let frameContext: OffscreenCanvasRenderingContext2D | null = null;
+
+const respond = (response: DetectionWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const getBackend = (backendId: string) => {
+  let backend = backends.get(backendId);
+  if (!backend && backendFactories[backendId]) {
+    backend = backendFactories[backendId]();
+    backends.set(backendId, backend);
+  }
+  return backend || null;
+};
+
+/**
+ * Decode a transferred frame into pixel data the backends can consume
+ */
+const readFrame = (frame: ImageBitmap) => {
+  if (!frameCanvas || frameCanvas.width !== frame.width || frameCanvas.height !== frame.height) {
+    frameCanvas = new OffscreenCanvas(frame.width, frame.height);
+    frameContext = frameCanvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!frameContext) {
+    throw new Error("OffscreenCanvas 2D context unavailable");
+  }
+
+  frameContext.drawImage(frame, 0, 0);
+  return frameContext.getImageData(0, 0, frame.width, frame.height);
+};
+
+const handleRequest = async (request: DetectionWorkerRequest) => {
+  const backend = getBackend(request.backendId);
+
+  switch (request.type) {
+    case 'load': {
+      if (!backend) {
+        respond({ type: 'loaded', requestId: request.requestId, ok: false, error: `Unknown backend "${request.backendId}"` });
+        return;
+      }
+      const ok = await backend.load();
+      respond({ type: 'loaded', requestId: request.requestId, ok, error: backend.error });
+      return;
+    }
+    case 'infer': {
+      try {
+        if (!backend || backend.status !== 'ready') {
+          throw new Error(`Backend "${request.backendId}" is not loaded`);
+        }
+        const image = readFrame(request.frame);
+        if (request.enhancement) {
+          enhanceFrame(image, request.enhancement);
+        }
+        const objects = await backend.infer(image);
+        respond({ type: 'result', requestId: request.requestId, objects });
+      } finally {
+        // Always release the transferred frame
+        request.frame.close();
+      }
+      return;
+    }
+    case 'dispose': {
+      backend?.dispose();
+      respond({ type: 'disposed', requestId: request.requestId });
+      return;
+    }
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<DetectionWorkerRequest>) => {
+  handleRequest(event.data).catch(error => {
+    respond({
+      type: 'error',
+      requestId: event.data.requestId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// Monocular distance estimation from bounding-box geometry
+// Combines a flat-ground estimate (where the box touches the road) with a known-height estimate
+import { CameraCalibration } from '@/types/navigation';
+import { RawDetection } from './DetectorBackend';
+
+// Typical real-world heights in meters, by object type
+export const KNOWN_CLASS_HEIGHTS: Record<string, number> = {
+  'person': 1.7,
+  'pedestrian': 1.7,
+  'car': 1.5,
+  'truck': 3.2,
+  'bus': 3.1,
+  'motorcycle': 1.3,
+  'bicycle': 1.1,
+  'animal': 0.9,
+  'traffic light': 0.9,
+  'stop sign': 0.75,
+  'traffic sign': 0.6
+};
+
+// Objects standing on the road surface, for which the ground-plane estimate applies
+const GROUND_CLASSES = ['person', 'pedestrian', 'car', 'truck', 'bus', 'motorcycle', 'bicycle', 'animal', 'pothole'];
+
+// Below this many pixels between box bottom and horizon, the ground estimate is too noisy to trust alone
+const GROUND_RELIABLE_PIXELS = 20;
+
+const MAX_DISTANCE = 200;
+
+/**
+ * Distance along the road to an image row, assuming flat ground
+ * Returns null for rows at or above the horizon
+ */
+export const groundDistanceAtRow = (row: number, frameHeight: number, calibration: CameraCalibration) => {
+  const focalPx = calibration.focalLength * frameHeight;
+  const pixelsBelowHorizon = row - calibration.horizon * frameHeight;
+  if (pixelsBelowHorizon <= 0) return null;
+  return Math.min(MAX_DISTANCE, (calibration.mountingHeight * focalPx) / pixelsBelowHorizon);
+};
+
+/**
+ * Image row where the road is the given distance away (inverse of groundDistanceAtRow)
+ */
+export const rowForGroundDistance = (distance: number, frameHeight: number, calibration: CameraCalibration) => {
+  const focalPx = calibration.focalLength * frameHeight;
+  return calibration.horizon * frameHeight + (calibration.mountingHeight * focalPx) / distance;
+};
+
+/**
+ * Point on the road under a pixel, in meters: x to the right of the camera, z ahead of it
+ * Returns null for pixels at or above the horizon
+ */
+export const groundPointAtPixel = (
+  col: number,
+  row: number,
+  frameWidth: number,
+  frameHeight: number,
+  calibration: CameraCalibration
+) => {
+  const z = groundDistanceAtRow(row, frameHeight, calibration);
+  if (z === null) return null;
+  const focalPx = calibration.focalLength * frameHeight;
+  return { x: ((col - frameWidth / 2) * z) / focalPx, z };
+};
+
+/**
+ * Pixel where a point on the road appears (inverse of groundPointAtPixel)
+ */
+export const pixelForGroundPoint = (
+  x: number,
+  z: number,
+  frameWidth: number,
+  frameHeight: number,
+  calibration: CameraCalibration
+) => {
+  const focalPx = calibration.focalLength * frameHeight;
+  return {
+    col: frameWidth / 2 + (x * focalPx) / z,
+    row: rowForGroundDistance(z, frameHeight, calibration)
+  };
+};
+
+/**
+ * Distance from the apparent height of an object of known size
+ */
+export const sizeDistance = (type: string, boxHeight: number, frameHeight: number, calibration: CameraCalibration) => {
+  const realHeight = KNOWN_CLASS_HEIGHTS[type.toLowerCase()];
+  if (!realHeight || boxHeight <= 0) return null;
+  const focalPx = calibration.focalLength * frameHeight;
+  return Math.min(MAX_DISTANCE, (realHeight * focalPx) / boxHeight);
+};
+
+/**
+ * Estimate distance in meters to a detected object
+ */
+export const estimateDistance = (
+  detection: Pick<RawDetection, 'type' | 'boundingBox'>,
+  frameHeight: number,
+  calibration: CameraCalibration
+) => {
+  const { y, height } = detection.boundingBox;
+  const type = detection.type.toLowerCase();
+
+  const fromGround = GROUND_CLASSES.includes(type)
+    ? groundDistanceAtRow(y + height, frameHeight, calibration)
+    : null;
+  const fromSize = sizeDistance(type, height, frameHeight, calibration);
+
+  if (fromGround !== null && fromSize !== null) {
+    // Trust the ground estimate more the further the box bottom is below the horizon
+    const pixelsBelowHorizon = y + height - calibration.horizon * frameHeight;
+    const groundWeight = Math.min(1, pixelsBelowHorizon / GROUND_RELIABLE_PIXELS) * 0.6;
+    return groundWeight * fromGround + (1 - groundWeight) * fromSize;
+  }
+
+  return fromGround ?? fromSize ?? MAX_DISTANCE;
+};
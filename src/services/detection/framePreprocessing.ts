@@ -0,0 +1,233 @@
+// Frame enhancement for night and bad-weather footage, applied before inference
+// Works on luma so colors keep their hue: denoise, then gamma, tiled contrast equalization
+// (CLAHE-style) and highlight compression, after which each pixel's RGB is scaled to the new luma
+
+export type FrameCondition = 'night' | 'dim' | 'rain' | 'fog' | 'snow';
+
+export interface EnhancementSettings {
+  gamma: number; // below 1 brightens shadows
+  contrastClip: number | null; // histogram clip limit per tile, in multiples of the mean bin count; null skips equalization
+  denoise: number; // 0 (off) to 1, blend of a 3x3 blur into the frame
+  glareThreshold: number | null; // luma (0-1) above which highlights are compressed; null keeps them
+}
+
+export const ENHANCEMENT_PROFILES: Record<FrameCondition, { label: string, settings: EnhancementSettings }> = {
+  night: { label: 'Night', settings: { gamma: 0.6, contrastClip: 3, denoise: 0.6, glareThreshold: 0.85 } },
+  dim: { label: 'Low light', settings: { gamma: 0.8, contrastClip: 2, denoise: 0.3, glareThreshold: null } },
+  rain: { label: 'Rain', settings: { gamma: 0.9, contrastClip: 2.5, denoise: 0.5, glareThreshold: 0.8 } },
+  fog: { label: 'Fog', settings: { gamma: 1, contrastClip: 3.5, denoise: 0.2, glareThreshold: null } },
+  snow: { label: 'Snow', settings: { gamma: 1.1, contrastClip: 2, denoise: 0.3, glareThreshold: 0.8 } }
+};
+
+// Mean frame luma (0-1) below which footage counts as night or dim
+const NIGHT_BRIGHTNESS = 0.2;
+const DIM_BRIGHTNESS = 0.35;
+
+// Equalization grid; tiles are roughly square on a 16:9 frame
+const TILES_X = 8;
+const TILES_Y = 4;
+
+// How much of the luma above the glare threshold is kept
+const GLARE_KEEP = 0.3;
+
+const WEATHER_KEYWORDS: [FrameCondition, string[]][] = [
+  ['rain', ['rain', 'drizzle', 'shower', 'storm', 'thunder']],
+  ['fog', ['fog', 'mist', 'haze']],
+  ['snow', ['snow', 'sleet', 'hail']]
+];
+
+/**
+ * Pick the enhancement a frame needs, or null when it looks fine
+ * Darkness wins over weather, since the night profile already suppresses headlight and reflection glare
+ * @param brightness Mean frame luma from 0 to 1
+ * @param weatherCondition Current weather description, e.g. "Rainy"
+ */
+export const chooseCondition = (brightness: number, weatherCondition: string | null): FrameCondition | null => {
+  if (brightness < NIGHT_BRIGHTNESS) return 'night';
+
+  const weather = weatherCondition?.toLowerCase() || '';
+  const match = WEATHER_KEYWORDS.find(([, keywords]) => keywords.some(keyword => weather.includes(keyword)));
+  if (match) return match[0];
+
+  return brightness < DIM_BRIGHTNESS ? 'dim' : null;
+};
+
+/**
+ * Mean luma of a frame from 0 to 1, sampling every step-th pixel
+ */
+export const measureBrightness = (image: ImageData, step = 16) => {
+  const { data } = image;
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4 * step) {
+    sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    count++;
+  }
+  return count > 0 ? sum / count / 255 : 0;
+};
+
+/**
+ * Blend a 3x3 box blur into every channel, in place
+ * The blur is separable, so it runs as a horizontal and a vertical pass of 3-pixel sums
+ */
+const denoise = (image: ImageData, strength: number) => {
+  const { data, width, height } = image;
+  const rowSums = new Uint16Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const left = x > 0 ? i - 4 : i;
+      const right = x < width - 1 ? i + 4 : i;
+      const o = (y * width + x) * 3;
+      rowSums[o] = data[left] + data[i] + data[right];
+      rowSums[o + 1] = data[left + 1] + data[i + 1] + data[right + 1];
+      rowSums[o + 2] = data[left + 2] + data[i + 2] + data[right + 2];
+    }
+  }
+
+  const keep = 1 - strength;
+  const weight = strength / 9;
+  const rowStride = width * 3;
+  for (let y = 0; y < height; y++) {
+    const up = y > 0 ? -rowStride : 0;
+    const down = y < height - 1 ? rowStride : 0;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 3;
+      const i = (y * width + x) * 4;
+      data[i] = keep * data[i] + weight * (rowSums[o + up] + rowSums[o] + rowSums[o + down]);
+      data[i + 1] = keep * data[i + 1] + weight * (rowSums[o + 1 + up] + rowSums[o + 1] + rowSums[o + 1 + down]);
+      data[i + 2] = keep * data[i + 2] + weight * (rowSums[o + 2 + up] + rowSums[o + 2] + rowSums[o + 2 + down]);
+    }
+  }
+};
+
+/**
+ * Contrast-limited equalization lookup tables, one per tile
+ */
+const tileLookups = (luma: Uint8ClampedArray, width: number, height: number, clip: number) => {
+  const lookups: Uint8ClampedArray[] = [];
+  for (let ty = 0; ty < TILES_Y; ty++) {
+    for (let tx = 0; tx < TILES_X; tx++) {
+      const xStart = Math.floor((tx * width) / TILES_X);
+      const xEnd = Math.floor(((tx + 1) * width) / TILES_X);
+      const yStart = Math.floor((ty * height) / TILES_Y);
+      const yEnd = Math.floor(((ty + 1) * height) / TILES_Y);
+
+      const histogram = new Float64Array(256);
+      for (let y = yStart; y < yEnd; y++) {
+        for (let x = xStart; x < xEnd; x++) {
+          histogram[luma[y * width + x]]++;
+        }
+      }
+
+      // Clip tall bins and spread the excess evenly, which limits how much noise gets amplified
+      const pixels = Math.max(1, (xEnd - xStart) * (yEnd - yStart));
+      const limit = Math.max(1, (clip * pixels) / 256);
+      let excess = 0;
+      for (let v = 0; v < 256; v++) {
+        if (histogram[v] > limit) {
+          excess += histogram[v] - limit;
+          histogram[v] = limit;
+        }
+      }
+      const share = excess / 256;
+
+      const lookup = new Uint8ClampedArray(256);
+      let cumulative = 0;
+      for (let v = 0; v < 256; v++) {
+        cumulative += histogram[v] + share;
+        lookup[v] = (cumulative / pixels) * 255;
+      }
+      lookups.push(lookup);
+    }
+  }
+  return lookups;
+};
+
+/**
+ * Equalize luma per tile, interpolating between neighbouring tiles so no seams show
+ */
+const equalizeContrast = (luma: Uint8ClampedArray, width: number, height: number, clip: number) => {
+  const lookups = tileLookups(luma, width, height, clip);
+  const tileWidth = width / TILES_X;
+  const tileHeight = height / TILES_Y;
+  const result = new Uint8ClampedArray(luma.length);
+
+  // Neighbouring tiles and blend weights per column; each row then only looks these up
+  const columnTile0 = new Uint8Array(width);
+  const columnTile1 = new Uint8Array(width);
+  const columnWeight = new Float32Array(width);
+  for (let x = 0; x < width; x++) {
+    const gx = Math.min(TILES_X - 1, Math.max(0, (x + 0.5) / tileWidth - 0.5));
+    columnTile0[x] = Math.floor(gx);
+    columnTile1[x] = Math.min(TILES_X - 1, columnTile0[x] + 1);
+    columnWeight[x] = gx - columnTile0[x];
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Position between tile centers
+    const gy = Math.min(TILES_Y - 1, Math.max(0, (y + 0.5) / tileHeight - 0.5));
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(TILES_Y - 1, ty0 + 1);
+    const fy = gy - ty0;
+
+    for (let x = 0; x < width; x++) {
+      const fx = columnWeight[x];
+      const i = y * width + x;
+      const v = luma[i];
+      const top = lookups[ty0 * TILES_X + columnTile0[x]][v] * (1 - fx) + lookups[ty0 * TILES_X + columnTile1[x]][v] * fx;
+      const bottom = lookups[ty1 * TILES_X + columnTile0[x]][v] * (1 - fx) + lookups[ty1 * TILES_X + columnTile1[x]][v] * fx;
+      result[i] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return result;
+};
+
+/**
+ * Enhance a frame in place
+ */
+export const enhanceFrame = (image: ImageData, settings: EnhancementSettings) => {
+  const { data, width, height } = image;
+
+  if (settings.denoise > 0) {
+    denoise(image, Math.min(1, settings.denoise));
+  }
+
+  const pixelCount = width * height;
+  const luma = new Uint8ClampedArray(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  // Gamma and glare are per-level curves, so they go through one lookup table each
+  const gammaLookup = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    gammaLookup[v] = 255 * Math.pow(v / 255, settings.gamma);
+  }
+  let adjusted = luma.map(v => gammaLookup[v]);
+
+  if (settings.contrastClip !== null) {
+    adjusted = equalizeContrast(adjusted, width, height, settings.contrastClip);
+  }
+
+  if (settings.glareThreshold !== null) {
+    const knee = settings.glareThreshold * 255;
+    adjusted = adjusted.map(v => (v > knee ? knee + (v - knee) * GLARE_KEEP : v));
+  }
+
+  // Scale RGB to the new luma; black pixels become the gray of their new level
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    const before = luma[p];
+    const after = adjusted[p];
+    if (before === 0) {
+      data[i] = data[i + 1] = data[i + 2] = after;
+    } else {
+      const ratio = after / before;
+      data[i] *= ratio;
+      data[i + 1] *= ratio;
+      data[i + 2] *= ratio;
+    }
+  }
+  return image;
+};
@@ -0,0 +1,189 @@
+// Runtime validation for data entering the detection pipeline
+// Backend output and recorded frame results are checked here before the rest of the app trusts them
+import { z } from 'zod';
+import { FrameResult, RawDetection } from '@/types/detection';
+
+// Current version of the FrameResult schema
+export const FRAME_RESULT_VERSION = 1;
+
+const finite = z.number().finite();
+
+const boundingBoxSchema = z.object({
+  x: finite,
+  y: finite,
+  width: finite.nonnegative(),
+  height: finite.nonnegative()
+});
+
+const trafficLightStateSchema = z.enum(['red', 'amber', 'green', 'unknown']);
+
+export const rawDetectionSchema = z.object({
+  type: z.string().min(1),
+  count: z.number().int().nonnegative(),
+  confidence: finite.min(0).max(1),
+  distance: finite.nonnegative(),
+  emergency: z.boolean(),
+  boundingBox: boundingBoxSchema,
+  lightState: trafficLightStateSchema.optional(),
+  signClass: z.string().optional()
+});
+
+export const detectionSchema = rawDetectionSchema.extend({
+  trackId: z.number().int(),
+  age: finite.nonnegative(),
+  hits: z.number().int().nonnegative(),
+  confirmed: z.boolean(),
+  velocity: z.object({ x: finite, y: finite }),
+  risk: z.object({
+    score: finite.min(0).max(1),
+    level: z.enum(['high', 'medium', 'low']),
+    lane: z.enum(['ego', 'adjacent', 'outside', 'unknown']),
+    approaching: z.boolean()
+  }).optional()
+});
+
+const lanePolynomialSchema = z.object({
+  coefficients: z.tuple([finite, finite, finite]),
+  minDistance: finite,
+  maxDistance: finite,
+  pointCount: z.number().int().nonnegative()
+});
+
+const laneLineTypeSchema = z.object({
+  style: z.enum(['solid', 'dashed', 'double', 'unknown']),
+  color: z.enum(['white', 'yellow', 'unknown'])
+});
+
+export const laneEstimateSchema = z.object({
+  left: lanePolynomialSchema.nullable(),
+  right: lanePolynomialSchema.nullable(),
+  leftLineDetected: z.boolean(),
+  rightLineDetected: z.boolean(),
+  laneWidth: finite.positive(),
+  curvature: finite,
+  curveRadius: finite.positive().nullable(),
+  heading: finite,
+  leftLineType: laneLineTypeSchema,
+  rightLineType: laneLineTypeSchema,
+  offset: finite,
+  offsetMeters: finite,
+  direction: z.enum(['Left', 'Center', 'Right', 'Unknown']),
+  confidence: finite.min(0).max(1)
+});
+
+export const poiHitSchema = z.object({
+  type: z.string().min(1),
+  name: z.string(),
+  distance: finite.nonnegative(),
+  direction: z.string(),
+  confidence: finite.min(0).max(1)
+});
+
+const collisionAssessmentSchema = z.object({
+  level: z.enum(['none', 'advisory', 'warning', 'brake']),
+  trackId: z.number().int().nullable(),
+  objectType: z.string().nullable(),
+  distance: finite.nullable(),
+  closingSpeed: finite.nullable(),
+  timeToCollision: finite.nullable(),
+  headway: finite.nullable(),
+  since: finite
+});
+
+const speedLimitSchema = z.object({
+  value: finite.positive(),
+  signId: z.string(),
+  confidence: finite.min(0).max(1),
+  timestamp: finite
+});
+
+export const frameResultSchema = z.object({
+  version: z.literal(FRAME_RESULT_VERSION),
+  timestamp: finite,
+  frameWidth: finite.positive(),
+  frameHeight: finite.positive(),
+  backendId: z.string(),
+  objects: z.array(detectionSchema),
+  lanes: laneEstimateSchema,
+  pois: z.array(poiHitSchema),
+  emergency: z.boolean(),
+  collision: collisionAssessmentSchema,
+  speedLimit: speedLimitSchema.nullable()
+});
+
+export class FrameResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameResultError';
+  }
+}
+
+/**
+ * The first few problems zod found, e.g. "objects.0.confidence: Number must be less than or equal to 1"
+ */
+export const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+
+export type SchemaResult<T> = { success: true, data: T } | { success: false, issues: string };
+
+/**
+ * Validate a value against a schema, typed as the interface T the schema describes
+ * zod's inferred types are loose without strictNullChecks (every property optional), so the schema
+ * is the contract and this is the one place its output is taken as T
+ */
+export const safeParseWith = <T>(schema: z.ZodTypeAny, value: unknown): SchemaResult<T> => {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data as T }
+    : { success: false, issues: describeIssues(result.error) };
+};
+
+/**
+ * Like safeParseWith, but throws the caller's error, built from the issues, when the value doesn't match
+ */
+export const parseWith = <T>(schema: z.ZodTypeAny, value: unknown, toError: (issues: string) => Error): T => {
+  const result = safeParseWith<T>(schema, value);
+  // Compared explicitly: without strictNullChecks a truthiness test doesn't narrow the union
+  if (result.success === false) {
+    throw toError(result.issues);
+  }
+  return result.data;
+};
+
+/**
+ * Validate a frame result from outside the running pipeline, e.g. a recording
+ * Throws FrameResultError when the version is unsupported or the shape doesn't match
+ */
+export const parseFrameResult = (value: unknown): FrameResult => {
+  const version = (value as { version?: unknown } | null)?.version;
+  if (version !== FRAME_RESULT_VERSION) {
+    throw new FrameResultError(`Unsupported frame result version ${String(version)} (expected ${FRAME_RESULT_VERSION})`);
+  }
+
+  return parseWith<FrameResult>(frameResultSchema, value, issues => new FrameResultError(`Invalid frame result: ${issues}`));
+};
+
+/**
+ * Validate what a detector backend returned, dropping malformed detections
+ * A backend returning something that isn't a list yields no detections
+ */
+export const parseRawDetections = (value: unknown, backendName: string): RawDetection[] => {
+  if (!Array.isArray(value)) {
+    console.warn(`${backendName} backend returned ${typeof value} instead of a detection list`);
+    return [];
+  }
+
+  const detections: RawDetection[] = [];
+  value.forEach((item, index) => {
+    const result = safeParseWith<RawDetection>(rawDetectionSchema, item);
+    if (result.success === true) {
+      detections.push(result.data);
+    } else {
+      console.warn(`Dropping malformed detection ${index} from ${backendName} backend: ${result.issues}`);
+    }
+  });
+  return detections;
+};
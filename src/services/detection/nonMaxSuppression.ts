@@ -0,0 +1,25 @@
+// Class-aware non-maximum suppression
+// Backends can report the same object more than once (overlapping anchors, stacked simulated cars);
+// only boxes of the same class suppress each other, so a person on a bicycle keeps both boxes
+import { RawDetection } from '@/types/detection';
+import { boxIoU } from './ObjectTracker';
+
+/**
+ * Drop detections that overlap a more confident detection of the same type by more than `iouThreshold`
+ * Kept detections stay in their original order
+ */
+export const suppressDuplicates = <T extends RawDetection>(detections: T[], iouThreshold: number): T[] => {
+  const byConfidence = detections
+    .map((detection, index) => ({ detection, index, type: detection.type.toLowerCase() }))
+    .sort((a, b) => b.detection.confidence - a.detection.confidence);
+
+  const kept: typeof byConfidence = [];
+  byConfidence.forEach(candidate => {
+    const duplicate = kept.some(other =>
+      other.type === candidate.type && boxIoU(other.detection.boundingBox, candidate.detection.boundingBox) > iouThreshold
+    );
+    if (!duplicate) kept.push(candidate);
+  });
+
+  return kept.sort((a, b) => a.index - b.index).map(({ detection }) => detection);
+};
@@ -0,0 +1,153 @@
+// Risk of each tracked object to the ego vehicle
+// Combines where the object stands relative to our lane, how close it is, whether it is moving
+// towards our lane, and how vulnerable or dangerous its class is
+import { CameraCalibration, LaneLineType, LanePosition, ObjectRisk, RiskLevel } from '@/types/navigation';
+import { LaneEstimate, RoiPolygon } from '@/types/detection';
+import { TrackedObject } from './ObjectTracker';
+import { groundPointAtPixel } from './distanceEstimation';
+import { DEFAULT_LANE_WIDTH, laneLineX } from './LaneDetector';
+import { zoneOf } from './roiMasks';
+
+// How much harm an object of a class can come to or cause, from 0 to 1
+const CLASS_WEIGHTS: Record<string, number> = {
+  'person': 1,
+  'pedestrian': 1,
+  'bicycle': 1,
+  'motorcycle': 0.95,
+  'animal': 0.9,
+  'car': 0.8,
+  'truck': 0.85,
+  'bus': 0.85,
+  'pothole': 0.6,
+  'traffic light': 0.2,
+  'stop sign': 0.2,
+  'traffic sign': 0.2
+};
+const DEFAULT_CLASS_WEIGHT = 0.5;
+
+// How much of the risk remains at each lane position
+const POSITION_WEIGHTS: Record<LanePosition, number> = {
+  ego: 1,
+  adjacent: 0.5,
+  outside: 0.15,
+  unknown: 0.6
+};
+
+// Objects expected to reach our lane within this many seconds count as in it
+const ENTER_LANE_HORIZON = 2;
+const APPROACHING_WEIGHT = 0.8;
+
+// Proximity falls from 1 at NEAR_DISTANCE to 0 at FAR_DISTANCE (meters)
+const NEAR_DISTANCE = 5;
+const FAR_DISTANCE = 50;
+
+const HIGH_RISK = 0.6;
+const MEDIUM_RISK = 0.3;
+
+export const riskLevel = (score: number): RiskLevel =>
+  score >= HIGH_RISK ? 'high' : score >= MEDIUM_RISK ? 'medium' : 'low';
+
+/**
+ * Edges of our lane at a distance ahead, in meters right of the camera
+ * Measured lines are used where present; a missing one is placed a lane width from the other,
+ * and without either the lane is centered on the offset the lane detector reports
+ */
+const laneBoundsAt = (lanes: LaneEstimate, z: number) => {
+  const width = lanes.laneWidth || DEFAULT_LANE_WIDTH;
+  const left = lanes.left ? laneLineX(lanes.left, z) : null;
+  const right = lanes.right ? laneLineX(lanes.right, z) : null;
+
+  if (left !== null && right !== null) return { left, right };
+  if (left !== null) return { left, right: left + width };
+  if (right !== null) return { left: right - width, right };
+
+  const center = lanes.direction === 'Unknown' ? 0 : -lanes.offsetMeters;
+  return { left: center - width / 2, right: center + width / 2 };
+};
+
+const isRoadEdge = (line: LaneLineType) => line.style === 'solid' && line.color === 'white';
+
+const hasLaneGeometry = (lanes: LaneEstimate) =>
+  lanes.left !== null || lanes.right !== null || lanes.direction !== 'Unknown';
+
+/**
+ * Score one tracked object
+ * @param object Tracked object with its distance in meters
+ * @param lanes Lane estimate of the same frame
+ * @param polygons ROI masks; a drawn corridor stands in for the lane when no lane is detected
+ */
+export const assessRisk = (
+  object: TrackedObject,
+  lanes: LaneEstimate,
+  frameWidth: number,
+  frameHeight: number,
+  calibration: CameraCalibration,
+  polygons: RoiPolygon[] = []
+): ObjectRisk => {
+  const { x, y, width, height } = object.boundingBox;
+  const bottom = y + height;
+  const leftPoint = groundPointAtPixel(x, bottom, frameWidth, frameHeight, calibration);
+  const rightPoint = groundPointAtPixel(x + width, bottom, frameWidth, frameHeight, calibration);
+
+  let lane: LanePosition = 'unknown';
+  let approaching = false;
+
+  if (!hasLaneGeometry(lanes) && polygons.some(polygon => polygon.kind === 'corridor')) {
+    const zone = zoneOf(object.boundingBox, frameWidth, frameHeight, polygons);
+    lane = zone === 'corridor' ? 'ego' : zone === 'side' ? 'adjacent' : 'outside';
+  } else if (leftPoint && rightPoint) {
+    const bounds = laneBoundsAt(lanes, leftPoint.z);
+    const laneWidth = bounds.right - bounds.left;
+
+    // A solid white line marks the road edge, so beyond it is the shoulder rather than another lane
+    const leftIsEdge = isRoadEdge(lanes.leftLineType);
+    const rightIsEdge = isRoadEdge(lanes.rightLineType);
+
+    if (rightPoint.x > bounds.left && leftPoint.x < bounds.right) {
+      lane = 'ego';
+    } else if (rightPoint.x <= bounds.left) {
+      lane = !leftIsEdge && rightPoint.x > bounds.left - laneWidth ? 'adjacent' : 'outside';
+    } else {
+      lane = !rightIsEdge && leftPoint.x < bounds.right + laneWidth ? 'adjacent' : 'outside';
+    }
+
+    // Sideways speed on the road, from the tracked box motion
+    if (lane !== 'ego' && object.confirmed) {
+      const focalPx = calibration.focalLength * frameHeight;
+      const lateralSpeed = (object.velocity.x * leftPoint.z) / focalPx;
+      const gap = rightPoint.x <= bounds.left ? bounds.left - rightPoint.x : leftPoint.x - bounds.right;
+      const towardsLane = rightPoint.x <= bounds.left ? lateralSpeed > 0 : lateralSpeed < 0;
+      approaching = towardsLane && gap / Math.abs(lateralSpeed) < ENTER_LANE_HORIZON;
+    }
+  }
+
+  const distance = object.distance > 0 ? object.distance : leftPoint?.z ?? FAR_DISTANCE;
+  const proximity = Math.min(1, Math.max(0, 1 - (distance - NEAR_DISTANCE) / (FAR_DISTANCE - NEAR_DISTANCE)));
+
+  const classWeight = object.emergency ? 1 : CLASS_WEIGHTS[object.type.toLowerCase()] ?? DEFAULT_CLASS_WEIGHT;
+  const positionWeight = approaching
+    ? Math.max(APPROACHING_WEIGHT, POSITION_WEIGHTS[lane])
+    : POSITION_WEIGHTS[lane];
+
+  // Even a distant object in our lane keeps some risk
+  const score = Math.min(1, classWeight * positionWeight * (0.3 + 0.7 * proximity));
+
+  return { score, level: riskLevel(score), lane, approaching };
+};
+
+/**
+ * Attach a risk assessment to every object of a frame
+ */
+export const assessRisks = (
+  objects: TrackedObject[],
+  lanes: LaneEstimate,
+  frameWidth: number,
+  frameHeight: number,
+  calibration: CameraCalibration,
+  polygons: RoiPolygon[] = []
+) => {
+  objects.forEach(obj => {
+    obj.risk = assessRisk(obj, lanes, frameWidth, frameHeight, calibration, polygons);
+  });
+  return objects;
+};
@@ -0,0 +1,45 @@
+// Region-of-interest mask tests
+// Polygons are stored in frame fractions so they fit any video resolution
+import { BoundingBox, RoiPoint, RoiPolygon, RoiZoneKind } from '@/types/detection';
+
+// How each zone kind is labelled and drawn
+export const ROI_ZONE_STYLES: Record<RoiZoneKind, { label: string, color: string }> = {
+  ignore: { label: 'Ignore', color: '#9ca3af' },
+  corridor: { label: 'Driving corridor', color: '#22c55e' },
+  side: { label: 'Side zone', color: '#f59e0b' }
+};
+
+/**
+ * Even-odd ray casting test; points on an edge may land on either side
+ */
+export const pointInPolygon = (point: RoiPoint, polygon: RoiPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const inAnyZone = (point: RoiPoint, polygons: RoiPolygon[], kind: RoiZoneKind) =>
+  polygons.some(polygon => polygon.kind === kind && pointInPolygon(point, polygon.points));
+
+/**
+ * Check whether a detection lies in an ignore zone, judged by its box center
+ */
+export const isIgnored = (box: BoundingBox, frameWidth: number, frameHeight: number, polygons: RoiPolygon[]) =>
+  inAnyZone({ x: (box.x + box.width / 2) / frameWidth, y: (box.y + box.height / 2) / frameHeight }, polygons, 'ignore');
+
+/**
+ * Driving zone of an object, judged by where its box meets the road (bottom center)
+ * The corridor wins where it overlaps a side zone
+ */
+export const zoneOf = (box: BoundingBox, frameWidth: number, frameHeight: number, polygons: RoiPolygon[]): 'corridor' | 'side' | null => {
+  const ground = { x: (box.x + box.width / 2) / frameWidth, y: (box.y + box.height) / frameHeight };
+  if (inAnyZone(ground, polygons, 'corridor')) return 'corridor';
+  if (inAnyZone(ground, polygons, 'side')) return 'side';
+  return null;
+};
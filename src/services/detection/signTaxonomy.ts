@@ -0,0 +1,123 @@
+// Traffic sign taxonomy shared by the sign classifier, the overlay and voice alerts
+// Ids are stable strings so authored detections and custom models can refer to them
+
+export type SignCategory = 'speed_limit' | 'regulatory' | 'warning' | 'mandatory' | 'informational';
+
+export interface SignClass {
+  id: string;
+  label: string; // spoken and displayed name
+  category: SignCategory;
+  speedLimit?: number; // in km/h, for speed limit signs
+  endsSpeedLimit?: boolean; // the sign lifts the current speed limit
+  aliases?: string[]; // detector labels that mean this sign
+}
+
+export const SIGN_TAXONOMY: SignClass[] = [
+  // Speed limits
+  { id: 'speed_limit_10', label: 'Speed limit 10', category: 'speed_limit', speedLimit: 10 },
+  { id: 'speed_limit_20', label: 'Speed limit 20', category: 'speed_limit', speedLimit: 20 },
+  { id: 'speed_limit_30', label: 'Speed limit 30', category: 'speed_limit', speedLimit: 30 },
+  { id: 'speed_limit_40', label: 'Speed limit 40', category: 'speed_limit', speedLimit: 40 },
+  { id: 'speed_limit_50', label: 'Speed limit 50', category: 'speed_limit', speedLimit: 50 },
+  { id: 'speed_limit_60', label: 'Speed limit 60', category: 'speed_limit', speedLimit: 60 },
+  { id: 'speed_limit_70', label: 'Speed limit 70', category: 'speed_limit', speedLimit: 70 },
+  { id: 'speed_limit_80', label: 'Speed limit 80', category: 'speed_limit', speedLimit: 80 },
+  { id: 'speed_limit_90', label: 'Speed limit 90', category: 'speed_limit', speedLimit: 90 },
+  { id: 'speed_limit_100', label: 'Speed limit 100', category: 'speed_limit', speedLimit: 100 },
+  { id: 'speed_limit_110', label: 'Speed limit 110', category: 'speed_limit', speedLimit: 110 },
+  { id: 'speed_limit_120', label: 'Speed limit 120', category: 'speed_limit', speedLimit: 120 },
+  { id: 'speed_limit_130', label: 'Speed limit 130', category: 'speed_limit', speedLimit: 130 },
+  { id: 'end_speed_limit_80', label: 'End of speed limit 80', category: 'speed_limit', endsSpeedLimit: true },
+  { id: 'end_all_limits', label: 'End of all limits', category: 'speed_limit', endsSpeedLimit: true },
+
+  // Regulatory
+  { id: 'stop', label: 'Stop', category: 'regulatory', aliases: ['stop sign'] },
+  { id: 'yield', label: 'Yield', category: 'regulatory', aliases: ['give way'] },
+  { id: 'no_entry', label: 'No entry', category: 'regulatory', aliases: ['do not enter'] },
+  { id: 'no_vehicles', label: 'No vehicles', category: 'regulatory' },
+  { id: 'no_trucks', label: 'No trucks over 3.5 tonnes', category: 'regulatory' },
+  { id: 'no_overtaking', label: 'No overtaking', category: 'regulatory', aliases: ['no passing'] },
+  { id: 'no_overtaking_trucks', label: 'No overtaking for trucks', category: 'regulatory' },
+  { id: 'end_no_overtaking', label: 'End of no overtaking', category: 'regulatory' },
+  { id: 'end_no_overtaking_trucks', label: 'End of no overtaking for trucks', category: 'regulatory' },
+  { id: 'no_left_turn', label: 'No left turn', category: 'regulatory' },
+  { id: 'no_right_turn', label: 'No right turn', category: 'regulatory' },
+  { id: 'no_u_turn', label: 'No U-turn', category: 'regulatory' },
+  { id: 'no_parking', label: 'No parking', category: 'regulatory' },
+  { id: 'priority_road', label: 'Priority road', category: 'regulatory' },
+  { id: 'right_of_way', label: 'Right of way at next intersection', category: 'regulatory' },
+
+  // Warnings
+  { id: 'general_caution', label: 'Caution', category: 'warning' },
+  { id: 'curve_left', label: 'Curve to the left', category: 'warning' },
+  { id: 'curve_right', label: 'Curve to the right', category: 'warning' },
+  { id: 'double_curve', label: 'Double curve', category: 'warning' },
+  { id: 'bumpy_road', label: 'Bumpy road', category: 'warning' },
+  { id: 'slippery_road', label: 'Slippery road', category: 'warning' },
+  { id: 'road_narrows', label: 'Road narrows', category: 'warning' },
+  { id: 'road_work', label: 'Road work', category: 'warning' },
+  { id: 'traffic_signals', label: 'Traffic signals', category: 'warning' },
+  { id: 'pedestrians', label: 'Pedestrians', category: 'warning' },
+  { id: 'children_crossing', label: 'Children crossing', category: 'warning' },
+  { id: 'school_zone', label: 'School zone', category: 'warning' },
+  { id: 'bicycles_crossing', label: 'Bicycles crossing', category: 'warning' },
+  { id: 'ice_snow', label: 'Ice or snow', category: 'warning' },
+  { id: 'wild_animals', label: 'Wild animals', category: 'warning' },
+
+  // Mandatory directions
+  { id: 'turn_right_ahead', label: 'Turn right ahead', category: 'mandatory' },
+  { id: 'turn_left_ahead', label: 'Turn left ahead', category: 'mandatory' },
+  { id: 'ahead_only', label: 'Ahead only', category: 'mandatory' },
+  { id: 'straight_or_right', label: 'Straight or right', category: 'mandatory' },
+  { id: 'straight_or_left', label: 'Straight or left', category: 'mandatory' },
+  { id: 'keep_right', label: 'Keep right', category: 'mandatory' },
+  { id: 'keep_left', label: 'Keep left', category: 'mandatory' },
+  { id: 'roundabout', label: 'Roundabout', category: 'mandatory' },
+
+  // Informational
+  { id: 'pedestrian_crossing', label: 'Pedestrian crossing', category: 'informational', aliases: ['crosswalk'] },
+  { id: 'one_way', label: 'One way', category: 'informational' },
+  { id: 'parking', label: 'Parking', category: 'informational' }
+];
+
+// Output order of a classifier trained on the German Traffic Sign Recognition Benchmark (43 classes),
+// used when the model doesn't ship its own label list
+export const GTSRB_CLASS_ORDER = [
+  'speed_limit_20', 'speed_limit_30', 'speed_limit_50', 'speed_limit_60', 'speed_limit_70',
+  'speed_limit_80', 'end_speed_limit_80', 'speed_limit_100', 'speed_limit_120', 'no_overtaking',
+  'no_overtaking_trucks', 'right_of_way', 'priority_road', 'yield', 'stop',
+  'no_vehicles', 'no_trucks', 'no_entry', 'general_caution', 'curve_left',
+  'curve_right', 'double_curve', 'bumpy_road', 'slippery_road', 'road_narrows',
+  'road_work', 'traffic_signals', 'pedestrians', 'children_crossing', 'bicycles_crossing',
+  'ice_snow', 'wild_animals', 'end_all_limits', 'turn_right_ahead', 'turn_left_ahead',
+  'ahead_only', 'straight_or_right', 'straight_or_left', 'keep_right', 'keep_left',
+  'roundabout', 'end_no_overtaking', 'end_no_overtaking_trucks'
+];
+
+const SIGNS_BY_ID = new Map(SIGN_TAXONOMY.map(sign => [sign.id, sign]));
+
+/**
+ * Look up a sign by its taxonomy id
+ */
+export const getSignClass = (id: string | undefined | null): SignClass | null =>
+  (id && SIGNS_BY_ID.get(id)) || null;
+
+/**
+ * Map a detector label (e.g. "Stop Sign" or "Speed limit 50") onto the taxonomy
+ */
+export const signClassForLabel = (label: string): SignClass | null => {
+  const normalized = label.trim().toLowerCase();
+  return SIGN_TAXONOMY.find(sign =>
+    sign.id === normalized.replace(/[\s-]+/g, '_') ||
+    sign.label.toLowerCase() === normalized ||
+    (sign.aliases || []).includes(normalized)
+  ) || null;
+};
+
+/**
+ * Whether a detected object type is a traffic sign the classifier should look at
+ */
+export const isTrafficSignType = (type: string) => {
+  const normalized = type.toLowerCase();
+  return normalized === 'traffic sign' || normalized === 'stop sign' || signClassForLabel(type) !== null;
+};
@@ -0,0 +1,230 @@
+// Ground-truth annotations for detection evaluation
+// Reads COCO JSON and YOLO txt labels into one per-frame shape; frame numbers are 0-based video frame indexes
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { BoundingBox } from '@/types/detection';
+import { COCO_CLASSES, toDisplayType } from '../detection/YoloDetector';
+
+export interface GroundTruthBox {
+  className: string; // normalized, see normalizeClassName
+  box: BoundingBox; // in frame pixels, or fractions of the frame while the set is normalized
+}
+
+export interface GroundTruthFrame {
+  frame: number;
+  boxes: GroundTruthBox[];
+  laneOffset: number | null; // labeled lane offset in percent of lane width, positive when right of center
+}
+
+export interface AnnotationSet {
+  format: 'coco' | 'yolo';
+  classes: string[]; // normalized names of the labeled classes; detections of other classes aren't judged
+  frames: GroundTruthFrame[]; // sorted by frame
+  normalized: boolean; // YOLO boxes are fractions of the frame until scaled with scaleAnnotations
+}
+
+// Text of one annotation file
+export interface AnnotationFile {
+  name: string;
+  text: string;
+}
+
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnotationError';
+  }
+}
+
+/**
+ * Compare label names and detector types the same way, e.g. "Traffic Light", "traffic light" and "dog" vs "Animal"
+ */
+export const normalizeClassName = (name: string) => toDisplayType(name.trim().toLowerCase()).toLowerCase();
+
+/**
+ * Frame number at the end of a file name, e.g. 123 for "clip_000123.jpg"
+ */
+const frameFromFileName = (fileName: string): number | null => {
+  const base = fileName.split(/[\\/]/).pop().replace(/\.[^.]+$/, '');
+  const match = base.match(/(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+const cocoSchema = z.object({
+  images: z.array(z.object({
+    id: z.union([z.number(), z.string()]),
+    file_name: z.string().optional(),
+    frame_index: z.number().int().nonnegative().optional(), // our extension
+    frame_id: z.number().int().nonnegative().optional(), // COCO-VID
+    lane_offset: z.number().finite().optional() // our extension
+  })),
+  annotations: z.array(z.object({
+    image_id: z.union([z.number(), z.string()]),
+    category_id: z.union([z.number(), z.string()]),
+    bbox: z.tuple([z.number(), z.number(), z.number().nonnegative(), z.number().nonnegative()])
+  })),
+  categories: z.array(z.object({
+    id: z.union([z.number(), z.string()]),
+    name: z.string().min(1)
+  }))
+});
+
+/**
+ * Read a COCO JSON file; each image is a video frame, numbered by frame_index, frame_id or its file name
+ */
+export const parseCocoAnnotations = (text: string): AnnotationSet => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new AnnotationError('The COCO file is not valid JSON');
+  }
+  const result = cocoSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new AnnotationError(`Invalid COCO file: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  const { images, annotations, categories } = result.data;
+  const categoryNames = new Map(categories.map(category => [String(category.id), normalizeClassName(category.name)]));
+  const frames = new Map<string, GroundTruthFrame>();
+
+  images.forEach(image => {
+    const frame = image.frame_index ?? image.frame_id ?? frameFromFileName(image.file_name || '');
+    if (frame === null) {
+      throw new AnnotationError(`Image ${image.id} has no frame_index and no frame number in its file name`);
+    }
+    frames.set(String(image.id), { frame, boxes: [], laneOffset: image.lane_offset ?? null });
+  });
+
+  annotations.forEach(annotation => {
+    const frame = frames.get(String(annotation.image_id));
+    const className = categoryNames.get(String(annotation.category_id));
+    if (!frame || !className) {
+      throw new AnnotationError(`Annotation refers to unknown image ${annotation.image_id} or category ${annotation.category_id}`);
+    }
+    const [x, y, width, height] = annotation.bbox;
+    frame.boxes.push({ className, box: { x, y, width, height } });
+  });
+
+  return {
+    format: 'coco',
+    classes: Array.from(new Set(categoryNames.values())),
+    frames: Array.from(frames.values()).sort((a, b) => a.frame - b.frame),
+    normalized: false
+  };
+};
+
+/**
+ * Class names from a classes.txt / *.names file (one per line) or a data.yaml with "names"
+ */
+const readClassNames = (file: AnnotationFile): string[] => {
+  if (!/\.ya?ml$/i.test(file.name)) {
+    return file.text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  }
+
+  let names: unknown;
+  try {
+    names = (parseYaml(file.text) as { names?: unknown } | null)?.names;
+  } catch {
+    throw new AnnotationError(`${file.name} is not valid YAML`);
+  }
+  if (Array.isArray(names)) return names.map(String);
+  if (names && typeof names === 'object') {
+    // names: {0: person, 1: bicycle}
+    const entries = Object.entries(names as Record<string, unknown>).sort(([a], [b]) => Number(a) - Number(b));
+    return entries.map(([, name]) => String(name));
+  }
+  throw new AnnotationError(`${file.name} has no "names" list`);
+};
+
+const isClassFile = (name: string) => /(^|[\\/])(classes\.txt|[^\\/]+\.names|data\.ya?ml)$/i.test(name);
+const isLaneFile = (name: string) => /(^|[\\/])lane_offsets\.txt$/i.test(name);
+
+/**
+ * Read YOLO txt labels, one file per frame numbered by its name ("class cx cy w h" per line, fractions of the frame)
+ * Class names come from classes.txt, a .names file or data.yaml; without one the COCO order is assumed.
+ * An optional lane_offsets.txt holds "frame offset" lines
+ */
+export const parseYoloAnnotations = (files: AnnotationFile[]): AnnotationSet => {
+  const classFile = files.find(file => isClassFile(file.name));
+  const classNames = (classFile ? readClassNames(classFile) : COCO_CLASSES).map(normalizeClassName);
+  const frames = new Map<number, GroundTruthFrame>();
+  const frameFor = (frame: number) => {
+    if (!frames.has(frame)) frames.set(frame, { frame, boxes: [], laneOffset: null });
+    return frames.get(frame);
+  };
+
+  files.filter(file => file !== classFile).forEach(file => {
+    const lines = file.text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+    if (isLaneFile(file.name)) {
+      lines.forEach((line, index) => {
+        const [frame, offset] = line.split(/\s+/).map(Number);
+        if (!Number.isInteger(frame) || !Number.isFinite(offset)) {
+          throw new AnnotationError(`${file.name} line ${index + 1}: expected "frame offset"`);
+        }
+        frameFor(frame).laneOffset = offset;
+      });
+      return;
+    }
+
+    const frameNumber = frameFromFileName(file.name);
+    if (frameNumber === null) {
+      throw new AnnotationError(`${file.name} has no frame number in its name`);
+    }
+    const frame = frameFor(frameNumber);
+    lines.forEach((line, index) => {
+      const [classIndex, cx, cy, width, height] = line.split(/\s+/).map(Number);
+      const className = classNames[classIndex];
+      if (className === undefined || ![cx, cy, width, height].every(Number.isFinite)) {
+        throw new AnnotationError(`${file.name} line ${index + 1}: expected "class cx cy w h" with a known class`);
+      }
+      frame.boxes.push({ className, box: { x: cx - width / 2, y: cy - height / 2, width, height } });
+    });
+  });
+
+  if (frames.size === 0) {
+    throw new AnnotationError('No YOLO label files found');
+  }
+
+  return {
+    format: 'yolo',
+    classes: Array.from(new Set(classNames)),
+    frames: Array.from(frames.values()).sort((a, b) => a.frame - b.frame),
+    normalized: true
+  };
+};
+
+/**
+ * Read annotation files: a single .json file is COCO, anything else YOLO
+ */
+export const parseAnnotationFiles = (files: AnnotationFile[]): AnnotationSet => {
+  if (files.length === 1 && /\.json$/i.test(files[0].name)) {
+    return parseCocoAnnotations(files[0].text);
+  }
+  return parseYoloAnnotations(files);
+};
+
+/**
+ * Convert normalized boxes to frame pixels
+ */
+export const scaleAnnotations = (set: AnnotationSet, frameWidth: number, frameHeight: number): AnnotationSet => {
+  if (!set.normalized) return set;
+  return {
+    ...set,
+    normalized: false,
+    frames: set.frames.map(frame => ({
+      ...frame,
+      boxes: frame.boxes.map(({ className, box }) => ({
+        className,
+        box: {
+          x: box.x * frameWidth,
+          y: box.y * frameHeight,
+          width: box.width * frameWidth,
+          height: box.height * frameHeight
+        }
+      }))
+    }))
+  };
+};
@@ -0,0 +1,187 @@
+// Detection accuracy metrics: per-class precision and recall, average precision at IoU 0.5, lane offset error
+import { RawDetection } from '@/types/detection';
+import { boxIoU } from '../detection/ObjectTracker';
+import { GroundTruthBox, normalizeClassName } from './annotations';
+
+// A detection counts as correct when it overlaps a same-class label at least this much
+export const MATCH_IOU = 0.5;
+
+export interface ScoredPrediction {
+  className: string;
+  confidence: number;
+  truePositive: boolean;
+}
+
+// What the detector did on one annotated frame
+export interface FrameEvaluation {
+  frame: number;
+  predictions: ScoredPrediction[];
+  groundTruth: Record<string, number>; // labeled boxes per class
+  laneOffset: { predicted: number, actual: number } | null; // in percent of lane width, when both are known
+}
+
+export interface ClassMetrics {
+  className: string;
+  groundTruth: number;
+  detections: number; // at or above the threshold
+  truePositives: number;
+  precision: number | null; // null without detections
+  recall: number | null; // null without labels
+  averagePrecision: number | null; // null without labels
+}
+
+export interface LaneMetrics {
+  frames: number;
+  meanAbsoluteError: number; // in percent of lane width
+  rootMeanSquareError: number;
+}
+
+export interface EvaluationReport {
+  threshold: number;
+  frames: number;
+  classes: ClassMetrics[];
+  precision: number | null; // over all classes at the threshold
+  recall: number | null;
+  meanAveragePrecision: number | null; // mAP@0.5 over the labeled classes
+  suggestedThreshold: number | null; // confidence threshold with the best F1 score
+  lane: LaneMetrics | null;
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+/**
+ * Match a frame's detections to its labels, most confident first; each label can be matched once
+ */
+export const matchFrame = (detections: RawDetection[], labels: GroundTruthBox[]): ScoredPrediction[] => {
+  const matched = new Set<number>();
+
+  return detections
+    .map(detection => ({ detection, className: normalizeClassName(detection.type) }))
+    .sort((a, b) => b.detection.confidence - a.detection.confidence)
+    .map(({ detection, className }) => {
+      let best = -1;
+      let bestIoU = MATCH_IOU;
+      labels.forEach((label, index) => {
+        if (matched.has(index) || label.className !== className) return;
+        const iou = boxIoU(detection.boundingBox, label.box);
+        if (iou >= bestIoU) {
+          best = index;
+          bestIoU = iou;
+        }
+      });
+      if (best >= 0) matched.add(best);
+      return { className, confidence: detection.confidence, truePositive: best >= 0 };
+    });
+};
+
+/**
+ * Area under the precision-recall curve, with precision made monotonic (all-point interpolation)
+ */
+export const averagePrecision = (predictions: ScoredPrediction[], groundTruth: number) => {
+  if (groundTruth === 0) return null;
+
+  const sorted = [...predictions].sort((a, b) => b.confidence - a.confidence);
+  const recalls: number[] = [];
+  const precisions: number[] = [];
+  let truePositives = 0;
+  sorted.forEach((prediction, index) => {
+    if (prediction.truePositive) truePositives++;
+    recalls.push(truePositives / groundTruth);
+    precisions.push(truePositives / (index + 1));
+  });
+
+  // Precision envelope: the best precision at this recall or any higher one
+  for (let i = precisions.length - 2; i >= 0; i--) {
+    precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+  }
+
+  let area = 0;
+  let previousRecall = 0;
+  recalls.forEach((recall, i) => {
+    area += (recall - previousRecall) * precisions[i];
+    previousRecall = recall;
+  });
+  return area;
+};
+
+/**
+ * Confidence threshold that maximizes F1 over all classes
+ */
+const bestF1Threshold = (predictions: ScoredPrediction[], groundTruth: number) => {
+  if (groundTruth === 0 || predictions.length === 0) return null;
+
+  const sorted = [...predictions].sort((a, b) => b.confidence - a.confidence);
+  let truePositives = 0;
+  let bestF1 = -1;
+  let best: number | null = null;
+  sorted.forEach((prediction, index) => {
+    if (prediction.truePositive) truePositives++;
+    // Only cut between distinct confidences
+    if (index + 1 < sorted.length && sorted[index + 1].confidence === prediction.confidence) return;
+    const f1 = (2 * truePositives) / (index + 1 + groundTruth);
+    if (f1 > bestF1) {
+      bestF1 = f1;
+      best = prediction.confidence;
+    }
+  });
+  return best;
+};
+
+/**
+ * Summarize evaluated frames at a confidence threshold
+ * Average precision uses every detection, so only precision and recall depend on the threshold
+ */
+export const summarizeEvaluation = (frames: FrameEvaluation[], threshold: number): EvaluationReport => {
+  const predictions = frames.flatMap(frame => frame.predictions);
+  const groundTruth: Record<string, number> = {};
+  frames.forEach(frame => {
+    Object.entries(frame.groundTruth).forEach(([className, count]) => {
+      groundTruth[className] = (groundTruth[className] || 0) + count;
+    });
+  });
+
+  const classNames = Array.from(new Set([...Object.keys(groundTruth), ...predictions.map(p => p.className)])).sort();
+  const classes = classNames.map(className => {
+    const ofClass = predictions.filter(p => p.className === className);
+    const kept = ofClass.filter(p => p.confidence >= threshold);
+    const truePositives = kept.filter(p => p.truePositive).length;
+    const labels = groundTruth[className] || 0;
+    return {
+      className,
+      groundTruth: labels,
+      detections: kept.length,
+      truePositives,
+      precision: ratio(truePositives, kept.length),
+      recall: ratio(truePositives, labels),
+      averagePrecision: averagePrecision(ofClass, labels)
+    };
+  });
+
+  const labeled = classes.filter(c => c.averagePrecision !== null);
+  const totalLabels = classes.reduce((sum, c) => sum + c.groundTruth, 0);
+  const totalDetections = classes.reduce((sum, c) => sum + c.detections, 0);
+  const totalTruePositives = classes.reduce((sum, c) => sum + c.truePositives, 0);
+
+  const laneErrors = frames
+    .filter(frame => frame.laneOffset !== null)
+    .map(frame => frame.laneOffset.predicted - frame.laneOffset.actual);
+
+  return {
+    threshold,
+    frames: frames.length,
+    classes,
+    precision: ratio(totalTruePositives, totalDetections),
+    recall: ratio(totalTruePositives, totalLabels),
+    meanAveragePrecision: labeled.length > 0
+      ? labeled.reduce((sum, c) => sum + c.averagePrecision, 0) / labeled.length
+      : null,
+    suggestedThreshold: bestF1Threshold(predictions, totalLabels),
+    lane: laneErrors.length > 0
+      ? {
+          frames: laneErrors.length,
+          meanAbsoluteError: laneErrors.reduce((sum, e) => sum + Math.abs(e), 0) / laneErrors.length,
+          rootMeanSquareError: Math.sqrt(laneErrors.reduce((sum, e) => sum + e * e, 0) / laneErrors.length)
+        }
+      : null
+  };
+};
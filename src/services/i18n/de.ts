@@ -0,0 +1,114 @@
+// German voice messages
+import { MessageCatalog } from '@/types/i18n';
+
+export const de: MessageCatalog = {
+  messages: {
+    'system.ready': 'Erkennungssystem bereit',
+    'system.detectionOn': 'Erkennung aktiviert',
+    'system.detectionOff': 'Erkennung deaktiviert',
+    'emergency.recording': 'Notfallmodus aktiviert. Kollisionsrisiko wird aufgezeichnet.',
+    'emergency.locating': 'Notfallmodus aktiviert. Nächstes Krankenhaus wird gesucht.',
+    'emergency.complete': 'Notfalleinsatz beendet. Nächstes Krankenhaus: {name}, {distance} voraus.',
+    'emergency.critical': 'Kritischer Notfall',
+    'emergency.typed': 'Notfall: {type}',
+    'navigation.instruction': 'In {distance}: {instruction}',
+    'collision.brake': 'Bremsen! {type} voraus!',
+    'collision.warning': 'Kollisionswarnung. {type} voraus',
+    'collision.advisory': 'Abstand halten',
+    'light.redAhead': 'Rote Ampel voraus. Langsamer fahren',
+    'light.turnedGreen': 'Die Ampel ist grün',
+    'sign.speedLimit': 'Tempolimit {limit}',
+    'alert.pedestrian': {
+      one: 'Achtung. Fußgänger voraus',
+      other: 'Achtung. {count} Fußgänger voraus'
+    },
+    'alert.laneDeparture': 'Spur wird {direction} verlassen',
+    'alert.sideVehicle': '{type} {side} neben Ihnen',
+    'alert.closeVehicle': '{type} dicht hinter Ihnen',
+    'alert.trafficAhead': 'Mehrere {types} voraus',
+    'alert.trafficSign': '{label} voraus',
+    'alert.poi': '{label} in {distanceText} {direction}'
+  },
+  terms: {
+    object: {
+      'car': { one: 'Auto', other: 'Autos' },
+      'truck': { one: 'Lkw', other: 'Lkw' },
+      'bus': { one: 'Bus', other: 'Busse' },
+      'person': { one: 'Person', other: 'Personen' },
+      'pedestrian': { one: 'Fußgänger', other: 'Fußgänger' },
+      'bicycle': { one: 'Fahrrad', other: 'Fahrräder' },
+      'motorcycle': { one: 'Motorrad', other: 'Motorräder' },
+      'traffic light': { one: 'Ampel', other: 'Ampeln' },
+      'vehicle': { one: 'Fahrzeug', other: 'Fahrzeuge' }
+    },
+    side: {
+      'left': 'links',
+      'right': 'rechts'
+    },
+    laneDirection: {
+      'left': 'links',
+      'right': 'rechts',
+      'center': 'mittig'
+    },
+    poiDirection: {
+      'ahead': 'geradeaus',
+      'left': 'links',
+      'right': 'rechts'
+    },
+    poi: {
+      'hospital': 'Krankenhaus',
+      'gas': 'Tankstelle',
+      'gas station': 'Tankstelle'
+    },
+    light: {
+      'red': 'Rote Ampel',
+      'amber': 'Gelbe Ampel',
+      'green': 'Grüne Ampel'
+    },
+    sign: {
+      'end_speed_limit_80': 'Ende Tempolimit 80',
+      'end_all_limits': 'Ende aller Streckenverbote',
+      'stop': 'Stopp',
+      'yield': 'Vorfahrt gewähren',
+      'no_entry': 'Einfahrt verboten',
+      'no_vehicles': 'Verbot für Fahrzeuge aller Art',
+      'no_trucks': 'Verbot für Lkw über 3,5 Tonnen',
+      'no_overtaking': 'Überholverbot',
+      'no_overtaking_trucks': 'Überholverbot für Lkw',
+      'end_no_overtaking': 'Ende des Überholverbots',
+      'end_no_overtaking_trucks': 'Ende des Überholverbots für Lkw',
+      'no_left_turn': 'Linksabbiegen verboten',
+      'no_right_turn': 'Rechtsabbiegen verboten',
+      'no_u_turn': 'Wenden verboten',
+      'no_parking': 'Parkverbot',
+      'priority_road': 'Vorfahrtstraße',
+      'right_of_way': 'Vorfahrt an der nächsten Kreuzung',
+      'general_caution': 'Gefahrstelle',
+      'curve_left': 'Linkskurve',
+      'curve_right': 'Rechtskurve',
+      'double_curve': 'Doppelkurve',
+      'bumpy_road': 'Unebene Fahrbahn',
+      'slippery_road': 'Schleudergefahr',
+      'road_narrows': 'Verengte Fahrbahn',
+      'road_work': 'Baustelle',
+      'traffic_signals': 'Lichtzeichenanlage',
+      'pedestrians': 'Fußgänger',
+      'children_crossing': 'Kinder',
+      'school_zone': 'Schulbereich',
+      'bicycles_crossing': 'Radverkehr',
+      'ice_snow': 'Schnee- oder Eisglätte',
+      'wild_animals': 'Wildwechsel',
+      'turn_right_ahead': 'Vorgeschriebene Fahrtrichtung rechts',
+      'turn_left_ahead': 'Vorgeschriebene Fahrtrichtung links',
+      'ahead_only': 'Vorgeschriebene Fahrtrichtung geradeaus',
+      'straight_or_right': 'Geradeaus oder rechts',
+      'straight_or_left': 'Geradeaus oder links',
+      'keep_right': 'Rechts vorbei',
+      'keep_left': 'Links vorbei',
+      'roundabout': 'Kreisverkehr',
+      'pedestrian_crossing': 'Fußgängerüberweg',
+      'one_way': 'Einbahnstraße',
+      'parking': 'Parken'
+    }
+  }
+};
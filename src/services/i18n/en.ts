@@ -0,0 +1,56 @@
+// English voice messages; the other catalogs fall back to these terms
+import { MessageCatalog } from '@/types/i18n';
+
+export const en: MessageCatalog = {
+  messages: {
+    'system.ready': 'Detection system ready',
+    'system.detectionOn': 'Detection activated',
+    'system.detectionOff': 'Detection deactivated',
+    'emergency.recording': 'Emergency mode activated. Recording collision risk.',
+    'emergency.locating': 'Emergency mode activated. Locating nearest hospital.',
+    'emergency.complete': 'Emergency response complete. Nearest hospital: {name}, {distance} ahead.',
+    'emergency.critical': 'Critical emergency',
+    'emergency.typed': '{type} emergency',
+    'navigation.instruction': 'In {distance}, {instruction}',
+    'collision.brake': 'Brake! {type} ahead!',
+    'collision.warning': 'Collision warning. {type} ahead',
+    'collision.advisory': 'Keep a safe distance',
+    'light.redAhead': 'Red light ahead. Slow down',
+    'light.turnedGreen': 'Light turned green',
+    'sign.speedLimit': 'Speed limit {limit}',
+    'alert.pedestrian': {
+      one: 'Caution. Pedestrian detected ahead',
+      other: 'Caution. {count} pedestrians detected ahead'
+    },
+    'alert.laneDeparture': 'Lane departure {direction}',
+    'alert.sideVehicle': '{type} on your {side}',
+    'alert.closeVehicle': '{type} close behind',
+    'alert.trafficAhead': 'Multiple {types} ahead',
+    'alert.trafficSign': '{label} ahead',
+    'alert.poi': '{label} {distanceText} {direction}'
+  },
+  // Sign names come from the sign taxonomy, and sides and directions are spoken as detected
+  terms: {
+    object: {
+      'car': { one: 'car', other: 'cars' },
+      'truck': { one: 'truck', other: 'trucks' },
+      'bus': { one: 'bus', other: 'buses' },
+      'person': { one: 'person', other: 'people' },
+      'pedestrian': { one: 'pedestrian', other: 'pedestrians' },
+      'bicycle': { one: 'bicycle', other: 'bicycles' },
+      'motorcycle': { one: 'motorcycle', other: 'motorcycles' },
+      'traffic light': { one: 'traffic light', other: 'traffic lights' },
+      'vehicle': { one: 'vehicle', other: 'vehicles' }
+    },
+    poi: {
+      'hospital': 'Hospital',
+      'gas': 'Gas station',
+      'gas station': 'Gas station'
+    },
+    light: {
+      'red': 'Red light',
+      'amber': 'Amber light',
+      'green': 'Green light'
+    }
+  }
+};
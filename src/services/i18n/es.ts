@@ -0,0 +1,114 @@
+// Spanish voice messages
+import { MessageCatalog } from '@/types/i18n';
+
+export const es: MessageCatalog = {
+  messages: {
+    'system.ready': 'Sistema de detección listo',
+    'system.detectionOn': 'Detección activada',
+    'system.detectionOff': 'Detección desactivada',
+    'emergency.recording': 'Modo de emergencia activado. Registrando riesgo de colisión.',
+    'emergency.locating': 'Modo de emergencia activado. Buscando el hospital más cercano.',
+    'emergency.complete': 'Respuesta de emergencia completada. Hospital más cercano: {name}, a {distance} adelante.',
+    'emergency.critical': 'Emergencia crítica',
+    'emergency.typed': 'Emergencia: {type}',
+    'navigation.instruction': 'En {distance}, {instruction}',
+    'collision.brake': '¡Frene! ¡{type} delante!',
+    'collision.warning': 'Aviso de colisión. {type} delante',
+    'collision.advisory': 'Mantenga la distancia de seguridad',
+    'light.redAhead': 'Semáforo en rojo delante. Reduzca la velocidad',
+    'light.turnedGreen': 'El semáforo se ha puesto en verde',
+    'sign.speedLimit': 'Límite de velocidad {limit}',
+    'alert.pedestrian': {
+      one: 'Precaución. Peatón detectado delante',
+      other: 'Precaución. {count} peatones detectados delante'
+    },
+    'alert.laneDeparture': 'Salida de carril por la {direction}',
+    'alert.sideVehicle': '{type} a su {side}',
+    'alert.closeVehicle': '{type} muy cerca detrás',
+    'alert.trafficAhead': 'Varios {types} delante',
+    'alert.trafficSign': '{label} más adelante',
+    'alert.poi': '{label} a {distanceText} {direction}'
+  },
+  terms: {
+    object: {
+      'car': { one: 'coche', other: 'coches' },
+      'truck': { one: 'camión', other: 'camiones' },
+      'bus': { one: 'autobús', other: 'autobuses' },
+      'person': { one: 'persona', other: 'personas' },
+      'pedestrian': { one: 'peatón', other: 'peatones' },
+      'bicycle': { one: 'bicicleta', other: 'bicicletas' },
+      'motorcycle': { one: 'moto', other: 'motos' },
+      'traffic light': { one: 'semáforo', other: 'semáforos' },
+      'vehicle': { one: 'vehículo', other: 'vehículos' }
+    },
+    side: {
+      'left': 'izquierda',
+      'right': 'derecha'
+    },
+    laneDirection: {
+      'left': 'izquierda',
+      'right': 'derecha',
+      'center': 'centro'
+    },
+    poiDirection: {
+      'ahead': 'adelante',
+      'left': 'a la izquierda',
+      'right': 'a la derecha'
+    },
+    poi: {
+      'hospital': 'Hospital',
+      'gas': 'Gasolinera',
+      'gas station': 'Gasolinera'
+    },
+    light: {
+      'red': 'Semáforo en rojo',
+      'amber': 'Semáforo en ámbar',
+      'green': 'Semáforo en verde'
+    },
+    sign: {
+      'end_speed_limit_80': 'Fin de limitación de velocidad 80',
+      'end_all_limits': 'Fin de prohibiciones',
+      'stop': 'Stop',
+      'yield': 'Ceda el paso',
+      'no_entry': 'Dirección prohibida',
+      'no_vehicles': 'Circulación prohibida',
+      'no_trucks': 'Prohibido camiones de más de 3,5 toneladas',
+      'no_overtaking': 'Adelantamiento prohibido',
+      'no_overtaking_trucks': 'Adelantamiento prohibido para camiones',
+      'end_no_overtaking': 'Fin de prohibición de adelantar',
+      'end_no_overtaking_trucks': 'Fin de prohibición de adelantar para camiones',
+      'no_left_turn': 'Giro a la izquierda prohibido',
+      'no_right_turn': 'Giro a la derecha prohibido',
+      'no_u_turn': 'Cambio de sentido prohibido',
+      'no_parking': 'Estacionamiento prohibido',
+      'priority_road': 'Calzada con prioridad',
+      'right_of_way': 'Intersección con prioridad',
+      'general_caution': 'Peligro',
+      'curve_left': 'Curva a la izquierda',
+      'curve_right': 'Curva a la derecha',
+      'double_curve': 'Curvas peligrosas',
+      'bumpy_road': 'Perfil irregular',
+      'slippery_road': 'Pavimento deslizante',
+      'road_narrows': 'Estrechamiento de calzada',
+      'road_work': 'Obras',
+      'traffic_signals': 'Semáforos',
+      'pedestrians': 'Peatones',
+      'children_crossing': 'Niños',
+      'school_zone': 'Zona escolar',
+      'bicycles_crossing': 'Ciclistas',
+      'ice_snow': 'Hielo o nieve',
+      'wild_animals': 'Paso de animales en libertad',
+      'turn_right_ahead': 'Giro obligatorio a la derecha',
+      'turn_left_ahead': 'Giro obligatorio a la izquierda',
+      'ahead_only': 'Sentido obligatorio recto',
+      'straight_or_right': 'Recto o derecha',
+      'straight_or_left': 'Recto o izquierda',
+      'keep_right': 'Paso obligatorio por la derecha',
+      'keep_left': 'Paso obligatorio por la izquierda',
+      'roundabout': 'Glorieta',
+      'pedestrian_crossing': 'Paso de peatones',
+      'one_way': 'Sentido único',
+      'parking': 'Estacionamiento'
+    }
+  }
+};
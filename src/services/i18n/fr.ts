@@ -0,0 +1,114 @@
+// French voice messages
+import { MessageCatalog } from '@/types/i18n';
+
+export const fr: MessageCatalog = {
+  messages: {
+    'system.ready': 'Système de détection prêt',
+    'system.detectionOn': 'Détection activée',
+    'system.detectionOff': 'Détection désactivée',
+    'emergency.recording': 'Mode urgence activé. Enregistrement du risque de collision.',
+    'emergency.locating': "Mode urgence activé. Recherche de l'hôpital le plus proche.",
+    'emergency.complete': "Intervention d'urgence terminée. Hôpital le plus proche : {name}, à {distance} devant.",
+    'emergency.critical': 'Urgence critique',
+    'emergency.typed': 'Urgence : {type}',
+    'navigation.instruction': 'Dans {distance}, {instruction}',
+    'collision.brake': 'Freinez ! {type} devant !',
+    'collision.warning': 'Alerte collision. {type} devant',
+    'collision.advisory': 'Gardez une distance de sécurité',
+    'light.redAhead': 'Feu rouge devant. Ralentissez',
+    'light.turnedGreen': 'Le feu est passé au vert',
+    'sign.speedLimit': 'Limitation à {limit}',
+    'alert.pedestrian': {
+      one: 'Attention. Piéton détecté devant',
+      other: 'Attention. {count} piétons détectés devant'
+    },
+    'alert.laneDeparture': 'Sortie de voie à {direction}',
+    'alert.sideVehicle': '{type} sur votre {side}',
+    'alert.closeVehicle': '{type} juste derrière',
+    'alert.trafficAhead': 'Plusieurs {types} devant',
+    'alert.trafficSign': '{label} à venir',
+    'alert.poi': '{label} à {distanceText} {direction}'
+  },
+  terms: {
+    object: {
+      'car': { one: 'voiture', other: 'voitures' },
+      'truck': { one: 'camion', other: 'camions' },
+      'bus': { one: 'bus', other: 'bus' },
+      'person': { one: 'personne', other: 'personnes' },
+      'pedestrian': { one: 'piéton', other: 'piétons' },
+      'bicycle': { one: 'vélo', other: 'vélos' },
+      'motorcycle': { one: 'moto', other: 'motos' },
+      'traffic light': { one: 'feu', other: 'feux' },
+      'vehicle': { one: 'véhicule', other: 'véhicules' }
+    },
+    side: {
+      'left': 'gauche',
+      'right': 'droite'
+    },
+    laneDirection: {
+      'left': 'gauche',
+      'right': 'droite',
+      'center': 'centre'
+    },
+    poiDirection: {
+      'ahead': 'tout droit',
+      'left': 'à gauche',
+      'right': 'à droite'
+    },
+    poi: {
+      'hospital': 'Hôpital',
+      'gas': 'Station-service',
+      'gas station': 'Station-service'
+    },
+    light: {
+      'red': 'Feu rouge',
+      'amber': 'Feu orange',
+      'green': 'Feu vert'
+    },
+    sign: {
+      'end_speed_limit_80': 'Fin de limitation à 80',
+      'end_all_limits': 'Fin de toutes les interdictions',
+      'stop': 'Stop',
+      'yield': 'Cédez le passage',
+      'no_entry': 'Sens interdit',
+      'no_vehicles': 'Circulation interdite',
+      'no_trucks': 'Interdit aux camions de plus de 3,5 tonnes',
+      'no_overtaking': 'Interdiction de dépasser',
+      'no_overtaking_trucks': 'Interdiction de dépasser pour les camions',
+      'end_no_overtaking': "Fin d'interdiction de dépasser",
+      'end_no_overtaking_trucks': "Fin d'interdiction de dépasser pour les camions",
+      'no_left_turn': 'Interdiction de tourner à gauche',
+      'no_right_turn': 'Interdiction de tourner à droite',
+      'no_u_turn': 'Demi-tour interdit',
+      'no_parking': 'Stationnement interdit',
+      'priority_road': 'Route prioritaire',
+      'right_of_way': 'Priorité à la prochaine intersection',
+      'general_caution': 'Danger',
+      'curve_left': 'Virage à gauche',
+      'curve_right': 'Virage à droite',
+      'double_curve': 'Double virage',
+      'bumpy_road': 'Chaussée déformée',
+      'slippery_road': 'Chaussée glissante',
+      'road_narrows': 'Chaussée rétrécie',
+      'road_work': 'Travaux',
+      'traffic_signals': 'Feux tricolores',
+      'pedestrians': 'Piétons',
+      'children_crossing': 'Enfants',
+      'school_zone': 'Zone scolaire',
+      'bicycles_crossing': 'Débouché de cyclistes',
+      'ice_snow': 'Risque de verglas',
+      'wild_animals': "Passage d'animaux sauvages",
+      'turn_right_ahead': 'Obligation de tourner à droite',
+      'turn_left_ahead': 'Obligation de tourner à gauche',
+      'ahead_only': "Obligation d'aller tout droit",
+      'straight_or_right': 'Tout droit ou à droite',
+      'straight_or_left': 'Tout droit ou à gauche',
+      'keep_right': 'Contournement par la droite',
+      'keep_left': 'Contournement par la gauche',
+      'roundabout': 'Carrefour giratoire',
+      'pedestrian_crossing': 'Passage piéton',
+      'one_way': 'Sens unique',
+      'parking': 'Parking'
+    }
+  }
+};
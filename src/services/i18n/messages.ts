@@ -0,0 +1,93 @@
+// Message lookup, pluralization and unit formatting for spoken alerts
+import { CatalogMessage, MessageCatalog, MessageKey, TermGroup, VoiceLanguage } from '@/types/i18n';
+import type { SignClass } from '../detection/signTaxonomy';
+import { en } from './en';
+import { de } from './de';
+import { fr } from './fr';
+import { es } from './es';
+
+export const VOICE_LANGUAGES: Record<VoiceLanguage, { label: string, locale: string }> = {
+  en: { label: 'English', locale: 'en-US' },
+  de: { label: 'Deutsch', locale: 'de-DE' },
+  fr: { label: 'Français', locale: 'fr-FR' },
+  es: { label: 'Español', locale: 'es-ES' }
+};
+
+const CATALOGS: Record<VoiceLanguage, MessageCatalog> = { en, de, fr, es };
+
+export const isMessageKey = (key: string): key is MessageKey => key in en.messages;
+
+export const isVoiceLanguage = (value: string): value is VoiceLanguage => value in CATALOGS;
+
+/**
+ * Fill {placeholders} in a template; unknown ones are left as written
+ */
+export const interpolate = (template: string, variables: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in variables ? String(variables[name]) : placeholder
+  );
+
+/**
+ * Pick the form of a message for a count, by the language's plural rules
+ */
+const selectForm = (message: CatalogMessage, language: VoiceLanguage, count: number) => {
+  if (typeof message === 'string') return message;
+  const category = new Intl.PluralRules(VOICE_LANGUAGES[language].locale).select(count);
+  return message[category] ?? message.other;
+};
+
+/**
+ * Render a catalog message; plural messages choose their form by the count variable
+ */
+export const formatMessage = (language: VoiceLanguage, key: MessageKey, variables: Record<string, string | number> = {}) => {
+  const count = typeof variables.count === 'number' ? variables.count : 1;
+  return interpolate(selectForm(CATALOGS[language].messages[key], language, count), variables);
+};
+
+/**
+ * Translate a value filled into a message, e.g. the object class "car"
+ * Falls back to the English term, then to the value itself
+ */
+export const translateTerm = (language: VoiceLanguage, group: TermGroup, value: string, count = 1) => {
+  const key = value.toLowerCase();
+  const term = CATALOGS[language].terms[group]?.[key] ?? en.terms[group]?.[key];
+  return term === undefined ? value : selectForm(term, language, count);
+};
+
+/**
+ * Spoken name of a traffic sign; English names come from the sign taxonomy
+ */
+export const translateSign = (language: VoiceLanguage, sign: SignClass) => {
+  const term = CATALOGS[language].terms.sign?.[sign.id];
+  if (term !== undefined) return selectForm(term, language, 1);
+  return sign.speedLimit ? formatMessage(language, 'sign.speedLimit', { limit: sign.speedLimit }) : sign.label;
+};
+
+/**
+ * A number with its unit written out, e.g. "1.2 kilometers" or "1,2 Kilometer"
+ */
+export const formatUnit = (language: VoiceLanguage, value: number, unit: 'meter' | 'kilometer' | 'mile', fractionDigits = 0) =>
+  new Intl.NumberFormat(VOICE_LANGUAGES[language].locale, {
+    style: 'unit',
+    unit,
+    unitDisplay: 'long',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value);
+
+/**
+ * A distance in meters below a kilometer, otherwise in kilometers to one decimal
+ */
+export const formatDistance = (language: VoiceLanguage, meters: number) =>
+  meters < 1000
+    ? formatUnit(language, Math.round(meters), 'meter')
+    : formatUnit(language, meters / 1000, 'kilometer', 1);
+
+/**
+ * A number with the language's decimal separator
+ */
+export const formatNumber = (language: VoiceLanguage, value: number, fractionDigits = 0) =>
+  new Intl.NumberFormat(VOICE_LANGUAGES[language].locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value);
@@ -9,8 +9,17 @@ import {
   WeatherInfo,
   CO2Savings,
   EmergencyTrigger,
-  EmergencyLevel
+  EmergencyLevel,
+  LaneLineStyle
 } from '../types/navigation';
+import SimulationService from './SimulationService';
+
+// Each kind of mock data has its own stream so seeded sessions replay exactly
+const objectsRandom = SimulationService.stream('objects');
+const lanesRandom = SimulationService.stream('lanes');
+const emergencyRandom = SimulationService.stream('emergency');
+const weatherRandom = SimulationService.stream('weather');
+const driveRandom = SimulationService.stream('drive');
 
 // Mock data - replace with real data from APIs or other sources
 export const mockRoute = (): Route => ({
@@ -46,30 +55,37 @@ export const mockDetectedObjects = (): DetectedObject[] => {
   ];
   
   // Generate a random number of objects to detect (2-7 objects)
-  const numObjectsToDetect = Math.floor(Math.random() * 5) + 2;
+  const numObjectsToDetect = objectsRandom.int(2, 6);
   
   // Select random objects from the list
   const selectedObjects = new Set<string>();
   while (selectedObjects.size < numObjectsToDetect) {
-    const randomIndex = Math.floor(Math.random() * commonObjectTypes.length);
-    selectedObjects.add(commonObjectTypes[randomIndex]);
+    selectedObjects.add(objectsRandom.pick(commonObjectTypes));
   }
   
   // Convert selected objects to DetectedObject array with random counts
   return Array.from(selectedObjects).map(type => ({
     type,
-    count: Math.floor(Math.random() * 4) + 1 // Random count between 1 and 4
+    count: objectsRandom.int(1, 4) // Random count between 1 and 4
   }));
 };
 
 export const mockLaneOffset = (): LaneOffset => {
   const directions = ["Left", "Center", "Right", "Unknown"];
-  const randomValue = (Math.random() * 1.5) - 0.75; // Random value between -0.75 and 0.75
-  const randomDirection = directions[Math.floor(Math.random() * directions.length)] as LaneOffset["direction"];
+  const randomValue = lanesRandom.range(-0.75, 0.75); // Random value between -0.75 and 0.75
+  const randomDirection = lanesRandom.pick(directions) as LaneOffset["direction"];
+
+  const curveRadius = lanesRandom.chance(0.5) ? lanesRandom.range(200, 1000) : null;
+  const lineStyles: LaneLineStyle[] = ["solid", "dashed", "double"];
 
   return {
     value: randomValue,
-    direction: randomDirection
+    direction: randomDirection,
+    curveRadius,
+    curveDirection: curveRadius === null ? "Straight" : lanesRandom.chance(0.5) ? "Right" : "Left",
+    heading: lanesRandom.range(-2, 2),
+    leftLine: { style: lanesRandom.pick(lineStyles), color: "yellow" },
+    rightLine: { style: "dashed", color: "white" }
   };
 };
 
@@ -77,9 +93,9 @@ export const mockEmergencyStatus = (): EmergencyStatus => {
   const levels: EmergencyLevel[] = ["none", "warning", "critical"];
   const types = ["Accident", "Obstruction", "Medical"];
   
-  const active = Math.random() > 0.5;
-  const level = active ? levels[Math.floor(Math.random() * levels.length)] : "none";
-  const type = active && level !== "none" ? types[Math.floor(Math.random() * types.length)] : null;
+  const active = emergencyRandom.chance(0.5);
+  const level = active ? emergencyRandom.pick(levels) : "none";
+  const type = active && level !== "none" ? emergencyRandom.pick(types) : null;
   
   const triggers = active && level !== "none" ? [{
     type: "Speed",
@@ -92,24 +108,24 @@ export const mockEmergencyStatus = (): EmergencyStatus => {
     level,
     type,
     triggers,
-    duration: active ? Math.floor(Math.random() * 60) : 0,
+    duration: active ? emergencyRandom.int(0, 59) : 0,
     response: active && level === "critical" ? "Initiating emergency call" : undefined,
     action: active && level === "critical" ? "Slowing down vehicle" : undefined,
-    initiate_call: active && level === "critical" ? Math.random() > 0.5 : undefined
+    initiate_call: active && level === "critical" ? emergencyRandom.chance(0.5) : undefined
   };
 };
 
 export const mockWeatherInfo = (): WeatherInfo => ({
-  temperature: Math.floor(Math.random() * 30), // Random temperature between 0 and 30
-  condition: ['Sunny', 'Cloudy', 'Rainy'][Math.floor(Math.random() * 3)],
+  temperature: weatherRandom.int(0, 29), // Random temperature between 0 and 30
+  condition: weatherRandom.pick(['Sunny', 'Cloudy', 'Rainy']),
   icon: 'weather-sunny',
-  humidity: Math.floor(Math.random() * 100),
-  wind: Math.floor(Math.random() * 50)
+  humidity: weatherRandom.int(0, 99),
+  wind: weatherRandom.int(0, 49)
 });
 
 export const mockCO2Savings = (): CO2Savings => ({
-  totalKg: Math.random() * 100,
-  treesEquivalent: Math.random() * 5
+  totalKg: driveRandom.range(0, 100),
+  treesEquivalent: driveRandom.range(0, 5)
 });
 
 export const mockCurrentLocation = (): Location => ({
@@ -128,8 +144,14 @@ export const getUpdatedLocation = (currentLocation: Location | null): Location =
   }
   
   // Simulate movement by small random adjustments
-  const lat = currentLocation.lat + (Math.random() - 0.5) * 0.0005;
-  const lon = currentLocation.lon + (Math.random() - 0.5) * 0.0005;
+  const lat = currentLocation.lat + driveRandom.range(-0.5, 0.5) * 0.0005;
+  const lon = currentLocation.lon + driveRandom.range(-0.5, 0.5) * 0.0005;
   
   return { lat, lon };
 };
+
+export const getUpdatedSpeed = (currentSpeed: number): number => {
+  // Drift the speed a little each update, staying within urban/highway range
+  const change = driveRandom.range(-3, 3);
+  return Math.max(20, Math.min(110, currentSpeed + change));
+};
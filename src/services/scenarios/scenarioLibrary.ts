@@ -0,0 +1,21 @@
+// Built-in scenarios, bundled from the YAML files in ./library
+import { Scenario } from '@/types/scenario';
+import { parseScenarioText } from './scenarioSchema';
+
+const sources = import.meta.glob('./library/*.{yaml,yml,json}', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+}) as Record<string, string>;
+
+// A broken built-in is logged and left out rather than taking the app down
+export const BUILT_IN_SCENARIOS: Scenario[] = Object.keys(sources)
+  .sort()
+  .flatMap(path => {
+    try {
+      return [parseScenarioText(sources[path], path)];
+    } catch (err) {
+      console.error(`Skipping built-in scenario ${path}:`, err);
+      return [];
+    }
+  });
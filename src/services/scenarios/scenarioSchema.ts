@@ -0,0 +1,163 @@
+// Validation for scenario files, written in JSON or YAML
+import { z } from 'zod';
+import { parse as parseYaml, YAMLError } from 'yaml';
+import { Scenario } from '@/types/scenario';
+import { parseWith } from '../detection/frameResultSchema';
+
+const finite = z.number().finite();
+const time = finite.nonnegative();
+
+const actorPropsSchema = z.object({
+  class: z.string().min(1),
+  distance: finite.positive(),
+  lateral: finite,
+  closingSpeed: finite,
+  lateralSpeed: finite,
+  confidence: finite.min(0).max(1),
+  emergency: z.boolean(),
+  lightState: z.enum(['red', 'amber', 'green', 'unknown']),
+  signClass: z.string().min(1)
+}).partial();
+
+const spawnEventSchema = actorPropsSchema.extend({
+  at: time,
+  type: z.literal('spawn'),
+  actor: z.string().min(1),
+  class: z.string().min(1),
+  distance: finite.positive()
+}).strict();
+
+const updateEventSchema = actorPropsSchema.extend({
+  at: time,
+  type: z.literal('update'),
+  actor: z.string().min(1)
+}).strict();
+
+const removeEventSchema = z.object({
+  at: time,
+  type: z.literal('remove'),
+  actor: z.string().min(1)
+}).strict();
+
+const laneEventSchema = z.object({
+  at: time,
+  type: z.literal('lane'),
+  offset: finite.min(-100).max(100),
+  rampTime: time.optional(),
+  curveRadius: finite.positive().nullable().optional(),
+  curveDirection: z.enum(['Left', 'Right']).optional()
+}).strict();
+
+const speedEventSchema = z.object({
+  at: time,
+  type: z.literal('speed'),
+  speed: finite.nonnegative()
+}).strict();
+
+const instructionEventSchema = z.object({
+  at: time,
+  type: z.literal('instruction'),
+  instruction: z.string().min(1),
+  name: z.string().optional(),
+  distance: finite.nonnegative()
+}).strict();
+
+const emergencyEventSchema = z.object({
+  at: time,
+  type: z.literal('emergency'),
+  level: z.enum(['none', 'warning', 'critical']),
+  kind: z.string().optional(),
+  details: z.string().optional(),
+  response: z.string().optional(),
+  initiateCall: z.boolean().optional()
+}).strict();
+
+const poiEventSchema = z.object({
+  at: time,
+  type: z.literal('poi'),
+  poiType: z.string().min(1),
+  name: z.string(),
+  distance: finite.nonnegative(),
+  direction: z.string().min(1),
+  duration: time.optional()
+}).strict();
+
+const weatherEventSchema = z.object({
+  at: time,
+  type: z.literal('weather'),
+  condition: z.string().min(1),
+  temperature: finite.optional()
+}).strict();
+
+const scenarioEventSchema = z.discriminatedUnion('type', [
+  spawnEventSchema,
+  updateEventSchema,
+  removeEventSchema,
+  laneEventSchema,
+  speedEventSchema,
+  instructionEventSchema,
+  emergencyEventSchema,
+  poiEventSchema,
+  weatherEventSchema
+]);
+
+export const scenarioSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'use lowercase letters, digits, - and _'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  duration: finite.positive(),
+  loop: z.boolean().default(false),
+  speed: finite.nonnegative().default(50),
+  events: z.array(scenarioEventSchema)
+}).strict();
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+/**
+ * Validate a parsed scenario and sort its events by time
+ * Throws ScenarioError when the shape doesn't match or an event refers to an unknown actor
+ */
+export const parseScenario = (value: unknown): Scenario => {
+  const scenario = parseWith<Scenario>(scenarioSchema, value, issues => new ScenarioError(`Invalid scenario: ${issues}`));
+
+  // Stable sort keeps same-time events in file order
+  const events = scenario.events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+    .map(({ event }) => event);
+
+  const actors = new Set<string>();
+  events.forEach(event => {
+    if (event.at > scenario.duration) {
+      throw new ScenarioError(`Event at ${event.at}s is after the end of the ${scenario.duration}s scenario`);
+    }
+    if (event.type === 'spawn') {
+      actors.add(event.actor);
+    } else if ((event.type === 'update' || event.type === 'remove') && !actors.has(event.actor)) {
+      throw new ScenarioError(`Event at ${event.at}s refers to actor "${event.actor}" before it is spawned`);
+    }
+  });
+
+  return { ...scenario, events };
+};
+
+/**
+ * Parse the text of a scenario file; JSON when the name ends in .json or the text starts with {,
+ * YAML otherwise
+ */
+export const parseScenarioText = (text: string, fileName = ''): Scenario => {
+  const json = /\.json$/i.test(fileName) || text.trimStart().startsWith('{');
+  let value: unknown;
+  try {
+    value = json ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    const message = err instanceof YAMLError || err instanceof SyntaxError ? err.message : String(err);
+    throw new ScenarioError(`Could not read ${fileName || 'scenario'}: ${message}`);
+  }
+  return parseScenario(value);
+};
@@ -0,0 +1,66 @@
+// Speech through the browser's SpeechSynthesis API
+import { SpeechBackend, SpeechRequest, SpeechVoice } from './SpeechBackend';
+
+class BrowserSpeechBackend implements SpeechBackend {
+  readonly id = 'browser';
+  readonly name = 'Browser speech';
+  private synthesis: SpeechSynthesis | null;
+
+  constructor(synthesis: SpeechSynthesis | null = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null) {
+    this.synthesis = synthesis;
+  }
+
+  isAvailable() {
+    return this.synthesis !== null;
+  }
+
+  speak(request: SpeechRequest): Promise<void> {
+    const synthesis = this.synthesis;
+    if (!synthesis) {
+      return Promise.reject(new Error('Speech synthesis is not available in this browser'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      utterance.lang = request.locale;
+      utterance.rate = request.rate;
+      utterance.volume = request.volume;
+
+      // Without the named voice the browser picks one by locale
+      const voice = request.voiceName ? synthesis.getVoices().find(candidate => candidate.name === request.voiceName) : null;
+      if (voice) {
+        utterance.voice = voice;
+      }
+
+      utterance.onend = () => resolve();
+      utterance.onerror = event => {
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          resolve();
+        } else {
+          reject(new Error(`Speech synthesis failed: ${event.error}`));
+        }
+      };
+      synthesis.speak(utterance);
+    });
+  }
+
+  cancel() {
+    this.synthesis?.cancel();
+  }
+
+  getVoices(): SpeechVoice[] {
+    return this.synthesis ? this.synthesis.getVoices().map(voice => ({ name: voice.name, locale: voice.lang })) : [];
+  }
+
+  /**
+   * Browsers load their voice list asynchronously and announce it with voiceschanged
+   */
+  onVoicesChanged(listener: () => void) {
+    const synthesis = this.synthesis;
+    if (!synthesis) return () => {};
+    synthesis.addEventListener('voiceschanged', listener);
+    return () => synthesis.removeEventListener('voiceschanged', listener);
+  }
+}
+
+export default BrowserSpeechBackend;
@@ -0,0 +1,77 @@
+// Silent speech backend that records what would have been said, with timestamps
+// Used where there is no audio output (tests, headless runs) and as the fallback when no other backend works
+import { SpeechBackend, SpeechRequest, SpeechVoice } from './SpeechBackend';
+
+export interface RecordedUtterance extends SpeechRequest {
+  startedAt: number; // clock time, ms
+  endedAt: number; // when speaking would have finished, or when it was cancelled
+}
+
+// Speaking pace used to estimate utterance length at rate 1
+const CHARACTERS_PER_SECOND = 14;
+
+class RecordingSpeechBackend implements SpeechBackend {
+  readonly id = 'silent';
+  readonly name = 'Silent (recording)';
+  private clock: () => number;
+  private realTime: boolean;
+  private utterances: RecordedUtterance[];
+  private pending: { utterance: RecordedUtterance, timer: ReturnType<typeof setTimeout>, resolve: () => void } | null;
+
+  /**
+   * @param clock Time source for the timestamps
+   * @param realTime Take as long as speaking would, instead of finishing at once
+   */
+  constructor(clock: () => number = Date.now, realTime = false) {
+    this.clock = clock;
+    this.realTime = realTime;
+    this.utterances = [];
+    this.pending = null;
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  speak(request: SpeechRequest): Promise<void> {
+    const startedAt = this.clock();
+    const duration = (request.text.length / CHARACTERS_PER_SECOND / Math.max(0.1, request.rate)) * 1000;
+    const utterance: RecordedUtterance = { ...request, startedAt, endedAt: startedAt + duration };
+    this.utterances.push(utterance);
+
+    if (!this.realTime) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        resolve();
+      }, duration);
+      this.pending = { utterance, timer, resolve };
+    });
+  }
+
+  cancel() {
+    if (!this.pending) return;
+    clearTimeout(this.pending.timer);
+    this.pending.utterance.endedAt = this.clock();
+    this.pending.resolve();
+    this.pending = null;
+  }
+
+  getVoices(): SpeechVoice[] {
+    return [];
+  }
+
+  /**
+   * Everything spoken so far, oldest first
+   */
+  getUtterances(): RecordedUtterance[] {
+    return [...this.utterances];
+  }
+
+  clear() {
+    this.utterances = [];
+  }
+}
+
+export default RecordingSpeechBackend;
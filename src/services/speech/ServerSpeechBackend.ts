@@ -0,0 +1,98 @@
+// Speech from a local text-to-speech server, e.g. Piper or Coqui TTS behind a small HTTP wrapper
+// The server receives a JSON POST of { text, locale, voice, rate } and answers with audio (WAV, MP3 or OGG)
+import { SpeechBackend, SpeechRequest, SpeechVoice } from './SpeechBackend';
+
+class ServerSpeechBackend implements SpeechBackend {
+  readonly id = 'server';
+  readonly name = 'Local TTS server';
+  private url: string;
+  private request: AbortController | null;
+  private audio: HTMLAudioElement | null;
+  private stopPlayback: (() => void) | null;
+
+  constructor(url = '') {
+    this.url = url;
+    this.request = null;
+    this.audio = null;
+    this.stopPlayback = null;
+  }
+
+  getUrl() {
+    return this.url;
+  }
+
+  setUrl(url: string) {
+    this.url = url.trim();
+  }
+
+  isAvailable() {
+    return this.url.length > 0 && typeof fetch === 'function' && typeof Audio !== 'undefined';
+  }
+
+  async speak(request: SpeechRequest): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('No TTS server URL is set');
+    }
+
+    this.cancel();
+    const controller = new AbortController();
+    this.request = controller;
+
+    let audioBlob: Blob;
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: request.text,
+          locale: request.locale,
+          voice: request.voiceName,
+          rate: request.rate
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`TTS server answered ${response.status} ${response.statusText}`);
+      }
+      audioBlob = await response.blob();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      throw err;
+    } finally {
+      if (this.request === controller) this.request = null;
+    }
+
+    const audioUrl = URL.createObjectURL(audioBlob);
+    try {
+      const audio = new Audio(audioUrl);
+      audio.volume = request.volume;
+      this.audio = audio;
+      await new Promise<void>((resolve, reject) => {
+        this.stopPlayback = resolve;
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('Could not play the TTS server audio'));
+        audio.play().catch(reject);
+      });
+    } finally {
+      this.audio = null;
+      this.stopPlayback = null;
+      URL.revokeObjectURL(audioUrl);
+    }
+  }
+
+  cancel() {
+    this.request?.abort();
+    this.request = null;
+    this.audio?.pause();
+    this.stopPlayback?.();
+  }
+
+  /**
+   * The server picks its voice from the locale, unless a voice name is configured there
+   */
+  getVoices(): SpeechVoice[] {
+    return [];
+  }
+}
+
+export default ServerSpeechBackend;
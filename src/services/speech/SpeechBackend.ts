@@ -0,0 +1,46 @@
+// Contract shared by every speech output backend
+// VoiceAlertService only talks to speech output through this interface
+
+export interface SpeechRequest {
+  text: string;
+  locale: string; // BCP 47 tag, e.g. "de-DE"
+  voiceName: string | null; // preferred voice, for backends that have named voices
+  rate: number; // 1 is normal speed
+  volume: number; // 0 to 1
+}
+
+// A named voice a backend can speak with
+export interface SpeechVoice {
+  name: string;
+  locale: string; // BCP 47 tag as the backend reports it, e.g. "de-DE" or "de_DE"
+}
+
+export interface SpeechBackend {
+  readonly id: string;
+  readonly name: string;
+
+  /**
+   * Whether the backend can speak in this environment, e.g. the browser has speech synthesis
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Speak one utterance, resolving when it has finished or was cancelled and rejecting when it failed
+   */
+  speak(request: SpeechRequest): Promise<void>;
+
+  /**
+   * Stop the utterance being spoken
+   */
+  cancel(): void;
+
+  /**
+   * Named voices installed for this backend; empty when it has none to choose from
+   */
+  getVoices(): SpeechVoice[];
+
+  /**
+   * Be told when the voice list changes, for backends that load it asynchronously; returns an unsubscribe function
+   */
+  onVoicesChanged?(listener: () => void): () => void;
+}
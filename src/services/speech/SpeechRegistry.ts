@@ -0,0 +1,141 @@
+// Registry of speech output backends
+// Keeps the preferred backend and falls back to the next available one, ending with the silent recorder
+// The preference and the TTS server URL are persisted in localStorage
+import { SpeechBackend } from './SpeechBackend';
+import BrowserSpeechBackend from './BrowserSpeechBackend';
+import ServerSpeechBackend from './ServerSpeechBackend';
+import RecordingSpeechBackend from './RecordingSpeechBackend';
+
+const STORAGE_KEY = 'speechOutput';
+
+export interface SpeechBackendInfo {
+  id: string;
+  name: string;
+  available: boolean;
+}
+
+export interface SpeechRegistryState {
+  preferredId: string;
+  activeId: string | null;
+  backends: SpeechBackendInfo[];
+  serverUrl: string;
+}
+
+type RegistryListener = (state: SpeechRegistryState) => void;
+
+class SpeechRegistry {
+  private backends: Map<string, SpeechBackend>;
+  private order: string[];
+  private preferredId: string;
+  private serverUrl: string;
+  private listeners: Set<RegistryListener>;
+
+  constructor() {
+    this.backends = new Map();
+    this.order = [];
+    this.preferredId = 'browser';
+    this.serverUrl = '';
+    this.listeners = new Set();
+    this.loadStoredSettings();
+  }
+
+  private loadStoredSettings() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (typeof parsed.preferredId === 'string') this.preferredId = parsed.preferredId;
+        if (typeof parsed.serverUrl === 'string') this.serverUrl = parsed.serverUrl;
+      }
+    } catch (err) {
+      console.error("Error reading stored speech output:", err);
+    }
+  }
+
+  /**
+   * Register a backend; registration order is the fallback order
+   */
+  register(backend: SpeechBackend) {
+    this.backends.set(backend.id, backend);
+    if (!this.order.includes(backend.id)) {
+      this.order.push(backend.id);
+    }
+    if (backend instanceof ServerSpeechBackend) {
+      backend.setUrl(this.serverUrl);
+    }
+    // Listeners choosing a voice need to know when one becomes available
+    backend.onVoicesChanged?.(() => this.notify());
+    this.notify();
+  }
+
+  /**
+   * The preferred backend when it can speak here, otherwise the first available one
+   */
+  getActive(): SpeechBackend | null {
+    const preferred = this.backends.get(this.preferredId);
+    if (preferred?.isAvailable()) return preferred;
+    const fallbackId = this.order.find(id => this.backends.get(id)?.isAvailable());
+    return fallbackId ? this.backends.get(fallbackId) ?? null : null;
+  }
+
+  getBackend(id: string) {
+    return this.backends.get(id) || null;
+  }
+
+  getState(): SpeechRegistryState {
+    return {
+      preferredId: this.preferredId,
+      activeId: this.getActive()?.id ?? null,
+      backends: this.order.map(id => {
+        const backend = this.backends.get(id) as SpeechBackend;
+        return { id, name: backend.name, available: backend.isAvailable() };
+      }),
+      serverUrl: this.serverUrl
+    };
+  }
+
+  select(id: string) {
+    this.preferredId = id;
+    this.save();
+  }
+
+  setServerUrl(url: string) {
+    this.serverUrl = url.trim();
+    this.backends.forEach(backend => {
+      if (backend instanceof ServerSpeechBackend) backend.setUrl(this.serverUrl);
+    });
+    this.save();
+  }
+
+  /**
+   * Subscribe to backend and setting changes, returns an unsubscribe function
+   */
+  subscribe(listener: RegistryListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ preferredId: this.preferredId, serverUrl: this.serverUrl }));
+    } catch (err) {
+      console.error("Error saving speech output:", err);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+const registry = new SpeechRegistry();
+registry.register(new BrowserSpeechBackend());
+registry.register(new ServerSpeechBackend());
+// Always available, so alerts keep their timing and history where nothing can be heard
+registry.register(new RecordingSpeechBackend());
+
+export default registry;
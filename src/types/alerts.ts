@@ -0,0 +1,65 @@
+// Declarative voice alert policy
+// Rules are evaluated in order against each frame result; the first rule that fires is spoken
+// and the rest wait for the next evaluation, so order is priority
+import type { MessageKey } from './i18n';
+
+// What a rule looks at: tracked objects, the lane estimate, or points of interest
+export type AlertTrigger = "object" | "lane" | "poi";
+
+export type AlertSeverity = "info" | "advisory" | "warning" | "critical";
+
+export type AlertOperator = "eq" | "neq" | "lt" | "lte" | "gt" | "gte" | "in" | "exists";
+
+export type AlertFieldValue = string | number | boolean;
+
+// One test on a field of the candidate, e.g. { field: "distance", op: "lt", value: 30 }
+export interface AlertCondition {
+  field: string;
+  op: AlertOperator;
+  value?: AlertFieldValue | AlertFieldValue[]; // a list for "in", unused for "exists"
+}
+
+// "subject" announces each object track, POI or lane direction once while it keeps matching
+export type AlertSuppressionMode = "none" | "subject";
+
+export interface AlertSuppression {
+  mode: AlertSuppressionMode;
+  forgetAfterMs: number; // a subject that stops matching for this long may be announced again
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AlertTrigger;
+  conditions: AlertCondition[]; // all must hold for a candidate to match
+  minCount: number; // matching candidates needed for the rule to fire
+  severity: AlertSeverity;
+  cooldownMs: number; // the rule stays quiet this long after firing
+  suppression: AlertSuppression;
+  message: string; // template, e.g. "{type} close ahead"; see ALERT_TEMPLATE_VARIABLES
+  messagePlural?: string; // used instead when more than one candidate matches
+  messageKey?: MessageKey; // catalog message spoken instead of the two above, in the voice language
+}
+
+export interface AlertPolicy {
+  version: 1;
+  rules: AlertRule[];
+}
+
+// How talkative alerts are; quiet mode on top of any profile keeps only critical alerts
+export type VerbosityProfileId = "minimal" | "standard" | "verbose" | "co-driver";
+
+export interface VerbosityProfile {
+  label: string;
+  description: string;
+  minSeverity: AlertSeverity; // alerts and toasts below this are dropped
+  cooldownScale: number; // multiplies alert type and rule cooldowns
+  everyPoi: boolean; // offer every nearby POI to the policy, not a random one now and then
+  speakAll: boolean; // speak alerts too whose severity is set to earcon only
+}
+
+export interface VerbosityState {
+  profile: VerbosityProfileId;
+  quiet: boolean;
+}
@@ -0,0 +1,109 @@
+// Detection pipeline result schema
+// Frame results are versioned so recordings and alternate backends can be checked before use;
+// bump FRAME_RESULT_VERSION in services/detection/frameResultSchema.ts on breaking changes
+import { CollisionAssessment, LaneLineType, ObjectRisk, SpeedLimit, TrafficLightState } from './navigation';
+
+export interface BoundingBox {
+  x: number; // left edge in frame pixels
+  y: number; // top edge in frame pixels
+  width: number;
+  height: number;
+}
+
+// Detected object as a backend emits it, before tracking
+export interface RawDetection {
+  type: string;
+  count: number;
+  confidence: number;
+  distance: number; // in meters, 0 when unknown
+  emergency: boolean;
+  boundingBox: BoundingBox;
+  lightState?: TrafficLightState; // traffic lights only; filled by the light classifier unless authored
+  signClass?: string; // traffic signs only; sign taxonomy id, filled by the sign classifier unless authored
+}
+
+// Detected object after tracking, as the detection service reports it
+export interface Detection extends RawDetection {
+  trackId: number;
+  age: number; // seconds since the track was created
+  hits: number; // frames the track was matched to a detection
+  confirmed: boolean; // matched often enough to be trusted
+  velocity: { x: number; y: number }; // box center velocity in pixels per second
+  risk?: ObjectRisk; // filled by the risk assessment once lanes are known
+}
+
+/**
+ * Lane line on the road plane: x = a·z² + b·z + c, in meters
+ * (x to the right of the camera, z ahead of it)
+ */
+export interface LanePolynomial {
+  coefficients: [number, number, number]; // [a, b, c]
+  minDistance: number; // nearest z the fit is supported by, in meters
+  maxDistance: number; // furthest z the fit is supported by, in meters
+  pointCount: number;
+}
+
+export interface LaneEstimate {
+  left: LanePolynomial | null;
+  right: LanePolynomial | null;
+  leftLineDetected: boolean; // measured in this frame, not carried over
+  rightLineDetected: boolean;
+  laneWidth: number; // in meters
+  curvature: number; // 1/m at the vehicle, positive when the road bends right
+  curveRadius: number | null; // in meters, null when the road is practically straight
+  heading: number; // car heading relative to the lane in degrees, positive when pointing right of it
+  leftLineType: LaneLineType;
+  rightLineType: LaneLineType;
+  offset: number; // distance from lane center in percent of lane width, positive when right of center
+  offsetMeters: number;
+  direction: "Left" | "Center" | "Right" | "Unknown";
+  confidence: number;
+}
+
+// Point of interest found near the route
+export interface PoiHit {
+  type: string; // e.g. "hospital", "gas"
+  name: string;
+  distance: number; // in meters
+  direction: string; // "ahead", "left" or "right"
+  confidence: number;
+}
+
+// Everything the detection service found in one frame
+export interface FrameResult {
+  version: 1;
+  timestamp: number; // in milliseconds since the epoch, on the simulation clock in seeded sessions
+  frameWidth: number; // in pixels; bounding boxes are relative to this frame
+  frameHeight: number;
+  backendId: string; // detector backend that produced the objects
+  objects: Detection[];
+  lanes: LaneEstimate;
+  pois: PoiHit[];
+  emergency: boolean;
+  collision: CollisionAssessment;
+  speedLimit: SpeedLimit | null;
+}
+
+// How detections are deduplicated and which are reported; persisted by DetectionFilterService
+export interface DetectionFilterSettings {
+  confidenceThreshold: number; // minimum confidence for classes without their own threshold
+  classThresholds: Record<string, number>; // by lowercase object type, e.g. "pothole"
+  nmsEnabled: boolean; // drop same-class boxes that overlap a more confident one
+  nmsIoU: number; // overlap (intersection over union) above which a box is a duplicate
+}
+
+// Region-of-interest masks drawn over the video
+// "ignore" drops detections (hood, sky, dashboard reflections), "corridor" is the ego lane ahead
+// that pedestrian and vehicle alerts are limited to, "side" zones get alerts for vehicles alongside
+export type RoiZoneKind = "ignore" | "corridor" | "side";
+
+export interface RoiPoint {
+  x: number; // fraction of frame width
+  y: number; // fraction of frame height
+}
+
+export interface RoiPolygon {
+  id: string;
+  kind: RoiZoneKind;
+  points: RoiPoint[]; // at least three, in drawing order
+}
@@ -0,0 +1,44 @@
+// Message catalogs for spoken alerts
+// Each language has a catalog of messages, keyed the same in every language, and of terms that
+// translate the values filled into them (object classes, sides, sign names)
+
+export type VoiceLanguage = "en" | "de" | "fr" | "es";
+
+// A message with one form per plural category of the language, chosen by the {count} variable;
+// "other" is required since every language has it
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type CatalogMessage = string | PluralMessage;
+
+export type MessageKey =
+  | "system.ready"
+  | "system.detectionOn"
+  | "system.detectionOff"
+  | "emergency.recording"
+  | "emergency.locating"
+  | "emergency.complete"
+  | "emergency.critical"
+  | "emergency.typed"
+  | "navigation.instruction"
+  | "collision.brake"
+  | "collision.warning"
+  | "collision.advisory"
+  | "light.redAhead"
+  | "light.turnedGreen"
+  | "sign.speedLimit"
+  | "alert.pedestrian"
+  | "alert.laneDeparture"
+  | "alert.sideVehicle"
+  | "alert.closeVehicle"
+  | "alert.trafficAhead"
+  | "alert.trafficSign"
+  | "alert.poi";
+
+// What a term translates: detector classes, left/right of the frame, lane departure and POI
+// directions, POI types, traffic light states and sign taxonomy ids
+export type TermGroup = "object" | "side" | "laneDirection" | "poiDirection" | "poi" | "light" | "sign";
+
+export interface MessageCatalog {
+  messages: Record<MessageKey, CatalogMessage>;
+  terms: Partial<Record<TermGroup, Record<string, CatalogMessage>>>; // keyed in lowercase; missing terms fall back to English
+}
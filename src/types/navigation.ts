@@ -1,3 +1,4 @@
+import type { BoundingBox } from './detection';
 
 export interface Location {
   lat: number;
@@ -27,11 +28,42 @@ export interface DetectedObject {
   type: string;
   count: number;
   confidence?: number; // Added confidence as an optional property
+  distance?: number; // Meters, when the detector estimated it
+  emergency?: boolean; // Emergency vehicle
+  boundingBox?: BoundingBox; // Frame pixels, for live detections
+  trackId?: number; // Stable id while the tracker follows the object
+  age?: number; // Seconds since the track was created
+  velocity?: { x: number; y: number }; // Pixels per second
+  lightState?: TrafficLightState; // Smoothed state, for traffic lights only
+  signClass?: string; // Sign taxonomy id, for traffic signs read with confidence
+  risk?: ObjectRisk; // From lane position, distance and motion, for live detections
 }
 
+export type TrafficLightState = "red" | "amber" | "green" | "unknown";
+
 export interface LaneOffset {
-  value: number;
+  value: number; // offset from lane center in percent of lane width, positive when right of center
   direction: "Left" | "Center" | "Right" | "Unknown";
+  curveRadius: number | null; // in meters, null on a straight
+  curveDirection: "Left" | "Right" | "Straight";
+  heading: number; // car heading relative to the lane in degrees, positive when pointing right of it
+  leftLine: LaneLineType;
+  rightLine: LaneLineType;
+}
+
+export type LaneLineStyle = "solid" | "dashed" | "double" | "unknown";
+export type LaneLineColor = "white" | "yellow" | "unknown";
+
+export interface LaneLineType {
+  style: LaneLineStyle;
+  color: LaneLineColor;
+}
+
+export interface CameraCalibration {
+  focalLength: number; // focal length in units of frame height (focal px / frame height px)
+  mountingHeight: number; // camera height above the road in meters
+  pitch: number; // downward tilt in degrees
+  horizon: number; // horizon line as a fraction of frame height from the top
 }
 
 export type EmergencyLevel = "none" | "warning" | "critical";
@@ -45,6 +77,7 @@ export interface EmergencyStatus {
   response?: string;
   action?: string;
   initiate_call?: boolean;
+  collision?: CollisionAssessment; // set when the status comes from forward collision warning
 }
 
 export interface EmergencyTrigger {
@@ -53,6 +86,38 @@ export interface EmergencyTrigger {
   details: string;
 }
 
+export type CollisionWarningLevel = "none" | "advisory" | "warning" | "brake";
+
+export interface CollisionAssessment {
+  level: CollisionWarningLevel;
+  trackId: number | null; // lead vehicle the warning is about
+  objectType: string | null;
+  distance: number | null; // in meters
+  closingSpeed: number | null; // in m/s, positive when the gap is shrinking
+  timeToCollision: number | null; // in seconds, null when not closing
+  headway: number | null; // time gap at current ego speed, in seconds
+  since: number; // timestamp when the current level was entered
+}
+
+export type RiskLevel = "high" | "medium" | "low";
+
+// Where an object stands relative to our lane
+export type LanePosition = "ego" | "adjacent" | "outside" | "unknown";
+
+export interface ObjectRisk {
+  score: number; // 0 (harmless) to 1
+  level: RiskLevel;
+  lane: LanePosition;
+  approaching: boolean; // moving sideways towards our lane
+}
+
+export interface SpeedLimit {
+  value: number; // in km/h
+  signId: string; // taxonomy id of the sign it was read from
+  confidence: number;
+  timestamp: number; // when the sign was read
+}
+
 export interface WeatherInfo {
   temperature: number; // in Celsius
   condition: string;
@@ -66,14 +131,6 @@ export interface CO2Savings {
   treesEquivalent: number;
 }
 
-export interface PointOfInterest {
-  type: string;
-  name: string;
-  distance: number;
-  direction: string;
-  confidence: number;
-}
-
 export interface NavigationState {
   isRouteSet: boolean;
   currentLocation: Location | null;
@@ -84,6 +141,8 @@ export interface NavigationState {
   detectedObjects: DetectedObject[];
   laneOffset: LaneOffset;
   emergencyStatus: EmergencyStatus;
+  currentSpeed: number; // ego speed in km/h
+  speedLimit: SpeedLimit | null; // from the most recent confidently read speed limit sign
   weather: WeatherInfo | null;
   co2Savings: CO2Savings;
 }
@@ -99,4 +158,5 @@ export interface NavigationContextType {
   updateLaneOffset: (laneOffset: LaneOffset) => void;
   updateCO2Savings: () => void;
   updateEmergencyStatus: (status: EmergencyStatus) => void;
+  updateSpeedLimit: (speedLimit: SpeedLimit | null) => void;
 }
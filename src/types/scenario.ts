@@ -0,0 +1,118 @@
+// Scripted driving scenarios
+// A scenario is a timeline of events replayed by the scenario service; times are seconds from its start
+import type { EmergencyLevel, TrafficLightState } from './navigation';
+
+// Properties of a scripted road user or roadside object
+export interface ScenarioActorProps {
+  class: string; // detector class, e.g. "Car", "Person", "Traffic Light"
+  distance: number; // ahead of the camera, in meters
+  lateral: number; // right of the camera, in meters (negative is left)
+  closingSpeed: number; // in m/s, positive when the gap is shrinking
+  lateralSpeed: number; // in m/s, positive when moving right
+  confidence: number;
+  emergency: boolean;
+  lightState?: TrafficLightState; // traffic lights only
+  signClass?: string; // traffic signs only, a sign taxonomy id
+}
+
+interface ScenarioEventBase {
+  at: number; // seconds from the start of the scenario
+}
+
+// Place an actor in the scene
+export interface SpawnEvent extends ScenarioEventBase, Partial<ScenarioActorProps> {
+  type: 'spawn';
+  actor: string;
+  class: string;
+  distance: number;
+}
+
+// Change an actor from where it is now, e.g. brake or start crossing
+export interface UpdateEvent extends ScenarioEventBase, Partial<ScenarioActorProps> {
+  type: 'update';
+  actor: string;
+}
+
+export interface RemoveEvent extends ScenarioEventBase {
+  type: 'remove';
+  actor: string;
+}
+
+// Move the car within its lane, optionally over a few seconds
+export interface LaneEvent extends ScenarioEventBase {
+  type: 'lane';
+  offset: number; // from lane center in percent of lane width, positive when right of center
+  rampTime?: number; // seconds to reach the offset, 0 when immediate
+  curveRadius?: number | null; // in meters, null or absent on a straight
+  curveDirection?: 'Left' | 'Right';
+}
+
+export interface SpeedEvent extends ScenarioEventBase {
+  type: 'speed';
+  speed: number; // ego speed in km/h
+}
+
+export interface InstructionEvent extends ScenarioEventBase {
+  type: 'instruction';
+  instruction: string;
+  name?: string;
+  distance: number; // to the maneuver, in meters
+}
+
+export interface EmergencyEvent extends ScenarioEventBase {
+  type: 'emergency';
+  level: EmergencyLevel; // "none" ends the emergency
+  kind?: string; // e.g. "Medical", "Obstruction"
+  details?: string;
+  response?: string;
+  initiateCall?: boolean;
+}
+
+export interface PoiEvent extends ScenarioEventBase {
+  type: 'poi';
+  poiType: string; // e.g. "hospital", "gas"
+  name: string;
+  distance: number; // in meters
+  direction: string; // "ahead", "left" or "right"
+  duration?: number; // seconds the POI stays reported, until the end when absent
+}
+
+export interface WeatherEvent extends ScenarioEventBase {
+  type: 'weather';
+  condition: string; // e.g. "Rainy", "Foggy"
+  temperature?: number; // in Celsius
+}
+
+export type ScenarioEvent =
+  | SpawnEvent
+  | UpdateEvent
+  | RemoveEvent
+  | LaneEvent
+  | SpeedEvent
+  | InstructionEvent
+  | EmergencyEvent
+  | PoiEvent
+  | WeatherEvent;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  duration: number; // in seconds
+  loop: boolean; // start over when the end is reached
+  speed: number; // ego speed at the start, in km/h
+  events: ScenarioEvent[]; // sorted by time
+}
+
+// Scripted actor as it is at the current playback time
+export interface ScenarioActor extends ScenarioActorProps {
+  id: string;
+}
+
+export type ScenarioStatus = 'idle' | 'playing' | 'finished';
+
+export interface ScenarioPlayback {
+  scenarioId: string | null;
+  status: ScenarioStatus;
+  duration: number; // in seconds
+}